@@ -17,8 +17,14 @@ const guideSidebar = [
       { text: 'Overview', link: '/cli/' },
       { text: 'Code Commands', link: '/cli/code' },
       { text: 'Job Commands', link: '/cli/jobs' },
+      { text: 'Impex Commands', link: '/cli/impex' },
       { text: 'Sites Commands', link: '/cli/sites' },
+      { text: 'User and Role Commands', link: '/cli/users' },
+      { text: 'OCAPI Config Commands', link: '/cli/ocapi-config' },
+      { text: 'Custom Objects Commands', link: '/cli/custom-objects' },
+      { text: 'Deploy Pipeline Commands', link: '/cli/deploy' },
       { text: 'WebDAV Commands', link: '/cli/webdav' },
+      { text: 'Logs Commands', link: '/cli/logs' },
       { text: 'ODS Commands', link: '/cli/ods' },
       { text: 'MRT Commands', link: '/cli/mrt' },
       { text: 'SLAS Commands', link: '/cli/slas' },
@@ -0,0 +1,51 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import {Flags} from '@oclif/core';
+import {OAuthCommand} from '@salesforce/b2c-tooling-sdk/cli';
+import {t} from '../../i18n/index.js';
+
+/**
+ * JSON output structure for the logout command
+ */
+interface LogoutJsonOutput {
+  removed: number;
+}
+
+export default class AuthLogout extends OAuthCommand<typeof AuthLogout> {
+  static description = t('commands.auth.logout.description', 'Remove cached OAuth tokens');
+
+  static enableJsonFlag = true;
+
+  static examples = [
+    '<%= config.bin %> <%= command.id %>',
+    '<%= config.bin %> <%= command.id %> --client-id my-client',
+    '<%= config.bin %> <%= command.id %> --all',
+  ];
+
+  static flags = {
+    ...OAuthCommand.baseFlags,
+    all: Flags.boolean({
+      description: 'Remove cached tokens of all clients',
+      default: false,
+    }),
+  };
+
+  async run(): Promise<LogoutJsonOutput> {
+    const tokenStore = this.persistentTokenStore;
+
+    if (!this.flags.all) {
+      this.requireOAuthCredentials();
+    }
+
+    const removed = this.flags.all
+      ? tokenStore.clear()
+      : tokenStore.clear({clientId: this.resolvedConfig.clientId, accountManagerHost: this.accountManagerHost});
+
+    this.log(t('commands.auth.logout.removed', 'Removed {{count}} cached token(s)', {count: removed}));
+
+    return {removed};
+  }
+}
@@ -0,0 +1,78 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import {ux} from '@oclif/core';
+import {OAuthCommand, createTable, type ColumnDef} from '@salesforce/b2c-tooling-sdk/cli';
+import {t} from '../../../i18n/index.js';
+
+/**
+ * Cached token as shown by the list command (the token itself is never printed)
+ */
+interface CachedTokenInfo {
+  clientId: string;
+  accountManagerHost: string;
+  scopes: string[];
+  expires: string;
+  expired: boolean;
+}
+
+interface TokensListResponse {
+  tokens: CachedTokenInfo[];
+}
+
+const COLUMNS: Record<string, ColumnDef<CachedTokenInfo>> = {
+  clientId: {
+    header: 'Client ID',
+    get: (tk) => tk.clientId,
+  },
+  accountManagerHost: {
+    header: 'Account Manager',
+    get: (tk) => tk.accountManagerHost,
+  },
+  scopes: {
+    header: 'Scopes',
+    get: (tk) => tk.scopes.join(' ') || '-',
+  },
+  expires: {
+    header: 'Expires',
+    get: (tk) => (tk.expired ? `${tk.expires} (expired)` : tk.expires),
+  },
+};
+
+const DEFAULT_COLUMNS = ['clientId', 'accountManagerHost', 'scopes', 'expires'];
+
+export default class AuthTokensList extends OAuthCommand<typeof AuthTokensList> {
+  static description = t('commands.auth.tokens.list.description', 'List cached OAuth tokens');
+
+  static enableJsonFlag = true;
+
+  static examples = ['<%= config.bin %> <%= command.id %>', '<%= config.bin %> <%= command.id %> --json'];
+
+  async run(): Promise<TokensListResponse> {
+    const now = Date.now();
+    const tokens = this.persistentTokenStore.list().map((stored) => ({
+      clientId: stored.clientId,
+      accountManagerHost: stored.accountManagerHost,
+      scopes: stored.requestedScopes,
+      expires: stored.expires.toISOString(),
+      expired: stored.expires.getTime() < now,
+    }));
+
+    const response: TokensListResponse = {tokens};
+
+    if (this.jsonEnabled()) {
+      return response;
+    }
+
+    if (tokens.length === 0) {
+      ux.stdout(t('commands.auth.tokens.list.noTokens', 'No cached tokens.'));
+      return response;
+    }
+
+    createTable(COLUMNS).render(tokens, DEFAULT_COLUMNS);
+
+    return response;
+  }
+}
@@ -0,0 +1,95 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import {Args, Flags} from '@oclif/core';
+import {InstanceCommand} from '@salesforce/b2c-tooling-sdk/cli';
+import {
+  cloneCodeVersion,
+  createCodeVersion,
+  type CloneCodeVersionResult,
+} from '@salesforce/b2c-tooling-sdk/operations/code';
+import {t} from '../../i18n/index.js';
+
+/**
+ * JSON output structure for the create command
+ */
+interface CodeCreateOutput {
+  id: string;
+  from?: string;
+}
+
+export default class CodeCreate extends InstanceCommand<typeof CodeCreate> {
+  static args = {
+    codeVersion: Args.string({
+      description: 'Code version ID to create',
+      required: true,
+    }),
+  };
+
+  static description = t(
+    'commands.code.create.description',
+    'Create a code version by cloning the active (or another) code version',
+  );
+
+  static enableJsonFlag = true;
+
+  static examples = [
+    '<%= config.bin %> <%= command.id %> release-42',
+    '<%= config.bin %> <%= command.id %> release-42 --from release-41',
+    '<%= config.bin %> <%= command.id %> scratch --empty',
+  ];
+
+  static flags = {
+    ...InstanceCommand.baseFlags,
+    from: Flags.string({
+      description: 'Code version to clone (default: active code version)',
+      exclusive: ['empty'],
+    }),
+    empty: Flags.boolean({
+      description: 'Create an empty code version instead of cloning',
+      default: false,
+    }),
+  };
+
+  async run(): Promise<CodeCreateOutput> {
+    this.requireOAuthCredentials();
+
+    const {codeVersion} = this.args;
+    const hostname = this.resolvedConfig.hostname!;
+
+    if (this.flags.empty) {
+      this.log(
+        t('commands.code.create.creating', 'Creating code version {{codeVersion}} on {{hostname}}...', {
+          codeVersion,
+          hostname,
+        }),
+      );
+      await createCodeVersion(this.instance, codeVersion);
+      this.log(t('commands.code.create.created', 'Code version {{codeVersion}} created', {codeVersion}));
+      return {id: codeVersion};
+    }
+
+    this.requireWebDavCredentials();
+
+    this.log(
+      t('commands.code.create.cloning', 'Cloning {{from}} to {{codeVersion}} on {{hostname}}...', {
+        from: this.flags.from ?? t('commands.code.create.activeVersion', 'active code version'),
+        codeVersion,
+        hostname,
+      }),
+    );
+
+    const result: CloneCodeVersionResult = await cloneCodeVersion(this.instance, codeVersion, {from: this.flags.from});
+
+    this.log(
+      t('commands.code.create.cloned', 'Code version {{codeVersion}} created from {{from}}', {
+        codeVersion: result.id,
+        from: result.from,
+      }),
+    );
+
+    return result;
+  }
+}
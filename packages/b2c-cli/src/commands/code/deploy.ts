@@ -3,12 +3,17 @@
  * SPDX-License-Identifier: Apache-2
  * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
  */
+import path from 'node:path';
 import {Flags} from '@oclif/core';
 import {
+  blueGreenDeploy,
   findAndDeployCartridges,
   getActiveCodeVersion,
+  type BlueGreenDeployResult,
   type DeployResult,
+  type SmokeCheckConfig,
 } from '@salesforce/b2c-tooling-sdk/operations/code';
+import {ensureCartridgesOnPath} from '@salesforce/b2c-tooling-sdk/operations/sites';
 import {CartridgeCommand} from '@salesforce/b2c-tooling-sdk/cli';
 import {t} from '../../i18n/index.js';
 
@@ -29,6 +34,11 @@ export default class CodeDeploy extends CartridgeCommand<typeof CodeDeploy> {
     '<%= config.bin %> <%= command.id %> --delete --reload',
     '<%= config.bin %> <%= command.id %> -c app_storefront_base -c plugin_applepay',
     '<%= config.bin %> <%= command.id %> -x test_cartridge',
+    '<%= config.bin %> <%= command.id %> --incremental',
+    '<%= config.bin %> <%= command.id %> --incremental --verify-remote',
+    '<%= config.bin %> <%= command.id %> --site RefArch --site RefArchGlobal',
+    '<%= config.bin %> <%= command.id %> --blue-green --smoke-url /s/RefArch/home',
+    '<%= config.bin %> <%= command.id %> --blue-green --clone --smoke-job SmokeTest',
   ];
 
   static flags = {
@@ -43,12 +53,56 @@ export default class CodeDeploy extends CartridgeCommand<typeof CodeDeploy> {
       description: 'Delete existing cartridges before upload',
       default: false,
     }),
+    incremental: Flags.boolean({
+      description: 'Only upload files changed since the last deploy (uses a local hash manifest)',
+      default: false,
+    }),
+    'verify-remote': Flags.boolean({
+      description: 'Verify the local hash manifest against files on the instance',
+      default: false,
+      dependsOn: ['incremental'],
+    }),
+    site: Flags.string({
+      description: 'Ensure the deployed cartridges are on the cartridge path of this site (can be repeated)',
+      multiple: true,
+      multipleNonGreedy: true,
+      delimiter: ',',
+    }),
+    'blue-green': Flags.boolean({
+      description:
+        'Deploy to a new code version (--code-version or a generated ID), activate it and re-activate the previous version if the smoke check fails',
+      default: false,
+      exclusive: ['delete', 'incremental', 'reload'],
+    }),
+    clone: Flags.boolean({
+      description: 'Start the new code version from a copy of the active one (blue/green only)',
+      default: false,
+      dependsOn: ['blue-green'],
+    }),
+    'smoke-url': Flags.string({
+      description: 'Storefront URL or path to check with HTTP GET after activation (can be repeated)',
+      multiple: true,
+      dependsOn: ['blue-green'],
+    }),
+    'smoke-job': Flags.string({
+      description: 'Job to run as smoke check after activation',
+      dependsOn: ['blue-green'],
+    }),
+    'smoke-timeout': Flags.integer({
+      description: 'Timeout in seconds for each smoke check',
+      default: 60,
+      dependsOn: ['blue-green'],
+    }),
   };
 
-  async run(): Promise<DeployResult> {
+  async run(): Promise<BlueGreenDeployResult | DeployResult> {
     this.requireWebDavCredentials();
     this.requireOAuthCredentials();
 
+    if (this.flags['blue-green']) {
+      return this.runBlueGreen();
+    }
+
     const hostname = this.resolvedConfig.hostname!;
     let version = this.resolvedConfig.codeVersion;
 
@@ -80,6 +134,9 @@ export default class CodeDeploy extends CartridgeCommand<typeof CodeDeploy> {
       const result = await findAndDeployCartridges(this.instance, this.cartridgePath, {
         reload: this.flags.reload,
         delete: this.flags.delete,
+        incremental: this.flags.incremental,
+        verifyRemote: this.flags['verify-remote'],
+        manifestDir: path.join(this.config.cacheDir, 'deploy-manifests'),
         ...this.cartridgeOptions,
       });
 
@@ -90,10 +147,22 @@ export default class CodeDeploy extends CartridgeCommand<typeof CodeDeploy> {
         }),
       );
 
+      if (result.changes) {
+        this.log(
+          t(
+            'commands.code.deploy.changes',
+            '{{added}} added, {{changed}} changed, {{removed}} removed, {{unchanged}} unchanged',
+            {...result.changes},
+          ),
+        );
+      }
+
       if (result.reloaded) {
         this.log(t('commands.code.deploy.reloaded', 'Code version reloaded'));
       }
 
+      await this.ensureSiteCartridgePaths(result.cartridges.map((c) => c.name));
+
       return result;
     } catch (error) {
       if (error instanceof Error) {
@@ -102,4 +171,107 @@ export default class CodeDeploy extends CartridgeCommand<typeof CodeDeploy> {
       throw error;
     }
   }
+
+  private async ensureSiteCartridgePaths(cartridgeNames: string[]): Promise<void> {
+    for (const siteId of this.flags.site ?? []) {
+      // eslint-disable-next-line no-await-in-loop
+      const sitePath = await ensureCartridgesOnPath(this.instance, siteId, cartridgeNames);
+      this.log(
+        sitePath.added.length > 0
+          ? t('commands.code.deploy.siteUpdated', 'Added {{cartridges}} to cartridge path of {{siteId}}', {
+              cartridges: sitePath.added.join(', '),
+              siteId,
+            })
+          : t('commands.code.deploy.siteUnchanged', 'Cartridge path of {{siteId}} already up to date', {siteId}),
+      );
+    }
+  }
+
+  private async runBlueGreen(): Promise<BlueGreenDeployResult> {
+    const hostname = this.resolvedConfig.hostname!;
+    const smokeUrls = this.flags['smoke-url'] ?? [];
+    const smokeJob = this.flags['smoke-job'];
+    const smokeCheck: SmokeCheckConfig | undefined =
+      smokeUrls.length > 0 || smokeJob
+        ? {
+            urls: smokeUrls,
+            job: smokeJob ? {jobId: smokeJob} : undefined,
+            timeout: this.flags['smoke-timeout'] * 1000,
+          }
+        : undefined;
+
+    this.log(
+      t('commands.code.deploy.blueGreen', 'Blue/green deploying {{path}} to {{hostname}}', {
+        path: this.cartridgePath,
+        hostname,
+      }),
+    );
+
+    let result: BlueGreenDeployResult;
+    try {
+      result = await blueGreenDeploy(this.instance, this.cartridgePath, {
+        codeVersion: this.flags['code-version'],
+        clone: this.flags.clone,
+        smokeCheck,
+        ...this.cartridgeOptions,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        this.error(t('commands.code.deploy.failed', 'Deployment failed: {{message}}', {message: error.message}));
+      }
+      throw error;
+    }
+
+    this.log(
+      t(
+        'commands.code.deploy.activatedNew',
+        'Deployed {{count}} cartridge(s) to {{codeVersion}} (previous: {{previous}})',
+        {
+          count: result.cartridges.length,
+          codeVersion: result.codeVersion,
+          previous: result.previousCodeVersion ?? '-',
+        },
+      ),
+    );
+
+    for (const check of result.smokeCheck?.checks ?? []) {
+      this.log(
+        check.passed
+          ? t('commands.code.deploy.smokePassed', '[PASS] {{target}}', {target: check.target})
+          : t('commands.code.deploy.smokeFailed', '[FAIL] {{target}}: {{error}}', {
+              target: check.target,
+              error: check.error,
+            }),
+      );
+    }
+
+    let failure: string | undefined;
+    if (result.rolledBack) {
+      failure = t(
+        'commands.code.deploy.rolledBack',
+        'Smoke check failed; re-activated {{previous}} (failed code version: {{codeVersion}})',
+        {previous: result.previousCodeVersion, codeVersion: result.codeVersion},
+      );
+    } else if (result.smokeCheck && !result.smokeCheck.passed) {
+      failure = t(
+        'commands.code.deploy.noRollback',
+        'Smoke check failed and there is no previous code version to re-activate; {{codeVersion}} remains active',
+        {codeVersion: result.codeVersion},
+      );
+    }
+
+    if (failure) {
+      if (this.jsonEnabled()) {
+        // Still report the deployment and smoke check results to scripts
+        this.logJson(result);
+        this.logToStderr(failure);
+        this.exit(1);
+      }
+      this.error(failure);
+    }
+
+    await this.ensureSiteCartridgePaths(result.cartridges.map((c) => c.name));
+
+    return result;
+  }
 }
@@ -0,0 +1,74 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import {Args, ux} from '@oclif/core';
+import {InstanceCommand} from '@salesforce/b2c-tooling-sdk/cli';
+import {diffCodeVersions, type CodeVersionDiff} from '@salesforce/b2c-tooling-sdk/operations/code';
+import {t} from '../../i18n/index.js';
+
+export default class CodeDiff extends InstanceCommand<typeof CodeDiff> {
+  static args = {
+    from: Args.string({
+      description: 'Base code version',
+      required: true,
+    }),
+    to: Args.string({
+      description: 'Code version to compare',
+      required: true,
+    }),
+  };
+
+  static description = t('commands.code.diff.description', 'Compare the cartridge files of two code versions');
+
+  static enableJsonFlag = true;
+
+  static examples = [
+    '<%= config.bin %> <%= command.id %> release-41 release-42',
+    '<%= config.bin %> <%= command.id %> release-41 release-42 --json',
+  ];
+
+  static flags = {
+    ...InstanceCommand.baseFlags,
+  };
+
+  async run(): Promise<CodeVersionDiff> {
+    this.requireWebDavCredentials();
+
+    const {from, to} = this.args;
+
+    this.log(
+      t('commands.code.diff.comparing', 'Comparing {{from}} and {{to}} on {{hostname}}...', {
+        from,
+        to,
+        hostname: this.resolvedConfig.hostname!,
+      }),
+    );
+
+    const diff = await diffCodeVersions(this.instance, from, to);
+
+    if (this.jsonEnabled()) {
+      return diff;
+    }
+
+    for (const file of diff.added) ux.stdout(`A  ${file}`);
+    for (const file of diff.changed) ux.stdout(`M  ${file}`);
+    for (const file of diff.removed) ux.stdout(`D  ${file}`);
+
+    this.log(
+      t(
+        'commands.code.diff.summary',
+        '{{added}} added, {{changed}} changed, {{removed}} removed, {{unchanged}} unchanged',
+        {
+          added: diff.added.length,
+          changed: diff.changed.length,
+          removed: diff.removed.length,
+          unchanged: diff.unchanged,
+        },
+      ),
+    );
+
+    return diff;
+  }
+}
@@ -0,0 +1,107 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import * as readline from 'node:readline';
+import {Flags} from '@oclif/core';
+import {InstanceCommand} from '@salesforce/b2c-tooling-sdk/cli';
+import {pruneCodeVersions, type PruneCodeVersionsResult} from '@salesforce/b2c-tooling-sdk/operations/code';
+import {t} from '../../i18n/index.js';
+
+/**
+ * Simple confirmation prompt.
+ */
+async function confirm(message: string): Promise<boolean> {
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stderr,
+  });
+
+  return new Promise((resolve) => {
+    rl.question(`${message} `, (answer) => {
+      rl.close();
+      resolve(answer.toLowerCase() === 'y' || answer.toLowerCase() === 'yes');
+    });
+  });
+}
+
+export default class CodePrune extends InstanceCommand<typeof CodePrune> {
+  static description = t('commands.code.prune.description', 'Delete old inactive code versions');
+
+  static enableJsonFlag = true;
+
+  static examples = [
+    '<%= config.bin %> <%= command.id %> --keep 3',
+    '<%= config.bin %> <%= command.id %> --keep 3 --dry-run',
+    '<%= config.bin %> <%= command.id %> --keep 0 --force',
+  ];
+
+  static flags = {
+    ...InstanceCommand.baseFlags,
+    keep: Flags.integer({
+      description: 'Number of most recently modified inactive code versions to keep',
+      required: true,
+      min: 0,
+    }),
+    'dry-run': Flags.boolean({
+      description: 'Only show which code versions would be deleted',
+      default: false,
+    }),
+    force: Flags.boolean({
+      char: 'f',
+      description: 'Skip confirmation prompt',
+      default: false,
+    }),
+  };
+
+  async run(): Promise<PruneCodeVersionsResult> {
+    this.requireOAuthCredentials();
+
+    const {keep, 'dry-run': dryRun, force} = this.flags;
+    const hostname = this.resolvedConfig.hostname!;
+
+    // Determine candidates first so the prompt can name them
+    const plan = await pruneCodeVersions(this.instance, {keep, dryRun: true});
+
+    if (plan.deleted.length === 0) {
+      this.log(t('commands.code.prune.nothing', 'No code versions to delete'));
+      return plan;
+    }
+
+    this.log(
+      t('commands.code.prune.candidates', 'Code versions to delete: {{versions}}', {versions: plan.deleted.join(', ')}),
+    );
+
+    if (dryRun) {
+      return plan;
+    }
+
+    if (!force) {
+      const confirmed = await confirm(
+        t('commands.code.prune.confirm', 'Delete {{count}} code version(s) on {{hostname}}? (y/n)', {
+          count: plan.deleted.length,
+          hostname,
+        }),
+      );
+
+      if (!confirmed) {
+        this.log(t('commands.code.prune.cancelled', 'Prune cancelled'));
+        return {...plan, deleted: []};
+      }
+    }
+
+    // Delete exactly the confirmed versions, even if versions changed in the meantime
+    const result = await pruneCodeVersions(this.instance, {codeVersionIds: plan.deleted});
+
+    this.log(
+      t('commands.code.prune.deleted', 'Deleted {{count}} code version(s), kept {{kept}} and active {{active}}', {
+        count: result.deleted.length,
+        kept: result.kept.length,
+        active: result.active ?? '-',
+      }),
+    );
+
+    return result;
+  }
+}
@@ -3,6 +3,9 @@
  * SPDX-License-Identifier: Apache-2
  * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
  */
+import {createHash} from 'node:crypto';
+import path from 'node:path';
+import {Flags} from '@oclif/core';
 import {watchCartridges} from '@salesforce/b2c-tooling-sdk/operations/code';
 import {CartridgeCommand} from '@salesforce/b2c-tooling-sdk/cli';
 import {t} from '../../i18n/index.js';
@@ -20,11 +23,21 @@ export default class CodeWatch extends CartridgeCommand<typeof CodeWatch> {
     '<%= config.bin %> <%= command.id %> --server my-sandbox.demandware.net --code-version v1',
     '<%= config.bin %> <%= command.id %> -c app_storefront_base',
     '<%= config.bin %> <%= command.id %> -x test_cartridge',
+    '<%= config.bin %> <%= command.id %> --site-archive ./site-data',
+    '<%= config.bin %> <%= command.id %> --site-archive ./site-data --reload',
   ];
 
   static flags = {
     ...CartridgeCommand.baseFlags,
     ...CartridgeCommand.cartridgeFlags,
+    'site-archive': Flags.string({
+      description: 'Also watch a site archive directory and import changed files (meta, libraries, ...)',
+    }),
+    reload: Flags.boolean({
+      description: 'Reload the code version after each site archive import (refreshes templates and caches)',
+      default: false,
+      dependsOn: ['site-archive'],
+    }),
   };
 
   async run(): Promise<void> {
@@ -39,10 +52,25 @@ export default class CodeWatch extends CartridgeCommand<typeof CodeWatch> {
     if (version) {
       this.log(t('commands.code.watch.codeVersion', 'Code Version: {{version}}', {version}));
     }
+    const siteArchiveDir = this.flags['site-archive'];
+    if (siteArchiveDir) {
+      this.log(t('commands.code.watch.siteArchive', 'Site archive: {{path}}', {path: siteArchiveDir}));
+    }
+
+    // Set while changes are pending after a failed sync, so recovery is reported
+    let retrying = false;
+
+    // One queue file per instance and cartridge directory, so unsynced changes survive a restart
+    const queueId = createHash('sha256')
+      .update(`${hostname}\n${path.resolve(this.cartridgePath)}`)
+      .digest('hex');
+    const queueFile = path.join(this.config.cacheDir, 'watch', `${queueId.slice(0, 16)}.json`);
 
     try {
       const result = await watchCartridges(this.instance, this.cartridgePath, {
         ...this.cartridgeOptions,
+        siteArchive: siteArchiveDir ? {directory: siteArchiveDir, reload: this.flags.reload} : undefined,
+        queueFile,
         onUpload: (files) => {
           this.log(t('commands.code.watch.uploaded', '[UPLOAD] {{count}} file(s)', {count: files.length}));
         },
@@ -52,6 +80,54 @@ export default class CodeWatch extends CartridgeCommand<typeof CodeWatch> {
         onError: (error) => {
           this.warn(t('commands.code.watch.error', 'Error: {{message}}', {message: error.message}));
         },
+        onRetry: ({attempt, delay, pending}) => {
+          retrying = true;
+          this.log(
+            t(
+              'commands.code.watch.pending',
+              '[PENDING] {{pending}} file(s) pending, server code is stale. Retrying in {{seconds}}s (attempt {{attempt}})',
+              {pending, seconds: Math.round(delay / 1000), attempt},
+            ),
+          );
+        },
+        onImport: ({files, execution, error, retryDelay, reloaded}) => {
+          if (error) {
+            this.log(
+              t(
+                'commands.code.watch.importFailed',
+                '[IMPORT] {{count}} file(s): FAILED ({{message}}), retrying in {{seconds}}s',
+                {
+                  count: files.length,
+                  message: error.message,
+                  seconds: Math.round((retryDelay ?? 0) / 1000),
+                },
+              ),
+            );
+            return;
+          }
+          const duration = execution?.duration ? (execution.duration / 1000).toFixed(1) : 'N/A';
+          this.log(
+            t(
+              'commands.code.watch.imported',
+              '[IMPORT] {{count}} file(s): {{status}} (execution {{id}}, {{duration}}s)',
+              {
+                count: files.length,
+                status: execution?.exit_status?.code || execution?.execution_status,
+                id: execution?.id,
+                duration,
+              },
+            ),
+          );
+          if (reloaded) {
+            this.log(t('commands.code.watch.reloaded', '[RELOAD] Code version reloaded'));
+          }
+        },
+        onSynced: () => {
+          if (retrying) {
+            retrying = false;
+            this.log(t('commands.code.watch.synced', '[SYNCED] All pending changes uploaded'));
+          }
+        },
       });
 
       this.log(
@@ -63,6 +139,16 @@ export default class CodeWatch extends CartridgeCommand<typeof CodeWatch> {
       await new Promise<void>((resolve) => {
         const cleanup = () => {
           this.log(t('commands.code.watch.stopping', '\nStopping watcher...'));
+          const pending = result.getPendingCount();
+          if (pending > 0) {
+            this.warn(
+              t(
+                'commands.code.watch.unsynced',
+                '{{pending}} file(s) were not uploaded; cartridge changes are uploaded when you watch this directory again',
+                {pending},
+              ),
+            );
+          }
           result.stop().then(() => {
             resolve();
           });
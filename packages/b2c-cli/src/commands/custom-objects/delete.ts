@@ -0,0 +1,81 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import * as readline from 'node:readline';
+import {Args, Flags} from '@oclif/core';
+import {deleteCustomObject} from '@salesforce/b2c-tooling-sdk/operations/custom-objects';
+import {CustomObjectCommand} from '../../utils/custom-objects/command.js';
+import {t} from '../../i18n/index.js';
+
+/**
+ * Simple confirmation prompt.
+ */
+async function confirm(message: string): Promise<boolean> {
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stderr,
+  });
+
+  return new Promise((resolve) => {
+    rl.question(`${message} `, (answer) => {
+      rl.close();
+      resolve(answer.toLowerCase() === 'y' || answer.toLowerCase() === 'yes');
+    });
+  });
+}
+
+export default class CustomObjectsDelete extends CustomObjectCommand<typeof CustomObjectsDelete> {
+  static args = {
+    ...CustomObjectCommand.objectTypeArg,
+    key: Args.string({
+      description: 'Object key',
+      required: true,
+    }),
+  };
+
+  static description = t('commands.custom-objects.delete.description', 'Delete a custom object');
+
+  static examples = [
+    '<%= config.bin %> <%= command.id %> SiteConfig checkout',
+    '<%= config.bin %> <%= command.id %> SiteConfig checkout --site RefArch --force',
+  ];
+
+  static flags = {
+    ...CustomObjectCommand.baseFlags,
+    ...CustomObjectCommand.scopeFlags,
+    force: Flags.boolean({
+      char: 'f',
+      description: 'Skip confirmation prompt',
+      default: false,
+    }),
+  };
+
+  async run(): Promise<void> {
+    this.requireOAuthCredentials();
+
+    const {objectType, key} = this.args;
+
+    if (!this.flags.force) {
+      const confirmed = await confirm(
+        t(
+          'commands.custom-objects.delete.confirm',
+          'Are you sure you want to delete custom object "{{objectType}}/{{key}}" on {{hostname}}? (y/n)',
+          {objectType, key, hostname: this.resolvedConfig.hostname!},
+        ),
+      );
+
+      if (!confirmed) {
+        this.log(t('commands.custom-objects.delete.cancelled', 'Deletion cancelled'));
+        return;
+      }
+    }
+
+    await deleteCustomObject(this.instance, objectType, key, this.scope);
+
+    this.log(
+      t('commands.custom-objects.delete.deleted', 'Custom object {{objectType}}/{{key}} deleted', {objectType, key}),
+    );
+  }
+}
@@ -0,0 +1,89 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import * as fs from 'node:fs';
+import {resolve} from 'node:path';
+import {Flags, ux} from '@oclif/core';
+import {
+  CUSTOM_OBJECT_FORMATS,
+  detectCustomObjectFormat,
+  exportCustomObjects,
+  type CustomObjectFormat,
+} from '@salesforce/b2c-tooling-sdk/operations/custom-objects';
+import {CustomObjectCommand} from '../../utils/custom-objects/command.js';
+import {t} from '../../i18n/index.js';
+
+interface ExportResult {
+  objectType: string;
+  count: number;
+  format: CustomObjectFormat;
+  output?: string;
+}
+
+export default class CustomObjectsExport extends CustomObjectCommand<typeof CustomObjectsExport> {
+  static args = {
+    ...CustomObjectCommand.objectTypeArg,
+  };
+
+  static description = t(
+    'commands.custom-objects.export.description',
+    'Export custom objects of a type as NDJSON or CSV',
+  );
+
+  static enableJsonFlag = true;
+
+  static examples = [
+    '<%= config.bin %> <%= command.id %> SiteConfig > site-config.ndjson',
+    '<%= config.bin %> <%= command.id %> SiteConfig --output site-config.csv',
+    '<%= config.bin %> <%= command.id %> SiteConfig --query "c_enabled = true" --format csv',
+  ];
+
+  static flags = {
+    ...CustomObjectCommand.baseFlags,
+    ...CustomObjectCommand.queryFlags,
+    output: Flags.string({
+      char: 'o',
+      description: 'Output file (default: stdout)',
+    }),
+    format: Flags.string({
+      description: 'Output format (default: from output file extension, or ndjson)',
+      options: CUSTOM_OBJECT_FORMATS,
+    }),
+  };
+
+  async run(): Promise<ExportResult> {
+    this.requireOAuthCredentials();
+
+    const {objectType} = this.args;
+    const {output} = this.flags;
+    const format = (this.flags.format as CustomObjectFormat | undefined) ?? detectCustomObjectFormat(output ?? '');
+
+    this.log(
+      t('commands.custom-objects.export.exporting', 'Exporting {{objectType}} objects from {{hostname}}...', {
+        objectType,
+        hostname: this.resolvedConfig.hostname!,
+      }),
+    );
+
+    const {count, content} = await exportCustomObjects(this.instance, objectType, {
+      ...this.getSearchOptions(),
+      format,
+    });
+
+    if (output) {
+      fs.writeFileSync(output, content);
+      this.log(
+        t('commands.custom-objects.export.written', 'Exported {{count}} object(s) to {{path}}', {
+          count,
+          path: resolve(output),
+        }),
+      );
+    } else if (!this.jsonEnabled()) {
+      ux.stdout(content.trimEnd());
+    }
+
+    return {objectType, count, format, output: output ? resolve(output) : undefined};
+  }
+}
@@ -0,0 +1,52 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import {Args, ux} from '@oclif/core';
+import {getCustomObject, type CustomObject} from '@salesforce/b2c-tooling-sdk/operations/custom-objects';
+import {CustomObjectCommand} from '../../utils/custom-objects/command.js';
+import {t} from '../../i18n/index.js';
+
+export default class CustomObjectsGet extends CustomObjectCommand<typeof CustomObjectsGet> {
+  static args = {
+    ...CustomObjectCommand.objectTypeArg,
+    key: Args.string({
+      description: 'Object key',
+      required: true,
+    }),
+  };
+
+  static description = t('commands.custom-objects.get.description', 'Show a custom object');
+
+  static enableJsonFlag = true;
+
+  static examples = [
+    '<%= config.bin %> <%= command.id %> SiteConfig checkout',
+    '<%= config.bin %> <%= command.id %> SiteConfig checkout --site RefArch',
+  ];
+
+  static flags = {
+    ...CustomObjectCommand.baseFlags,
+    ...CustomObjectCommand.scopeFlags,
+  };
+
+  async run(): Promise<CustomObject> {
+    this.requireOAuthCredentials();
+
+    const {objectType, key} = this.args;
+    const object = await getCustomObject(this.instance, objectType, key, this.scope);
+
+    if (!object) {
+      this.error(
+        t('commands.custom-objects.get.notFound', 'Custom object {{objectType}}/{{key}} not found', {objectType, key}),
+      );
+    }
+
+    if (!this.jsonEnabled()) {
+      ux.stdout(JSON.stringify(object, null, 2));
+    }
+
+    return object;
+  }
+}
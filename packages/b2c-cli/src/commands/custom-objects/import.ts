@@ -0,0 +1,105 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import * as fs from 'node:fs';
+import {Args, Flags} from '@oclif/core';
+import {
+  CUSTOM_OBJECT_FORMATS,
+  detectCustomObjectFormat,
+  importCustomObjects,
+  type CustomObjectFormat,
+  type ImportCustomObjectsResult,
+} from '@salesforce/b2c-tooling-sdk/operations/custom-objects';
+import {CustomObjectCommand} from '../../utils/custom-objects/command.js';
+import {t} from '../../i18n/index.js';
+
+export default class CustomObjectsImport extends CustomObjectCommand<typeof CustomObjectsImport> {
+  static args = {
+    ...CustomObjectCommand.objectTypeArg,
+    file: Args.string({
+      description: 'NDJSON or CSV file to import',
+      required: true,
+    }),
+  };
+
+  static description = t(
+    'commands.custom-objects.import.description',
+    'Import custom objects from NDJSON or CSV, creating or replacing each object by key',
+  );
+
+  static enableJsonFlag = true;
+
+  static examples = [
+    '<%= config.bin %> <%= command.id %> SiteConfig site-config.ndjson',
+    '<%= config.bin %> <%= command.id %> SiteConfig site-config.csv --site RefArch',
+    '<%= config.bin %> <%= command.id %> SiteConfig site-config.ndjson --dry-run',
+  ];
+
+  static flags = {
+    ...CustomObjectCommand.baseFlags,
+    ...CustomObjectCommand.scopeFlags,
+    format: Flags.string({
+      description: 'Input format (default: from file extension, .csv or ndjson)',
+      options: CUSTOM_OBJECT_FORMATS,
+    }),
+    'dry-run': Flags.boolean({
+      description: 'Only validate the file, do not write objects',
+      default: false,
+    }),
+  };
+
+  async run(): Promise<ImportCustomObjectsResult> {
+    this.requireOAuthCredentials();
+
+    const {objectType, file} = this.args;
+    const format = (this.flags.format as CustomObjectFormat | undefined) ?? detectCustomObjectFormat(file);
+    const content = fs.readFileSync(file, 'utf8');
+
+    this.log(
+      t('commands.custom-objects.import.importing', 'Importing {{file}} into {{objectType}} on {{hostname}}...', {
+        file,
+        objectType,
+        hostname: this.resolvedConfig.hostname!,
+      }),
+    );
+
+    let result: ImportCustomObjectsResult;
+    try {
+      result = await importCustomObjects(this.instance, objectType, content, {
+        ...this.scope,
+        format,
+        dryRun: this.flags['dry-run'],
+      });
+    } catch (error) {
+      this.error(
+        t('commands.custom-objects.import.invalidFile', 'Cannot import {{file}}: {{message}}', {
+          file,
+          message: (error as Error).message,
+        }),
+      );
+    }
+
+    for (const failure of result.failed) {
+      this.warn(`${failure.key}: ${failure.error}`);
+    }
+
+    this.log(
+      this.flags['dry-run']
+        ? t('commands.custom-objects.import.validated', '{{count}} object(s) would be imported', {
+            count: result.imported.length,
+          })
+        : t('commands.custom-objects.import.summary', 'Imported {{count}} object(s), {{failed}} failed', {
+            count: result.imported.length,
+            failed: result.failed.length,
+          }),
+    );
+
+    if (result.failed.length > 0 && !this.jsonEnabled()) {
+      this.exit(1);
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,106 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import {Flags, ux} from '@oclif/core';
+import {createTable, type ColumnDef} from '@salesforce/b2c-tooling-sdk/cli';
+import {
+  getCustomObjectKey,
+  searchCustomObjects,
+  type CustomObject,
+  type CustomObjectSearchResult,
+} from '@salesforce/b2c-tooling-sdk/operations/custom-objects';
+import {CustomObjectCommand} from '../../utils/custom-objects/command.js';
+import {t} from '../../i18n/index.js';
+
+function formatDate(value: unknown): string {
+  return typeof value === 'string' ? new Date(value).toISOString().replace('T', ' ').slice(0, 19) : '-';
+}
+
+const COLUMNS: Record<string, ColumnDef<CustomObject>> = {
+  key: {
+    header: 'Key',
+    get: (o) => getCustomObjectKey(o) ?? '-',
+  },
+  created: {
+    header: 'Created',
+    get: (o) => formatDate(o.creation_date),
+  },
+  modified: {
+    header: 'Last Modified',
+    get: (o) => formatDate(o.last_modified),
+  },
+};
+
+const DEFAULT_COLUMNS = ['key', 'created', 'modified'];
+
+export default class CustomObjectsList extends CustomObjectCommand<typeof CustomObjectsList> {
+  static args = {
+    ...CustomObjectCommand.objectTypeArg,
+  };
+
+  static description = t('commands.custom-objects.list.description', 'Search custom objects of a type');
+
+  static enableJsonFlag = true;
+
+  static examples = [
+    '<%= config.bin %> <%= command.id %> SiteConfig',
+    '<%= config.bin %> <%= command.id %> SiteConfig --query "c_enabled = true" --sort last_modified:desc',
+    '<%= config.bin %> <%= command.id %> SiteConfig --count 100 --start 100 --json',
+  ];
+
+  static flags = {
+    ...CustomObjectCommand.baseFlags,
+    ...CustomObjectCommand.queryFlags,
+    count: Flags.integer({
+      char: 'n',
+      description: 'Maximum number of results (max 200)',
+      default: 25,
+      max: 200,
+    }),
+    start: Flags.integer({
+      description: 'Starting index for pagination',
+      default: 0,
+    }),
+  };
+
+  async run(): Promise<CustomObjectSearchResult> {
+    this.requireOAuthCredentials();
+
+    const {objectType} = this.args;
+
+    this.log(
+      t('commands.custom-objects.list.searching', 'Searching {{objectType}} objects on {{hostname}}...', {
+        objectType,
+        hostname: this.resolvedConfig.hostname!,
+      }),
+    );
+
+    const results = await searchCustomObjects(this.instance, objectType, {
+      ...this.getSearchOptions(),
+      count: this.flags.count,
+      start: this.flags.start,
+    });
+
+    if (this.jsonEnabled()) {
+      return results;
+    }
+
+    if (results.total === 0) {
+      ux.stdout(t('commands.custom-objects.list.noResults', 'No custom objects found.'));
+      return results;
+    }
+
+    this.log(
+      t('commands.custom-objects.list.found', 'Found {{total}} object(s) (showing {{count}})', {
+        total: results.total,
+        count: results.hits.length,
+      }),
+    );
+
+    createTable(COLUMNS).render(results.hits, DEFAULT_COLUMNS);
+
+    return results;
+  }
+}
@@ -0,0 +1,72 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import * as fs from 'node:fs';
+import {Args, Flags} from '@oclif/core';
+import {
+  putCustomObject,
+  type CustomObject,
+  type CustomObjectAttributes,
+} from '@salesforce/b2c-tooling-sdk/operations/custom-objects';
+import {CustomObjectCommand} from '../../utils/custom-objects/command.js';
+import {t} from '../../i18n/index.js';
+
+export default class CustomObjectsPut extends CustomObjectCommand<typeof CustomObjectsPut> {
+  static args = {
+    ...CustomObjectCommand.objectTypeArg,
+    key: Args.string({
+      description: 'Object key',
+      required: true,
+    }),
+  };
+
+  static description = t(
+    'commands.custom-objects.put.description',
+    'Create or replace a custom object (attributes not given are cleared)',
+  );
+
+  static enableJsonFlag = true;
+
+  static examples = [
+    '<%= config.bin %> <%= command.id %> SiteConfig checkout --data \'{"c_enabled": true}\'',
+    '<%= config.bin %> <%= command.id %> SiteConfig checkout --file checkout.json --site RefArch',
+  ];
+
+  static flags = {
+    ...CustomObjectCommand.baseFlags,
+    ...CustomObjectCommand.scopeFlags,
+    data: Flags.string({
+      char: 'd',
+      description: 'Attributes as JSON object (c_-prefixed)',
+      exactlyOne: ['data', 'file'],
+    }),
+    file: Flags.string({
+      description: 'JSON file with the attributes',
+      exactlyOne: ['data', 'file'],
+    }),
+  };
+
+  async run(): Promise<CustomObject> {
+    this.requireOAuthCredentials();
+
+    const {objectType, key} = this.args;
+    const json = this.flags.file ? fs.readFileSync(this.flags.file, 'utf8') : this.flags.data!;
+
+    let attributes: CustomObjectAttributes;
+    try {
+      attributes = JSON.parse(json) as CustomObjectAttributes;
+    } catch (error) {
+      this.error(
+        t('commands.custom-objects.put.invalidJson', 'Invalid JSON: {{message}}', {message: (error as Error).message}),
+      );
+    }
+
+    const object = await putCustomObject(this.instance, objectType, key, attributes, this.scope);
+
+    this.log(t('commands.custom-objects.put.saved', 'Custom object {{objectType}}/{{key}} saved', {objectType, key}));
+
+    return object;
+  }
+}
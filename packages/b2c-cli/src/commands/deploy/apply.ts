@@ -0,0 +1,89 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import {Flags} from '@oclif/core';
+import {applyPipeline, type ApplyPipelineResult} from '@salesforce/b2c-tooling-sdk/operations/pipeline';
+import {DeployPipelineCommand} from '../../utils/deploy/command.js';
+import {t} from '../../i18n/index.js';
+
+export default class DeployApply extends DeployPipelineCommand<typeof DeployApply> {
+  static args = {
+    ...DeployPipelineCommand.pipelineArg,
+  };
+
+  static description = t(
+    'commands.deploy.apply.description',
+    'Run a deploy pipeline, resuming after the last succeeded step of a previous run',
+  );
+
+  static enableJsonFlag = true;
+
+  static examples = [
+    '<%= config.bin %> <%= command.id %> deploy.json',
+    '<%= config.bin %> <%= command.id %> deploy.json --target staging',
+    '<%= config.bin %> <%= command.id %> deploy.json --restart',
+  ];
+
+  static flags = {
+    ...DeployPipelineCommand.baseFlags,
+    restart: Flags.boolean({
+      description: 'Ignore the state file of a previous run and run all steps',
+      default: false,
+    }),
+  };
+
+  async run(): Promise<ApplyPipelineResult> {
+    const pipeline = this.loadPipelineFile();
+
+    const result = await applyPipeline(pipeline, {
+      ...this.getRunOptions(),
+      restart: this.flags.restart,
+      onStepStart: (target, stepId) => {
+        this.log(t('commands.deploy.apply.running', '[{{target}}] {{step}}: running...', {target, step: stepId}));
+      },
+      onStepComplete: ({target, stepId, status, summary, error}) => {
+        if (status === 'skipped') {
+          this.log(
+            t('commands.deploy.apply.skipped', '[{{target}}] {{step}}: SKIPPED (succeeded in a previous run)', {
+              target,
+              step: stepId,
+            }),
+          );
+        } else if (status === 'failed') {
+          this.log(
+            t('commands.deploy.apply.failed', '[{{target}}] {{step}}: FAILED {{message}}', {
+              target,
+              step: stepId,
+              message: error,
+            }),
+          );
+        } else {
+          this.log(
+            t('commands.deploy.apply.succeeded', '[{{target}}] {{step}}: OK {{summary}}', {
+              target,
+              step: stepId,
+              summary,
+            }),
+          );
+        }
+      },
+    });
+
+    if (!result.succeeded) {
+      this.error(
+        t(
+          'commands.deploy.apply.stopped',
+          'Pipeline stopped. Fix the problem and apply again to resume (state: {{path}})',
+          {
+            path: result.statePath,
+          },
+        ),
+      );
+    }
+
+    this.log(t('commands.deploy.apply.completed', 'Pipeline completed'));
+    return result;
+  }
+}
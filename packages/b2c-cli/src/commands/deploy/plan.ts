@@ -0,0 +1,81 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import {planPipeline, type PipelinePlan} from '@salesforce/b2c-tooling-sdk/operations/pipeline';
+import {DeployPipelineCommand} from '../../utils/deploy/command.js';
+import {t} from '../../i18n/index.js';
+
+export default class DeployPlan extends DeployPipelineCommand<typeof DeployPlan> {
+  static args = {
+    ...DeployPipelineCommand.pipelineArg,
+  };
+
+  static description = t('commands.deploy.plan.description', 'Show what applying a deploy pipeline would change');
+
+  static enableJsonFlag = true;
+
+  static examples = [
+    '<%= config.bin %> <%= command.id %> deploy.json',
+    '<%= config.bin %> <%= command.id %> deploy.json --target staging',
+    '<%= config.bin %> <%= command.id %> deploy.json --config ./dw.json --json',
+  ];
+
+  static flags = {
+    ...DeployPipelineCommand.baseFlags,
+  };
+
+  async run(): Promise<PipelinePlan> {
+    const pipeline = this.loadPipelineFile();
+    const plan = await planPipeline(pipeline, this.getRunOptions());
+
+    if (this.jsonEnabled()) {
+      return plan;
+    }
+
+    if (plan.state === 'resume') {
+      this.log(t('commands.deploy.plan.resume', 'Resuming from {{path}}', {path: plan.statePath}));
+    } else if (plan.state === 'outdated') {
+      this.warn(
+        t(
+          'commands.deploy.plan.outdated',
+          '{{path}} belongs to an older version of the pipeline; apply with --restart',
+          {
+            path: plan.statePath,
+          },
+        ),
+      );
+    }
+
+    let currentTarget: string | undefined;
+    for (const step of plan.steps) {
+      if (step.target !== currentTarget) {
+        currentTarget = step.target;
+        this.log(t('commands.deploy.plan.target', '\nTarget {{target}}:', {target: step.target}));
+      }
+
+      if (step.status === 'succeeded') {
+        this.log(t('commands.deploy.plan.done', '  {{step}}: done (skipped on resume)', {step: step.stepId}));
+      } else if (step.error) {
+        this.log(
+          t('commands.deploy.plan.error', '  {{step}}: ERROR {{message}}', {step: step.stepId, message: step.error}),
+        );
+      } else if (step.changes.length === 0) {
+        this.log(t('commands.deploy.plan.noChange', '  {{step}}: no change', {step: step.stepId}));
+      } else {
+        this.log(`  ${step.stepId}:`);
+        for (const change of step.changes) {
+          this.log(`    + ${change}`);
+        }
+      }
+    }
+
+    const failing = plan.steps.filter((s) => s.error).length;
+    if (failing > 0) {
+      this.error(t('commands.deploy.plan.failing', '{{count}} step(s) would fail', {count: failing}));
+    }
+
+    return plan;
+  }
+}
@@ -0,0 +1,214 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {Args, Flags} from '@oclif/core';
+import {JobCommand} from '@salesforce/b2c-tooling-sdk/cli';
+import {
+  buildSiteArchive,
+  generateSiteArchive,
+  loadSiteArchiveDefinitions,
+  SiteArchiveValidationError,
+} from '@salesforce/b2c-tooling-sdk/operations/impex';
+import {siteArchiveImport, JobExecutionError, type JobExecution} from '@salesforce/b2c-tooling-sdk/operations/jobs';
+import {t} from '../../i18n/index.js';
+
+interface ImpexBuildResult {
+  /** Definition files the archive was built from */
+  sources: string[];
+  /** Generated files, relative to the output directory */
+  files: string[];
+  /** Output directory (unless --check) */
+  directory?: string;
+  /** Import job execution (with --import) */
+  execution?: JobExecution;
+}
+
+/**
+ * Build a site archive directory from JSON or YAML definition files.
+ */
+export default class ImpexBuild extends JobCommand<typeof ImpexBuild> {
+  static args = {
+    sources: Args.string({
+      description: 'Definition files or directories of .json/.yml/.yaml definition files',
+      required: true,
+    }),
+  };
+
+  static description = t(
+    'commands.impex.build.description',
+    'Build a site archive from JSON or YAML definitions of custom attributes, preferences, custom objects and services',
+  );
+
+  static enableJsonFlag = true;
+
+  static examples = [
+    '<%= config.bin %> <%= command.id %> ./metadata',
+    '<%= config.bin %> <%= command.id %> attributes.json services.json --output ./build/site-archive',
+    '<%= config.bin %> <%= command.id %> ./metadata --check',
+    '<%= config.bin %> <%= command.id %> ./metadata --import',
+  ];
+
+  static flags = {
+    ...JobCommand.baseFlags,
+    output: Flags.string({
+      char: 'o',
+      description: 'Output directory for the site archive',
+      default: './site-archive',
+    }),
+    check: Flags.boolean({
+      description: 'Only generate and validate the archive, do not write it',
+      default: false,
+      exclusive: ['import'],
+    }),
+    import: Flags.boolean({
+      description: 'Import the archive into the instance after building it',
+      default: false,
+    }),
+    timeout: Flags.integer({
+      char: 't',
+      description: 'Import timeout in seconds (default: no timeout)',
+      dependsOn: ['import'],
+    }),
+    'show-log': Flags.boolean({
+      description: 'Show job log on import failure',
+      default: true,
+    }),
+  };
+
+  // Allow multiple sources
+  static strict = false;
+
+  async run(): Promise<ImpexBuildResult> {
+    const {argv} = await this.parse(ImpexBuild);
+    const {output, check, import: importArchive, timeout, 'show-log': showLog} = this.flags;
+
+    if (importArchive) {
+      this.requireOAuthCredentials();
+      this.requireWebDavCredentials();
+    }
+
+    let loaded: ReturnType<typeof loadSiteArchiveDefinitions>;
+    try {
+      loaded = loadSiteArchiveDefinitions(argv as string[]);
+    } catch (error) {
+      this.handleBuildError(error);
+    }
+
+    const {definition, files: sources} = loaded;
+    if (sources.length === 0) {
+      this.error(
+        t('commands.impex.build.noSources', 'No definition files found in {{sources}}', {sources: argv.join(', ')}),
+      );
+    }
+
+    let result: ImpexBuildResult;
+    try {
+      if (check) {
+        const files = await generateSiteArchive(definition);
+        result = {sources, files: [...files.keys()]};
+      } else {
+        const built = await buildSiteArchive(definition, output);
+        result = {sources, files: built.files, directory: built.directory};
+      }
+    } catch (error) {
+      this.handleBuildError(error);
+    }
+
+    if (result.files.length === 0) {
+      this.warn(t('commands.impex.build.empty', 'The definitions are empty, no files generated'));
+      return result;
+    }
+
+    for (const file of result.files) {
+      this.log(`  ${file}`);
+    }
+    this.log(
+      check
+        ? t('commands.impex.build.checked', 'Validated {{count}} file(s) from {{sources}} definition file(s)', {
+            count: result.files.length,
+            sources: result.sources.length,
+          })
+        : t('commands.impex.build.built', 'Built {{count}} file(s) in {{directory}}', {
+            count: result.files.length,
+            directory: output,
+          }),
+    );
+
+    if (importArchive) {
+      result.execution = await this.importArchive(output, result.files, timeout, showLog);
+    }
+
+    return result;
+  }
+
+  private handleBuildError(error: unknown): never {
+    if (error instanceof SiteArchiveValidationError) {
+      for (const problem of error.problems) {
+        this.warn(`${problem.file}: ${problem.message}`);
+      }
+      this.error(
+        t('commands.impex.build.invalid', 'Generated site archive is invalid ({{count}} problem(s))', {
+          count: error.problems.length,
+        }),
+      );
+    }
+    if (error instanceof Error) {
+      this.error(t('commands.impex.build.error', 'Build error: {{message}}', {message: error.message}));
+    }
+    throw error;
+  }
+
+  private async importArchive(
+    directory: string,
+    files: string[],
+    timeout: number | undefined,
+    showLog: boolean,
+  ): Promise<JobExecution> {
+    this.log(
+      t('commands.impex.build.importing', 'Importing {{directory}} to {{hostname}}...', {
+        directory,
+        hostname: this.resolvedConfig.hostname!,
+      }),
+    );
+
+    // Import only the generated files, not other files left in the output directory
+    const importDirectory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'b2c-impex-build-'));
+    try {
+      await Promise.all(
+        files.map(async (file) => {
+          await fs.promises.mkdir(path.dirname(path.join(importDirectory, file)), {recursive: true});
+          await fs.promises.copyFile(path.join(directory, file), path.join(importDirectory, file));
+        }),
+      );
+
+      const {execution} = await siteArchiveImport(this.instance, importDirectory, {
+        waitOptions: {timeout: timeout ? timeout * 1000 : undefined},
+      });
+      this.log(
+        t('commands.impex.build.imported', 'Import completed: {{status}}', {
+          status: execution.exit_status?.code || execution.execution_status,
+        }),
+      );
+      return execution;
+    } catch (error) {
+      if (error instanceof JobExecutionError) {
+        if (showLog) {
+          await this.showJobLog(error.execution);
+        }
+        this.error(
+          t('commands.impex.build.importFailed', 'Import failed: {{status}}', {
+            status: error.execution.exit_status?.code || 'ERROR',
+          }),
+        );
+      }
+      throw error;
+    } finally {
+      await fs.promises.rm(importDirectory, {recursive: true, force: true});
+    }
+  }
+}
@@ -3,12 +3,16 @@
  * SPDX-License-Identifier: Apache-2
  * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
  */
-import {Flags} from '@oclif/core';
+import {Flags, ux} from '@oclif/core';
 import {JobCommand} from '@salesforce/b2c-tooling-sdk/cli';
 import {
   siteArchiveExportToPath,
+  siteArchiveDiff,
   JobExecutionError,
   type SiteArchiveExportResult,
+  type SiteArchiveDiffResult,
+  type SiteArchiveFileDiff,
+  type WaitForJobOptions,
   type ExportDataUnitsConfiguration,
 } from '@salesforce/b2c-tooling-sdk/operations/jobs';
 import {t} from '../../i18n/index.js';
@@ -24,6 +28,7 @@ export default class JobExport extends JobCommand<typeof JobExport> {
     '<%= config.bin %> <%= command.id %> --catalog storefront-catalog',
     '<%= config.bin %> <%= command.id %> --data-units \'{"global_data":{"meta_data":true}}\'',
     '<%= config.bin %> <%= command.id %> --output ./exports --no-download',
+    '<%= config.bin %> <%= command.id %> --global-data meta_data --diff ./site-data',
   ];
 
   static flags = {
@@ -94,9 +99,13 @@ export default class JobExport extends JobCommand<typeof JobExport> {
       description: 'Show job log on failure',
       default: true,
     }),
+    diff: Flags.string({
+      description: 'Compare the export with a local site archive directory instead of saving it',
+      exclusive: ['zip-only', 'no-download', 'keep-archive'],
+    }),
   };
 
-  async run(): Promise<SiteArchiveExportResult & {localPath?: string}> {
+  async run(): Promise<SiteArchiveDiffResult | (SiteArchiveExportResult & {localPath?: string})> {
     this.requireOAuthCredentials();
     this.requireWebDavCredentials();
 
@@ -115,6 +124,7 @@ export default class JobExport extends JobCommand<typeof JobExport> {
       'zip-only': zipOnly,
       timeout,
       'show-log': showLog,
+      diff,
     } = this.flags;
 
     const hostname = this.resolvedConfig.hostname!;
@@ -148,24 +158,32 @@ export default class JobExport extends JobCommand<typeof JobExport> {
 
     this.log(t('commands.job.export.dataUnits', 'Data units: {{dataUnits}}', {dataUnits: JSON.stringify(dataUnits)}));
 
+    const waitOptions: WaitForJobOptions = {
+      timeout: timeout ? timeout * 1000 : undefined,
+      onProgress: (exec, elapsed) => {
+        if (!this.jsonEnabled()) {
+          const elapsedSec = Math.floor(elapsed / 1000);
+          this.log(
+            t('commands.job.export.progress', '  Status: {{status}} ({{elapsed}}s elapsed)', {
+              status: exec.execution_status,
+              elapsed: elapsedSec.toString(),
+            }),
+          );
+        }
+      },
+    };
+
     try {
+      if (diff) {
+        const diffResult = await siteArchiveDiff(this.instance, dataUnits, diff, {waitOptions});
+        this.printDiff(diffResult, diff);
+        return diffResult;
+      }
+
       const result = await siteArchiveExportToPath(this.instance, dataUnits, output, {
         keepArchive: keepArchive || noDownload,
         extractZip: !zipOnly,
-        waitOptions: {
-          timeout: timeout ? timeout * 1000 : undefined,
-          onProgress: (exec, elapsed) => {
-            if (!this.jsonEnabled()) {
-              const elapsedSec = Math.floor(elapsed / 1000);
-              this.log(
-                t('commands.job.export.progress', '  Status: {{status}} ({{elapsed}}s elapsed)', {
-                  status: exec.execution_status,
-                  elapsed: elapsedSec.toString(),
-                }),
-              );
-            }
-          },
-        },
+        waitOptions,
       });
 
       const durationSec = result.execution.duration ? (result.execution.duration / 1000).toFixed(1) : 'N/A';
@@ -316,4 +334,44 @@ export default class JobExport extends JobCommand<typeof JobExport> {
 
     return result;
   }
+
+  private printDiff(result: SiteArchiveDiffResult, localDir: string): void {
+    if (this.jsonEnabled()) return;
+
+    if (result.files.length === 0) {
+      this.log(
+        t(
+          'commands.job.export.diffNone',
+          'No differences between {{localDir}} and the instance ({{count}} file(s) compared)',
+          {
+            localDir,
+            count: result.compared,
+          },
+        ),
+      );
+      return;
+    }
+
+    const fileMarkers: Record<SiteArchiveFileDiff['status'], string> = {added: 'A', changed: 'M', removed: 'D'};
+    const changeMarkers = {added: '+', changed: '~', removed: '-'};
+
+    for (const file of result.files) {
+      ux.stdout(`${fileMarkers[file.status]} ${file.path}`);
+      for (const change of file.changes) {
+        ux.stdout(`    ${changeMarkers[change.type]} ${change.entity}${change.item ? `: ${change.item}` : ''}`);
+        for (const property of change.properties ?? []) {
+          ux.stdout(`        ${property.name}: ${property.local ?? '(unset)'} -> ${property.remote ?? '(unset)'}`);
+        }
+      }
+    }
+
+    this.log('');
+    this.log(
+      t(
+        'commands.job.export.diffSummary',
+        '{{count}} file(s) differ (A: only on instance, D: only in {{localDir}}, M: changed)',
+        {count: result.files.length, localDir},
+      ),
+    );
+  }
 }
@@ -30,6 +30,7 @@ export default class JobRun extends JobCommand<typeof JobRun> {
     '<%= config.bin %> <%= command.id %> my-custom-job --wait',
     String.raw`<%= config.bin %> <%= command.id %> my-custom-job -P "SiteScope={\"all_storefront_sites\":true}" -P OtherParam=value`,
     '<%= config.bin %> <%= command.id %> my-custom-job --wait --timeout 600',
+    '<%= config.bin %> <%= command.id %> my-custom-job --follow',
   ];
 
   static flags = {
@@ -39,6 +40,11 @@ export default class JobRun extends JobCommand<typeof JobRun> {
       description: 'Wait for job to complete',
       default: false,
     }),
+    follow: Flags.boolean({
+      char: 'f',
+      description: 'Wait for job to complete and stream its log (implies --wait)',
+      default: false,
+    }),
     timeout: Flags.integer({
       char: 't',
       description: 'Timeout in seconds when waiting (default: no timeout)',
@@ -63,7 +69,7 @@ export default class JobRun extends JobCommand<typeof JobRun> {
     this.requireOAuthCredentials();
 
     const {jobId} = this.args;
-    const {wait, timeout, param, 'no-wait-running': noWaitRunning, 'show-log': showLog} = this.flags;
+    const {wait, follow, timeout, param, 'no-wait-running': noWaitRunning, 'show-log': showLog} = this.flags;
 
     // Parse parameters
     const parameters = this.parseParameters(param || []);
@@ -98,24 +104,26 @@ export default class JobRun extends JobCommand<typeof JobRun> {
     );
 
     // Wait for completion if requested
-    if (wait) {
+    if (wait || follow) {
       this.log(t('commands.job.run.waiting', 'Waiting for job to complete...'));
 
       try {
-        execution = await waitForJob(this.instance, jobId, execution.id!, {
-          timeout: timeout ? timeout * 1000 : undefined,
-          onProgress: (exec, elapsed) => {
-            if (!this.jsonEnabled()) {
-              const elapsedSec = Math.floor(elapsed / 1000);
-              this.log(
-                t('commands.job.run.progress', '  Status: {{status}} ({{elapsed}}s elapsed)', {
-                  status: exec.execution_status,
-                  elapsed: elapsedSec.toString(),
-                }),
-              );
-            }
-          },
-        });
+        execution = follow
+          ? await this.followJob(jobId, execution.id!, {timeout: timeout ? timeout * 1000 : undefined})
+          : await waitForJob(this.instance, jobId, execution.id!, {
+              timeout: timeout ? timeout * 1000 : undefined,
+              onProgress: (exec, elapsed) => {
+                if (!this.jsonEnabled()) {
+                  const elapsedSec = Math.floor(elapsed / 1000);
+                  this.log(
+                    t('commands.job.run.progress', '  Status: {{status}} ({{elapsed}}s elapsed)', {
+                      status: exec.execution_status,
+                      elapsed: elapsedSec.toString(),
+                    }),
+                  );
+                }
+              },
+            });
 
         const durationSec = execution.duration ? (execution.duration / 1000).toFixed(1) : 'N/A';
         this.log(
@@ -126,7 +134,8 @@ export default class JobRun extends JobCommand<typeof JobRun> {
         );
       } catch (error) {
         if (error instanceof JobExecutionError) {
-          if (showLog) {
+          // With --follow the log was already streamed
+          if (showLog && !follow) {
             await this.showJobLog(error.execution);
           }
           this.error(
@@ -28,6 +28,7 @@ export default class JobWait extends JobCommand<typeof JobWait> {
     '<%= config.bin %> <%= command.id %> my-job abc123-def456',
     '<%= config.bin %> <%= command.id %> my-job abc123-def456 --timeout 600',
     '<%= config.bin %> <%= command.id %> my-job abc123-def456 --poll-interval 5',
+    '<%= config.bin %> <%= command.id %> my-job abc123-def456 --follow',
   ];
 
   static flags = {
@@ -44,13 +45,18 @@ export default class JobWait extends JobCommand<typeof JobWait> {
       description: 'Show job log on failure',
       default: true,
     }),
+    follow: Flags.boolean({
+      char: 'f',
+      description: 'Stream the job log while waiting',
+      default: false,
+    }),
   };
 
   async run(): Promise<JobExecution> {
     this.requireOAuthCredentials();
 
     const {jobId, executionId} = this.args;
-    const {timeout, 'poll-interval': pollInterval, 'show-log': showLog} = this.flags;
+    const {timeout, 'poll-interval': pollInterval, 'show-log': showLog, follow} = this.flags;
 
     this.log(
       t('commands.job.wait.waiting', 'Waiting for job {{jobId}} execution {{executionId}}...', {
@@ -60,21 +66,26 @@ export default class JobWait extends JobCommand<typeof JobWait> {
     );
 
     try {
-      const execution = await waitForJob(this.instance, jobId, executionId, {
-        timeout: timeout ? timeout * 1000 : undefined,
-        pollInterval: pollInterval * 1000,
-        onProgress: (exec, elapsed) => {
-          if (!this.jsonEnabled()) {
-            const elapsedSec = Math.floor(elapsed / 1000);
-            this.log(
-              t('commands.job.wait.progress', '  Status: {{status}} ({{elapsed}}s elapsed)', {
-                status: exec.execution_status,
-                elapsed: elapsedSec.toString(),
-              }),
-            );
-          }
-        },
-      });
+      const execution = follow
+        ? await this.followJob(jobId, executionId, {
+            timeout: timeout ? timeout * 1000 : undefined,
+            pollInterval: pollInterval * 1000,
+          })
+        : await waitForJob(this.instance, jobId, executionId, {
+            timeout: timeout ? timeout * 1000 : undefined,
+            pollInterval: pollInterval * 1000,
+            onProgress: (exec, elapsed) => {
+              if (!this.jsonEnabled()) {
+                const elapsedSec = Math.floor(elapsed / 1000);
+                this.log(
+                  t('commands.job.wait.progress', '  Status: {{status}} ({{elapsed}}s elapsed)', {
+                    status: exec.execution_status,
+                    elapsed: elapsedSec.toString(),
+                  }),
+                );
+              }
+            },
+          });
 
       const durationSec = execution.duration ? (execution.duration / 1000).toFixed(1) : 'N/A';
       this.log(
@@ -87,7 +98,8 @@ export default class JobWait extends JobCommand<typeof JobWait> {
       return execution;
     } catch (error) {
       if (error instanceof JobExecutionError) {
-        if (showLog) {
+        // With --follow the log was already streamed
+        if (showLog && !follow) {
           await this.showJobLog(error.execution);
         }
         this.error(
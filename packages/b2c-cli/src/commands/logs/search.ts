@@ -0,0 +1,61 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import {Flags} from '@oclif/core';
+import {searchLogs, type LogEntry} from '@salesforce/b2c-tooling-sdk/operations/logs';
+import {LogsCommand} from '../../utils/logs/command.js';
+import {t} from '../../i18n/index.js';
+
+export default class LogsSearch extends LogsCommand<typeof LogsSearch> {
+  static description = t('commands.logs.search.description', 'Search instance log files');
+
+  static examples = [
+    '<%= config.bin %> <%= command.id %> --grep NullPointerException',
+    '<%= config.bin %> <%= command.id %> --prefix error,customerror --since 1h',
+    '<%= config.bin %> <%= command.id %> --level ERROR --since 2025-01-01T08:00:00Z --until 2025-01-01T09:00:00Z',
+    '<%= config.bin %> <%= command.id %> --prefix jobs --all-files --grep "ImportCatalog" --json',
+  ];
+
+  static flags = {
+    ...LogsCommand.baseFlags,
+    until: Flags.string({
+      description: 'Only show entries until a duration ago (e.g. 15m, 2h, 1d) or date',
+    }),
+    'all-files': Flags.boolean({
+      description: 'Search all rotated log files instead of only the current ones',
+      default: false,
+    }),
+    max: Flags.integer({
+      description: 'Maximum number of entries to show (most recent)',
+    }),
+  };
+
+  async run(): Promise<LogEntry[]> {
+    this.requireWebDavCredentials();
+
+    const prefixes = this.logPrefixes;
+    const filter = this.getLogFilter(this.flags.until);
+
+    this.log(
+      t('commands.logs.search.searching', 'Searching {{prefixes}} logs on {{hostname}}...', {
+        prefixes: prefixes.join(', '),
+        hostname: this.resolvedConfig.hostname!,
+      }),
+    );
+
+    let entries = await searchLogs(this.instance, {prefixes, filter, all: this.flags['all-files']});
+    if (this.flags.max !== undefined) {
+      entries = entries.slice(-this.flags.max);
+    }
+
+    for (const entry of entries) {
+      this.printEntry(entry);
+    }
+
+    this.log(t('commands.logs.search.found', 'Found {{count}} matching entries', {count: entries.length}));
+
+    return entries;
+  }
+}
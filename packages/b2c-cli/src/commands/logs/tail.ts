@@ -0,0 +1,60 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import {Flags} from '@oclif/core';
+import {tailLogs} from '@salesforce/b2c-tooling-sdk/operations/logs';
+import {LogsCommand} from '../../utils/logs/command.js';
+import {t} from '../../i18n/index.js';
+
+export default class LogsTail extends LogsCommand<typeof LogsTail> {
+  static description = t('commands.logs.tail.description', 'Follow instance log files as they are written');
+
+  static examples = [
+    '<%= config.bin %> <%= command.id %>',
+    '<%= config.bin %> <%= command.id %> --prefix error,customerror',
+    '<%= config.bin %> <%= command.id %> --prefix custom --level ERROR,WARN',
+    '<%= config.bin %> <%= command.id %> --last-kb 16',
+    '<%= config.bin %> <%= command.id %> --grep "PaymentService" --json',
+  ];
+
+  static flags = {
+    ...LogsCommand.baseFlags,
+    'poll-interval': Flags.integer({
+      description: 'Polling interval in seconds',
+      default: 3,
+    }),
+    'last-kb': Flags.integer({
+      description: 'Also show entries from the last N kilobytes of each file when starting',
+      default: 0,
+    }),
+  };
+
+  async run(): Promise<void> {
+    this.requireWebDavCredentials();
+
+    const prefixes = this.logPrefixes;
+    const filter = this.getLogFilter();
+
+    this.log(
+      t('commands.logs.tail.following', 'Following {{prefixes}} logs on {{hostname}} (Ctrl+C to stop)', {
+        prefixes: prefixes.join(', '),
+        hostname: this.resolvedConfig.hostname!,
+      }),
+    );
+
+    const controller = new AbortController();
+    process.once('SIGINT', () => controller.abort());
+
+    for await (const entry of tailLogs(this.instance, {
+      prefixes,
+      filter,
+      pollInterval: this.flags['poll-interval'] * 1000,
+      initialBytes: this.flags['last-kb'] * 1024,
+      signal: controller.signal,
+    })) {
+      this.printEntry(entry);
+    }
+  }
+}
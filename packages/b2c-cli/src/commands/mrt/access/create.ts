@@ -0,0 +1,66 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import {randomBytes} from 'node:crypto';
+import {Args} from '@oclif/core';
+import {MrtCommand} from '@salesforce/b2c-tooling-sdk/cli';
+import {
+  ACCESS_CONTROL_HEADER_NAME,
+  createAccessControlHeader,
+  type MrtAccessControlHeader,
+} from '@salesforce/b2c-tooling-sdk/operations/mrt';
+import {MrtTargetCommand} from '../../../utils/mrt/command.js';
+import {t} from '../../../i18n/index.js';
+
+/**
+ * Protect an MRT environment with an access control header.
+ */
+export default class MrtAccessCreate extends MrtTargetCommand<typeof MrtAccessCreate> {
+  static args = {
+    value: Args.string({
+      description: 'Secret header value (a random value is generated if omitted)',
+    }),
+  };
+
+  static description = t(
+    'commands.mrt.access.create.description',
+    `Restrict a Managed Runtime environment to requests sending an ${ACCESS_CONTROL_HEADER_NAME} header value`,
+  );
+
+  static enableJsonFlag = true;
+
+  static examples = [
+    '<%= config.bin %> <%= command.id %> --project acme-storefront --environment staging',
+    '<%= config.bin %> <%= command.id %> "$STAGING_ACCESS_SECRET" -p acme-storefront -e staging',
+  ];
+
+  static flags = {
+    ...MrtCommand.baseFlags,
+  };
+
+  async run(): Promise<MrtAccessControlHeader & {header: string; value: string}> {
+    const target = this.requireTarget();
+    const value = this.args.value ?? randomBytes(24).toString('hex');
+
+    const created = await createAccessControlHeader(target, value, this.getMrtAuth());
+
+    this.log(
+      t('commands.mrt.access.create.success', 'Access control header {{id}} added to {{environment}}', {
+        id: created.id ?? '',
+        environment: target.environment,
+      }),
+    );
+    if (!this.args.value) {
+      this.log(
+        t('commands.mrt.access.create.value', 'Send this header with every request: {{header}}: {{value}}', {
+          header: ACCESS_CONTROL_HEADER_NAME,
+          value,
+        }),
+      );
+    }
+
+    return {...created, header: ACCESS_CONTROL_HEADER_NAME, value};
+  }
+}
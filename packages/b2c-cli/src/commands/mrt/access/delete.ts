@@ -0,0 +1,51 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import {Args} from '@oclif/core';
+import {MrtCommand} from '@salesforce/b2c-tooling-sdk/cli';
+import {deleteAccessControlHeader} from '@salesforce/b2c-tooling-sdk/operations/mrt';
+import {MrtTargetCommand} from '../../../utils/mrt/command.js';
+import {t} from '../../../i18n/index.js';
+
+/**
+ * Delete an access control header from an MRT environment.
+ */
+export default class MrtAccessDelete extends MrtTargetCommand<typeof MrtAccessDelete> {
+  static args = {
+    id: Args.string({
+      description: 'ID of the access control header (see mrt access list)',
+      required: true,
+    }),
+  };
+
+  static description = t(
+    'commands.mrt.access.delete.description',
+    'Delete an access control header from a Managed Runtime environment',
+  );
+
+  static enableJsonFlag = true;
+
+  static examples = ['<%= config.bin %> <%= command.id %> 3f2b8c1e-... -p acme-storefront -e staging'];
+
+  static flags = {
+    ...MrtCommand.baseFlags,
+  };
+
+  async run(): Promise<{id: string; environment: string}> {
+    const target = this.requireTarget();
+    const {id} = this.args;
+
+    await deleteAccessControlHeader(target, id, this.getMrtAuth());
+
+    this.log(
+      t('commands.mrt.access.delete.success', 'Access control header {{id}} deleted from {{environment}}', {
+        id,
+        environment: target.environment,
+      }),
+    );
+
+    return {id, environment: target.environment};
+  }
+}
@@ -0,0 +1,74 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import {MrtCommand, createTable, type ColumnDef} from '@salesforce/b2c-tooling-sdk/cli';
+import {listAccessControlHeaders, type MrtAccessControlHeader} from '@salesforce/b2c-tooling-sdk/operations/mrt';
+import {MrtTargetCommand} from '../../../utils/mrt/command.js';
+import {t} from '../../../i18n/index.js';
+
+const PUBLISHING_STATUS: Record<number, string> = {
+  0: 'Pending',
+  1: 'Completed',
+  2: 'Failed',
+};
+
+const COLUMNS: Record<string, ColumnDef<MrtAccessControlHeader>> = {
+  id: {
+    header: 'ID',
+    get: (h) => h.id ?? '-',
+  },
+  status: {
+    header: 'Status',
+    get: (h) => (h.publishing_status === undefined ? '-' : (PUBLISHING_STATUS[h.publishing_status] ?? '-')),
+  },
+  created: {
+    header: 'Created',
+    get: (h) => (h.created_at ? new Date(h.created_at).toLocaleString() : '-'),
+  },
+  by: {
+    header: 'Created By',
+    get: (h) => h.user_email ?? '-',
+  },
+};
+
+/**
+ * List the access control headers of an MRT environment.
+ */
+export default class MrtAccessList extends MrtTargetCommand<typeof MrtAccessList> {
+  static description = t(
+    'commands.mrt.access.list.description',
+    'List the access control headers protecting a Managed Runtime environment',
+  );
+
+  static enableJsonFlag = true;
+
+  static examples = ['<%= config.bin %> <%= command.id %> --project acme-storefront --environment staging'];
+
+  static flags = {
+    ...MrtCommand.baseFlags,
+  };
+
+  async run(): Promise<{count: number; headers: MrtAccessControlHeader[]}> {
+    const target = this.requireTarget();
+
+    const headers = await listAccessControlHeaders(target, this.getMrtAuth());
+
+    if (!this.jsonEnabled()) {
+      if (headers.length === 0) {
+        this.log(
+          t(
+            'commands.mrt.access.list.empty',
+            'No access control headers found. {{environment}} is publicly reachable.',
+            {environment: target.environment},
+          ),
+        );
+      } else {
+        createTable(COLUMNS).render(headers, Object.keys(COLUMNS));
+      }
+    }
+
+    return {count: headers.length, headers};
+  }
+}
@@ -0,0 +1,126 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import {Flags} from '@oclif/core';
+import {MrtCommand, createTable, type ColumnDef} from '@salesforce/b2c-tooling-sdk/cli';
+import {listDeployments, type MrtDeployment} from '@salesforce/b2c-tooling-sdk/operations/mrt';
+import {t} from '../../../i18n/index.js';
+
+const COLUMNS: Record<string, ColumnDef<MrtDeployment>> = {
+  created: {
+    header: 'Deployed',
+    get: (d) => (d.created_at ? new Date(d.created_at).toLocaleString() : '-'),
+  },
+  bundle: {
+    header: 'Bundle',
+    get: (d) => String(d.bundle.id),
+  },
+  message: {
+    header: 'Message',
+    get: (d) => d.bundle.message,
+  },
+  type: {
+    header: 'Type',
+    get: (d) => d.deploy_type ?? '-',
+  },
+  status: {
+    header: 'Status',
+    get: (d) => d.status ?? '-',
+  },
+  user: {
+    header: 'Deployed By',
+    get: (d) => d.user ?? '-',
+  },
+  author: {
+    header: 'Bundle Author',
+    get: (d) => d.bundle.user ?? '-',
+    extended: true,
+  },
+  bundleCreated: {
+    header: 'Bundle Created',
+    get: (d) => (d.bundle.created_at ? new Date(d.bundle.created_at).toLocaleString() : '-'),
+    extended: true,
+  },
+  duration: {
+    header: 'Duration',
+    get: (d) => d.duration || '-',
+    extended: true,
+  },
+};
+
+const DEFAULT_COLUMNS = ['created', 'bundle', 'message', 'type', 'status', 'user'];
+
+/**
+ * List the deployment history of an MRT environment.
+ */
+export default class MrtDeploymentsList extends MrtCommand<typeof MrtDeploymentsList> {
+  static description = t(
+    'commands.mrt.deployments.list.description',
+    'List the deployment history of a Managed Runtime environment',
+  );
+
+  static enableJsonFlag = true;
+
+  static examples = [
+    '<%= config.bin %> <%= command.id %> --project acme-storefront --environment production',
+    '<%= config.bin %> <%= command.id %> -p my-project -e staging --limit 5',
+    '<%= config.bin %> <%= command.id %> -p my-project -e production --json',
+  ];
+
+  static flags = {
+    ...MrtCommand.baseFlags,
+    limit: Flags.integer({
+      description: 'Maximum number of deployments to show',
+      default: 20,
+    }),
+    extended: Flags.boolean({
+      char: 'x',
+      description: 'Show all columns including bundle author and deployment duration',
+      default: false,
+    }),
+  };
+
+  async run(): Promise<{count: number; deployments: MrtDeployment[]}> {
+    this.requireMrtCredentials();
+
+    const {mrtProject: project, mrtEnvironment: environment} = this.resolvedConfig;
+
+    if (!project) {
+      this.error(
+        'MRT project is required. Provide --project flag, set SFCC_MRT_PROJECT, or set mrtProject in dw.json.',
+      );
+    }
+    if (!environment) {
+      this.error(
+        'MRT environment is required. Provide --environment flag, set SFCC_MRT_ENVIRONMENT, or set mrtEnvironment in dw.json.',
+      );
+    }
+
+    const deployments = await listDeployments(
+      {
+        projectSlug: project,
+        environment,
+        limit: this.flags.limit,
+        origin: this.resolvedConfig.mrtOrigin,
+      },
+      this.getMrtAuth(),
+    );
+
+    if (!this.jsonEnabled()) {
+      if (deployments.length === 0) {
+        this.log(
+          t('commands.mrt.deployments.list.empty', 'No deployments found for {{project}}/{{environment}}.', {
+            project,
+            environment,
+          }),
+        );
+      } else {
+        createTable(COLUMNS).render(deployments, this.flags.extended ? Object.keys(COLUMNS) : DEFAULT_COLUMNS);
+      }
+    }
+
+    return {count: deployments.length, deployments};
+  }
+}
@@ -146,6 +146,7 @@ export default class MrtEnvCreate extends MrtCommand<typeof MrtEnvCreate> {
     '<%= config.bin %> <%= command.id %> feature-test -p my-storefront --region eu-west-1',
     '<%= config.bin %> <%= command.id %> staging -p my-storefront --proxy api=api.example.com --proxy ocapi=ocapi.example.com',
     '<%= config.bin %> <%= command.id %> staging -p my-storefront --wait',
+    '<%= config.bin %> <%= command.id %> staging -p my-storefront --access-header "$STAGING_ACCESS_SECRET"',
   ];
 
   static flags = {
@@ -186,6 +187,11 @@ export default class MrtEnvCreate extends MrtCommand<typeof MrtEnvCreate> {
       description: 'Proxy configuration in format path=host (can be specified multiple times)',
       multiple: true,
     }),
+    'access-header': Flags.string({
+      description:
+        'Access control header value required on all requests to the environment (can be specified multiple times)',
+      multiple: true,
+    }),
     wait: Flags.boolean({
       char: 'w',
       description: 'Wait for the environment to be ready before returning',
@@ -215,6 +221,7 @@ export default class MrtEnvCreate extends MrtCommand<typeof MrtEnvCreate> {
       'allow-cookies': allowCookies,
       'enable-source-maps': enableSourceMaps,
       proxy: proxyStrings,
+      'access-header': accessControlHeaders,
       wait,
     } = this.flags;
 
@@ -242,6 +249,7 @@ export default class MrtEnvCreate extends MrtCommand<typeof MrtEnvCreate> {
           allowCookies: allowCookies || undefined,
           enableSourceMaps: enableSourceMaps || undefined,
           proxyConfigs,
+          accessControlHeaders,
           origin: this.resolvedConfig.mrtOrigin,
         },
         this.getMrtAuth(),
@@ -0,0 +1,52 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import {Flags} from '@oclif/core';
+import {MrtCommand} from '@salesforce/b2c-tooling-sdk/cli';
+import {invalidateCache} from '@salesforce/b2c-tooling-sdk/operations/mrt';
+import {MrtTargetCommand} from '../../utils/mrt/command.js';
+import {t} from '../../i18n/index.js';
+
+/**
+ * Invalidate CDN cache paths of an MRT environment.
+ */
+export default class MrtInvalidate extends MrtTargetCommand<typeof MrtInvalidate> {
+  static description = t(
+    'commands.mrt.invalidate.description',
+    'Invalidate cached objects of a Managed Runtime environment in the CDN',
+  );
+
+  static enableJsonFlag = true;
+
+  static examples = [
+    "<%= config.bin %> <%= command.id %> -p acme-storefront --env production --path '/*'",
+    "<%= config.bin %> <%= command.id %> -p acme-storefront -e staging --path '/category/*' --path '/product/*'",
+  ];
+
+  static flags = {
+    ...MrtCommand.baseFlags,
+    path: Flags.string({
+      description: 'Path pattern to invalidate, starting with / (can be specified multiple times)',
+      multiple: true,
+      required: true,
+    }),
+  };
+
+  async run(): Promise<{environment: string; paths: string[]}> {
+    const target = this.requireTarget();
+
+    const paths = await invalidateCache({...target, paths: this.flags.path}, this.getMrtAuth());
+
+    this.log(
+      t(
+        'commands.mrt.invalidate.success',
+        'Invalidation of {{paths}} requested for {{environment}}. This usually completes within two minutes.',
+        {paths: paths.join(', '), environment: target.environment},
+      ),
+    );
+
+    return {environment: target.environment, paths};
+  }
+}
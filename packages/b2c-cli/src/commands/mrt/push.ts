@@ -5,7 +5,13 @@
  */
 import {Flags} from '@oclif/core';
 import {MrtCommand} from '@salesforce/b2c-tooling-sdk/cli';
-import {pushBundle, DEFAULT_SSR_PARAMETERS, type PushResult} from '@salesforce/b2c-tooling-sdk/operations/mrt';
+import {
+  pushBundle,
+  DEFAULT_SSR_ONLY,
+  DEFAULT_SSR_PARAMETERS,
+  DEFAULT_SSR_SHARED,
+  type PushResult,
+} from '@salesforce/b2c-tooling-sdk/operations/mrt';
 import {t} from '../../i18n/index.js';
 
 /**
@@ -44,6 +50,7 @@ export default class MrtPush extends MrtCommand<typeof MrtPush> {
     '<%= config.bin %> <%= command.id %> --project my-storefront --build-dir ./dist',
     '<%= config.bin %> <%= command.id %> --project my-storefront --node-version 20.x',
     '<%= config.bin %> <%= command.id %> --project my-storefront --ssr-param SSRProxyPath=/api',
+    "<%= config.bin %> <%= command.id %> --project my-storefront --environment production --invalidate '/*'",
   ];
 
   static flags = {
@@ -59,11 +66,11 @@ export default class MrtPush extends MrtCommand<typeof MrtPush> {
     }),
     'ssr-only': Flags.string({
       description: 'Glob patterns for server-only files (comma-separated)',
-      default: 'ssr.js,ssr.mjs,server/**/*',
+      default: DEFAULT_SSR_ONLY.join(','),
     }),
     'ssr-shared': Flags.string({
       description: 'Glob patterns for shared files (comma-separated)',
-      default: 'static/**/*,client/**/*',
+      default: DEFAULT_SSR_SHARED.join(','),
     }),
     'node-version': Flags.string({
       char: 'n',
@@ -74,6 +81,12 @@ export default class MrtPush extends MrtCommand<typeof MrtPush> {
       multiple: true,
       default: [],
     }),
+    invalidate: Flags.string({
+      description:
+        'CDN path pattern to invalidate after the deployment finishes (can be specified multiple times, requires --environment)',
+      multiple: true,
+      default: [],
+    }),
   };
 
   async run(): Promise<PushResult> {
@@ -100,6 +113,11 @@ export default class MrtPush extends MrtCommand<typeof MrtPush> {
       ssrParameters.SSRFunctionNodeVersion = this.flags['node-version'];
     }
 
+    const invalidate = this.flags.invalidate;
+    if (invalidate.length > 0 && !target) {
+      this.error(t('commands.mrt.push.invalidateRequiresEnv', '--invalidate requires --environment'));
+    }
+
     this.log(t('commands.mrt.push.pushing', 'Pushing bundle to {{project}}...', {project}));
 
     if (target) {
@@ -116,6 +134,16 @@ export default class MrtPush extends MrtCommand<typeof MrtPush> {
           ssrOnly,
           ssrShared,
           ssrParameters,
+          invalidate,
+          onDeploymentPoll: (deployment) => {
+            if (!this.jsonEnabled()) {
+              this.log(
+                t('commands.mrt.push.deploymentStatus', 'Deployment status: {{status}}', {
+                  status: deployment.status ?? 'unknown',
+                }),
+              );
+            }
+          },
           origin: this.resolvedConfig.mrtOrigin,
         },
         this.getMrtAuth(),
@@ -132,6 +160,15 @@ export default class MrtPush extends MrtCommand<typeof MrtPush> {
         }),
       );
 
+      if (result.invalidated) {
+        this.log(
+          t('commands.mrt.push.invalidated', 'Invalidation of {{paths}} requested for {{environment}}', {
+            paths: result.invalidated.join(', '),
+            environment: target,
+          }),
+        );
+      }
+
       return result;
     } catch (error) {
       if (error instanceof Error) {
@@ -0,0 +1,79 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import {Args, Flags} from '@oclif/core';
+import {MrtCommand} from '@salesforce/b2c-tooling-sdk/cli';
+import {createRedirects, type MrtRedirectInput} from '@salesforce/b2c-tooling-sdk/operations/mrt';
+import {MrtTargetCommand} from '../../../utils/mrt/command.js';
+import {t} from '../../../i18n/index.js';
+
+/**
+ * Add a redirect to an MRT environment.
+ */
+export default class MrtRedirectsAdd extends MrtTargetCommand<typeof MrtRedirectsAdd> {
+  static args = {
+    from: Args.string({
+      description: 'Path to redirect (a trailing * matches all subpaths)',
+      required: true,
+    }),
+    to: Args.string({
+      description: 'Relative or absolute URL to redirect to',
+      required: true,
+    }),
+  };
+
+  static description = t('commands.mrt.redirects.add.description', 'Add a redirect to a Managed Runtime environment');
+
+  static enableJsonFlag = true;
+
+  static examples = [
+    '<%= config.bin %> <%= command.id %> /spring /summer -p acme-storefront -e staging',
+    '<%= config.bin %> <%= command.id %> "/old/*" /new/ -p acme-storefront -e staging --forward-wildcard --status 302',
+  ];
+
+  static flags = {
+    ...MrtCommand.baseFlags,
+    status: Flags.string({
+      description: 'HTTP status code of the redirect',
+      options: ['301', '302'],
+      default: '301',
+    }),
+    'forward-querystring': Flags.boolean({
+      description: 'Include the query string of the request in the redirect',
+      default: false,
+    }),
+    'forward-wildcard': Flags.boolean({
+      description: 'Append the path matched by the wildcard to the target URL',
+      default: false,
+    }),
+  };
+
+  async run(): Promise<MrtRedirectInput> {
+    const target = this.requireTarget();
+    const {from, to} = this.args;
+
+    /* eslint-disable camelcase */
+    const redirect: MrtRedirectInput = {
+      from_path: from,
+      to_url: to,
+      http_status_code: Number(this.flags.status) as MrtRedirectInput['http_status_code'],
+      forward_querystring: this.flags['forward-querystring'],
+      forward_wildcard: this.flags['forward-wildcard'],
+    };
+    /* eslint-enable camelcase */
+
+    await createRedirects(target, [redirect], this.getMrtAuth());
+
+    this.log(
+      t('commands.mrt.redirects.add.success', 'Redirect {{from}} -> {{to}} added to {{environment}}', {
+        from,
+        to,
+        environment: target.environment,
+      }),
+    );
+
+    return redirect;
+  }
+}
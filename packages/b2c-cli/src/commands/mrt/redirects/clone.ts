@@ -0,0 +1,89 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import * as readline from 'node:readline';
+import {Flags} from '@oclif/core';
+import {MrtCommand} from '@salesforce/b2c-tooling-sdk/cli';
+import {cloneRedirects} from '@salesforce/b2c-tooling-sdk/operations/mrt';
+import {MrtTargetCommand} from '../../../utils/mrt/command.js';
+import {t} from '../../../i18n/index.js';
+
+/**
+ * Simple confirmation prompt.
+ */
+async function confirm(message: string): Promise<boolean> {
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stderr,
+  });
+
+  return new Promise((resolve) => {
+    rl.question(`${message} `, (answer) => {
+      rl.close();
+      resolve(answer.toLowerCase() === 'y' || answer.toLowerCase() === 'yes');
+    });
+  });
+}
+
+/**
+ * Replace the redirects of an MRT environment with those of another environment.
+ */
+export default class MrtRedirectsClone extends MrtTargetCommand<typeof MrtRedirectsClone> {
+  static description = t(
+    'commands.mrt.redirects.clone.description',
+    'Replace all redirects of an environment with the redirects of another environment',
+  );
+
+  static enableJsonFlag = true;
+
+  static examples = [
+    '<%= config.bin %> <%= command.id %> --from staging -p acme-storefront -e production',
+    '<%= config.bin %> <%= command.id %> --from staging -p acme-storefront -e production --force',
+  ];
+
+  static flags = {
+    ...MrtCommand.baseFlags,
+    from: Flags.string({
+      description: 'Environment to copy the redirects from',
+      required: true,
+    }),
+    force: Flags.boolean({
+      char: 'f',
+      description: 'Skip confirmation prompt',
+      default: false,
+    }),
+  };
+
+  async run(): Promise<{from: string; environment: string; cloned: boolean}> {
+    const target = this.requireTarget();
+    const {from, force} = this.flags;
+
+    if (!force && !this.jsonEnabled()) {
+      const confirmed = await confirm(
+        t(
+          'commands.mrt.redirects.clone.confirm',
+          'This replaces all redirects of "{{environment}}" with the redirects of "{{from}}". Continue? (y/n)',
+          {environment: target.environment, from},
+        ),
+      );
+
+      if (!confirmed) {
+        this.log(t('commands.mrt.redirects.clone.cancelled', 'Clone cancelled'));
+        return {from, environment: target.environment, cloned: false};
+      }
+    }
+
+    await cloneRedirects({...target, fromEnvironment: from}, this.getMrtAuth());
+
+    this.log(
+      t('commands.mrt.redirects.clone.success', 'Redirects cloned from {{from}} to {{environment}}', {
+        from,
+        environment: target.environment,
+      }),
+    );
+
+    return {from, environment: target.environment, cloned: true};
+  }
+}
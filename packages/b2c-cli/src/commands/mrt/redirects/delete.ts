@@ -0,0 +1,51 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import {Args} from '@oclif/core';
+import {MrtCommand} from '@salesforce/b2c-tooling-sdk/cli';
+import {deleteRedirect} from '@salesforce/b2c-tooling-sdk/operations/mrt';
+import {MrtTargetCommand} from '../../../utils/mrt/command.js';
+import {t} from '../../../i18n/index.js';
+
+/**
+ * Delete a redirect from an MRT environment.
+ */
+export default class MrtRedirectsDelete extends MrtTargetCommand<typeof MrtRedirectsDelete> {
+  static args = {
+    from: Args.string({
+      description: 'Path of the redirect to delete',
+      required: true,
+    }),
+  };
+
+  static description = t(
+    'commands.mrt.redirects.delete.description',
+    'Delete a redirect from a Managed Runtime environment',
+  );
+
+  static enableJsonFlag = true;
+
+  static examples = ['<%= config.bin %> <%= command.id %> /spring -p acme-storefront -e staging'];
+
+  static flags = {
+    ...MrtCommand.baseFlags,
+  };
+
+  async run(): Promise<{fromPath: string; environment: string}> {
+    const target = this.requireTarget();
+    const {from} = this.args;
+
+    await deleteRedirect(target, from, this.getMrtAuth());
+
+    this.log(
+      t('commands.mrt.redirects.delete.success', 'Redirect {{from}} deleted from {{environment}}', {
+        from,
+        environment: target.environment,
+      }),
+    );
+
+    return {fromPath: from, environment: target.environment};
+  }
+}
@@ -0,0 +1,94 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import {Flags} from '@oclif/core';
+import {MrtCommand, createTable, type ColumnDef} from '@salesforce/b2c-tooling-sdk/cli';
+import {listRedirects, type MrtRedirect} from '@salesforce/b2c-tooling-sdk/operations/mrt';
+import {MrtTargetCommand} from '../../../utils/mrt/command.js';
+import {t} from '../../../i18n/index.js';
+
+const COLUMNS: Record<string, ColumnDef<MrtRedirect>> = {
+  from: {
+    header: 'From',
+    get: (r) => r.from_path,
+  },
+  to: {
+    header: 'To',
+    get: (r) => r.to_url,
+  },
+  code: {
+    header: 'Code',
+    get: (r) => String(r.http_status_code ?? 301),
+  },
+  querystring: {
+    header: 'Query String',
+    get: (r) => (r.forward_querystring ? 'forward' : '-'),
+  },
+  wildcard: {
+    header: 'Wildcard',
+    get: (r) => (r.forward_wildcard ? 'forward' : '-'),
+  },
+  status: {
+    header: 'Status',
+    get: (r) => r.publishing_status ?? '-',
+  },
+  updated: {
+    header: 'Updated',
+    get: (r) => (r.updated_at ? new Date(r.updated_at).toLocaleString() : '-'),
+    extended: true,
+  },
+  by: {
+    header: 'Updated By',
+    get: (r) => r.updated_by ?? r.user_email ?? '-',
+    extended: true,
+  },
+};
+
+const DEFAULT_COLUMNS = ['from', 'to', 'code', 'querystring', 'wildcard', 'status'];
+
+/**
+ * List the redirects of an MRT environment.
+ */
+export default class MrtRedirectsList extends MrtTargetCommand<typeof MrtRedirectsList> {
+  static description = t(
+    'commands.mrt.redirects.list.description',
+    'List the redirects of a Managed Runtime environment',
+  );
+
+  static enableJsonFlag = true;
+
+  static examples = [
+    '<%= config.bin %> <%= command.id %> --project acme-storefront --environment production',
+    '<%= config.bin %> <%= command.id %> -p acme-storefront -e staging --search spring',
+  ];
+
+  static flags = {
+    ...MrtCommand.baseFlags,
+    search: Flags.string({
+      description: 'Only show redirects matching this search term',
+    }),
+    extended: Flags.boolean({
+      char: 'x',
+      description: 'Show all columns including last update',
+      default: false,
+    }),
+  };
+
+  async run(): Promise<{count: number; redirects: MrtRedirect[]}> {
+    const target = this.requireTarget();
+
+    const redirects = await listRedirects({...target, search: this.flags.search}, this.getMrtAuth());
+
+    if (!this.jsonEnabled()) {
+      if (redirects.length === 0) {
+        this.log(t('commands.mrt.redirects.list.empty', 'No redirects found.'));
+      } else {
+        createTable(COLUMNS).render(redirects, this.flags.extended ? Object.keys(COLUMNS) : DEFAULT_COLUMNS);
+      }
+    }
+
+    return {count: redirects.length, redirects};
+  }
+}
@@ -0,0 +1,157 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import fs from 'node:fs';
+import {Args, Flags} from '@oclif/core';
+import {MrtCommand} from '@salesforce/b2c-tooling-sdk/cli';
+import {
+  applyRedirectSync,
+  getRedirectFileFormat,
+  listRedirects,
+  parseRedirects,
+  planRedirectSync,
+  type MrtRedirectInput,
+  type RedirectSyncPlan,
+} from '@salesforce/b2c-tooling-sdk/operations/mrt';
+import {MrtTargetCommand} from '../../../utils/mrt/command.js';
+import {t} from '../../../i18n/index.js';
+
+/**
+ * Sync an MRT environment's redirects with a redirect file.
+ */
+export default class MrtRedirectsSync extends MrtTargetCommand<typeof MrtRedirectsSync> {
+  static args = {
+    file: Args.string({
+      description: 'Redirect file (.csv with a from_path,to_url,... header, or .json array)',
+      required: true,
+    }),
+  };
+
+  static description = t(
+    'commands.mrt.redirects.sync.description',
+    "Make a Managed Runtime environment's redirects match a redirect file",
+  );
+
+  static enableJsonFlag = true;
+
+  static examples = [
+    '<%= config.bin %> <%= command.id %> redirects.csv -p acme-storefront -e staging --dry-run',
+    '<%= config.bin %> <%= command.id %> redirects.csv -p acme-storefront -e staging',
+    '<%= config.bin %> <%= command.id %> redirects.json -p acme-storefront -e staging --no-delete',
+  ];
+
+  static flags = {
+    ...MrtCommand.baseFlags,
+    'dry-run': Flags.boolean({
+      description: 'Only show the changes without applying them',
+      default: false,
+    }),
+    delete: Flags.boolean({
+      description: 'Delete redirects that are not in the file (--no-delete to keep them)',
+      default: true,
+      allowNo: true,
+    }),
+    'batch-size': Flags.integer({
+      description: 'Number of redirects created per request and deleted or updated in parallel',
+      default: 25,
+      min: 1,
+    }),
+  };
+
+  async run(): Promise<RedirectSyncPlan & {applied: boolean}> {
+    const target = this.requireTarget();
+    const {file} = this.args;
+    const {'dry-run': dryRun, 'batch-size': batchSize} = this.flags;
+
+    let desired: MrtRedirectInput[];
+    try {
+      desired = parseRedirects(await fs.promises.readFile(file, 'utf8'), getRedirectFileFormat(file));
+    } catch (error) {
+      this.error(
+        t('commands.mrt.redirects.sync.invalidFile', 'Failed to read {{file}}: {{message}}', {
+          file,
+          message: (error as Error).message,
+        }),
+      );
+    }
+
+    const auth = this.getMrtAuth();
+    const current = await listRedirects(target, auth);
+    const plan = planRedirectSync(desired, current, {delete: this.flags.delete});
+    const total = plan.add.length + plan.update.length + plan.delete.length;
+
+    this.printPlan(plan);
+
+    if (total === 0) {
+      this.log(
+        t('commands.mrt.redirects.sync.upToDate', 'Redirects of {{environment}} are up to date.', {
+          environment: target.environment,
+        }),
+      );
+      return {...plan, applied: false};
+    }
+    if (dryRun) {
+      this.log(t('commands.mrt.redirects.sync.dryRun', 'Dry run, no changes applied.'));
+      return {...plan, applied: false};
+    }
+
+    await applyRedirectSync(
+      {
+        ...target,
+        batchSize,
+        onProgress: (applied, count) => {
+          if (!this.jsonEnabled()) {
+            this.log(
+              t('commands.mrt.redirects.sync.progress', 'Applied {{applied}}/{{count}} changes', {
+                applied,
+                count,
+              }),
+            );
+          }
+        },
+      },
+      plan,
+      auth,
+    );
+
+    this.log(
+      t('commands.mrt.redirects.sync.success', 'Applied {{total}} redirect changes to {{environment}}', {
+        total,
+        environment: target.environment,
+      }),
+    );
+
+    return {...plan, applied: true};
+  }
+
+  private printPlan(plan: RedirectSyncPlan): void {
+    if (this.jsonEnabled()) {
+      return;
+    }
+
+    for (const r of plan.add) {
+      this.log(`+ ${r.from_path} -> ${r.to_url}`);
+    }
+    for (const r of plan.update) {
+      this.log(`~ ${r.from_path} -> ${r.to_url}`);
+    }
+    for (const r of plan.delete) {
+      this.log(`- ${r.from_path} -> ${r.to_url}`);
+    }
+
+    this.log(
+      t(
+        'commands.mrt.redirects.sync.summary',
+        '{{add}} to add, {{update}} to update, {{delete}} to delete, {{unchanged}} unchanged',
+        {
+          add: plan.add.length,
+          update: plan.update.length,
+          delete: plan.delete.length,
+          unchanged: plan.unchanged,
+        },
+      ),
+    );
+  }
+}
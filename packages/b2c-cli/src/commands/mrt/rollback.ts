@@ -0,0 +1,175 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import {Flags} from '@oclif/core';
+import {MrtCommand} from '@salesforce/b2c-tooling-sdk/cli';
+import {
+  deployBundle,
+  findPreviousBundle,
+  listDeployments,
+  waitForDeployment,
+  type MrtDeployment,
+} from '@salesforce/b2c-tooling-sdk/operations/mrt';
+import {t} from '../../i18n/index.js';
+
+/**
+ * Result of a rollback.
+ */
+interface RollbackResult {
+  project: string;
+  environment: string;
+  /** Bundle that was live before the rollback */
+  fromBundleId?: number;
+  /** Bundle that was deployed */
+  bundleId: number;
+  /** The finished deployment (when waiting) */
+  deployment?: MrtDeployment;
+}
+
+/**
+ * Roll back an MRT environment to the previous or a given bundle.
+ */
+export default class MrtRollback extends MrtCommand<typeof MrtRollback> {
+  static description = t(
+    'commands.mrt.rollback.description',
+    'Redeploy the previous (or a given) bundle to a Managed Runtime environment',
+  );
+
+  static enableJsonFlag = true;
+
+  static examples = [
+    '<%= config.bin %> <%= command.id %> --project acme-storefront --environment production',
+    '<%= config.bin %> <%= command.id %> -p acme-storefront -e production --to 41',
+    '<%= config.bin %> <%= command.id %> -p acme-storefront -e staging --no-wait',
+  ];
+
+  static flags = {
+    ...MrtCommand.baseFlags,
+    to: Flags.integer({
+      description: 'Bundle ID to deploy (default: the bundle deployed before the current one)',
+    }),
+    wait: Flags.boolean({
+      char: 'w',
+      description: 'Wait for the deployment to finish',
+      default: true,
+      allowNo: true,
+    }),
+    'poll-interval': Flags.integer({
+      description: 'Polling interval in seconds when waiting',
+      default: 10,
+    }),
+    timeout: Flags.integer({
+      description: 'Maximum time to wait in seconds (0 for no timeout)',
+      default: 1800,
+    }),
+  };
+
+  async run(): Promise<RollbackResult> {
+    this.requireMrtCredentials();
+
+    const {mrtProject: project, mrtEnvironment: environment, mrtOrigin: origin} = this.resolvedConfig;
+
+    if (!project) {
+      this.error(
+        'MRT project is required. Provide --project flag, set SFCC_MRT_PROJECT, or set mrtProject in dw.json.',
+      );
+    }
+    if (!environment) {
+      this.error(
+        'MRT environment is required. Provide --environment flag, set SFCC_MRT_ENVIRONMENT, or set mrtEnvironment in dw.json.',
+      );
+    }
+
+    const auth = this.getMrtAuth();
+    const deployments = await listDeployments({projectSlug: project, environment, origin, limit: 50}, auth);
+    const {current, previous} = findPreviousBundle(deployments);
+
+    const bundleId = this.flags.to ?? previous?.id;
+    if (bundleId === undefined) {
+      this.error(
+        t(
+          'commands.mrt.rollback.noPrevious',
+          'No previous bundle found in the deployment history of {{project}}/{{environment}}. Use --to to choose a bundle.',
+          {project, environment},
+        ),
+      );
+    }
+    if (bundleId === current?.id) {
+      this.warn(
+        t('commands.mrt.rollback.alreadyCurrent', 'Bundle #{{bundleId}} is already deployed; redeploying it', {
+          bundleId: String(bundleId),
+        }),
+      );
+    }
+
+    this.log(
+      t(
+        'commands.mrt.rollback.deploying',
+        'Rolling back {{project}}/{{environment}} from #{{from}} to #{{bundleId}}...',
+        {
+          project,
+          environment,
+          from: current ? String(current.id) : '-',
+          bundleId: String(bundleId),
+        },
+      ),
+    );
+
+    const result: RollbackResult = {project, environment, fromBundleId: current?.id, bundleId};
+
+    try {
+      await deployBundle({projectSlug: project, environment, bundleId, origin}, auth);
+
+      if (!this.flags.wait) {
+        this.log(
+          t('commands.mrt.rollback.started', 'Deployment of bundle #{{bundleId}} started', {
+            bundleId: String(bundleId),
+          }),
+        );
+        return result;
+      }
+
+      const startTime = Date.now();
+      const {timeout} = this.flags;
+      result.deployment = await waitForDeployment(
+        {
+          projectSlug: project,
+          environment,
+          bundleId,
+          after: deployments[0]?.created_at,
+          origin,
+          pollInterval: this.flags['poll-interval'] * 1000,
+          timeout: timeout > 0 ? timeout * 1000 : Number.POSITIVE_INFINITY,
+          onPoll: (deployment) => {
+            if (!this.jsonEnabled()) {
+              this.log(
+                t('commands.mrt.rollback.status', '[{{elapsed}}s] Status: {{status}}', {
+                  elapsed: String(Math.round((Date.now() - startTime) / 1000)),
+                  status: deployment.status ?? 'unknown',
+                }),
+              );
+            }
+          },
+        },
+        auth,
+      );
+    } catch (error) {
+      if (error instanceof Error) {
+        this.error(t('commands.mrt.rollback.failed', 'Rollback failed: {{message}}', {message: error.message}));
+      }
+      throw error;
+    }
+
+    this.log(
+      t('commands.mrt.rollback.success', 'Bundle #{{bundleId}} is live on {{project}}/{{environment}}', {
+        bundleId: String(bundleId),
+        project,
+        environment,
+      }),
+    );
+
+    return result;
+  }
+}
@@ -0,0 +1,116 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import {Flags, ux} from '@oclif/core';
+import {createTable, type ColumnDef} from '@salesforce/b2c-tooling-sdk/cli';
+import {
+  getOcapiConfig,
+  OCAPI_API_TYPES,
+  type OcapiClientConfig,
+  type OcapiResource,
+} from '@salesforce/b2c-tooling-sdk/operations/ocapi-config';
+import {OcapiConfigCommand} from '../../utils/ocapi-config/command.js';
+import {t} from '../../i18n/index.js';
+
+interface ResourceRow extends OcapiResource {
+  scope: string;
+  apiType: string;
+}
+
+const COLUMNS: Record<string, ColumnDef<ResourceRow>> = {
+  scope: {
+    header: 'Scope',
+    get: (r) => r.scope,
+  },
+  apiType: {
+    header: 'API',
+    get: (r) => r.apiType,
+  },
+  resource: {
+    header: 'Resource',
+    get: (r) => r.resource_id,
+  },
+  methods: {
+    header: 'Methods',
+    get: (r) => r.methods.join(', '),
+  },
+  read: {
+    header: 'Read',
+    get: (r) => r.read_attributes || '-',
+  },
+  write: {
+    header: 'Write',
+    get: (r) => r.write_attributes || '-',
+  },
+};
+
+const DEFAULT_COLUMNS = ['scope', 'apiType', 'resource', 'methods', 'read', 'write'];
+
+export default class OcapiConfigGet extends OcapiConfigCommand<typeof OcapiConfigGet> {
+  static args = {
+    ...OcapiConfigCommand.clientIdArg,
+  };
+
+  static description = t(
+    'commands.ocapi-config.get.description',
+    'Show the OCAPI Data and Shop API resource permissions of a client',
+  );
+
+  static enableJsonFlag = true;
+
+  static examples = [
+    '<%= config.bin %> <%= command.id %>',
+    '<%= config.bin %> <%= command.id %> my-client-id --api-type shop',
+    '<%= config.bin %> <%= command.id %> my-client-id --json',
+  ];
+
+  static flags = {
+    ...OcapiConfigCommand.baseFlags,
+    'api-type': Flags.string({
+      description: 'Only show this OCAPI API type',
+      options: OCAPI_API_TYPES,
+    }),
+  };
+
+  async run(): Promise<OcapiClientConfig> {
+    this.requireOAuthCredentials();
+
+    const {clientId} = this;
+    const apiType = this.flags['api-type'];
+
+    const config = (await getOcapiConfig(this.instance, clientId)) ?? {};
+
+    if (this.jsonEnabled()) {
+      return config;
+    }
+
+    const rows: ResourceRow[] = [];
+    const scopes = [
+      ...(config.global ?? []).map((s) => ({...s, scope: 'global'})),
+      ...(config.sites ?? []).map((s) => ({...s, scope: s.site_id ?? '-'})),
+    ];
+    for (const scope of scopes) {
+      for (const info of scope.site_configs ?? []) {
+        if (apiType && info.api_type !== apiType) {
+          continue;
+        }
+        rows.push(...info.resources.map((r) => ({...r, scope: scope.scope, apiType: info.api_type})));
+      }
+    }
+
+    if (rows.length === 0) {
+      ux.stdout(
+        t('commands.ocapi-config.get.noResources', 'No OCAPI resources configured for client {{clientId}}.', {
+          clientId,
+        }),
+      );
+      return config;
+    }
+
+    createTable(COLUMNS).render(rows, DEFAULT_COLUMNS);
+
+    return config;
+  }
+}
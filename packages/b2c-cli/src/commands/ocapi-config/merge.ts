@@ -0,0 +1,102 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import {Flags} from '@oclif/core';
+import {
+  mergeOcapiConfig,
+  mergeResourceInfo,
+  CLI_REQUIRED_RESOURCES,
+  type OcapiConfigMergeResult,
+  type OcapiResourceInfo,
+} from '@salesforce/b2c-tooling-sdk/operations/ocapi-config';
+import {OcapiConfigCommand} from '../../utils/ocapi-config/command.js';
+import {t} from '../../i18n/index.js';
+
+export default class OcapiConfigMerge extends OcapiConfigCommand<typeof OcapiConfigMerge> {
+  static args = {
+    ...OcapiConfigCommand.clientIdArg,
+  };
+
+  static description = t(
+    'commands.ocapi-config.merge.description',
+    'Grant OCAPI resource permissions to a client, keeping its existing settings (safe to run repeatedly)',
+  );
+
+  static enableJsonFlag = true;
+
+  static examples = [
+    '<%= config.bin %> <%= command.id %> --cli-resources',
+    '<%= config.bin %> <%= command.id %> my-client-id --file ocapi-data.json',
+    '<%= config.bin %> <%= command.id %> --file ocapi-shop.json --api-type shop --site RefArch',
+  ];
+
+  static flags = {
+    ...OcapiConfigCommand.baseFlags,
+    ...OcapiConfigCommand.scopeFlags,
+    file: Flags.string({
+      char: 'f',
+      description: 'OCAPI settings JSON file (Business Manager format or a single client entry)',
+    }),
+    'cli-resources': Flags.boolean({
+      description: 'Grant the Data API resources this CLI needs (code versions, jobs, site cartridges)',
+      default: false,
+    }),
+  };
+
+  async run(): Promise<{clientId: string; results: OcapiConfigMergeResult[]}> {
+    this.requireOAuthCredentials();
+
+    const {file, 'cli-resources': cliResources, site} = this.flags;
+    const {clientId, apiType} = this;
+
+    if (!file && !cliResources) {
+      this.error(t('commands.ocapi-config.merge.nothingToMerge', 'Pass --file, --cli-resources or both'));
+    }
+    if (cliResources && apiType !== 'data') {
+      this.error(t('commands.ocapi-config.merge.cliResourcesData', '--cli-resources requires --api-type data'));
+    }
+
+    /* eslint-disable camelcase */
+    let additions: OcapiResourceInfo = {api_type: apiType, resources: []};
+    if (file) {
+      additions = this.readSettingsFile(file);
+    }
+    if (cliResources) {
+      additions = mergeResourceInfo(additions, {api_type: apiType, resources: CLI_REQUIRED_RESOURCES}).resourceInfo;
+    }
+    /* eslint-enable camelcase */
+
+    const results = await mergeOcapiConfig(this.instance, clientId, additions, {sites: site});
+
+    for (const result of results) {
+      const scope = result.site ?? 'global';
+      if (!result.changed) {
+        this.log(
+          t('commands.ocapi-config.merge.upToDate', '{{scope}}: {{apiType}} API configuration is up to date', {
+            scope,
+            apiType,
+          }),
+        );
+        continue;
+      }
+
+      this.log(
+        t(
+          'commands.ocapi-config.merge.merged',
+          '{{scope}}: added {{added}} and updated {{updated}} {{apiType}} API resources',
+          {scope, apiType, added: result.added.length, updated: result.updated.length},
+        ),
+      );
+      for (const id of result.added) {
+        this.log(`  + ${id}`);
+      }
+      for (const id of result.updated) {
+        this.log(`  ~ ${id}`);
+      }
+    }
+
+    return {clientId, results};
+  }
+}
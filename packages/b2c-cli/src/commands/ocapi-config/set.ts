@@ -0,0 +1,56 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import {Flags} from '@oclif/core';
+import {setOcapiConfig, type OcapiClientConfig} from '@salesforce/b2c-tooling-sdk/operations/ocapi-config';
+import {OcapiConfigCommand} from '../../utils/ocapi-config/command.js';
+import {t} from '../../i18n/index.js';
+
+export default class OcapiConfigSet extends OcapiConfigCommand<typeof OcapiConfigSet> {
+  static args = {
+    ...OcapiConfigCommand.clientIdArg,
+  };
+
+  static description = t(
+    'commands.ocapi-config.set.description',
+    "Replace a client's OCAPI resource permissions for one API type with the settings from a JSON file",
+  );
+
+  static enableJsonFlag = true;
+
+  static examples = [
+    '<%= config.bin %> <%= command.id %> --file ocapi-data.json',
+    '<%= config.bin %> <%= command.id %> my-client-id --file ocapi-shop.json --api-type shop --site RefArch',
+  ];
+
+  static flags = {
+    ...OcapiConfigCommand.baseFlags,
+    ...OcapiConfigCommand.scopeFlags,
+    file: Flags.string({
+      char: 'f',
+      description: 'OCAPI settings JSON file (Business Manager format or a single client entry)',
+      required: true,
+    }),
+  };
+
+  async run(): Promise<OcapiClientConfig> {
+    this.requireOAuthCredentials();
+
+    const {clientId, apiType} = this;
+    const resourceInfo = this.readSettingsFile(this.flags.file);
+
+    const config = await setOcapiConfig(this.instance, clientId, resourceInfo, {sites: this.flags.site});
+
+    this.log(
+      t('commands.ocapi-config.set.updated', 'Set {{count}} {{apiType}} API resources for client {{clientId}}', {
+        count: resourceInfo.resources.length,
+        apiType,
+        clientId,
+      }),
+    );
+
+    return config;
+  }
+}
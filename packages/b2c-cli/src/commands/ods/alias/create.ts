@@ -0,0 +1,119 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import {Args, Flags} from '@oclif/core';
+import {OdsCommand} from '@salesforce/b2c-tooling-sdk/cli';
+import {createSandboxAlias, waitForSandboxAlias, type SandboxAlias} from '@salesforce/b2c-tooling-sdk/operations/ods';
+import {t} from '../../../i18n/index.js';
+
+/**
+ * Command to map a hostname alias to a sandbox.
+ */
+export default class OdsAliasCreate extends OdsCommand<typeof OdsAliasCreate> {
+  static args = {
+    sandboxId: Args.string({
+      description: 'Sandbox ID (UUID)',
+      required: true,
+    }),
+    name: Args.string({
+      description: 'Alias hostname (e.g. dev.example.com)',
+      required: true,
+    }),
+  };
+
+  static description = t('commands.ods.alias.create.description', 'Map a hostname alias to a sandbox');
+
+  static enableJsonFlag = true;
+
+  static examples = [
+    '<%= config.bin %> <%= command.id %> abc12345-1234-1234-1234-abc123456789 dev.example.com',
+    '<%= config.bin %> <%= command.id %> abc12345-1234-1234-1234-abc123456789 dev.example.com --unique --lets-encrypt',
+    '<%= config.bin %> <%= command.id %> abc12345-1234-1234-1234-abc123456789 dev.example.com --wait --timeout 1800',
+  ];
+
+  static flags = {
+    unique: Flags.boolean({
+      description: 'Register the alias as a unique configuration',
+      default: false,
+    }),
+    'lets-encrypt': Flags.boolean({
+      description: "Request a Let's Encrypt certificate for the hostname (consumes the domain's certificate quota)",
+      default: false,
+    }),
+    wait: Flags.boolean({
+      char: 'w',
+      description: 'Wait for the alias to become active (domain verified) before returning',
+      default: false,
+    }),
+    'poll-interval': Flags.integer({
+      description: 'Polling interval in seconds when using --wait',
+      default: 10,
+      dependsOn: ['wait'],
+    }),
+    timeout: Flags.integer({
+      description: 'Maximum time to wait in seconds when using --wait (0 for no timeout)',
+      default: 600,
+      dependsOn: ['wait'],
+    }),
+  };
+
+  async run(): Promise<SandboxAlias> {
+    const {sandboxId, name} = this.args;
+    const {unique, 'lets-encrypt': letsEncrypt, wait} = this.flags;
+
+    let alias = await createSandboxAlias(this.odsClient, sandboxId, name, {
+      unique,
+      requestLetsEncryptCertificate: letsEncrypt,
+    });
+
+    this.log(
+      t('commands.ods.alias.create.created', 'Alias {{name}} created ({{id}}), status: {{status}}', {
+        name,
+        id: alias.id,
+        status: alias.status ?? 'unknown',
+      }),
+    );
+
+    if (alias.status === 'pending' && alias.domainVerificationRecord) {
+      this.log(
+        t(
+          'commands.ods.alias.create.verification',
+          'Add this TXT record to the DNS of {{name}} to verify the domain: {{record}}',
+          {name, record: alias.domainVerificationRecord},
+        ),
+      );
+    }
+
+    if (wait && alias.id) {
+      const {timeout} = this.flags;
+      this.log(t('commands.ods.alias.create.waiting', 'Waiting for alias to become active...'));
+
+      alias = await waitForSandboxAlias(this.odsClient, sandboxId, alias.id, {
+        pollInterval: this.flags['poll-interval'] * 1000,
+        timeout: timeout > 0 ? timeout * 1000 : undefined,
+        onProgress: (current, elapsedMs) => {
+          this.log(
+            t('commands.ods.alias.create.status', '[{{elapsed}}s] Status: {{status}}', {
+              elapsed: String(Math.round(elapsedMs / 1000)),
+              status: current.status ?? 'unknown',
+            }),
+          );
+        },
+      });
+
+      this.log(t('commands.ods.alias.create.active', 'Alias {{name}} is now active', {name}));
+    }
+
+    if (alias.registration) {
+      this.log(
+        t('commands.ods.alias.create.registration', 'Open {{url}} in your browser to register the alias cookie', {
+          url: alias.registration,
+        }),
+      );
+    }
+
+    return alias;
+  }
+}
@@ -0,0 +1,52 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import {Args} from '@oclif/core';
+import {OdsCommand} from '@salesforce/b2c-tooling-sdk/cli';
+import {deleteSandboxAlias, listSandboxAliases} from '@salesforce/b2c-tooling-sdk/operations/ods';
+import {t} from '../../../i18n/index.js';
+
+/**
+ * Command to delete a hostname alias of a sandbox.
+ */
+export default class OdsAliasDelete extends OdsCommand<typeof OdsAliasDelete> {
+  static args = {
+    sandboxId: Args.string({
+      description: 'Sandbox ID (UUID)',
+      required: true,
+    }),
+    alias: Args.string({
+      description: 'Alias ID (UUID) or hostname',
+      required: true,
+    }),
+  };
+
+  static description = t('commands.ods.alias.delete.description', 'Delete a hostname alias of a sandbox');
+
+  static examples = [
+    '<%= config.bin %> <%= command.id %> abc12345-1234-1234-1234-abc123456789 dev.example.com',
+    '<%= config.bin %> <%= command.id %> abc12345-1234-1234-1234-abc123456789 def12345-1234-1234-1234-abc123456789',
+  ];
+
+  async run(): Promise<void> {
+    const {sandboxId, alias} = this.args;
+
+    const aliases = await listSandboxAliases(this.odsClient, sandboxId);
+    const match = aliases.find((a) => a.id === alias) ?? aliases.find((a) => a.name === alias);
+
+    if (!match?.id) {
+      this.error(
+        t('commands.ods.alias.delete.notFound', 'Alias {{alias}} not found on sandbox {{sandboxId}}', {
+          alias,
+          sandboxId,
+        }),
+      );
+    }
+
+    await deleteSandboxAlias(this.odsClient, sandboxId, match.id);
+
+    this.log(t('commands.ods.alias.delete.deleted', 'Alias {{name}} deleted', {name: match.name}));
+  }
+}
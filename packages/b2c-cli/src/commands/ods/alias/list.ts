@@ -0,0 +1,69 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import {Args, ux} from '@oclif/core';
+import {OdsCommand, createTable, type ColumnDef} from '@salesforce/b2c-tooling-sdk/cli';
+import {listSandboxAliases, type SandboxAlias} from '@salesforce/b2c-tooling-sdk/operations/ods';
+import {t} from '../../../i18n/index.js';
+
+const COLUMNS: Record<string, ColumnDef<SandboxAlias>> = {
+  name: {
+    header: 'Name',
+    get: (a) => a.name,
+  },
+  status: {
+    header: 'Status',
+    get: (a) => a.status || '-',
+  },
+  unique: {
+    header: 'Unique',
+    get: (a) => (a.unique ? 'Yes' : 'No'),
+  },
+  id: {
+    header: 'ID',
+    get: (a) => a.id || '-',
+  },
+};
+
+const DEFAULT_COLUMNS = ['name', 'status', 'unique', 'id'];
+
+/**
+ * Command to list the aliases of a sandbox.
+ */
+export default class OdsAliasList extends OdsCommand<typeof OdsAliasList> {
+  static args = {
+    sandboxId: Args.string({
+      description: 'Sandbox ID (UUID)',
+      required: true,
+    }),
+  };
+
+  static description = t('commands.ods.alias.list.description', 'List the hostname aliases of a sandbox');
+
+  static enableJsonFlag = true;
+
+  static examples = [
+    '<%= config.bin %> <%= command.id %> abc12345-1234-1234-1234-abc123456789',
+    '<%= config.bin %> <%= command.id %> abc12345-1234-1234-1234-abc123456789 --json',
+  ];
+
+  async run(): Promise<{count: number; data: SandboxAlias[]}> {
+    const aliases = await listSandboxAliases(this.odsClient, this.args.sandboxId);
+    const result = {count: aliases.length, data: aliases};
+
+    if (this.jsonEnabled()) {
+      return result;
+    }
+
+    if (aliases.length === 0) {
+      ux.stdout(t('commands.ods.alias.list.noAliases', 'No aliases found.'));
+      return result;
+    }
+
+    createTable(COLUMNS).render(aliases, DEFAULT_COLUMNS);
+
+    return result;
+  }
+}
@@ -7,32 +7,18 @@ import {Flags, ux} from '@oclif/core';
 import cliui from 'cliui';
 import {OdsCommand} from '@salesforce/b2c-tooling-sdk/cli';
 import type {OdsComponents} from '@salesforce/b2c-tooling-sdk';
+import {CLI_REQUIRED_RESOURCES} from '@salesforce/b2c-tooling-sdk/operations/ocapi-config';
 import {t} from '../../i18n/index.js';
 
 type SandboxModel = OdsComponents['schemas']['SandboxModel'];
 type SandboxResourceProfile = OdsComponents['schemas']['SandboxResourceProfile'];
 type SandboxState = OdsComponents['schemas']['SandboxState'];
-type OcapiSettings = OdsComponents['schemas']['OcapiSettings'];
 type WebDavSettings = OdsComponents['schemas']['WebDavSettings'];
 type SandboxSettings = OdsComponents['schemas']['SandboxSettings'];
 
 /** States that indicate sandbox creation has completed (success or failure) */
 const TERMINAL_STATES = new Set<SandboxState>(['deleted', 'failed', 'started']);
 
-/**
- * Default OCAPI resources to grant the client ID access to.
- * These enable common CI/CD operations like code deployment and job execution.
- */
-/* eslint-disable camelcase */
-const DEFAULT_OCAPI_RESOURCES: NonNullable<OcapiSettings[number]['resources']> = [
-  {resource_id: '/code_versions', methods: ['get'], read_attributes: '(**)', write_attributes: '(**)'},
-  {resource_id: '/code_versions/*', methods: ['patch', 'delete'], read_attributes: '(**)', write_attributes: '(**)'},
-  {resource_id: '/jobs/*/executions', methods: ['post'], read_attributes: '(**)', write_attributes: '(**)'},
-  {resource_id: '/jobs/*/executions/*', methods: ['get'], read_attributes: '(**)', write_attributes: '(**)'},
-  {resource_id: '/sites/*/cartridges', methods: ['post'], read_attributes: '(**)', write_attributes: '(**)'},
-];
-/* eslint-enable camelcase */
-
 /**
  * Default WebDAV permissions to grant the client ID.
  * These enable common operations like code upload and data import/export.
@@ -188,7 +174,7 @@ export default class OdsCreate extends OdsCommand<typeof OdsCreate> {
       ocapi: [
         {
           client_id: clientId,
-          resources: DEFAULT_OCAPI_RESOURCES,
+          resources: CLI_REQUIRED_RESOURCES,
         },
       ],
       webdav: [
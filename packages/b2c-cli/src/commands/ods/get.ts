@@ -11,6 +11,13 @@ import {t} from '../../i18n/index.js';
 
 type SandboxModel = OdsComponents['schemas']['SandboxModel'];
 
+/**
+ * Formats an automatic start/stop schedule, e.g. `MONDAY, FRIDAY at 08:00:00Z`.
+ */
+function formatSchedule(schedule: SandboxModel['startScheduler']): string | undefined {
+  return schedule?.time ? `${(schedule.weekdays ?? []).join(', ')} at ${schedule.time}` : undefined;
+}
+
 /**
  * Command to get details of a specific sandbox.
  */
@@ -75,6 +82,8 @@ export default class OdsGet extends OdsCommand<typeof OdsGet> {
       ['Resource Profile', sandbox.resourceProfile],
       ['Enabled', sandbox.enabled?.toString()],
       ['Auto Scheduled', sandbox.autoScheduled?.toString()],
+      ['Start Schedule', formatSchedule(sandbox.startScheduler)],
+      ['Stop Schedule', formatSchedule(sandbox.stopScheduler)],
       ['Hostname', sandbox.hostName],
       ['Created At', sandbox.createdAt ? new Date(sandbox.createdAt).toLocaleString() : undefined],
       ['Created By', sandbox.createdBy],
@@ -0,0 +1,165 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import {Args, Flags, ux} from '@oclif/core';
+import {OdsCommand, createTable, type ColumnDef} from '@salesforce/b2c-tooling-sdk/cli';
+import {
+  listSandboxOperations,
+  type ListSandboxOperationsOptions,
+  type SandboxOperation,
+} from '@salesforce/b2c-tooling-sdk/operations/ods';
+import {t} from '../../i18n/index.js';
+
+/**
+ * Formats a duration in milliseconds as e.g. `1h 5m` or `42s`.
+ */
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) {
+    return `${seconds}s`;
+  }
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) {
+    return `${minutes}m ${seconds % 60}s`;
+  }
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+/**
+ * Operation with its duration so far, for operations that have not finished.
+ */
+interface OperationRow extends SandboxOperation {
+  /** Milliseconds since the operation was requested (pending and running operations only) */
+  runningForMs?: number;
+}
+
+const COLUMNS: Record<string, ColumnDef<OperationRow>> = {
+  created: {
+    header: 'Created',
+    get: (o) => (o.createdAt ? new Date(o.createdAt).toLocaleString() : '-'),
+  },
+  operation: {
+    header: 'Operation',
+    get: (o) => o.operation,
+  },
+  state: {
+    header: 'State',
+    get: (o) => o.operationState,
+  },
+  status: {
+    header: 'Status',
+    get: (o) => o.status || '-',
+  },
+  runningFor: {
+    header: 'Running For',
+    get: (o) => (o.runningForMs === undefined ? '-' : formatDuration(o.runningForMs)),
+  },
+  sandboxState: {
+    header: 'Sandbox State',
+    get: (o) => o.sandboxState || '-',
+  },
+  by: {
+    header: 'By',
+    get: (o) => o.operationBy || '-',
+  },
+  id: {
+    header: 'ID',
+    get: (o) => o.id,
+    extended: true,
+  },
+};
+
+const DEFAULT_COLUMNS = ['created', 'operation', 'state', 'status', 'runningFor', 'sandboxState', 'by'];
+
+/**
+ * Command to show the operation history of a sandbox.
+ */
+export default class OdsOperations extends OdsCommand<typeof OdsOperations> {
+  static args = {
+    sandboxId: Args.string({
+      description: 'Sandbox ID (UUID)',
+      required: true,
+    }),
+  };
+
+  static description = t(
+    'commands.ods.operations.description',
+    'Show the start/stop/restart/reset history of a sandbox',
+  );
+
+  static enableJsonFlag = true;
+
+  static examples = [
+    '<%= config.bin %> <%= command.id %> abc12345-1234-1234-1234-abc123456789',
+    '<%= config.bin %> <%= command.id %> abc12345-1234-1234-1234-abc123456789 --status failure',
+    '<%= config.bin %> <%= command.id %> abc12345-1234-1234-1234-abc123456789 --operation reset --from 2025-01-01',
+  ];
+
+  static flags = {
+    from: Flags.string({
+      description: 'Start date (YYYY-MM-DD, default: 30 days ago)',
+    }),
+    to: Flags.string({
+      description: 'End date (YYYY-MM-DD, default: today)',
+    }),
+    operation: Flags.string({
+      description: 'Only show operations of this type',
+      options: ['start', 'stop', 'restart', 'reset', 'create', 'delete', 'upgrade'],
+    }),
+    status: Flags.string({
+      description: 'Only show successful or failed operations',
+      options: ['success', 'failure'],
+    }),
+    extended: Flags.boolean({
+      char: 'x',
+      description: 'Show all columns including the operation ID',
+      default: false,
+    }),
+  };
+
+  async run(): Promise<{count: number; data: OperationRow[]}> {
+    const {sandboxId} = this.args;
+    const {from, to, operation, status, extended} = this.flags;
+
+    const operations = await listSandboxOperations(this.odsClient, sandboxId, {
+      from,
+      to,
+      operation: operation as ListSandboxOperationsOptions['operation'],
+      status: status as ListSandboxOperationsOptions['status'],
+    });
+
+    // The API only reports when an operation was requested, so durations are known for unfinished operations only
+    const now = Date.now();
+    const rows: OperationRow[] = operations.map((o) =>
+      o.operationState !== 'finished' && o.createdAt ? {...o, runningForMs: now - Date.parse(o.createdAt)} : o,
+    );
+    const result = {count: rows.length, data: rows};
+
+    if (this.jsonEnabled()) {
+      return result;
+    }
+
+    if (rows.length === 0) {
+      ux.stdout(t('commands.ods.operations.noOperations', 'No operations found.'));
+      return result;
+    }
+
+    createTable(COLUMNS).render(rows, extended ? Object.keys(COLUMNS) : DEFAULT_COLUMNS);
+
+    const failed = rows.filter((o) => o.status === 'failure');
+    if (failed.length > 0) {
+      this.log('');
+      this.log(
+        t(
+          'commands.ods.operations.failures',
+          '{{count}} operation(s) failed. The sandbox state after each failure is shown under Sandbox State.',
+          {count: failed.length},
+        ),
+      );
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,146 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import * as readline from 'node:readline';
+import {Args, Flags} from '@oclif/core';
+import {OdsCommand} from '@salesforce/b2c-tooling-sdk/cli';
+import {
+  runSandboxOperation,
+  waitForSandboxOperation,
+  SandboxOperationError,
+  type SandboxOperation,
+} from '@salesforce/b2c-tooling-sdk/operations/ods';
+import {t} from '../../i18n/index.js';
+
+/**
+ * Simple confirmation prompt.
+ */
+async function confirm(message: string): Promise<boolean> {
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stderr,
+  });
+
+  return new Promise((resolve) => {
+    rl.question(`${message} `, (answer) => {
+      rl.close();
+      resolve(answer.toLowerCase() === 'y' || answer.toLowerCase() === 'yes');
+    });
+  });
+}
+
+/**
+ * Command to reset an on-demand sandbox to its initial state.
+ */
+export default class OdsReset extends OdsCommand<typeof OdsReset> {
+  static args = {
+    sandboxId: Args.string({
+      description: 'Sandbox ID (UUID)',
+      required: true,
+    }),
+  };
+
+  static description = t(
+    'commands.ods.reset.description',
+    'Reset an on-demand sandbox, removing all data, code and configuration',
+  );
+
+  static enableJsonFlag = true;
+
+  static examples = [
+    '<%= config.bin %> <%= command.id %> abc12345-1234-1234-1234-abc123456789',
+    '<%= config.bin %> <%= command.id %> abc12345-1234-1234-1234-abc123456789 --force --wait',
+    '<%= config.bin %> <%= command.id %> abc12345-1234-1234-1234-abc123456789 --force --wait --timeout 1800',
+  ];
+
+  static flags = {
+    force: Flags.boolean({
+      char: 'f',
+      description: 'Skip confirmation prompt',
+      default: false,
+    }),
+    wait: Flags.boolean({
+      char: 'w',
+      description: 'Wait for the reset to finish before returning',
+      default: false,
+    }),
+    'poll-interval': Flags.integer({
+      description: 'Polling interval in seconds when using --wait',
+      default: 10,
+      dependsOn: ['wait'],
+    }),
+    timeout: Flags.integer({
+      description: 'Maximum time to wait in seconds when using --wait (0 for no timeout)',
+      default: 600,
+      dependsOn: ['wait'],
+    }),
+  };
+
+  async run(): Promise<SandboxOperation | undefined> {
+    const {sandboxId} = this.args;
+    const {force, wait, timeout} = this.flags;
+
+    if (!force) {
+      const confirmed = await confirm(
+        t(
+          'commands.ods.reset.confirm',
+          'Resetting sandbox {{sandboxId}} removes all its data, code and configuration. Continue? (y/n)',
+          {sandboxId},
+        ),
+      );
+
+      if (!confirmed) {
+        this.log(t('commands.ods.reset.cancelled', 'Reset cancelled'));
+        return undefined;
+      }
+    }
+
+    this.log(t('commands.ods.reset.resetting', 'Resetting sandbox {{sandboxId}}...', {sandboxId}));
+
+    let operation = await runSandboxOperation(this.odsClient, sandboxId, 'reset');
+
+    if (!wait) {
+      this.log(
+        t('commands.ods.reset.success', 'Reset operation {{operationState}}. Sandbox state: {{sandboxState}}', {
+          operationState: operation.operationState,
+          sandboxState: operation.sandboxState || 'unknown',
+        }),
+      );
+      return operation;
+    }
+
+    this.log(t('commands.ods.reset.waiting', 'Waiting for the reset to finish...'));
+
+    try {
+      operation = await waitForSandboxOperation(this.odsClient, sandboxId, operation.id, {
+        pollInterval: this.flags['poll-interval'] * 1000,
+        timeout: timeout > 0 ? timeout * 1000 : undefined,
+        onProgress: (current, elapsedMs) => {
+          this.log(
+            t('commands.ods.reset.status', '[{{elapsed}}s] Operation: {{operationState}}, sandbox: {{sandboxState}}', {
+              elapsed: String(Math.round(elapsedMs / 1000)),
+              operationState: current.operationState,
+              sandboxState: current.sandboxState || 'unknown',
+            }),
+          );
+        },
+      });
+    } catch (error) {
+      if (error instanceof SandboxOperationError) {
+        this.error(
+          t('commands.ods.reset.failed', 'Reset of sandbox {{sandboxId}} failed. Sandbox state: {{sandboxState}}', {
+            sandboxId,
+            sandboxState: error.operation.sandboxState || 'unknown',
+          }),
+        );
+      }
+      throw error;
+    }
+
+    this.log(t('commands.ods.reset.done', 'Sandbox {{sandboxId}} has been reset', {sandboxId}));
+
+    return operation;
+  }
+}
@@ -0,0 +1,42 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import {Args} from '@oclif/core';
+import {OdsCommand} from '@salesforce/b2c-tooling-sdk/cli';
+import {clearSandboxSchedule, type Sandbox} from '@salesforce/b2c-tooling-sdk/operations/ods';
+import {t} from '../../../i18n/index.js';
+
+/**
+ * Command to disable the automatic start/stop of a sandbox.
+ */
+export default class OdsScheduleClear extends OdsCommand<typeof OdsScheduleClear> {
+  static args = {
+    sandboxId: Args.string({
+      description: 'Sandbox ID (UUID)',
+      required: true,
+    }),
+  };
+
+  static description = t(
+    'commands.ods.schedule.clear.description',
+    'Disable automatic start/stop of a sandbox and remove its schedule',
+  );
+
+  static enableJsonFlag = true;
+
+  static examples = ['<%= config.bin %> <%= command.id %> abc12345-1234-1234-1234-abc123456789'];
+
+  async run(): Promise<Sandbox> {
+    const {sandboxId} = this.args;
+
+    const sandbox = await clearSandboxSchedule(this.odsClient, sandboxId);
+
+    this.log(
+      t('commands.ods.schedule.clear.success', 'Automatic start/stop disabled for sandbox {{sandboxId}}', {sandboxId}),
+    );
+
+    return sandbox;
+  }
+}
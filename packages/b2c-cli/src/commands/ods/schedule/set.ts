@@ -0,0 +1,109 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import {Args, Flags} from '@oclif/core';
+import {OdsCommand} from '@salesforce/b2c-tooling-sdk/cli';
+import {
+  buildWeekdaySchedule,
+  setSandboxSchedule,
+  WEEKDAYS,
+  type Sandbox,
+  type SandboxSchedule,
+  type Weekday,
+  type WeekdaySchedule,
+} from '@salesforce/b2c-tooling-sdk/operations/ods';
+import {t} from '../../../i18n/index.js';
+
+/**
+ * Formats a schedule as e.g. `MONDAY, FRIDAY at 08:00:00+02:00`.
+ */
+function formatSchedule(schedule: undefined | WeekdaySchedule): string {
+  if (!schedule?.time) {
+    return '-';
+  }
+  return `${(schedule.weekdays ?? []).join(', ')} at ${schedule.time}`;
+}
+
+/**
+ * Command to set the automatic start/stop windows of a sandbox.
+ */
+export default class OdsScheduleSet extends OdsCommand<typeof OdsScheduleSet> {
+  static args = {
+    sandboxId: Args.string({
+      description: 'Sandbox ID (UUID)',
+      required: true,
+    }),
+  };
+
+  static description = t(
+    'commands.ods.schedule.set.description',
+    'Enable automatic start/stop of a sandbox on weekdays at given times',
+  );
+
+  static enableJsonFlag = true;
+
+  static examples = [
+    '<%= config.bin %> <%= command.id %> abc12345-1234-1234-1234-abc123456789 --start 08:00 --stop 19:00',
+    '<%= config.bin %> <%= command.id %> abc12345-1234-1234-1234-abc123456789 --start 07:30 --stop 18:00 --timezone +01:00',
+    '<%= config.bin %> <%= command.id %> abc12345-1234-1234-1234-abc123456789 --stop 20:00 --weekdays monday,tuesday,wednesday,thursday,friday,saturday,sunday',
+  ];
+
+  static flags = {
+    start: Flags.string({
+      description: 'Time to start the sandbox (HH:MM)',
+      atLeastOne: ['start', 'stop'],
+    }),
+    stop: Flags.string({
+      description: 'Time to stop the sandbox (HH:MM)',
+      atLeastOne: ['start', 'stop'],
+    }),
+    weekdays: Flags.string({
+      description: 'Comma-separated weekdays of the schedule (default: monday to friday)',
+      multiple: true,
+      delimiter: ',',
+      options: WEEKDAYS.map((day) => day.toLowerCase()),
+    }),
+    timezone: Flags.string({
+      description: 'UTC offset of the times (e.g. +02:00, -05:00 or Z)',
+      default: 'Z',
+    }),
+  };
+
+  async run(): Promise<Sandbox> {
+    const {sandboxId} = this.args;
+    const {start, stop, timezone} = this.flags;
+    const weekdays = this.flags.weekdays
+      ? this.flags.weekdays.map((day) => day.toUpperCase() as Weekday)
+      : WEEKDAYS.slice(0, 5);
+
+    let schedule: SandboxSchedule;
+    try {
+      schedule = {
+        start: start ? buildWeekdaySchedule(start, weekdays, timezone) : undefined,
+        stop: stop ? buildWeekdaySchedule(stop, weekdays, timezone) : undefined,
+      };
+    } catch (error) {
+      this.error((error as Error).message);
+    }
+
+    const sandbox = await setSandboxSchedule(this.odsClient, sandboxId, schedule);
+
+    this.log(
+      t('commands.ods.schedule.set.success', 'Automatic start/stop enabled for sandbox {{sandboxId}}', {sandboxId}),
+    );
+    this.log(
+      t('commands.ods.schedule.set.start', 'Start: {{schedule}}', {
+        schedule: formatSchedule(sandbox.startScheduler ?? schedule.start),
+      }),
+    );
+    this.log(
+      t('commands.ods.schedule.set.stop', 'Stop: {{schedule}}', {
+        schedule: formatSchedule(sandbox.stopScheduler ?? schedule.stop),
+      }),
+    );
+
+    return sandbox;
+  }
+}
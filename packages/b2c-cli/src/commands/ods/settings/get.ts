@@ -0,0 +1,95 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import {Args, ux} from '@oclif/core';
+import {OdsCommand, createTable, type ColumnDef} from '@salesforce/b2c-tooling-sdk/cli';
+import {getSandboxSettings, type SandboxSettings} from '@salesforce/b2c-tooling-sdk/operations/ods';
+import {t} from '../../../i18n/index.js';
+
+interface PermissionRow {
+  type: string;
+  clientId: string;
+  target: string;
+  access: string;
+}
+
+const COLUMNS: Record<string, ColumnDef<PermissionRow>> = {
+  type: {
+    header: 'Type',
+    get: (p) => p.type,
+  },
+  clientId: {
+    header: 'Client ID',
+    get: (p) => p.clientId,
+  },
+  target: {
+    header: 'Resource / Path',
+    get: (p) => p.target,
+  },
+  access: {
+    header: 'Methods / Operations',
+    get: (p) => p.access,
+  },
+};
+
+/**
+ * Command to show the OCAPI and WebDAV permission settings of a sandbox.
+ */
+export default class OdsSettingsGet extends OdsCommand<typeof OdsSettingsGet> {
+  static args = {
+    sandboxId: Args.string({
+      description: 'Sandbox ID (UUID)',
+      required: true,
+    }),
+  };
+
+  static description = t(
+    'commands.ods.settings.get.description',
+    'Show the OCAPI and WebDAV permission settings of a sandbox',
+  );
+
+  static enableJsonFlag = true;
+
+  static examples = [
+    '<%= config.bin %> <%= command.id %> abc12345-1234-1234-1234-abc123456789',
+    '<%= config.bin %> <%= command.id %> abc12345-1234-1234-1234-abc123456789 --json > settings.json',
+  ];
+
+  async run(): Promise<SandboxSettings> {
+    const settings = await getSandboxSettings(this.odsClient, this.args.sandboxId);
+
+    if (this.jsonEnabled()) {
+      return settings;
+    }
+
+    const rows: PermissionRow[] = [
+      ...(settings.ocapi ?? []).flatMap((client) =>
+        (client.resources ?? []).map((r) => ({
+          type: 'OCAPI',
+          clientId: client.client_id,
+          target: r.resource_id,
+          access: r.methods.join(', '),
+        })),
+      ),
+      ...(settings.webdav ?? []).flatMap((client) =>
+        (client.permissions ?? []).map((p) => ({
+          type: 'WebDAV',
+          clientId: client.client_id,
+          target: p.path,
+          access: p.operations.join(', '),
+        })),
+      ),
+    ];
+
+    if (rows.length === 0) {
+      ux.stdout(t('commands.ods.settings.get.noSettings', 'No OCAPI or WebDAV settings found.'));
+      return settings;
+    }
+
+    createTable(COLUMNS).render(rows, Object.keys(COLUMNS));
+
+    return settings;
+  }
+}
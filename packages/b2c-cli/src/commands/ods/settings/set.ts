@@ -0,0 +1,143 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import fs from 'node:fs';
+import {Args, Flags} from '@oclif/core';
+import {OdsCommand} from '@salesforce/b2c-tooling-sdk/cli';
+import {B2CInstance} from '@salesforce/b2c-tooling-sdk';
+import {
+  applySandboxOcapiSettings,
+  type SandboxOcapiSettingsResult,
+  type SandboxSettings,
+} from '@salesforce/b2c-tooling-sdk/operations/ods';
+import {t} from '../../../i18n/index.js';
+
+/**
+ * Command to apply OCAPI permission settings to an existing sandbox.
+ */
+export default class OdsSettingsSet extends OdsCommand<typeof OdsSettingsSet> {
+  static args = {
+    sandboxId: Args.string({
+      description: 'Sandbox ID (UUID)',
+      required: true,
+    }),
+  };
+
+  static description = t(
+    'commands.ods.settings.set.description',
+    'Apply OCAPI permission settings to an existing sandbox',
+  );
+
+  static enableJsonFlag = true;
+
+  static examples = [
+    '<%= config.bin %> <%= command.id %> abc12345-1234-1234-1234-abc123456789 --file settings.json',
+    '<%= config.bin %> <%= command.id %> abc12345-1234-1234-1234-abc123456789 --file settings.json --merge',
+  ];
+
+  static flags = {
+    file: Flags.string({
+      char: 'f',
+      description: 'Sandbox settings JSON file ({"ocapi": [...], "webdav": [...]}, as in "ods settings get --json")',
+      required: true,
+    }),
+    merge: Flags.boolean({
+      description: "Add the resources to each client's existing configuration instead of replacing it",
+      default: false,
+    }),
+  };
+
+  async run(): Promise<{sandboxId: string; hostname: string; ocapi: SandboxOcapiSettingsResult[]}> {
+    const {sandboxId} = this.args;
+    const {file, merge} = this.flags;
+
+    const settings = this.readSettings(file);
+
+    if (settings.webdav?.length) {
+      this.warn(
+        t(
+          'commands.ods.settings.set.webdavSkipped',
+          'WebDAV settings can only be set when a sandbox is created and are skipped',
+        ),
+      );
+    }
+    if (!settings.ocapi?.length) {
+      this.error(t('commands.ods.settings.set.noOcapi', 'No OCAPI settings in {{file}}', {file}));
+    }
+
+    const result = await this.odsClient.GET('/sandboxes/{sandboxId}', {
+      params: {path: {sandboxId}},
+    });
+    const hostname = result.data?.data?.hostName;
+    if (!hostname) {
+      this.error(
+        t('commands.ods.settings.set.noHostname', 'Failed to get the hostname of sandbox {{sandboxId}}: {{message}}', {
+          sandboxId,
+          message: result.response?.statusText || 'Sandbox not found',
+        }),
+      );
+    }
+
+    const ocapi = await applySandboxOcapiSettings(this.createSandboxInstance(hostname), settings.ocapi, {merge});
+
+    for (const client of ocapi) {
+      this.log(
+        merge
+          ? t(
+              'commands.ods.settings.set.merged',
+              'Client {{clientId}}: added {{added}} and updated {{updated}} OCAPI resources',
+              {clientId: client.clientId, added: client.added?.length ?? 0, updated: client.updated?.length ?? 0},
+            )
+          : t('commands.ods.settings.set.replaced', 'Client {{clientId}}: set {{count}} OCAPI resources', {
+              clientId: client.clientId,
+              count: client.resources,
+            }),
+      );
+    }
+
+    return {sandboxId, hostname, ocapi};
+  }
+
+  /**
+   * Creates an instance for the sandbox, authenticating with the configured API client.
+   */
+  private createSandboxInstance(hostname: string): B2CInstance {
+    const config = this.resolvedConfig;
+
+    return new B2CInstance(
+      {hostname},
+      {
+        authMethods: config.authMethods,
+        oauth: {
+          clientId: config.clientId!,
+          clientSecret: config.clientSecret,
+          scopes: config.scopes,
+          accountManagerHost: this.accountManagerHost,
+          tokenStore: this.tokenStore,
+        },
+      },
+    );
+  }
+
+  private readSettings(file: string): SandboxSettings {
+    let settings: unknown;
+    try {
+      settings = JSON.parse(fs.readFileSync(file, 'utf8'));
+    } catch (error) {
+      this.error(
+        t('commands.ods.settings.set.invalidFile', 'Failed to read {{file}}: {{message}}', {
+          file,
+          message: (error as Error).message,
+        }),
+      );
+    }
+
+    if (typeof settings !== 'object' || settings === null || Array.isArray(settings)) {
+      this.error(t('commands.ods.settings.set.notObject', '{{file}} must contain a JSON object', {file}));
+    }
+
+    return settings as SandboxSettings;
+  }
+}
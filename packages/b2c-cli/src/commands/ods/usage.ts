@@ -0,0 +1,281 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import {Flags, ux} from '@oclif/core';
+import {OdsCommand, createTable, type ColumnDef} from '@salesforce/b2c-tooling-sdk/cli';
+import {
+  getRealmUsage,
+  getRealmsUsage,
+  getSandboxUsage,
+  summarizeRealmUsage,
+  summarizeSandboxUsage,
+  formatUsageCsv,
+  getMonthRange,
+  type RealmUsage,
+  type RealmUsageSummary,
+  type SandboxUsageSummary,
+  type UsageDateRange,
+} from '@salesforce/b2c-tooling-sdk/operations/ods';
+import {t} from '../../i18n/index.js';
+
+/**
+ * Response type for the usage command.
+ */
+interface OdsUsageResponse extends UsageDateRange {
+  realms: RealmUsageSummary[];
+  sandboxes: SandboxUsageSummary[];
+  /** Errors by realm for realms whose usage could not be read */
+  errors: Record<string, string>;
+}
+
+const formatHours = (minutes: number): string => (minutes / 60).toFixed(1);
+
+const REALM_COLUMNS: Record<string, ColumnDef<RealmUsageSummary>> = {
+  realm: {
+    header: 'Realm',
+    get: (r) => r.realm,
+  },
+  active: {
+    header: 'Active',
+    get: (r) => String(r.activeSandboxes),
+  },
+  created: {
+    header: 'Created',
+    get: (r) => String(r.createdSandboxes),
+  },
+  deleted: {
+    header: 'Deleted',
+    get: (r) => String(r.deletedSandboxes),
+  },
+  minutesUp: {
+    header: 'Minutes Up',
+    get: (r) => String(r.minutesUp),
+  },
+  minutesDown: {
+    header: 'Minutes Down',
+    get: (r) => String(r.minutesDown),
+  },
+  hoursUp: {
+    header: 'Hours Up',
+    get: (r) => formatHours(r.minutesUp),
+  },
+};
+
+const SANDBOX_COLUMNS: Record<string, ColumnDef<SandboxUsageSummary>> = {
+  realm: {
+    header: 'Realm',
+    get: (s) => s.realm,
+  },
+  sandbox: {
+    header: 'Sandbox',
+    get: (s) => s.sandbox,
+  },
+  profile: {
+    header: 'Profile',
+    get: (s) => s.profile,
+  },
+  minutesUp: {
+    header: 'Minutes Up',
+    get: (s) => String(s.minutesUp),
+  },
+  minutesDown: {
+    header: 'Minutes Down',
+    get: (s) => String(s.minutesDown),
+  },
+  hoursUp: {
+    header: 'Hours Up',
+    get: (s) => formatHours(s.minutesUp),
+  },
+  deleted: {
+    header: 'Deleted',
+    get: (s) => (s.deletedAt ? new Date(s.deletedAt).toISOString().slice(0, 10) : '-'),
+  },
+};
+
+const REALM_CSV_COLUMNS: (keyof RealmUsageSummary)[] = [
+  'realm',
+  'activeSandboxes',
+  'createdSandboxes',
+  'deletedSandboxes',
+  'minutesUp',
+  'minutesDown',
+  'minutesUpByProfile',
+];
+
+const SANDBOX_CSV_COLUMNS: (keyof SandboxUsageSummary)[] = [
+  'realm',
+  'sandbox',
+  'profile',
+  'minutesUp',
+  'minutesDown',
+  'createdAt',
+  'deletedAt',
+];
+
+/**
+ * Command to report sandbox uptime and downtime per realm or per sandbox.
+ */
+export default class OdsUsage extends OdsCommand<typeof OdsUsage> {
+  static description = t(
+    'commands.ods.usage.description',
+    'Report sandbox uptime and downtime minutes per realm or per sandbox',
+  );
+
+  static enableJsonFlag = true;
+
+  static examples = [
+    '<%= config.bin %> <%= command.id %>',
+    '<%= config.bin %> <%= command.id %> --realm abcd --month 2025-01',
+    '<%= config.bin %> <%= command.id %> --realm abcd --realm efgh --from 2025-01-01 --to 2025-03-31',
+    '<%= config.bin %> <%= command.id %> --realm abcd --group-by sandbox --format csv > usage.csv',
+    '<%= config.bin %> <%= command.id %> --sandbox abc12345-1234-1234-1234-abc123456789',
+  ];
+
+  static flags = {
+    realm: Flags.string({
+      char: 'r',
+      description: 'Realm ID (four-letter ID, can be repeated; defaults to all realms of the user)',
+      multiple: true,
+      exclusive: ['sandbox'],
+    }),
+    sandbox: Flags.string({
+      description: 'Report the usage of a single sandbox (UUID)',
+      exclusive: ['group-by'],
+    }),
+    from: Flags.string({
+      description: 'Start date (YYYY-MM-DD, default: 30 days ago)',
+      exclusive: ['month'],
+    }),
+    to: Flags.string({
+      description: 'End date (YYYY-MM-DD, default: today)',
+      exclusive: ['month'],
+    }),
+    month: Flags.string({
+      description: 'Report a calendar month (YYYY-MM)',
+    }),
+    'group-by': Flags.string({
+      description: 'Aggregate per realm or per sandbox',
+      options: ['realm', 'sandbox'],
+    }),
+    format: Flags.string({
+      description: 'Output format',
+      options: ['table', 'csv'],
+      default: 'table',
+    }),
+  };
+
+  async run(): Promise<OdsUsageResponse> {
+    const {sandbox, format} = this.flags;
+    const range = this.getDateRange();
+
+    const response: OdsUsageResponse = {...range, realms: [], sandboxes: [], errors: {}};
+
+    if (sandbox) {
+      const usage = await getSandboxUsage(this.odsClient, sandbox, range);
+      response.sandboxes.push({
+        realm: '-',
+        sandbox: usage.id,
+        profile: usage.minutesUpByProfile?.find((p) => p.minutes)?.profile ?? '-',
+        minutesUp: usage.minutesUp ?? 0,
+        minutesDown: usage.minutesDown ?? 0,
+      });
+      return this.printReport(response, 'sandbox', format);
+    }
+
+    const groupBy = this.flags['group-by'] ?? 'realm';
+    const realms = this.flags.realm ?? (await this.getUserRealms());
+    const options = {...range, detailed: groupBy === 'sandbox' || this.jsonEnabled()};
+
+    let usages: RealmUsage[];
+    if (realms.length === 1) {
+      usages = [await getRealmUsage(this.odsClient, realms[0], options)];
+    } else {
+      const result = await getRealmsUsage(this.odsClient, realms, options);
+      usages = result.usages;
+      response.errors = result.errors;
+    }
+
+    for (const [realm, message] of Object.entries(response.errors)) {
+      this.warn(
+        t('commands.ods.usage.realmError', 'Failed to get usage of realm {{realm}}: {{message}}', {realm, message}),
+      );
+    }
+
+    response.realms = summarizeRealmUsage(usages);
+    if (options.detailed) {
+      response.sandboxes = summarizeSandboxUsage(usages);
+    }
+
+    return this.printReport(response, groupBy, format);
+  }
+
+  /**
+   * Resolves the report date range from the --month, --from and --to flags.
+   */
+  private getDateRange(): UsageDateRange {
+    const {month, from, to} = this.flags;
+
+    if (month) {
+      try {
+        return getMonthRange(month);
+      } catch (error) {
+        this.error((error as Error).message);
+      }
+    }
+
+    for (const date of [from, to]) {
+      if (date && Number.isNaN(Date.parse(date))) {
+        this.error(t('commands.ods.usage.invalidDate', 'Invalid date {{date}}, expected YYYY-MM-DD', {date}));
+      }
+    }
+
+    return {from, to};
+  }
+
+  /**
+   * Returns the realms the current user has access to.
+   */
+  private async getUserRealms(): Promise<string[]> {
+    const result = await this.odsClient.GET('/me', {});
+    const realms = result.data?.data?.realms ?? [];
+
+    if (realms.length === 0) {
+      this.error(t('commands.ods.usage.noRealms', 'No realms found for the current user. Pass --realm.'));
+    }
+
+    return realms;
+  }
+
+  private printReport(response: OdsUsageResponse, groupBy: string, format: string): OdsUsageResponse {
+    if (this.jsonEnabled()) {
+      return response;
+    }
+
+    if (format === 'csv') {
+      ux.stdout(
+        groupBy === 'sandbox'
+          ? formatUsageCsv(response.sandboxes, SANDBOX_CSV_COLUMNS).trimEnd()
+          : formatUsageCsv(response.realms, REALM_CSV_COLUMNS).trimEnd(),
+      );
+      return response;
+    }
+
+    if (groupBy === 'sandbox') {
+      if (response.sandboxes.length === 0) {
+        ux.stdout(t('commands.ods.usage.noUsage', 'No usage found.'));
+        return response;
+      }
+      createTable(SANDBOX_COLUMNS).render(response.sandboxes, Object.keys(SANDBOX_COLUMNS));
+    } else {
+      if (response.realms.length === 0) {
+        ux.stdout(t('commands.ods.usage.noUsage', 'No usage found.'));
+        return response;
+      }
+      createTable(REALM_COLUMNS).render(response.realms, Object.keys(REALM_COLUMNS));
+    }
+
+    return response;
+  }
+}
@@ -0,0 +1,47 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import {Args} from '@oclif/core';
+import {InstanceCommand} from '@salesforce/b2c-tooling-sdk/cli';
+import {getRole, type AccessRole} from '@salesforce/b2c-tooling-sdk/operations/users';
+import {t} from '../../i18n/index.js';
+
+export default class RolesGet extends InstanceCommand<typeof RolesGet> {
+  static args = {
+    role: Args.string({
+      description: 'Access role ID',
+      required: true,
+    }),
+  };
+
+  static description = t('commands.roles.get.description', 'Show an access role and its users');
+
+  static enableJsonFlag = true;
+
+  static examples = ['<%= config.bin %> <%= command.id %> Administrator'];
+
+  async run(): Promise<AccessRole> {
+    this.requireOAuthCredentials();
+
+    const {role: roleId} = this.args;
+    const role = await getRole(this.instance, roleId);
+
+    if (!role) {
+      this.error(t('commands.roles.get.notFound', 'Role {{role}} not found', {role: roleId}));
+    }
+
+    if (this.jsonEnabled()) {
+      return role;
+    }
+
+    this.log(`${role.id}${role.description ? ` - ${role.description}` : ''}`);
+    this.log(t('commands.roles.get.users', 'Users ({{count}}):', {count: role.users?.length ?? 0}));
+    for (const user of role.users ?? []) {
+      this.log(`  ${user.login}${user.email ? ` <${user.email}>` : ''}${user.disabled ? ' (disabled)' : ''}`);
+    }
+
+    return role;
+  }
+}
@@ -0,0 +1,58 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import {ux} from '@oclif/core';
+import {InstanceCommand, createTable, type ColumnDef} from '@salesforce/b2c-tooling-sdk/cli';
+import {listRoles, type AccessRole} from '@salesforce/b2c-tooling-sdk/operations/users';
+import {t} from '../../i18n/index.js';
+
+const COLUMNS: Record<string, ColumnDef<AccessRole>> = {
+  id: {
+    header: 'ID',
+    get: (r) => r.id || '-',
+  },
+  users: {
+    header: 'Users',
+    get: (r) => String(r.user_count ?? 0),
+  },
+  userManager: {
+    header: 'User Manager',
+    get: (r) => (r.user_manager ? 'Yes' : 'No'),
+  },
+  description: {
+    header: 'Description',
+    get: (r) => r.description || '-',
+  },
+};
+
+const DEFAULT_COLUMNS = ['id', 'users', 'userManager', 'description'];
+
+export default class RolesList extends InstanceCommand<typeof RolesList> {
+  static description = t('commands.roles.list.description', 'List Business Manager access roles');
+
+  static enableJsonFlag = true;
+
+  static examples = ['<%= config.bin %> <%= command.id %>', '<%= config.bin %> <%= command.id %> --json'];
+
+  async run(): Promise<{count: number; data: AccessRole[]}> {
+    this.requireOAuthCredentials();
+
+    const roles = await listRoles(this.instance);
+    const result = {count: roles.length, data: roles};
+
+    if (this.jsonEnabled()) {
+      return result;
+    }
+
+    if (roles.length === 0) {
+      ux.stdout(t('commands.roles.list.noRoles', 'No roles found.'));
+      return result;
+    }
+
+    createTable(COLUMNS).render(roles, DEFAULT_COLUMNS);
+
+    return result;
+  }
+}
@@ -0,0 +1,82 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import {Args, Flags, ux} from '@oclif/core';
+import {InstanceCommand, createTable, type ColumnDef} from '@salesforce/b2c-tooling-sdk/cli';
+import {
+  flattenRolePermissions,
+  getRolePermissions,
+  type RolePermission,
+  type RolePermissions,
+} from '@salesforce/b2c-tooling-sdk/operations/users';
+import {t} from '../../i18n/index.js';
+
+const COLUMNS: Record<string, ColumnDef<RolePermission>> = {
+  kind: {
+    header: 'Kind',
+    get: (p) => p.kind,
+  },
+  scope: {
+    header: 'Scope',
+    get: (p) => p.scope,
+  },
+  name: {
+    header: 'Permission',
+    get: (p) => p.name,
+  },
+  value: {
+    header: 'Access',
+    get: (p) => p.value || '-',
+  },
+};
+
+const DEFAULT_COLUMNS = ['kind', 'scope', 'name', 'value'];
+
+export default class RolesPermissions extends InstanceCommand<typeof RolesPermissions> {
+  static args = {
+    role: Args.string({
+      description: 'Access role ID',
+      required: true,
+    }),
+  };
+
+  static description = t('commands.roles.permissions.description', 'Show the permissions of an access role');
+
+  static enableJsonFlag = true;
+
+  static examples = [
+    '<%= config.bin %> <%= command.id %> Administrator',
+    '<%= config.bin %> <%= command.id %> Developer --kind webdav',
+  ];
+
+  static flags = {
+    ...InstanceCommand.baseFlags,
+    kind: Flags.string({
+      description: 'Only show permissions of this kind',
+      options: ['functional', 'module', 'locale', 'webdav'],
+    }),
+  };
+
+  async run(): Promise<RolePermissions> {
+    this.requireOAuthCredentials();
+
+    const {role} = this.args;
+    const permissions = await getRolePermissions(this.instance, role);
+
+    if (this.jsonEnabled()) {
+      return permissions;
+    }
+
+    const rows = flattenRolePermissions(permissions).filter((p) => !this.flags.kind || p.kind === this.flags.kind);
+    if (rows.length === 0) {
+      ux.stdout(t('commands.roles.permissions.none', 'No permissions found.'));
+      return permissions;
+    }
+
+    createTable(COLUMNS).render(rows, DEFAULT_COLUMNS);
+
+    return permissions;
+  }
+}
@@ -0,0 +1,85 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import {Args, Flags} from '@oclif/core';
+import {InstanceCommand} from '@salesforce/b2c-tooling-sdk/cli';
+import {
+  addCartridge,
+  CARTRIDGE_POSITIONS,
+  type CartridgePosition,
+  type SiteCartridgePath,
+} from '@salesforce/b2c-tooling-sdk/operations/sites';
+import {t} from '../../../i18n/index.js';
+
+export default class SitesCartridgesAdd extends InstanceCommand<typeof SitesCartridgesAdd> {
+  static args = {
+    siteId: Args.string({
+      description: 'Site ID',
+      required: true,
+    }),
+    cartridge: Args.string({
+      description: 'Cartridge name to add',
+      required: true,
+    }),
+  };
+
+  static description = t(
+    'commands.sites.cartridges.add.description',
+    'Add a cartridge to the cartridge path of a site',
+  );
+
+  static enableJsonFlag = true;
+
+  static examples = [
+    '<%= config.bin %> <%= command.id %> RefArch app_custom',
+    '<%= config.bin %> <%= command.id %> RefArch plugin_applepay --position last',
+    '<%= config.bin %> <%= command.id %> RefArch int_payment --position after --target app_custom',
+  ];
+
+  static flags = {
+    ...InstanceCommand.baseFlags,
+    position: Flags.option({
+      description: 'Where to add the cartridge',
+      options: CARTRIDGE_POSITIONS,
+      default: 'first' as CartridgePosition,
+    })(),
+    target: Flags.string({
+      description: "Target cartridge for position 'before' or 'after'",
+    }),
+  };
+
+  async run(): Promise<SiteCartridgePath> {
+    this.requireOAuthCredentials();
+
+    const {siteId, cartridge} = this.args;
+    const {position, target} = this.flags;
+
+    if ((position === 'before' || position === 'after') && !target) {
+      this.error(
+        t('commands.sites.cartridges.add.targetRequired', "--target is required for position '{{position}}'", {
+          position,
+        }),
+      );
+    }
+
+    this.log(
+      t('commands.sites.cartridges.add.adding', 'Adding {{cartridge}} to {{siteId}} ({{position}})...', {
+        cartridge,
+        siteId,
+        position: target ? `${position} ${target}` : position,
+      }),
+    );
+
+    const result = await addCartridge(this.instance, siteId, cartridge, {position, target});
+
+    this.log(
+      t('commands.sites.cartridges.updated', 'Cartridge path: {{path}}', {
+        path: result.cartridges.join(':'),
+      }),
+    );
+
+    return result;
+  }
+}
@@ -0,0 +1,62 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import {Args, ux} from '@oclif/core';
+import {InstanceCommand} from '@salesforce/b2c-tooling-sdk/cli';
+import {getCartridgePath, type SiteCartridgePath} from '@salesforce/b2c-tooling-sdk/operations/sites';
+import {t} from '../../../i18n/index.js';
+
+export default class SitesCartridgesList extends InstanceCommand<typeof SitesCartridgesList> {
+  static args = {
+    siteId: Args.string({
+      description: 'Site ID',
+      required: true,
+    }),
+  };
+
+  static description = t('commands.sites.cartridges.list.description', 'Show the cartridge path of a site');
+
+  static enableJsonFlag = true;
+
+  static examples = [
+    '<%= config.bin %> <%= command.id %> RefArch',
+    '<%= config.bin %> <%= command.id %> RefArch --server my-sandbox.demandware.net',
+    '<%= config.bin %> <%= command.id %> RefArch --json',
+  ];
+
+  static flags = {
+    ...InstanceCommand.baseFlags,
+  };
+
+  async run(): Promise<SiteCartridgePath> {
+    this.requireOAuthCredentials();
+
+    const {siteId} = this.args;
+
+    this.log(
+      t('commands.sites.cartridges.list.fetching', 'Fetching cartridge path of {{siteId}} from {{hostname}}...', {
+        siteId,
+        hostname: this.resolvedConfig.hostname!,
+      }),
+    );
+
+    const result = await getCartridgePath(this.instance, siteId);
+
+    if (this.jsonEnabled()) {
+      return result;
+    }
+
+    if (result.cartridges.length === 0) {
+      ux.stdout(t('commands.sites.cartridges.list.empty', 'Cartridge path is empty.'));
+      return result;
+    }
+
+    for (const [index, cartridge] of result.cartridges.entries()) {
+      ux.stdout(`${String(index + 1).padStart(3)}  ${cartridge}`);
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,55 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import {Args} from '@oclif/core';
+import {InstanceCommand} from '@salesforce/b2c-tooling-sdk/cli';
+import {removeCartridge, type SiteCartridgePath} from '@salesforce/b2c-tooling-sdk/operations/sites';
+import {t} from '../../../i18n/index.js';
+
+export default class SitesCartridgesRemove extends InstanceCommand<typeof SitesCartridgesRemove> {
+  static args = {
+    siteId: Args.string({
+      description: 'Site ID',
+      required: true,
+    }),
+    cartridge: Args.string({
+      description: 'Cartridge name to remove',
+      required: true,
+    }),
+  };
+
+  static description = t(
+    'commands.sites.cartridges.remove.description',
+    'Remove a cartridge from the cartridge path of a site',
+  );
+
+  static enableJsonFlag = true;
+
+  static examples = ['<%= config.bin %> <%= command.id %> RefArch plugin_applepay'];
+
+  static flags = {
+    ...InstanceCommand.baseFlags,
+  };
+
+  async run(): Promise<SiteCartridgePath> {
+    this.requireOAuthCredentials();
+
+    const {siteId, cartridge} = this.args;
+
+    this.log(
+      t('commands.sites.cartridges.remove.removing', 'Removing {{cartridge}} from {{siteId}}...', {cartridge, siteId}),
+    );
+
+    const result = await removeCartridge(this.instance, siteId, cartridge);
+
+    this.log(
+      t('commands.sites.cartridges.updated', 'Cartridge path: {{path}}', {
+        path: result.cartridges.join(':'),
+      }),
+    );
+
+    return result;
+  }
+}
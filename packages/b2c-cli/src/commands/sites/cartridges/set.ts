@@ -0,0 +1,59 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import {Args} from '@oclif/core';
+import {InstanceCommand} from '@salesforce/b2c-tooling-sdk/cli';
+import {
+  parseCartridgePath,
+  setCartridgePath,
+  type SiteCartridgePath,
+} from '@salesforce/b2c-tooling-sdk/operations/sites';
+import {t} from '../../../i18n/index.js';
+
+export default class SitesCartridgesSet extends InstanceCommand<typeof SitesCartridgesSet> {
+  static args = {
+    siteId: Args.string({
+      description: 'Site ID',
+      required: true,
+    }),
+    cartridgePath: Args.string({
+      description: 'Cartridge path (colon-separated, e.g. app_custom:app_storefront_base)',
+      required: true,
+    }),
+  };
+
+  static description = t('commands.sites.cartridges.set.description', 'Replace the cartridge path of a site');
+
+  static enableJsonFlag = true;
+
+  static examples = ['<%= config.bin %> <%= command.id %> RefArch app_custom:plugin_applepay:app_storefront_base'];
+
+  static flags = {
+    ...InstanceCommand.baseFlags,
+  };
+
+  async run(): Promise<SiteCartridgePath> {
+    this.requireOAuthCredentials();
+
+    const {siteId} = this.args;
+    const cartridges = parseCartridgePath(this.args.cartridgePath);
+
+    if (cartridges.length === 0) {
+      this.error(t('commands.sites.cartridges.set.empty', 'Cartridge path must contain at least one cartridge.'));
+    }
+
+    this.log(t('commands.sites.cartridges.set.setting', 'Setting cartridge path of {{siteId}}...', {siteId}));
+
+    const result = await setCartridgePath(this.instance, siteId, cartridges);
+
+    this.log(
+      t('commands.sites.cartridges.updated', 'Cartridge path: {{path}}', {
+        path: result.cartridges.join(':'),
+      }),
+    );
+
+    return result;
+  }
+}
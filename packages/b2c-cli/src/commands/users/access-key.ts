@@ -0,0 +1,83 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import {Args, Flags, ux} from '@oclif/core';
+import {InstanceCommand} from '@salesforce/b2c-tooling-sdk/cli';
+import {updateDwJson} from '@salesforce/b2c-tooling-sdk';
+import {
+  createAccessKey,
+  ACCESS_KEY_SCOPES,
+  type AccessKeyDetails,
+  type AccessKeyScope,
+} from '@salesforce/b2c-tooling-sdk/operations/users';
+import {t} from '../../i18n/index.js';
+
+export default class UsersAccessKey extends InstanceCommand<typeof UsersAccessKey> {
+  static args = {
+    login: Args.string({
+      description: 'User login',
+      required: true,
+    }),
+  };
+
+  static description = t(
+    'commands.users.access-key.description',
+    'Create an access key for a Business Manager user, replacing an existing key of the same scope',
+  );
+
+  static enableJsonFlag = true;
+
+  static examples = [
+    '<%= config.bin %> <%= command.id %> jdoe',
+    '<%= config.bin %> <%= command.id %> jdoe --write-dw-json',
+    '<%= config.bin %> <%= command.id %> jdoe --key-scope AGENT_USER_AND_OCAPI',
+  ];
+
+  static flags = {
+    ...InstanceCommand.baseFlags,
+    'key-scope': Flags.string({
+      description: 'Access key scope',
+      options: ACCESS_KEY_SCOPES,
+      default: 'WEBDAV_AND_STUDIO',
+    }),
+    'write-dw-json': Flags.boolean({
+      description: 'Store the login and WebDAV access key as username/password in dw.json',
+      default: false,
+    }),
+  };
+
+  async run(): Promise<AccessKeyDetails & {dwJsonPath?: string}> {
+    this.requireOAuthCredentials();
+
+    const {login} = this.args;
+    const {'key-scope': scope, 'write-dw-json': writeDwJson} = this.flags;
+
+    if (writeDwJson && scope !== 'WEBDAV_AND_STUDIO') {
+      this.error(t('commands.users.access-key.webdavOnly', '--write-dw-json requires the WEBDAV_AND_STUDIO scope'));
+    }
+
+    const key = await createAccessKey(this.instance, login, scope as AccessKeyScope);
+
+    if (writeDwJson) {
+      const dwJsonPath = updateDwJson(
+        {username: login, password: key.access_key},
+        {path: this.flags.config, instance: this.flags.instance},
+      );
+      this.log(
+        t('commands.users.access-key.written', 'Access key for {{login}} written to {{path}}', {
+          login,
+          path: dwJsonPath,
+        }),
+      );
+      return {...key, dwJsonPath};
+    }
+
+    if (!this.jsonEnabled()) {
+      ux.stdout(key.access_key!);
+    }
+
+    return key;
+  }
+}
@@ -0,0 +1,78 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import {Args, Flags} from '@oclif/core';
+import {InstanceCommand} from '@salesforce/b2c-tooling-sdk/cli';
+import {createUser, grantRole, type BusinessManagerUser} from '@salesforce/b2c-tooling-sdk/operations/users';
+import {t} from '../../i18n/index.js';
+
+export default class UsersCreate extends InstanceCommand<typeof UsersCreate> {
+  static args = {
+    login: Args.string({
+      description: 'User login',
+      required: true,
+    }),
+  };
+
+  static description = t('commands.users.create.description', 'Create a Business Manager user');
+
+  static enableJsonFlag = true;
+
+  static examples = [
+    '<%= config.bin %> <%= command.id %> jdoe --email jdoe@example.com --last-name Doe --first-name Jane',
+    '<%= config.bin %> <%= command.id %> jdoe --email jdoe@example.com --last-name Doe --role Administrator',
+  ];
+
+  static flags = {
+    ...InstanceCommand.baseFlags,
+    email: Flags.string({
+      description: 'Email address',
+      required: true,
+    }),
+    'last-name': Flags.string({
+      description: 'Last name',
+      required: true,
+    }),
+    'first-name': Flags.string({
+      description: 'First name',
+    }),
+    'external-id': Flags.string({
+      description: 'External ID',
+    }),
+    role: Flags.string({
+      description: 'Access role to grant (repeatable)',
+      multiple: true,
+    }),
+  };
+
+  async run(): Promise<BusinessManagerUser> {
+    this.requireOAuthCredentials();
+
+    const {login} = this.args;
+    const {email, 'last-name': lastName, 'first-name': firstName, 'external-id': externalId, role} = this.flags;
+
+    let user: BusinessManagerUser;
+    try {
+      user = await createUser(this.instance, login, {email, lastName, firstName, externalId});
+    } catch (error) {
+      this.error(
+        t('commands.users.create.error', 'Failed to create user {{login}}: {{message}}', {
+          login,
+          message: error instanceof Error ? error.message : String(error),
+        }),
+      );
+    }
+
+    this.log(t('commands.users.create.created', 'User {{login}} created', {login}));
+
+    for (const roleId of role ?? []) {
+      // eslint-disable-next-line no-await-in-loop
+      await grantRole(this.instance, roleId, login);
+      this.log(t('commands.users.create.granted', 'Granted role {{role}}', {role: roleId}));
+    }
+
+    return role ? {...user, roles: [...(user.roles ?? []), ...role]} : user;
+  }
+}
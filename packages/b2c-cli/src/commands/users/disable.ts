@@ -0,0 +1,49 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import {Args, Flags} from '@oclif/core';
+import {InstanceCommand} from '@salesforce/b2c-tooling-sdk/cli';
+import {setUserDisabled, type BusinessManagerUser} from '@salesforce/b2c-tooling-sdk/operations/users';
+import {t} from '../../i18n/index.js';
+
+export default class UsersDisable extends InstanceCommand<typeof UsersDisable> {
+  static args = {
+    login: Args.string({
+      description: 'User login',
+      required: true,
+    }),
+  };
+
+  static description = t('commands.users.disable.description', 'Disable (or re-enable) a Business Manager user');
+
+  static enableJsonFlag = true;
+
+  static examples = ['<%= config.bin %> <%= command.id %> jdoe', '<%= config.bin %> <%= command.id %> jdoe --enable'];
+
+  static flags = {
+    ...InstanceCommand.baseFlags,
+    enable: Flags.boolean({
+      description: 'Enable the user instead',
+      default: false,
+    }),
+  };
+
+  async run(): Promise<BusinessManagerUser> {
+    this.requireOAuthCredentials();
+
+    const {login} = this.args;
+    const {enable} = this.flags;
+
+    const user = await setUserDisabled(this.instance, login, !enable);
+
+    this.log(
+      enable
+        ? t('commands.users.disable.enabled', 'User {{login}} enabled', {login})
+        : t('commands.users.disable.disabled', 'User {{login}} disabled', {login}),
+    );
+
+    return user;
+  }
+}
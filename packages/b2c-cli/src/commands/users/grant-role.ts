@@ -0,0 +1,36 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import {Args} from '@oclif/core';
+import {InstanceCommand} from '@salesforce/b2c-tooling-sdk/cli';
+import {grantRole} from '@salesforce/b2c-tooling-sdk/operations/users';
+import {t} from '../../i18n/index.js';
+
+export default class UsersGrantRole extends InstanceCommand<typeof UsersGrantRole> {
+  static args = {
+    login: Args.string({
+      description: 'User login',
+      required: true,
+    }),
+    role: Args.string({
+      description: 'Access role ID',
+      required: true,
+    }),
+  };
+
+  static description = t('commands.users.grant-role.description', 'Grant an access role to a Business Manager user');
+
+  static examples = ['<%= config.bin %> <%= command.id %> jdoe Administrator'];
+
+  async run(): Promise<void> {
+    this.requireOAuthCredentials();
+
+    const {login, role} = this.args;
+
+    await grantRole(this.instance, role, login);
+
+    this.log(t('commands.users.grant-role.granted', 'Granted role {{role}} to {{login}}', {role, login}));
+  }
+}
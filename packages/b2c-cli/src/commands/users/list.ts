@@ -0,0 +1,66 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import {ux} from '@oclif/core';
+import {InstanceCommand, createTable, type ColumnDef} from '@salesforce/b2c-tooling-sdk/cli';
+import {listUsers, type BusinessManagerUser} from '@salesforce/b2c-tooling-sdk/operations/users';
+import {t} from '../../i18n/index.js';
+
+const COLUMNS: Record<string, ColumnDef<BusinessManagerUser>> = {
+  login: {
+    header: 'Login',
+    get: (u) => u.login || '-',
+  },
+  name: {
+    header: 'Name',
+    get: (u) => [u.first_name, u.last_name].filter(Boolean).join(' ') || '-',
+  },
+  email: {
+    header: 'Email',
+    get: (u) => u.email || '-',
+  },
+  status: {
+    header: 'Status',
+    get: (u) => (u.disabled ? 'Disabled' : u.locked ? 'Locked' : 'Active'),
+  },
+  lastLogin: {
+    header: 'Last Login',
+    get: (u) => (u.last_login_date ? new Date(u.last_login_date).toLocaleString() : '-'),
+  },
+  roles: {
+    header: 'Roles',
+    get: (u) => u.roles?.join(', ') || '-',
+  },
+};
+
+const DEFAULT_COLUMNS = ['login', 'name', 'email', 'status', 'lastLogin'];
+
+export default class UsersList extends InstanceCommand<typeof UsersList> {
+  static description = t('commands.users.list.description', 'List Business Manager users');
+
+  static enableJsonFlag = true;
+
+  static examples = ['<%= config.bin %> <%= command.id %>', '<%= config.bin %> <%= command.id %> --json'];
+
+  async run(): Promise<{count: number; data: BusinessManagerUser[]}> {
+    this.requireOAuthCredentials();
+
+    const users = await listUsers(this.instance);
+    const result = {count: users.length, data: users};
+
+    if (this.jsonEnabled()) {
+      return result;
+    }
+
+    if (users.length === 0) {
+      ux.stdout(t('commands.users.list.noUsers', 'No users found.'));
+      return result;
+    }
+
+    createTable(COLUMNS).render(users, DEFAULT_COLUMNS);
+
+    return result;
+  }
+}
@@ -22,6 +22,28 @@ export const en = {
         status: 'Status: {{status}}',
         error: 'Failed to fetch sites: {{message}}',
       },
+      cartridges: {
+        updated: 'Cartridge path: {{path}}',
+        list: {
+          description: 'Show the cartridge path of a site',
+          fetching: 'Fetching cartridge path of {{siteId}} from {{hostname}}...',
+          empty: 'Cartridge path is empty.',
+        },
+        add: {
+          description: 'Add a cartridge to the cartridge path of a site',
+          adding: 'Adding {{cartridge}} to {{siteId}} ({{position}})...',
+          targetRequired: "--target is required for position '{{position}}'",
+        },
+        remove: {
+          description: 'Remove a cartridge from the cartridge path of a site',
+          removing: 'Removing {{cartridge}} from {{siteId}}...',
+        },
+        set: {
+          description: 'Replace the cartridge path of a site',
+          setting: 'Setting cartridge path of {{siteId}}...',
+          empty: 'Cartridge path must contain at least one cartridge.',
+        },
+      },
     },
     code: {
       list: {
@@ -48,13 +70,44 @@ export const en = {
         confirm: 'Are you sure you want to delete code version "{{codeVersion}}" on {{hostname}}? (y/n)',
         cancelled: 'Deletion cancelled',
       },
+      create: {
+        description: 'Create a code version by cloning the active (or another) code version',
+        creating: 'Creating code version {{codeVersion}} on {{hostname}}...',
+        created: 'Code version {{codeVersion}} created',
+        cloning: 'Cloning {{from}} to {{codeVersion}} on {{hostname}}...',
+        cloned: 'Code version {{codeVersion}} created from {{from}}',
+        activeVersion: 'active code version',
+      },
+      prune: {
+        description: 'Delete old inactive code versions',
+        nothing: 'No code versions to delete',
+        candidates: 'Code versions to delete: {{versions}}',
+        confirm: 'Delete {{count}} code version(s) on {{hostname}}? (y/n)',
+        cancelled: 'Prune cancelled',
+        deleted: 'Deleted {{count}} code version(s), kept {{kept}} and active {{active}}',
+      },
+      diff: {
+        description: 'Compare the cartridge files of two code versions',
+        comparing: 'Comparing {{from}} and {{to}} on {{hostname}}...',
+        summary: '{{added}} added, {{changed}} changed, {{removed}} removed, {{unchanged}} unchanged',
+      },
       deploy: {
         description: 'Deploy cartridges to a B2C Commerce instance',
         deploying: 'Deploying {{path}} to {{hostname}} ({{version}})',
         noCodeVersion: 'No code version specified, discovering active code version...',
         noActiveVersion: 'No active code version found. Specify one with --code-version.',
         summary: 'Deployed {{count}} cartridge(s) to {{codeVersion}}',
+        changes: '{{added}} added, {{changed}} changed, {{removed}} removed, {{unchanged}} unchanged',
         reloaded: 'Code version reloaded',
+        siteUpdated: 'Added {{cartridges}} to cartridge path of {{siteId}}',
+        siteUnchanged: 'Cartridge path of {{siteId}} already up to date',
+        blueGreen: 'Blue/green deploying {{path}} to {{hostname}}',
+        activatedNew: 'Deployed {{count}} cartridge(s) to {{codeVersion}} (previous: {{previous}})',
+        smokePassed: '[PASS] {{target}}',
+        smokeFailed: '[FAIL] {{target}}: {{error}}',
+        rolledBack: 'Smoke check failed; re-activated {{previous}} (failed code version: {{codeVersion}})',
+        noRollback:
+          'Smoke check failed and there is no previous code version to re-activate; {{codeVersion}} remains active',
         failed: 'Deployment failed: {{message}}',
       },
       watch: {
@@ -62,12 +115,20 @@ export const en = {
         starting: 'Starting watcher for {{path}}',
         target: 'Target: {{hostname}}',
         codeVersion: 'Code Version: {{version}}',
+        siteArchive: 'Site archive: {{path}}',
         watching: 'Watching {{count}} cartridge(s)...',
         pressCtrlC: 'Press Ctrl+C to stop',
         stopping: '\nStopping watcher...',
         uploaded: '[UPLOAD] {{count}} file(s)',
         deleted: '[DELETE] {{count}} file(s)',
         error: 'Error: {{message}}',
+        pending:
+          '[PENDING] {{pending}} file(s) pending, server code is stale. Retrying in {{seconds}}s (attempt {{attempt}})',
+        synced: '[SYNCED] All pending changes uploaded',
+        unsynced: '{{pending}} file(s) were not uploaded; deploy before testing',
+        imported: '[IMPORT] {{count}} file(s): {{status}} (execution {{id}}, {{duration}}s)',
+        importFailed: '[IMPORT] {{count}} file(s): FAILED ({{message}}), retrying in {{seconds}}s',
+        reloaded: '[RELOAD] Code version reloaded',
         failed: 'Watch failed: {{message}}',
       },
     },
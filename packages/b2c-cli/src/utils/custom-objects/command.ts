@@ -0,0 +1,77 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import {Args, Command, Flags, type Interfaces} from '@oclif/core';
+import {InstanceCommand, type Flags as CommandFlags} from '@salesforce/b2c-tooling-sdk/cli';
+import {
+  parseCustomObjectQuery,
+  type CustomObjectScope,
+  type SearchCustomObjectsOptions,
+} from '@salesforce/b2c-tooling-sdk/operations/custom-objects';
+import {t} from '../../i18n/index.js';
+
+/**
+ * Base command for custom object operations.
+ * Provides the object type argument, the site scope flag and the search query flags.
+ */
+export abstract class CustomObjectCommand<T extends typeof Command> extends InstanceCommand<T> {
+  static objectTypeArg = {
+    objectType: Args.string({
+      description: 'Custom object type ID',
+      required: true,
+    }),
+  };
+
+  static queryFlags = {
+    query: Flags.string({
+      char: 'q',
+      description: 'Query expression (e.g. "c_enabled = true AND c_region in (EU, US)") or OCAPI query JSON',
+    }),
+    sort: Flags.string({
+      description: 'Sort by attribute, append ":desc" for descending order (can be repeated)',
+      multiple: true,
+    }),
+  };
+
+  static scopeFlags = {
+    site: Flags.string({
+      description: 'Site ID for site-specific custom objects (global if omitted)',
+    }),
+  };
+
+  // The generic base command cannot infer the flags declared here; subclasses spread the ones they use
+  declare protected flags: CommandFlags<T> &
+    Interfaces.InferredFlags<typeof CustomObjectCommand.queryFlags & typeof CustomObjectCommand.scopeFlags>;
+
+  /**
+   * Site scope from the --site flag.
+   */
+  protected get scope(): CustomObjectScope {
+    return {siteId: this.flags.site};
+  }
+
+  /**
+   * Builds the search query and sort clauses from the query flags.
+   */
+  protected getSearchOptions(): Pick<SearchCustomObjectsOptions, 'query' | 'sorts'> {
+    const {query, sort} = this.flags;
+
+    let parsedQuery: unknown;
+    try {
+      parsedQuery = parseCustomObjectQuery(query);
+    } catch (error) {
+      this.error(
+        t('commands.custom-objects.invalidQuery', 'Invalid query: {{message}}', {message: (error as Error).message}),
+      );
+    }
+
+    const sorts = sort?.map((s) => {
+      const [field, order] = s.split(':');
+      return {field, order: order === 'desc' ? ('desc' as const) : ('asc' as const)};
+    });
+
+    return {query: parsedQuery, sorts};
+  }
+}
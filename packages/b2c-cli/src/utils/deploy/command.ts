@@ -0,0 +1,90 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import {Args, Command, Flags, type Interfaces} from '@oclif/core';
+import {
+  BaseCommand,
+  loadMobifyConfig,
+  type Args as CommandArgs,
+  type Flags as CommandFlags,
+} from '@salesforce/b2c-tooling-sdk/cli';
+import {ApiKeyStrategy} from '@salesforce/b2c-tooling-sdk/auth';
+import {
+  loadPipeline,
+  type LoadedPipeline,
+  type PipelineRunOptions,
+} from '@salesforce/b2c-tooling-sdk/operations/pipeline';
+import {DEFAULT_MRT_ORIGIN} from '@salesforce/b2c-tooling-sdk/clients';
+import {t} from '../../i18n/index.js';
+
+/**
+ * Base command for deploy pipelines.
+ * Provides the pipeline file argument, target selection, the state file and MRT credentials.
+ *
+ * Instances are resolved per target from the dw.json `configs` (see --config).
+ */
+export abstract class DeployPipelineCommand<T extends typeof Command> extends BaseCommand<T> {
+  static baseFlags = {
+    ...BaseCommand.baseFlags,
+    target: Flags.string({
+      char: 't',
+      description: 'Only run these pipeline targets (can be repeated)',
+      multiple: true,
+    }),
+    state: Flags.string({
+      description: 'State file (default: <pipeline>.state.json next to the pipeline file)',
+    }),
+    'api-key': Flags.string({
+      description: 'MRT API key (for mrt-push steps)',
+      env: 'SFCC_MRT_API_KEY',
+      helpGroup: 'AUTH',
+    }),
+    'cloud-origin': Flags.string({
+      description: `MRT cloud origin URL (default: ${DEFAULT_MRT_ORIGIN})`,
+      env: 'SFCC_MRT_CLOUD_ORIGIN',
+    }),
+  };
+
+  static pipelineArg = {
+    file: Args.string({
+      description: 'Pipeline file (JSON or YAML)',
+      required: true,
+    }),
+  };
+
+  // The generic base command cannot infer the flags and args declared here
+  declare protected args: CommandArgs<T> & Interfaces.InferredArgs<typeof DeployPipelineCommand.pipelineArg>;
+  declare protected flags: CommandFlags<T> & Interfaces.InferredFlags<typeof DeployPipelineCommand.baseFlags>;
+
+  /**
+   * Builds the target, dw.json, state file and MRT options from the flags.
+   */
+  protected getRunOptions(): PipelineRunOptions {
+    const {flags} = this;
+    const apiKey = flags['api-key'] || loadMobifyConfig(flags['cloud-origin']).apiKey;
+
+    return {
+      targets: flags.target,
+      configPath: flags.config,
+      statePath: flags.state,
+      mrtAuth: apiKey ? new ApiKeyStrategy(apiKey, 'Authorization') : undefined,
+      mrtOrigin: flags['cloud-origin'],
+    };
+  }
+
+  /**
+   * Loads the pipeline file given as argument, exiting with an error if it is invalid.
+   */
+  protected loadPipelineFile(): LoadedPipeline {
+    const {file} = this.args;
+    try {
+      return loadPipeline(file);
+    } catch (error) {
+      this.error(
+        t('commands.deploy.invalidPipeline', 'Invalid pipeline: {{message}}', {message: (error as Error).message}),
+      );
+    }
+  }
+}
@@ -0,0 +1,93 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import {Command, Flags, ux} from '@oclif/core';
+import {InstanceCommand} from '@salesforce/b2c-tooling-sdk/cli';
+import {
+  DEFAULT_LOG_PREFIXES,
+  parseLogTime,
+  type LogEntry,
+  type LogFilter,
+} from '@salesforce/b2c-tooling-sdk/operations/logs';
+import {t} from '../../i18n/index.js';
+
+/**
+ * Base command for instance log operations.
+ * Provides the log file selection and entry filter flags and entry output.
+ */
+export abstract class LogsCommand<T extends typeof Command> extends InstanceCommand<T> {
+  static baseFlags = {
+    ...InstanceCommand.baseFlags,
+    prefix: Flags.string({
+      description: `Log file prefixes (comma-separated, default: ${DEFAULT_LOG_PREFIXES.join(',')})`,
+      multiple: true,
+      multipleNonGreedy: true,
+      delimiter: ',',
+    }),
+    level: Flags.string({
+      char: 'l',
+      description: 'Only show entries of these levels (comma-separated, e.g. ERROR,FATAL)',
+      multiple: true,
+      multipleNonGreedy: true,
+      delimiter: ',',
+    }),
+    grep: Flags.string({
+      char: 'g',
+      description: 'Only show entries matching this regular expression',
+    }),
+    'ignore-case': Flags.boolean({
+      description: 'Match --grep case-insensitively',
+      default: false,
+    }),
+    since: Flags.string({
+      description: 'Only show entries since a duration ago (e.g. 15m, 2h, 1d) or date',
+    }),
+  };
+
+  /**
+   * Log file prefixes from flags, or the defaults.
+   */
+  protected get logPrefixes(): string[] {
+    const prefixes = this.flags.prefix;
+    return prefixes && prefixes.length > 0 ? prefixes : DEFAULT_LOG_PREFIXES;
+  }
+
+  /**
+   * Builds the entry filter from flags.
+   *
+   * @param until - Optional end of the time window (duration or date)
+   */
+  protected getLogFilter(until?: string): LogFilter {
+    const {level, grep, 'ignore-case': ignoreCase, since} = this.flags;
+
+    try {
+      return {
+        levels: level,
+        pattern: grep ? new RegExp(grep, ignoreCase ? 'i' : undefined) : undefined,
+        since: since ? parseLogTime(since) : undefined,
+        until: until ? parseLogTime(until) : undefined,
+      };
+    } catch (error) {
+      this.error(
+        t('commands.logs.invalidFilter', 'Invalid filter: {{message}}', {
+          message: error instanceof Error ? error.message : String(error),
+        }),
+      );
+    }
+  }
+
+  /**
+   * Prints a log entry to stdout, as JSON line with --json or as text prefixed by its log.
+   */
+  protected printEntry(entry: LogEntry): void {
+    if (this.flags.json) {
+      ux.stdout(JSON.stringify(entry));
+      return;
+    }
+
+    const source = entry.prefix === 'jobs' ? entry.file.replace(/\.log$/, '') : entry.prefix;
+    ux.stdout(`${source} ${entry.raw}`);
+  }
+}
@@ -0,0 +1,44 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import {Command} from '@oclif/core';
+import {MrtCommand} from '@salesforce/b2c-tooling-sdk/cli';
+
+/**
+ * MRT project, environment and API origin of a command.
+ */
+export interface MrtTarget {
+  projectSlug: string;
+  environment: string;
+  origin?: string;
+}
+
+/**
+ * Base command for MRT operations on a single environment.
+ * Requires MRT credentials, a project and an environment.
+ */
+export abstract class MrtTargetCommand<T extends typeof Command> extends MrtCommand<T> {
+  /**
+   * Resolves the project and environment, erroring if either is missing.
+   */
+  protected requireTarget(): MrtTarget {
+    this.requireMrtCredentials();
+
+    const {mrtProject: project, mrtEnvironment: environment, mrtOrigin: origin} = this.resolvedConfig;
+
+    if (!project) {
+      this.error(
+        'MRT project is required. Provide --project flag, set SFCC_MRT_PROJECT, or set mrtProject in dw.json.',
+      );
+    }
+    if (!environment) {
+      this.error(
+        'MRT environment is required. Provide --environment flag, set SFCC_MRT_ENVIRONMENT, or set mrtEnvironment in dw.json.',
+      );
+    }
+
+    return {projectSlug: project, environment, origin};
+  }
+}
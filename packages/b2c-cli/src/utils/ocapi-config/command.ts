@@ -0,0 +1,79 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import fs from 'node:fs';
+import {Args, Command, Flags} from '@oclif/core';
+import {InstanceCommand} from '@salesforce/b2c-tooling-sdk/cli';
+import {
+  parseResourceInfo,
+  OCAPI_API_TYPES,
+  type OcapiApiType,
+  type OcapiResourceInfo,
+} from '@salesforce/b2c-tooling-sdk/operations/ocapi-config';
+import {t} from '../../i18n/index.js';
+
+/**
+ * Base command for OCAPI client configuration.
+ * Provides the client ID argument (defaulting to the configured client ID) and the API type and site flags.
+ */
+export abstract class OcapiConfigCommand<T extends typeof Command> extends InstanceCommand<T> {
+  static clientIdArg = {
+    clientId: Args.string({
+      description: 'API client ID (defaults to the configured client ID)',
+    }),
+  };
+
+  static scopeFlags = {
+    'api-type': Flags.string({
+      description: 'OCAPI API type',
+      options: OCAPI_API_TYPES,
+      default: 'data',
+    }),
+    site: Flags.string({
+      description: 'Site ID to configure (global if omitted, can be repeated)',
+      multiple: true,
+    }),
+  };
+
+  /**
+   * API type from the --api-type flag.
+   */
+  protected get apiType(): OcapiApiType {
+    return (this.flags as {'api-type': string})['api-type'] as OcapiApiType;
+  }
+
+  /**
+   * Client ID from the argument, or the configured client ID.
+   */
+  protected get clientId(): string {
+    const clientId = (this.args as {clientId?: string}).clientId ?? this.resolvedConfig.clientId;
+    if (!clientId) {
+      this.error(
+        t('commands.ocapi-config.noClientId', 'No client ID given. Pass it as argument or configure --client-id.'),
+      );
+    }
+
+    return clientId;
+  }
+
+  /**
+   * Reads client settings from an OCAPI settings JSON file.
+   *
+   * @param file - Path to the JSON file
+   * @returns Settings of the client for the selected API type
+   */
+  protected readSettingsFile(file: string): OcapiResourceInfo {
+    try {
+      return parseResourceInfo(JSON.parse(fs.readFileSync(file, 'utf8')), this.apiType, this.clientId);
+    } catch (error) {
+      this.error(
+        t('commands.ocapi-config.invalidFile', 'Invalid OCAPI settings file {{file}}: {{message}}', {
+          file,
+          message: (error as Error).message,
+        }),
+      );
+    }
+  }
+}
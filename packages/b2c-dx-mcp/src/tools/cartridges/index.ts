@@ -13,43 +13,72 @@
  */
 
 import {z} from 'zod';
-import type {McpTool} from '../../utils/index.js';
+import {B2CInstance} from '@salesforce/b2c-tooling-sdk';
+import {findAndDeployCartridges, getActiveCodeVersion} from '@salesforce/b2c-tooling-sdk/operations/code';
+import {errorResult, jsonResult, type McpTool} from '../../utils/index.js';
 import type {Services} from '../../services.js';
 
 /**
- * Creates a placeholder tool that logs and returns a mock response.
+ * Creates the cartridge_deploy tool.
+ *
+ * Deploys cartridges to the instance configured in dw.json (resolved from
+ * `services.configPath` or auto-discovered). If no code version is given or
+ * configured, the active code version is used.
+ *
+ * @param services - MCP services
+ * @returns The cartridge_deploy tool
  */
-function createPlaceholderTool(name: string, description: string, _services: Services): McpTool {
+function createCartridgeDeployTool(services: Services): McpTool {
   return {
-    name,
-    description: `[PLACEHOLDER] ${description}`,
+    name: 'cartridge_deploy',
+    description:
+      'Deploy cartridges to a B2C Commerce instance. Finds cartridges (directories with a .project file), uploads them via WebDAV and optionally reloads the code version.',
     inputSchema: {
-      message: z.string().optional().describe('Optional message to echo'),
+      directory: z
+        .string()
+        .optional()
+        .describe('Directory to search for cartridges (defaults to the current working directory)'),
+      include: z.array(z.string()).optional().describe('Cartridge names to deploy (all if omitted)'),
+      exclude: z.array(z.string()).optional().describe('Cartridge names to skip'),
+      reload: z.boolean().optional().describe('Reload (re-activate) the code version after deploy'),
+      codeVersion: z
+        .string()
+        .optional()
+        .describe('Code version to deploy to (defaults to dw.json or the active code version)'),
     },
     toolsets: ['CARTRIDGES'],
     isGA: false,
     async handler(args) {
-      const timestamp = new Date().toISOString();
-      console.error(`[${timestamp}] CARTRIDGES tool '${name}' called with:`, args);
+      try {
+        const instance = B2CInstance.fromEnvironment({
+          configPath: services.configPath,
+          codeVersion: args.codeVersion,
+        });
+
+        if (!instance.config.codeVersion) {
+          const active = await getActiveCodeVersion(instance);
+          if (!active?.id) {
+            throw new Error('No code version specified and no active code version found');
+          }
+          instance.config.codeVersion = active.id;
+        }
+
+        const directory = services.resolvePath(services.getCwd(), args.directory ?? '.');
+        const result = await findAndDeployCartridges(instance, directory, {
+          include: args.include,
+          exclude: args.exclude,
+          reload: args.reload,
+        });
 
-      return {
-        content: [
-          {
-            type: 'text' as const,
-            text: JSON.stringify(
-              {
-                tool: name,
-                status: 'placeholder',
-                message: `This is a placeholder implementation for '${name}'. The actual implementation is coming soon.`,
-                input: args,
-                timestamp,
-              },
-              null,
-              2,
-            ),
-          },
-        ],
-      };
+        return jsonResult({
+          hostname: instance.config.hostname,
+          codeVersion: result.codeVersion,
+          cartridges: result.cartridges.map((c) => c.name),
+          reloaded: result.reloaded,
+        });
+      } catch (error) {
+        return errorResult(error);
+      }
     },
   };
 }
@@ -61,5 +90,5 @@ function createPlaceholderTool(name: string, description: string, _services: Ser
  * @returns Array of MCP tools
  */
 export function createCartridgesTools(services: Services): McpTool[] {
-  return [createPlaceholderTool('cartridge_deploy', 'Deploy cartridges to a B2C Commerce instance', services)];
+  return [createCartridgeDeployTool(services)];
 }
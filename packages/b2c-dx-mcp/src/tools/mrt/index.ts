@@ -13,7 +13,10 @@
  */
 
 import {z} from 'zod';
-import type {McpTool} from '../../utils/index.js';
+import {ApiKeyStrategy} from '@salesforce/b2c-tooling-sdk/auth';
+import {loadConfig, loadMobifyConfig} from '@salesforce/b2c-tooling-sdk/cli';
+import {DEFAULT_SSR_ONLY, DEFAULT_SSR_SHARED, pushBundle} from '@salesforce/b2c-tooling-sdk/operations/mrt';
+import {errorResult, jsonResult, type McpTool} from '../../utils/index.js';
 import type {Services} from '../../services.js';
 
 /**
@@ -22,43 +25,77 @@ import type {Services} from '../../services.js';
  * This tool deploys a bundle to Managed Runtime and is shared across
  * MRT, PWAV3, and STOREFRONTNEXT toolsets.
  *
- * @param _services - MCP services (unused in placeholder)
+ * The API key is read from `SFCC_MRT_API_KEY`, falling back to `~/.mobify` (or
+ * `~/.mobify--[hostname]` for a custom cloud origin, which may also be set via
+ * `SFCC_MRT_CLOUD_ORIGIN`). Project and environment default to
+ * `mrtProject`/`mrtEnvironment` in dw.json.
+ *
+ * @param services - MCP services
  * @returns The mrt_bundle_push tool
  */
-function createMrtBundlePushTool(_services: Services): McpTool {
+function createMrtBundlePushTool(services: Services): McpTool {
   return {
     name: 'mrt_bundle_push',
-    description: '[PLACEHOLDER] Build, push bundle (optionally deploy)',
+    description:
+      'Push a bundle from a build directory to Managed Runtime and optionally deploy it to an environment. Returns the bundle ID and deploy status.',
     inputSchema: {
-      projectId: z.string().optional().describe('MRT project ID'),
-      environmentId: z.string().optional().describe('Target environment ID'),
+      projectId: z.string().optional().describe('MRT project ID (defaults to mrtProject in dw.json)'),
+      environmentId: z
+        .string()
+        .optional()
+        .describe(
+          'Target environment ID to deploy to (defaults to mrtEnvironment in dw.json; the bundle is only pushed if neither is set)',
+        ),
       message: z.string().optional().describe('Deployment message'),
+      buildDirectory: z
+        .string()
+        .optional()
+        .describe('Path to the build directory (defaults to "build" in the current working directory)'),
+      ssrOnly: z.array(z.string()).optional().describe('Glob patterns for server-only files'),
+      ssrShared: z.array(z.string()).optional().describe('Glob patterns for files shared between client and server'),
+      cloudOrigin: z
+        .string()
+        .optional()
+        .describe('MRT cloud origin URL (defaults to SFCC_MRT_CLOUD_ORIGIN or https://cloud.mobify.com)'),
     },
     toolsets: ['MRT', 'PWAV3', 'STOREFRONTNEXT'],
     isGA: false,
     async handler(args) {
-      const timestamp = new Date().toISOString();
-      console.error(`[${timestamp}] mrt_bundle_push called with:`, args);
+      try {
+        const config = loadConfig({}, {configPath: services.configPath});
+        const projectSlug = args.projectId ?? config.mrtProject;
+        if (!projectSlug) {
+          throw new Error('MRT project is required. Provide projectId or set mrtProject in dw.json.');
+        }
+
+        const cloudOrigin = args.cloudOrigin ?? process.env.SFCC_MRT_CLOUD_ORIGIN;
+        const apiKey = process.env.SFCC_MRT_API_KEY ?? loadMobifyConfig(cloudOrigin).apiKey;
+        if (!apiKey) {
+          throw new Error('MRT API key required. Set SFCC_MRT_API_KEY or configure ~/.mobify with an api_key.');
+        }
 
-      return {
-        content: [
+        const buildDirectory = services.resolvePath(services.getCwd(), args.buildDirectory ?? 'build');
+        if (!services.exists(buildDirectory)) {
+          throw new Error(`Build directory not found: ${buildDirectory}`);
+        }
+
+        const result = await pushBundle(
           {
-            type: 'text' as const,
-            text: JSON.stringify(
-              {
-                tool: 'mrt_bundle_push',
-                status: 'placeholder',
-                message:
-                  "This is a placeholder implementation for 'mrt_bundle_push'. The actual implementation is coming soon.",
-                input: args,
-                timestamp,
-              },
-              null,
-              2,
-            ),
+            projectSlug,
+            target: args.environmentId ?? config.mrtEnvironment,
+            message: args.message,
+            buildDirectory,
+            ssrOnly: args.ssrOnly ?? DEFAULT_SSR_ONLY,
+            ssrShared: args.ssrShared ?? DEFAULT_SSR_SHARED,
+            origin: cloudOrigin,
           },
-        ],
-      };
+          new ApiKeyStrategy(apiKey, 'Authorization'),
+        );
+
+        return jsonResult(result);
+      } catch (error) {
+        return errorResult(error);
+      }
     },
   };
 }
@@ -0,0 +1,43 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+
+import type {ToolResult} from './types.js';
+
+/**
+ * Creates a tool result containing pretty-printed JSON.
+ *
+ * @param data - Data to serialize
+ * @returns Tool result with a single text content item
+ */
+export function jsonResult(data: unknown): ToolResult {
+  return {
+    content: [
+      {
+        type: 'text' as const,
+        text: JSON.stringify(data, null, 2),
+      },
+    ],
+  };
+}
+
+/**
+ * Creates an error tool result from a thrown value.
+ *
+ * @param error - Error (or any thrown value)
+ * @returns Tool result flagged with `isError`
+ */
+export function errorResult(error: unknown): ToolResult {
+  const message = error instanceof Error ? error.message : String(error);
+  return {
+    content: [
+      {
+        type: 'text' as const,
+        text: `Error: ${message}`,
+      },
+    ],
+    isError: true,
+  };
+}
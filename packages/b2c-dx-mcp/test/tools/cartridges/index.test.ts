@@ -0,0 +1,59 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+
+import {expect} from 'chai';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {createCartridgesTools} from '../../../src/tools/cartridges/index.js';
+import {Services} from '../../../src/services.js';
+
+function getTool(configPath: string) {
+  const tool = createCartridgesTools(new Services({configPath})).find((t) => t.name === 'cartridge_deploy');
+  expect(tool).to.not.be.undefined;
+  return tool!;
+}
+
+describe('tools/cartridges', () => {
+  describe('cartridge_deploy', () => {
+    let tmpDir: string;
+
+    beforeEach(() => {
+      tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'b2c-mcp-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tmpDir, {recursive: true, force: true});
+    });
+
+    it('should accept include/exclude/reload/codeVersion inputs', () => {
+      const tool = getTool(path.join(tmpDir, 'dw.json'));
+
+      expect(tool.inputSchema).to.have.keys(['directory', 'include', 'exclude', 'reload', 'codeVersion']);
+      expect(tool.description).to.not.include('PLACEHOLDER');
+    });
+
+    it('should return an error result when no instance is configured', async () => {
+      const tool = getTool(path.join(tmpDir, 'missing.json'));
+
+      const result = await tool.handler({});
+
+      expect(result.isError).to.be.true;
+      expect(result.content[0]).to.have.property('text').that.includes('Hostname is required');
+    });
+
+    it('should return an error result when no cartridges are found', async () => {
+      const configPath = path.join(tmpDir, 'dw.json');
+      fs.writeFileSync(configPath, JSON.stringify({hostname: 'test.demandware.net', 'code-version': 'v1'}));
+      const tool = getTool(configPath);
+
+      const result = await tool.handler({directory: tmpDir});
+
+      expect(result.isError).to.be.true;
+      expect(result.content[0]).to.have.property('text').that.includes('No cartridges found');
+    });
+  });
+});
@@ -0,0 +1,70 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+
+import {expect} from 'chai';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {createMrtTools} from '../../../src/tools/mrt/index.js';
+import {Services} from '../../../src/services.js';
+
+function getTool(configPath: string) {
+  const tool = createMrtTools(new Services({configPath})).find((t) => t.name === 'mrt_bundle_push');
+  expect(tool).to.not.be.undefined;
+  return tool!;
+}
+
+describe('tools/mrt', () => {
+  describe('mrt_bundle_push', () => {
+    let tmpDir: string;
+
+    beforeEach(() => {
+      tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'b2c-mcp-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tmpDir, {recursive: true, force: true});
+    });
+
+    it('should be shared across MRT, PWAV3 and STOREFRONTNEXT toolsets', () => {
+      const tool = getTool(path.join(tmpDir, 'dw.json'));
+
+      expect(tool.toolsets).to.deep.equal(['MRT', 'PWAV3', 'STOREFRONTNEXT']);
+      expect(tool.description).to.not.include('PLACEHOLDER');
+    });
+
+    it('should return an error result when no project is configured', async () => {
+      const tool = getTool(path.join(tmpDir, 'missing.json'));
+
+      const result = await tool.handler({});
+
+      expect(result.isError).to.be.true;
+      expect(result.content[0]).to.have.property('text').that.includes('MRT project is required');
+    });
+
+    it('should read the API key from SFCC_MRT_API_KEY', async () => {
+      const configPath = path.join(tmpDir, 'dw.json');
+      fs.writeFileSync(configPath, JSON.stringify({mrtProject: 'my-project'}));
+      const tool = getTool(configPath);
+      const previous = process.env.SFCC_MRT_API_KEY;
+      process.env.SFCC_MRT_API_KEY = 'key';
+
+      try {
+        const result = await tool.handler({buildDirectory: path.join(tmpDir, 'build')});
+
+        // Fails after the API key check
+        expect(result.isError).to.be.true;
+        expect(result.content[0]).to.have.property('text').that.includes('Build directory not found');
+      } finally {
+        if (previous === undefined) {
+          delete process.env.SFCC_MRT_API_KEY;
+        } else {
+          process.env.SFCC_MRT_API_KEY = previous;
+        }
+      }
+    });
+  });
+});
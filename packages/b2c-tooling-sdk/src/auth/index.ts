@@ -16,6 +16,21 @@
  * - {@link ImplicitOAuthStrategy} - Interactive browser-based OAuth for CLI/desktop apps
  * - {@link ApiKeyStrategy} - API key authentication for MRT services
  *
+ * ## Token Persistence
+ *
+ * OAuth strategies keep tokens in memory. Pass a {@link TokenStore} such as
+ * {@link FileTokenStore} as `tokenStore` to share tokens across processes:
+ *
+ * ```typescript
+ * import { FileTokenStore, OAuthStrategy } from '@salesforce/b2c-tooling-sdk';
+ *
+ * const auth = new OAuthStrategy({
+ *   clientId: 'your-client-id',
+ *   clientSecret: 'your-client-secret',
+ *   tokenStore: new FileTokenStore('/path/to/tokens.json'),
+ * });
+ * ```
+ *
  * ## Strategy Resolution
  *
  * Use {@link resolveAuthStrategy} to automatically select the best strategy based on
@@ -81,6 +96,10 @@ export {ImplicitOAuthStrategy} from './oauth-implicit.js';
 export type {ImplicitOAuthConfig} from './oauth-implicit.js';
 export {ApiKeyStrategy} from './api-key.js';
 
+// Token persistence
+export {FileTokenStore, getTokenStoreKey, TOKEN_STORE_FILENAME} from './token-store.js';
+export type {TokenStore, TokenStoreKey, StoredToken} from './token-store.js';
+
 // Resolution helpers
 export {resolveAuthStrategy, checkAvailableAuthMethods} from './resolve.js';
 export type {ResolveAuthStrategyOptions, AvailableAuthMethods} from './resolve.js';
@@ -7,6 +7,7 @@ import {createServer, type Server, type IncomingMessage, type ServerResponse} fr
 import type {Socket} from 'node:net';
 import {URL} from 'node:url';
 import type {AuthStrategy, AccessTokenResponse, DecodedJWT} from './types.js';
+import type {TokenStore, TokenStoreKey} from './token-store.js';
 import {getLogger} from '../logging/logger.js';
 import {decodeJWT} from './oauth.js';
 import {DEFAULT_ACCOUNT_MANAGER_HOST} from '../defaults.js';
@@ -34,6 +35,11 @@ export interface ImplicitOAuthConfig {
    * Defaults to 8080 or SFCC_OAUTH_LOCAL_PORT environment variable.
    */
   localPort?: number;
+  /**
+   * Persistent token store shared across processes.
+   * Avoids a browser login per process while the token is valid.
+   */
+  tokenStore?: TokenStore;
 }
 
 /**
@@ -177,7 +183,7 @@ export class ImplicitOAuthStrategy implements AuthStrategy {
    */
   async getTokenResponse(): Promise<AccessTokenResponse> {
     const logger = getLogger();
-    const cached = ACCESS_TOKEN_CACHE.get(this.config.clientId);
+    const cached = this.getCachedToken();
 
     if (cached) {
       const now = new Date();
@@ -192,7 +198,7 @@ export class ImplicitOAuthStrategy implements AuthStrategy {
 
     // Get new token via implicit flow
     const tokenResponse = await this.implicitFlowLogin();
-    ACCESS_TOKEN_CACHE.set(this.config.clientId, tokenResponse);
+    this.cacheToken(tokenResponse);
     return tokenResponse;
   }
 
@@ -201,6 +207,39 @@ export class ImplicitOAuthStrategy implements AuthStrategy {
    */
   invalidateToken(): void {
     ACCESS_TOKEN_CACHE.delete(this.config.clientId);
+    this.config.tokenStore?.delete(this.tokenStoreKey);
+  }
+
+  /**
+   * Key of this strategy's token in the token store
+   */
+  private get tokenStoreKey(): TokenStoreKey {
+    return {clientId: this.config.clientId, accountManagerHost: this.accountManagerHost, scopes: this.config.scopes};
+  }
+
+  /**
+   * Gets the cached token from memory, falling back to the token store
+   */
+  private getCachedToken(): AccessTokenResponse | undefined {
+    const cached = ACCESS_TOKEN_CACHE.get(this.config.clientId);
+    if (cached || !this.config.tokenStore) {
+      return cached;
+    }
+
+    const stored = this.config.tokenStore.get(this.tokenStoreKey);
+    if (stored) {
+      getLogger().debug({expiresAt: stored.expires.toISOString()}, '[Auth] Loaded access token from token store');
+      ACCESS_TOKEN_CACHE.set(this.config.clientId, stored);
+    }
+    return stored;
+  }
+
+  /**
+   * Caches a token in memory and in the token store
+   */
+  private cacheToken(tokenResponse: AccessTokenResponse): void {
+    ACCESS_TOKEN_CACHE.set(this.config.clientId, tokenResponse);
+    this.config.tokenStore?.set(this.tokenStoreKey, tokenResponse);
   }
 
   /**
@@ -210,7 +249,7 @@ export class ImplicitOAuthStrategy implements AuthStrategy {
   private async getAccessToken(): Promise<string> {
     const logger = getLogger();
     const clientId = this.config.clientId;
-    const cached = ACCESS_TOKEN_CACHE.get(clientId);
+    const cached = this.getCachedToken();
 
     logger.trace({clientId, hasCached: !!cached}, '[Auth] Getting access token');
 
@@ -236,13 +275,13 @@ export class ImplicitOAuthStrategy implements AuthStrategy {
           {cachedScopes: cached.scopes, requiredScopes},
           '[Auth] Access token missing scopes; invalidating and re-authenticating',
         );
-        ACCESS_TOKEN_CACHE.delete(clientId);
+        this.invalidateToken();
       } else if (now.getTime() > cached.expires.getTime()) {
         logger.warn(
           {expiresAt: cached.expires.toISOString()},
           '[Auth] Access token expired; invalidating and re-authenticating',
         );
-        ACCESS_TOKEN_CACHE.delete(clientId);
+        this.invalidateToken();
       } else {
         logger.debug(
           {timeUntilExpiryMs: timeUntilExpiry},
@@ -267,7 +306,7 @@ export class ImplicitOAuthStrategy implements AuthStrategy {
 
     try {
       const tokenResponse = await authPromise;
-      ACCESS_TOKEN_CACHE.set(clientId, tokenResponse);
+      this.cacheToken(tokenResponse);
       logger.debug(
         {expiresAt: tokenResponse.expires.toISOString(), scopes: tokenResponse.scopes},
         '[Auth] New token cached',
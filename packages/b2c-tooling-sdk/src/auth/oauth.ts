@@ -4,6 +4,7 @@
  * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
  */
 import type {AuthStrategy, AccessTokenResponse, DecodedJWT} from './types.js';
+import type {TokenStore, TokenStoreKey} from './token-store.js';
 import {getLogger} from '../logging/logger.js';
 import {DEFAULT_ACCOUNT_MANAGER_HOST} from '../defaults.js';
 
@@ -15,6 +16,8 @@ export interface OAuthConfig {
   clientSecret: string;
   scopes?: string[];
   accountManagerHost?: string;
+  /** Persistent token store shared across processes (optional) */
+  tokenStore?: TokenStore;
 }
 
 /**
@@ -77,7 +80,7 @@ export class OAuthStrategy implements AuthStrategy {
    */
   async getTokenResponse(): Promise<AccessTokenResponse> {
     const logger = getLogger();
-    const cached = ACCESS_TOKEN_CACHE.get(this.config.clientId);
+    const cached = this.getCachedToken();
 
     if (cached) {
       const now = new Date();
@@ -92,7 +95,7 @@ export class OAuthStrategy implements AuthStrategy {
 
     // Get new token via client credentials
     const tokenResponse = await this.clientCredentialsGrant();
-    ACCESS_TOKEN_CACHE.set(this.config.clientId, tokenResponse);
+    this.cacheToken(tokenResponse);
     return tokenResponse;
   }
 
@@ -101,6 +104,39 @@ export class OAuthStrategy implements AuthStrategy {
    */
   invalidateToken(): void {
     ACCESS_TOKEN_CACHE.delete(this.config.clientId);
+    this.config.tokenStore?.delete(this.tokenStoreKey);
+  }
+
+  /**
+   * Key of this strategy's token in the token store
+   */
+  private get tokenStoreKey(): TokenStoreKey {
+    return {clientId: this.config.clientId, accountManagerHost: this.accountManagerHost, scopes: this.config.scopes};
+  }
+
+  /**
+   * Gets the cached token from memory, falling back to the token store
+   */
+  private getCachedToken(): AccessTokenResponse | undefined {
+    const cached = ACCESS_TOKEN_CACHE.get(this.config.clientId);
+    if (cached || !this.config.tokenStore) {
+      return cached;
+    }
+
+    const stored = this.config.tokenStore.get(this.tokenStoreKey);
+    if (stored) {
+      getLogger().debug('Loaded access token from token store');
+      ACCESS_TOKEN_CACHE.set(this.config.clientId, stored);
+    }
+    return stored;
+  }
+
+  /**
+   * Caches a token in memory and in the token store
+   */
+  private cacheToken(tokenResponse: AccessTokenResponse): void {
+    ACCESS_TOKEN_CACHE.set(this.config.clientId, tokenResponse);
+    this.config.tokenStore?.set(this.tokenStoreKey, tokenResponse);
   }
 
   /**
@@ -108,7 +144,7 @@ export class OAuthStrategy implements AuthStrategy {
    */
   private async getAccessToken(): Promise<string> {
     const logger = getLogger();
-    const cached = ACCESS_TOKEN_CACHE.get(this.config.clientId);
+    const cached = this.getCachedToken();
 
     if (cached) {
       const now = new Date();
@@ -117,10 +153,10 @@ export class OAuthStrategy implements AuthStrategy {
 
       if (!hasAllScopes) {
         logger.warn('Access token missing scopes; invalidating and re-authenticating');
-        ACCESS_TOKEN_CACHE.delete(this.config.clientId);
+        this.invalidateToken();
       } else if (now.getTime() > cached.expires.getTime()) {
         logger.warn('Access token expired; invalidating and re-authenticating');
-        ACCESS_TOKEN_CACHE.delete(this.config.clientId);
+        this.invalidateToken();
       } else {
         logger.debug('Reusing cached access token');
         return cached.accessToken;
@@ -129,7 +165,7 @@ export class OAuthStrategy implements AuthStrategy {
 
     // Get new token via client credentials
     const tokenResponse = await this.clientCredentialsGrant();
-    ACCESS_TOKEN_CACHE.set(this.config.clientId, tokenResponse);
+    this.cacheToken(tokenResponse);
     return tokenResponse.accessToken;
   }
 
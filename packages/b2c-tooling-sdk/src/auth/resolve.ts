@@ -172,6 +172,7 @@ export function resolveAuthStrategy(
             clientSecret: credentials.clientSecret,
             scopes: credentials.scopes,
             accountManagerHost: credentials.accountManagerHost,
+            tokenStore: credentials.tokenStore,
           });
         }
         break;
@@ -182,6 +183,7 @@ export function resolveAuthStrategy(
             clientId: credentials.clientId,
             scopes: credentials.scopes,
             accountManagerHost: credentials.accountManagerHost,
+            tokenStore: credentials.tokenStore,
           });
         }
         break;
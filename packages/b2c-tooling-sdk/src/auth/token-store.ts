@@ -0,0 +1,204 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import fs from 'node:fs';
+import path from 'node:path';
+import type {AccessTokenResponse} from './types.js';
+import {getLogger} from '../logging/logger.js';
+
+/** Current token store file format version */
+const TOKEN_STORE_VERSION = 1;
+
+/**
+ * Default file name of the token store within the user config directory.
+ */
+export const TOKEN_STORE_FILENAME = 'tokens.json';
+
+/**
+ * Identifies a token in a token store.
+ *
+ * Tokens are keyed by client ID, Account Manager host and requested scopes, so
+ * tokens for different scope sets of the same client never replace each other.
+ */
+export interface TokenStoreKey {
+  clientId: string;
+  accountManagerHost: string;
+  /** Requested scopes (order does not matter) */
+  scopes?: string[];
+}
+
+/**
+ * A token persisted in a token store.
+ */
+export interface StoredToken extends AccessTokenResponse {
+  /** Store key (see {@link getTokenStoreKey}) */
+  key: string;
+  clientId: string;
+  accountManagerHost: string;
+  /** Scopes requested when the token was obtained */
+  requestedScopes: string[];
+}
+
+/**
+ * Persistent storage for OAuth access tokens.
+ *
+ * Passed to {@link OAuthStrategy} and {@link ImplicitOAuthStrategy} via the `tokenStore`
+ * config option to share tokens across processes.
+ */
+export interface TokenStore {
+  /** Returns the stored token, if any (expired tokens may be returned) */
+  get(key: TokenStoreKey): AccessTokenResponse | undefined;
+  /** Stores a token, replacing any existing token for the key */
+  set(key: TokenStoreKey, token: AccessTokenResponse): void;
+  /** Removes the token for the key */
+  delete(key: TokenStoreKey): void;
+}
+
+/**
+ * Serialized token entry in the token store file.
+ */
+interface TokenStoreEntry {
+  clientId: string;
+  accountManagerHost: string;
+  requestedScopes: string[];
+  accessToken: string;
+  expires: string;
+  scopes: string[];
+}
+
+interface TokenStoreFile {
+  version: number;
+  tokens: Record<string, TokenStoreEntry>;
+}
+
+/**
+ * Builds the store key for a client ID, Account Manager host and scope set.
+ *
+ * @param key - Token identity
+ * @returns Stable string key
+ */
+export function getTokenStoreKey(key: TokenStoreKey): string {
+  const scopes = [...(key.scopes ?? [])].sort().join(' ');
+  return `${key.clientId}|${key.accountManagerHost}|${scopes}`;
+}
+
+/**
+ * Token store backed by a JSON file.
+ *
+ * The file is created with mode 0600 (readable by the owning user only), as it
+ * contains bearer tokens. The file is re-read on every access so concurrent CLI
+ * processes see each other's tokens.
+ *
+ * @example
+ * ```typescript
+ * import { FileTokenStore, OAuthStrategy } from '@salesforce/b2c-tooling-sdk/auth';
+ *
+ * const tokenStore = new FileTokenStore(path.join(configDir, 'tokens.json'));
+ * const auth = new OAuthStrategy({ clientId, clientSecret, tokenStore });
+ * ```
+ */
+export class FileTokenStore implements TokenStore {
+  constructor(public readonly filePath: string) {}
+
+  /**
+   * Removes tokens matching the filter.
+   *
+   * @param filter - Only remove tokens of this client ID / Account Manager host (all if omitted)
+   * @returns Number of removed tokens
+   */
+  clear(filter: {clientId?: string; accountManagerHost?: string} = {}): number {
+    const file = this.read();
+    let removed = 0;
+
+    for (const [key, entry] of Object.entries(file.tokens)) {
+      if (
+        (!filter.clientId || entry.clientId === filter.clientId) &&
+        (!filter.accountManagerHost || entry.accountManagerHost === filter.accountManagerHost)
+      ) {
+        delete file.tokens[key];
+        removed++;
+      }
+    }
+
+    if (removed > 0) {
+      this.write(file);
+    }
+    return removed;
+  }
+
+  delete(key: TokenStoreKey): void {
+    const file = this.read();
+    const storeKey = getTokenStoreKey(key);
+
+    if (storeKey in file.tokens) {
+      delete file.tokens[storeKey];
+      this.write(file);
+    }
+  }
+
+  get(key: TokenStoreKey): AccessTokenResponse | undefined {
+    const entry = this.read().tokens[getTokenStoreKey(key)];
+    if (!entry) {
+      return undefined;
+    }
+
+    return {accessToken: entry.accessToken, expires: new Date(entry.expires), scopes: entry.scopes};
+  }
+
+  /**
+   * Lists all stored tokens, including expired ones.
+   *
+   * @returns Stored tokens
+   */
+  list(): StoredToken[] {
+    return Object.entries(this.read().tokens).map(([key, entry]) => ({
+      key,
+      clientId: entry.clientId,
+      accountManagerHost: entry.accountManagerHost,
+      requestedScopes: entry.requestedScopes,
+      accessToken: entry.accessToken,
+      expires: new Date(entry.expires),
+      scopes: entry.scopes,
+    }));
+  }
+
+  set(key: TokenStoreKey, token: AccessTokenResponse): void {
+    const file = this.read();
+    file.tokens[getTokenStoreKey(key)] = {
+      clientId: key.clientId,
+      accountManagerHost: key.accountManagerHost,
+      requestedScopes: key.scopes ?? [],
+      accessToken: token.accessToken,
+      expires: token.expires.toISOString(),
+      scopes: token.scopes,
+    };
+    this.write(file);
+  }
+
+  private read(): TokenStoreFile {
+    if (!fs.existsSync(this.filePath)) {
+      return {version: TOKEN_STORE_VERSION, tokens: {}};
+    }
+
+    try {
+      const file = JSON.parse(fs.readFileSync(this.filePath, 'utf8')) as TokenStoreFile;
+      if (file.version === TOKEN_STORE_VERSION && file.tokens) {
+        return file;
+      }
+      getLogger().debug({filePath: this.filePath}, '[Auth] Ignoring token store with unsupported format');
+    } catch (error) {
+      getLogger().debug({filePath: this.filePath, error}, '[Auth] Could not read token store');
+    }
+
+    return {version: TOKEN_STORE_VERSION, tokens: {}};
+  }
+
+  private write(file: TokenStoreFile): void {
+    fs.mkdirSync(path.dirname(this.filePath), {recursive: true, mode: 0o700});
+    fs.writeFileSync(this.filePath, JSON.stringify(file, null, 2), {mode: 0o600});
+    // writeFileSync only applies the mode when creating the file
+    fs.chmodSync(this.filePath, 0o600);
+  }
+}
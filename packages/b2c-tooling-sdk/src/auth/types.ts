@@ -3,6 +3,8 @@
  * SPDX-License-Identifier: Apache-2
  * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
  */
+import type {TokenStore} from './token-store.js';
+
 export interface AuthStrategy {
   /**
    * Performs a fetch request with authentication.
@@ -34,6 +36,8 @@ export interface OAuthAuthConfig {
   clientSecret?: string;
   scopes?: string[];
   accountManagerHost?: string;
+  /** Persistent token store shared across processes */
+  tokenStore?: TokenStore;
 }
 
 /**
@@ -116,4 +120,6 @@ export interface AuthCredentials {
   apiKey?: string;
   /** Header name for API key (defaults to Authorization with Bearer prefix) */
   apiKeyHeaderName?: string;
+  /** Persistent token store for OAuth strategies */
+  tokenStore?: TokenStore;
 }
@@ -138,6 +138,7 @@ export abstract class InstanceCommand<T extends typeof Command> extends OAuthCom
           clientSecret: config.clientSecret,
           scopes: config.scopes,
           accountManagerHost: this.accountManagerHost,
+          tokenStore: this.tokenStore,
         };
       }
 
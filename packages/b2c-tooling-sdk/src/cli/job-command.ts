@@ -3,9 +3,15 @@
  * SPDX-License-Identifier: Apache-2
  * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
  */
-import {Command} from '@oclif/core';
+import {Command, ux} from '@oclif/core';
 import {InstanceCommand} from './instance-command.js';
-import {getJobLog, getJobErrorMessage, type JobExecution} from '../operations/jobs/index.js';
+import {
+  followJobExecution,
+  getJobLog,
+  getJobErrorMessage,
+  type FollowJobOptions,
+  type JobExecution,
+} from '../operations/jobs/index.js';
 import {t} from '../i18n/index.js';
 
 /**
@@ -29,6 +35,48 @@ import {t} from '../i18n/index.js';
  * }
  */
 export abstract class JobCommand<T extends typeof Command> extends InstanceCommand<T> {
+  /**
+   * Follow a job execution until it completes.
+   * Prints new log lines to stdout and status changes of the job and its steps as they occur.
+   *
+   * @param jobId - Job ID
+   * @param executionId - Execution ID to follow
+   * @param options - Follow options (poll interval, timeout)
+   * @returns Final execution
+   * @throws JobExecutionError if the job fails
+   */
+  protected async followJob(jobId: string, executionId: string, options: FollowJobOptions = {}): Promise<JobExecution> {
+    const events = followJobExecution(this.instance, jobId, executionId, options);
+
+    let next = await events.next();
+    while (!next.done) {
+      const event = next.value;
+      switch (event.type) {
+        case 'log':
+          if (!this.jsonEnabled()) {
+            ux.stdout(event.line);
+          }
+          break;
+
+        case 'status':
+          this.log(t('cli.job.status', '[JOB] {{status}}', {status: event.execution.execution_status}));
+          break;
+
+        case 'step':
+          this.log(
+            t('cli.job.stepStatus', '[STEP] {{stepId}}: {{status}}', {
+              stepId: event.step.step_id,
+              status: event.step.status ?? event.step.execution_status,
+            }),
+          );
+          break;
+      }
+      next = await events.next();
+    }
+
+    return next.value;
+  }
+
   /**
    * Display a job's log file content and error message if available.
    * Outputs to stderr since this is typically shown for failed jobs.
@@ -48,6 +48,7 @@ export abstract class MrtCommand<T extends typeof Command> extends BaseCommand<T
     }),
     environment: Flags.string({
       char: 'e',
+      aliases: ['env'],
       description: 'MRT environment (e.g., staging, production; or set mrtEnvironment in dw.json)',
       env: 'SFCC_MRT_ENVIRONMENT',
     }),
@@ -3,12 +3,14 @@
  * SPDX-License-Identifier: Apache-2
  * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
  */
+import path from 'node:path';
 import {Command, Flags} from '@oclif/core';
 import {BaseCommand} from './base-command.js';
 import {loadConfig, ALL_AUTH_METHODS} from './config.js';
 import type {ResolvedConfig, LoadConfigOptions, AuthMethod} from './config.js';
 import {OAuthStrategy} from '../auth/oauth.js';
 import {ImplicitOAuthStrategy} from '../auth/oauth-implicit.js';
+import {FileTokenStore, TOKEN_STORE_FILENAME} from '../auth/token-store.js';
 import {t} from '../i18n/index.js';
 import {DEFAULT_ACCOUNT_MANAGER_HOST} from '../defaults.js';
 
@@ -19,6 +21,7 @@ import {DEFAULT_ACCOUNT_MANAGER_HOST} from '../defaults.js';
  * Environment variables:
  * - SFCC_CLIENT_ID: OAuth client ID
  * - SFCC_CLIENT_SECRET: OAuth client secret
+ * - SFCC_TOKEN_CACHE: Set to 'true' to enable the persistent token cache
  *
  * For B2C instance specific operations, use InstanceCommand instead.
  */
@@ -63,6 +66,13 @@ export abstract class OAuthCommand<T extends typeof Command> extends BaseCommand
       default: DEFAULT_ACCOUNT_MANAGER_HOST,
       helpGroup: 'AUTH',
     }),
+    'token-cache': Flags.boolean({
+      description: 'Cache OAuth tokens on disk and reuse them across commands until they expire',
+      env: 'SFCC_TOKEN_CACHE',
+      default: false,
+      allowNo: true,
+      helpGroup: 'AUTH',
+    }),
   };
 
   /**
@@ -113,6 +123,23 @@ export abstract class OAuthCommand<T extends typeof Command> extends BaseCommand
     return this.flags['account-manager-host'] ?? DEFAULT_ACCOUNT_MANAGER_HOST;
   }
 
+  /**
+   * Gets the on-disk token cache in `tokens.json` in the CLI config directory,
+   * regardless of whether caching is enabled. Used to inspect and clear it.
+   */
+  protected get persistentTokenStore(): FileTokenStore {
+    return new FileTokenStore(path.join(this.config.configDir, TOKEN_STORE_FILENAME));
+  }
+
+  /**
+   * Gets the token store passed to OAuth strategies.
+   *
+   * @returns The persistent token store if enabled via --token-cache or SFCC_TOKEN_CACHE, otherwise undefined
+   */
+  protected get tokenStore(): FileTokenStore | undefined {
+    return this.flags['token-cache'] ? this.persistentTokenStore : undefined;
+  }
+
   /**
    * Gets an OAuth auth strategy based on allowed auth methods and available credentials.
    *
@@ -136,6 +163,7 @@ export abstract class OAuthCommand<T extends typeof Command> extends BaseCommand
               clientSecret: config.clientSecret,
               scopes: config.scopes,
               accountManagerHost,
+              tokenStore: this.tokenStore,
             });
           }
           break;
@@ -146,6 +174,7 @@ export abstract class OAuthCommand<T extends typeof Command> extends BaseCommand
               clientId: config.clientId,
               scopes: config.scopes,
               accountManagerHost,
+              tokenStore: this.tokenStore,
             });
           }
           break;
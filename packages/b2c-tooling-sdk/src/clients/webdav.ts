@@ -217,6 +217,43 @@ export class WebDavClient {
     return response.arrayBuffer();
   }
 
+  /**
+   * Downloads the content of a file starting at a byte offset.
+   *
+   * Uses an HTTP Range request so growing files (e.g. logs) can be read
+   * incrementally. Returns an empty buffer if there is no content past the offset.
+   *
+   * @param path - Path to download
+   * @param offset - Byte offset to start at
+   * @returns File content from the offset as ArrayBuffer
+   *
+   * @example
+   * let offset = 0;
+   * const chunk = await client.getRange('Logs/jobs/my-job.log', offset);
+   * offset += chunk.byteLength;
+   */
+  async getRange(path: string, offset: number): Promise<ArrayBuffer> {
+    const response = await this.request(path, {method: 'GET', headers: {Range: `bytes=${offset}-`}});
+
+    // Range Not Satisfiable: nothing new past the offset
+    if (response.status === 416) {
+      return new ArrayBuffer(0);
+    }
+
+    if (!response.ok) {
+      throw new HTTPError(`GET failed: ${response.status} ${response.statusText}`, response, 'GET');
+    }
+
+    const content = await response.arrayBuffer();
+
+    // Server ignored the range and returned the full file
+    if (response.status !== 206 && offset > 0) {
+      return content.slice(offset);
+    }
+
+    return content;
+  }
+
   /**
    * Deletes a file or directory.
    *
@@ -234,6 +271,32 @@ export class WebDavClient {
     }
   }
 
+  /**
+   * Copies a file or directory (recursively) on the server.
+   *
+   * @param source - Path to copy
+   * @param destination - Destination path
+   * @param overwrite - Replace an existing destination (default: false)
+   * @throws HTTPError if the copy fails (e.g. 412 if the destination exists and overwrite is false)
+   *
+   * @example
+   * await client.copy('Cartridges/v1', 'Cartridges/v2');
+   */
+  async copy(source: string, destination: string, overwrite = false): Promise<void> {
+    const response = await this.request(source, {
+      method: 'COPY',
+      headers: {
+        Destination: this.buildUrl(destination),
+        Depth: 'infinity',
+        Overwrite: overwrite ? 'T' : 'F',
+      },
+    });
+
+    if (!response.ok) {
+      throw new HTTPError(`COPY failed: ${response.status} ${response.statusText}`, response, 'COPY');
+    }
+  }
+
   /**
    * Lists directory contents.
    *
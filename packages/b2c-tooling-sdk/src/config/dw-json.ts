@@ -48,6 +48,10 @@ export interface DwJsonConfig {
   'webdav-hostname'?: string;
   /** Allowed authentication methods in priority order */
   'auth-methods'?: AuthMethod[];
+  /** MRT project slug */
+  mrtProject?: string;
+  /** MRT environment name (e.g., staging, production) */
+  mrtEnvironment?: string;
 }
 
 /**
@@ -173,3 +177,57 @@ export function loadDwJson(options: LoadDwJsonOptions = {}): DwJsonConfig | unde
     return undefined;
   }
 }
+
+/**
+ * Options for updating dw.json.
+ */
+export interface UpdateDwJsonOptions {
+  /** Named instance to update in the configs array (default: the config {@link loadDwJson} selects) */
+  instance?: string;
+  /** Explicit path to dw.json (default: found by searching upward, or created in the start directory) */
+  path?: string;
+  /** Starting directory for search (defaults to cwd) */
+  startDir?: string;
+}
+
+/**
+ * Sets values in a dw.json file, keeping all other settings.
+ *
+ * Updates the same config {@link loadDwJson} would select: the named instance,
+ * the active config, or the root config. Creates dw.json if none is found.
+ *
+ * @param values - Values to set
+ * @param options - Which file and config to update
+ * @returns Path of the written dw.json
+ * @throws Error if the file is not valid JSON or the named instance does not exist
+ *
+ * @example
+ * // Store a WebDAV access key
+ * updateDwJson({ username: 'jdoe', password: accessKey });
+ *
+ * // Update a named instance
+ * updateDwJson({ 'code-version': 'v2' }, { instance: 'staging' });
+ */
+export function updateDwJson(values: Partial<DwJsonConfig>, options: UpdateDwJsonOptions = {}): string {
+  const dwJsonPath =
+    options.path || findDwJson(options.startDir) || path.join(options.startDir ?? process.cwd(), 'dw.json');
+
+  let json: DwJsonMultiConfig = {};
+  if (fs.existsSync(dwJsonPath)) {
+    try {
+      json = JSON.parse(fs.readFileSync(dwJsonPath, 'utf8')) as DwJsonMultiConfig;
+    } catch (error) {
+      throw new Error(`Invalid dw.json at ${dwJsonPath}`, {cause: error});
+    }
+  }
+
+  const target = selectConfig(json, options.instance);
+  if (options.instance && target.name !== options.instance) {
+    throw new Error(`Instance ${options.instance} not found in ${dwJsonPath}`);
+  }
+
+  Object.assign(target, values);
+  fs.writeFileSync(dwJsonPath, `${JSON.stringify(json, null, 2)}\n`);
+
+  return dwJsonPath;
+}
@@ -11,5 +11,5 @@
  *
  * @module config
  */
-export {loadDwJson, findDwJson} from './dw-json.js';
-export type {DwJsonConfig, DwJsonMultiConfig, LoadDwJsonOptions} from './dw-json.js';
+export {loadDwJson, findDwJson, updateDwJson} from './dw-json.js';
+export type {DwJsonConfig, DwJsonMultiConfig, LoadDwJsonOptions, UpdateDwJsonOptions} from './dw-json.js';
@@ -15,8 +15,8 @@ export {t, setLanguage, getLanguage, getI18nInstance, registerTranslations, B2C_
 export type {TOptions} from './i18n/index.js';
 
 // Config
-export {loadDwJson, findDwJson} from './config/index.js';
-export type {DwJsonConfig, DwJsonMultiConfig, LoadDwJsonOptions} from './config/index.js';
+export {loadDwJson, findDwJson, updateDwJson} from './config/index.js';
+export type {DwJsonConfig, DwJsonMultiConfig, LoadDwJsonOptions, UpdateDwJsonOptions} from './config/index.js';
 
 // Auth Layer - Strategies and Resolution
 export {
@@ -28,6 +28,9 @@ export {
   resolveAuthStrategy,
   checkAvailableAuthMethods,
   ALL_AUTH_METHODS,
+  FileTokenStore,
+  getTokenStoreKey,
+  TOKEN_STORE_FILENAME,
 } from './auth/index.js';
 export type {
   AuthStrategy,
@@ -43,6 +46,9 @@ export type {
   AuthCredentials,
   ResolveAuthStrategyOptions,
   AvailableAuthMethods,
+  TokenStore,
+  TokenStoreKey,
+  StoredToken,
 } from './auth/index.js';
 
 // Context Layer - Instance
@@ -93,22 +99,72 @@ export {
   reloadCodeVersion,
   deleteCodeVersion,
   createCodeVersion,
+  cloneCodeVersion,
+  pruneCodeVersions,
+  diffCodeVersions,
   findAndDeployCartridges,
   uploadCartridges,
+  uploadCartridgesIncremental,
   deleteCartridges,
   watchCartridges,
+  blueGreenDeploy,
+  runSmokeCheck,
 } from './operations/code/index.js';
 export type {
   CartridgeMapping,
   FindCartridgesOptions,
   CodeVersion,
   CodeVersionResult,
+  CloneCodeVersionOptions,
+  CloneCodeVersionResult,
+  PruneCodeVersionsOptions,
+  PruneCodeVersionsResult,
+  CodeVersionDiff,
   DeployOptions,
   DeployResult,
+  DeployChanges,
+  BlueGreenDeployOptions,
+  BlueGreenDeployResult,
+  SmokeCheckConfig,
+  SmokeCheckResult,
   WatchOptions,
+  WatchRetryInfo,
   WatchResult,
+  SiteArchiveWatchOptions,
+  SiteArchiveSyncResult,
 } from './operations/code/index.js';
 
+// Operations - Custom Objects
+export {
+  getCustomObject,
+  putCustomObject,
+  deleteCustomObject,
+  searchCustomObjects,
+  iterateCustomObjects,
+  parseCustomObjectQuery,
+  exportCustomObjects,
+  importCustomObjects,
+} from './operations/custom-objects/index.js';
+export type {
+  CustomObject,
+  CustomObjectScope,
+  CustomObjectSearchResult,
+  CustomObjectFormat,
+  ExportCustomObjectsResult,
+  ImportCustomObjectsResult,
+} from './operations/custom-objects/index.js';
+
+// Operations - Impex
+export {
+  loadSiteArchiveDefinitions,
+  parseSiteArchiveDefinition,
+  generateSiteArchive,
+  buildSiteArchive,
+  validateSiteArchiveXml,
+  SiteArchiveValidationError,
+} from './operations/impex/index.js';
+export type {SiteArchiveDefinition, SiteArchiveBuildResult} from './operations/impex/index.js';
+
 // Operations - Jobs
 export {
   executeJob,
@@ -117,11 +173,15 @@ export {
   searchJobExecutions,
   findRunningJobExecution,
   getJobLog,
+  followJobExecution,
   getJobErrorMessage,
   JobExecutionError,
   siteArchiveImport,
   siteArchiveExport,
   siteArchiveExportToPath,
+  siteArchiveDiff,
+  diffSiteArchiveFiles,
+  diffSiteArchiveXml,
 } from './operations/jobs/index.js';
 export type {
   JobExecution,
@@ -130,6 +190,8 @@ export type {
   JobExecutionParameter,
   ExecuteJobOptions,
   WaitForJobOptions,
+  FollowJobOptions,
+  JobFollowEvent,
   SearchJobExecutionsOptions,
   JobExecutionSearchResult,
   SiteArchiveImportOptions,
@@ -139,11 +201,152 @@ export type {
   ExportDataUnitsConfiguration,
   ExportSitesConfiguration,
   ExportGlobalDataConfiguration,
+  SiteArchiveChange,
+  SiteArchivePropertyChange,
+  SiteArchiveFileDiff,
+  SiteArchiveDiffOptions,
+  SiteArchiveDiffResult,
 } from './operations/jobs/index.js';
 
+// Operations - Logs
+export {
+  listLogFiles,
+  searchLogs,
+  tailLogs,
+  parseLogEntries,
+  matchesLogFilter,
+  parseLogTime,
+  DEFAULT_LOG_PREFIXES,
+} from './operations/logs/index.js';
+export type {
+  LogFile,
+  ListLogFilesOptions,
+  LogEntry,
+  LogFilter,
+  SearchLogsOptions,
+  TailLogsOptions,
+} from './operations/logs/index.js';
+
+// Operations - Pipeline
+export {loadPipeline, parsePipeline, planPipeline, applyPipeline} from './operations/pipeline/index.js';
+export type {
+  Pipeline,
+  PipelineStep,
+  LoadedPipeline,
+  PipelinePlan,
+  PlannedStep,
+  ApplyPipelineOptions,
+  ApplyPipelineResult,
+  PipelineStepResult,
+} from './operations/pipeline/index.js';
+
 // Operations - Sites
-export {listSites, getSite} from './operations/sites/index.js';
-export type {Site} from './operations/sites/index.js';
+export {
+  listSites,
+  getSite,
+  getCartridgePath,
+  addCartridge,
+  removeCartridge,
+  setCartridgePath,
+  ensureCartridgesOnPath,
+} from './operations/sites/index.js';
+export type {Site, AddCartridgeOptions, CartridgePosition, SiteCartridgePath} from './operations/sites/index.js';
+
+// Operations - Users
+export {
+  listUsers,
+  getUser,
+  createUser,
+  setUserDisabled,
+  createAccessKey,
+  listRoles,
+  getRole,
+  getRolePermissions,
+  grantRole,
+  revokeRole,
+} from './operations/users/index.js';
+export type {
+  BusinessManagerUser,
+  AccessKeyDetails,
+  AccessKeyScope,
+  CreateUserOptions,
+  AccessRole,
+  RolePermissions,
+  RolePermission,
+} from './operations/users/index.js';
+
+// Operations - OCAPI Config
+export {
+  getOcapiConfig,
+  findResourceInfo,
+  setOcapiConfig,
+  mergeOcapiConfig,
+  mergeResourceInfo,
+  parseResourceInfo,
+  CLI_REQUIRED_RESOURCES,
+} from './operations/ocapi-config/index.js';
+export type {
+  OcapiClientConfig,
+  OcapiResourceInfo,
+  OcapiResource,
+  OcapiResourceMethod,
+  OcapiApiType,
+  OcapiConfigScopeOptions,
+  OcapiResourceMergeResult,
+  OcapiConfigMergeResult,
+} from './operations/ocapi-config/index.js';
+
+// Operations - ODS
+export {
+  getRealmUsage,
+  getRealmsUsage,
+  getSandboxUsage,
+  summarizeRealmUsage,
+  summarizeSandboxUsage,
+  formatUsageCsv,
+  getMonthRange,
+} from './operations/ods/index.js';
+export type {
+  RealmUsage,
+  SandboxUsage,
+  SandboxUsageDetails,
+  UsageDateRange,
+  RealmUsageOptions,
+  RealmUsageSummary,
+  SandboxUsageSummary,
+} from './operations/ods/index.js';
+export {
+  listSandboxAliases,
+  getSandboxAlias,
+  createSandboxAlias,
+  deleteSandboxAlias,
+  waitForSandboxAlias,
+} from './operations/ods/index.js';
+export type {SandboxAlias, CreateSandboxAliasOptions, WaitForSandboxAliasOptions} from './operations/ods/index.js';
+export {listSandboxOperations, getSandboxSettings, applySandboxOcapiSettings} from './operations/ods/index.js';
+export type {
+  SandboxOperation,
+  ListSandboxOperationsOptions,
+  SandboxOcapiSettingsResult,
+} from './operations/ods/index.js';
+export {
+  runSandboxOperation,
+  getSandboxOperation,
+  waitForSandboxOperation,
+  buildWeekdaySchedule,
+  setSandboxSchedule,
+  clearSandboxSchedule,
+  SandboxOperationError,
+  WEEKDAYS,
+} from './operations/ods/index.js';
+export type {
+  Sandbox,
+  SandboxOperationType,
+  WeekdaySchedule,
+  Weekday,
+  SandboxSchedule,
+  WaitForSandboxOperationOptions,
+} from './operations/ods/index.js';
 
 // Defaults
 export {DEFAULT_ACCOUNT_MANAGER_HOST, DEFAULT_ODS_HOST} from './defaults.js';
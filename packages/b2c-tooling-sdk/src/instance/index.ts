@@ -271,6 +271,7 @@ export class B2CInstance {
       clientSecret: this.auth.oauth.clientSecret,
       scopes: this.auth.oauth.scopes,
       accountManagerHost: this.auth.oauth.accountManagerHost,
+      tokenStore: this.auth.oauth.tokenStore,
     };
 
     // Filter to only OAuth methods (client-credentials, implicit)
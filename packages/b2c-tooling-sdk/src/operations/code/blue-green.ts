@@ -0,0 +1,277 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import type {B2CInstance} from '../../instance/index.js';
+import {getLogger} from '../../logging/logger.js';
+import {executeJob, getJobErrorMessage, JobExecutionError, waitForJob} from '../jobs/run.js';
+import type {JobExecutionParameter} from '../jobs/run.js';
+import type {CartridgeMapping} from './cartridges.js';
+import {findAndDeployCartridges, type DeployOptions} from './deploy.js';
+import {activateCodeVersion, cloneCodeVersion, createCodeVersion, getActiveCodeVersion} from './versions.js';
+
+/** Default timeout for each smoke check in milliseconds */
+const DEFAULT_SMOKE_TIMEOUT = 60_000;
+
+/**
+ * Smoke check run after activating the new code version.
+ *
+ * All configured URLs and the job (if any) must succeed for the check to pass.
+ */
+export interface SmokeCheckConfig {
+  /**
+   * Storefront URLs to request with HTTP GET. Paths (e.g. `/s/RefArch/home`) are
+   * resolved against the instance hostname.
+   */
+  urls?: string[];
+  /** Accepted HTTP status codes (default: any 2xx status) */
+  expectedStatus?: number[];
+  /** Job to run; the check fails if the job execution fails */
+  job?: {
+    jobId: string;
+    parameters?: JobExecutionParameter[];
+  };
+  /** Timeout for each URL request and for the job in milliseconds (default: 60000) */
+  timeout?: number;
+}
+
+/**
+ * Outcome of a single smoke check.
+ */
+export interface SmokeCheckEntry {
+  type: 'job' | 'url';
+  /** Requested URL or job ID */
+  target: string;
+  passed: boolean;
+  /** HTTP status (URL checks) */
+  status?: number;
+  /** Job execution ID (job checks) */
+  executionId?: string;
+  /** Failure reason */
+  error?: string;
+}
+
+/**
+ * Outcome of a smoke check run.
+ */
+export interface SmokeCheckResult {
+  passed: boolean;
+  checks: SmokeCheckEntry[];
+}
+
+/**
+ * Options for a blue/green deployment.
+ */
+export interface BlueGreenDeployOptions extends Pick<DeployOptions, 'exclude' | 'include'> {
+  /** Code version to deploy into (default: generated from the current time, see {@link generateCodeVersionId}) */
+  codeVersion?: string;
+  /** Start from a server-side copy of the active code version instead of an empty one */
+  clone?: boolean;
+  /** Smoke check to run after activation (activation alone is the check if omitted) */
+  smokeCheck?: SmokeCheckConfig;
+}
+
+/**
+ * Result of a blue/green deployment.
+ */
+export interface BlueGreenDeployResult {
+  /** Cartridges that were deployed */
+  cartridges: CartridgeMapping[];
+  /** New code version the cartridges were deployed to */
+  codeVersion: string;
+  /** Code version that was active before the deployment */
+  previousCodeVersion?: string;
+  /** Code version active after the deployment (the new one, or the previous one after a rollback) */
+  activeCodeVersion: string;
+  /** Whether the previous code version was re-activated because the smoke check failed */
+  rolledBack: boolean;
+  /** Smoke check outcome (if a smoke check was configured) */
+  smokeCheck?: SmokeCheckResult;
+  /** ISO timestamp of the start of the deployment */
+  startedAt: string;
+  /** ISO timestamp of the end of the deployment */
+  finishedAt: string;
+}
+
+/**
+ * Generates a code version ID from a timestamp, e.g. `deploy-20250101-120000`.
+ *
+ * @param date - Timestamp to use (default: now)
+ * @returns Code version ID
+ */
+export function generateCodeVersionId(date: Date = new Date()): string {
+  const stamp = date
+    .toISOString()
+    .replace(/\.\d+Z$/, '')
+    .replace(/[-:]/g, '')
+    .replace('T', '-');
+  return `deploy-${stamp}`;
+}
+
+/**
+ * Resolves a smoke check URL against the instance hostname.
+ */
+function resolveSmokeUrl(instance: B2CInstance, url: string): string {
+  return new URL(url, `https://${instance.config.hostname}`).toString();
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Runs a smoke check against an instance.
+ *
+ * URLs are requested without authentication, as a shopper would. Checks run
+ * sequentially and all of them run even if an earlier one fails.
+ *
+ * @param instance - B2C instance
+ * @param config - Smoke check configuration
+ * @returns Outcome of each check
+ *
+ * @example
+ * ```typescript
+ * const result = await runSmokeCheck(instance, {
+ *   urls: ['/s/RefArch/home'],
+ *   job: {jobId: 'SmokeTest'},
+ * });
+ * if (!result.passed) {
+ *   console.log(result.checks.filter((c) => !c.passed));
+ * }
+ * ```
+ */
+export async function runSmokeCheck(instance: B2CInstance, config: SmokeCheckConfig): Promise<SmokeCheckResult> {
+  const logger = getLogger();
+  const timeout = config.timeout ?? DEFAULT_SMOKE_TIMEOUT;
+  const checks: SmokeCheckEntry[] = [];
+
+  for (const url of config.urls ?? []) {
+    const target = resolveSmokeUrl(instance, url);
+    logger.debug({url: target}, `Smoke check: GET ${target}`);
+
+    try {
+      const response = await fetch(target, {signal: AbortSignal.timeout(timeout)});
+      const passed = config.expectedStatus
+        ? config.expectedStatus.includes(response.status)
+        : response.status >= 200 && response.status < 300;
+      checks.push({
+        type: 'url',
+        target,
+        passed,
+        status: response.status,
+        error: passed ? undefined : `Unexpected status ${response.status}`,
+      });
+    } catch (error) {
+      checks.push({type: 'url', target, passed: false, error: errorMessage(error)});
+    }
+  }
+
+  if (config.job) {
+    const {jobId, parameters} = config.job;
+    logger.debug({jobId}, `Smoke check: running job ${jobId}`);
+
+    let executionId: string | undefined;
+    try {
+      const execution = await executeJob(instance, jobId, {parameters});
+      executionId = execution.id;
+      await waitForJob(instance, jobId, execution.id!, {timeout});
+      checks.push({type: 'job', target: jobId, passed: true, executionId});
+    } catch (error) {
+      const message = error instanceof JobExecutionError ? getJobErrorMessage(error.execution) : undefined;
+      checks.push({type: 'job', target: jobId, passed: false, executionId, error: message ?? errorMessage(error)});
+    }
+  }
+
+  const passed = checks.every((c) => c.passed);
+  logger.debug({passed, checks}, `Smoke check ${passed ? 'passed' : 'failed'}`);
+
+  return {passed, checks};
+}
+
+/**
+ * Deploys cartridges to a new code version and switches to it (blue/green).
+ *
+ * The cartridges are uploaded into a fresh code version (empty, or a copy of the
+ * active version with `clone`), which is then activated. If the smoke check fails,
+ * the previously active code version is re-activated. The new code version is kept
+ * either way so a failed deployment can be inspected.
+ *
+ * `instance.config.codeVersion` is not changed.
+ *
+ * @param instance - B2C instance
+ * @param directory - Directory to search for cartridges
+ * @param options - Deployment options
+ * @returns Both code version IDs, the smoke check outcome and whether a rollback happened
+ * @throws Error if the upload or activation fails (the previous version stays active),
+ *   or if the rollback fails
+ *
+ * @example
+ * ```typescript
+ * const result = await blueGreenDeploy(instance, './cartridges', {
+ *   smokeCheck: {urls: ['/s/RefArch/home']},
+ * });
+ * if (result.rolledBack) {
+ *   console.log(`${result.codeVersion} failed, ${result.previousCodeVersion} is active again`);
+ * }
+ * ```
+ */
+export async function blueGreenDeploy(
+  instance: B2CInstance,
+  directory: string,
+  options: BlueGreenDeployOptions = {},
+): Promise<BlueGreenDeployResult> {
+  const logger = getLogger();
+  const startedAt = new Date().toISOString();
+  const codeVersion = options.codeVersion ?? generateCodeVersionId();
+  const previousCodeVersion = (await getActiveCodeVersion(instance))?.id;
+
+  if (codeVersion === previousCodeVersion) {
+    throw new Error(`Code version ${codeVersion} is active; blue/green deployments need a new code version`);
+  }
+
+  logger.debug({codeVersion, previousCodeVersion}, `Blue/green deployment to ${codeVersion}`);
+
+  if (options.clone && previousCodeVersion) {
+    await cloneCodeVersion(instance, codeVersion, {from: previousCodeVersion});
+  } else {
+    await createCodeVersion(instance, codeVersion);
+  }
+
+  const {cartridges} = await findAndDeployCartridges(instance, directory, {
+    codeVersion,
+    include: options.include,
+    exclude: options.exclude,
+  });
+
+  await activateCodeVersion(instance, codeVersion);
+
+  let smokeCheck: SmokeCheckResult | undefined;
+  let rolledBack = false;
+  if (options.smokeCheck) {
+    smokeCheck = await runSmokeCheck(instance, options.smokeCheck);
+
+    if (!smokeCheck.passed && previousCodeVersion) {
+      logger.debug({codeVersion, previousCodeVersion}, `Smoke check failed, re-activating ${previousCodeVersion}`);
+      try {
+        await activateCodeVersion(instance, previousCodeVersion);
+      } catch (error) {
+        throw new Error(`Smoke check of ${codeVersion} failed and re-activating ${previousCodeVersion} failed`, {
+          cause: error,
+        });
+      }
+      rolledBack = true;
+    }
+  }
+
+  return {
+    cartridges,
+    codeVersion,
+    previousCodeVersion,
+    activeCodeVersion: rolledBack ? previousCodeVersion! : codeVersion,
+    rolledBack,
+    smokeCheck,
+    startedAt,
+    finishedAt: new Date().toISOString(),
+  };
+}
@@ -9,6 +9,14 @@ import JSZip from 'jszip';
 import type {B2CInstance} from '../../instance/index.js';
 import {getLogger} from '../../logging/logger.js';
 import {findCartridges, type CartridgeMapping, type FindCartridgesOptions} from './cartridges.js';
+import {
+  computeCartridgeHashes,
+  diffDeployManifest,
+  loadDeployManifest,
+  saveDeployManifest,
+  verifyDeployManifest,
+  type ManifestEntry,
+} from './manifest.js';
 import {reloadCodeVersion} from './versions.js';
 
 const UNZIP_BODY = new URLSearchParams({method: 'UNZIP'}).toString();
@@ -17,10 +25,32 @@ const UNZIP_BODY = new URLSearchParams({method: 'UNZIP'}).toString();
  * Options for deploying cartridges.
  */
 export interface DeployOptions extends FindCartridgesOptions {
+  /** Code version to deploy to (default: `instance.config.codeVersion`) */
+  codeVersion?: string;
   /** Reload (re-activate) the code version after deploy */
   reload?: boolean;
   /** Delete existing cartridges before uploading */
   delete?: boolean;
+  /** Only upload files that changed since the last deploy, based on a local hash manifest */
+  incremental?: boolean;
+  /** Verify the local manifest against the files on the instance (incremental only) */
+  verifyRemote?: boolean;
+  /** Directory holding deploy manifests (defaults to `~/.b2c/deploy-manifests`) */
+  manifestDir?: string;
+}
+
+/**
+ * File change counts of an incremental deployment.
+ */
+export interface DeployChanges {
+  /** Files uploaded that did not exist before */
+  added: number;
+  /** Files uploaded because their content changed */
+  changed: number;
+  /** Files deleted from the instance */
+  removed: number;
+  /** Files skipped because they are unchanged */
+  unchanged: number;
 }
 
 /**
@@ -33,6 +63,8 @@ export interface DeployResult {
   codeVersion: string;
   /** Whether the code version was reloaded */
   reloaded: boolean;
+  /** File change counts (incremental deploys only) */
+  changes?: DeployChanges;
 }
 
 /**
@@ -54,6 +86,48 @@ async function addDirectoryToZip(zip: JSZip, dirPath: string, zipPath: string):
   }
 }
 
+/**
+ * Uploads a zip archive to the Cartridges folder, unzips it on the server
+ * and removes the temporary archive.
+ */
+async function uploadArchive(instance: B2CInstance, zip: JSZip): Promise<void> {
+  const logger = getLogger();
+  const webdav = instance.webdav;
+  const uploadPath = `Cartridges/_sync-${Date.now()}.zip`;
+
+  const buffer = await zip.generateAsync({
+    type: 'nodebuffer',
+    compression: 'DEFLATE',
+    compressionOptions: {level: 9},
+  });
+  logger.debug({size: buffer.length}, `Archive created: ${buffer.length} bytes`);
+
+  // Upload archive
+  logger.debug({uploadPath}, 'Uploading archive...');
+  await webdav.put(uploadPath, buffer, 'application/zip');
+  logger.debug('Archive uploaded');
+
+  // Unzip on server
+  logger.debug('Unzipping archive on server...');
+  const response = await webdav.request(uploadPath, {
+    method: 'POST',
+    body: UNZIP_BODY,
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+  });
+
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(`Failed to unzip archive: ${response.status} ${response.statusText} - ${text}`);
+  }
+  logger.debug('Archive unzipped');
+
+  // Delete temporary archive
+  await webdav.delete(uploadPath);
+  logger.debug('Temporary archive deleted');
+}
+
 /**
  * Deletes cartridges from an instance via WebDAV.
  *
@@ -61,10 +135,11 @@ async function addDirectoryToZip(zip: JSZip, dirPath: string, zipPath: string):
  * from the specified code version. Errors are silently ignored for
  * cartridges that don't exist.
  *
- * Requires `instance.config.codeVersion` to be set.
+ * Requires `codeVersion` or `instance.config.codeVersion` to be set.
  *
  * @param instance - B2C instance to delete from
  * @param cartridges - Cartridge mappings to delete
+ * @param codeVersion - Code version to delete from (default: `instance.config.codeVersion`)
  * @throws Error if code version not set
  *
  * @example
@@ -73,9 +148,12 @@ async function addDirectoryToZip(zip: JSZip, dirPath: string, zipPath: string):
  * await deleteCartridges(instance, cartridges);
  * ```
  */
-export async function deleteCartridges(instance: B2CInstance, cartridges: CartridgeMapping[]): Promise<void> {
+export async function deleteCartridges(
+  instance: B2CInstance,
+  cartridges: CartridgeMapping[],
+  codeVersion = instance.config.codeVersion,
+): Promise<void> {
   const logger = getLogger();
-  const codeVersion = instance.config.codeVersion;
 
   if (!codeVersion) {
     throw new Error('Code version required for cartridge deletion');
@@ -109,10 +187,11 @@ export async function deleteCartridges(instance: B2CInstance, cartridges: Cartri
  * 3. Unzips on the server
  * 4. Cleans up the temporary zip file
  *
- * Requires `instance.config.codeVersion` to be set.
+ * Requires `codeVersion` or `instance.config.codeVersion` to be set.
  *
  * @param instance - B2C instance to upload to
  * @param cartridges - Cartridge mappings to upload
+ * @param codeVersion - Code version to upload to (default: `instance.config.codeVersion`)
  * @throws Error if code version not set or upload fails
  *
  * @example
@@ -121,9 +200,12 @@ export async function deleteCartridges(instance: B2CInstance, cartridges: Cartri
  * await uploadCartridges(instance, cartridges);
  * ```
  */
-export async function uploadCartridges(instance: B2CInstance, cartridges: CartridgeMapping[]): Promise<void> {
+export async function uploadCartridges(
+  instance: B2CInstance,
+  cartridges: CartridgeMapping[],
+  codeVersion = instance.config.codeVersion,
+): Promise<void> {
   const logger = getLogger();
-  const codeVersion = instance.config.codeVersion;
 
   if (!codeVersion) {
     throw new Error('Code version required for cartridge upload');
@@ -133,10 +215,6 @@ export async function uploadCartridges(instance: B2CInstance, cartridges: Cartri
     throw new Error('No cartridges to upload');
   }
 
-  const webdav = instance.webdav;
-  const now = Date.now();
-  const uploadPath = `Cartridges/_sync-${now}.zip`;
-
   // Create zip archive
   logger.debug('Creating cartridge archive...');
   const zip = new JSZip();
@@ -145,42 +223,141 @@ export async function uploadCartridges(instance: B2CInstance, cartridges: Cartri
     await addDirectoryToZip(zip, c.src, path.join(codeVersion, c.dest));
   }
 
-  const buffer = await zip.generateAsync({
-    type: 'nodebuffer',
-    compression: 'DEFLATE',
-    compressionOptions: {level: 9},
-  });
-  logger.debug({size: buffer.length}, `Archive created: ${buffer.length} bytes`);
+  await uploadArchive(instance, zip);
 
-  // Upload archive
-  logger.debug({uploadPath}, 'Uploading archive...');
-  await webdav.put(uploadPath, buffer, 'application/zip');
-  logger.debug('Archive uploaded');
+  logger.debug(
+    {hostname: instance.config.hostname, codeVersion, cartridgeCount: cartridges.length},
+    `Uploaded ${cartridges.length} cartridges to ${instance.config.hostname}`,
+  );
+}
 
-  // Unzip on server
-  logger.debug('Unzipping archive on server...');
-  const response = await webdav.request(uploadPath, {
-    method: 'POST',
-    body: UNZIP_BODY,
-    headers: {
-      'Content-Type': 'application/x-www-form-urlencoded',
-    },
-  });
+/**
+ * Options for incremental cartridge uploads.
+ */
+export interface IncrementalUploadOptions {
+  /** Code version to upload to (default: `instance.config.codeVersion`) */
+  codeVersion?: string;
+  /** Verify the local manifest against the files on the instance */
+  verifyRemote?: boolean;
+  /** Directory holding deploy manifests */
+  manifestDir?: string;
+  /** Ignore the existing manifest and upload all files */
+  force?: boolean;
+}
 
-  if (!response.ok) {
-    const text = await response.text();
-    throw new Error(`Failed to unzip archive: ${response.status} ${response.statusText} - ${text}`);
+/**
+ * Uploads only the changed files of cartridges to an instance via WebDAV.
+ *
+ * This is a low-level upload function that:
+ * 1. Hashes all local cartridge files
+ * 2. Compares them to the deploy manifest of the instance/code version
+ *    (optionally verified against a PROPFIND of `Cartridges/{codeVersion}`)
+ * 3. Uploads a zip archive containing only added and changed files
+ * 4. Deletes files from the instance that were removed locally
+ * 5. Saves the updated manifest
+ *
+ * Without an existing manifest all files are uploaded.
+ *
+ * Requires `options.codeVersion` or `instance.config.codeVersion` to be set.
+ *
+ * @param instance - B2C instance to upload to
+ * @param cartridges - Cartridge mappings to upload
+ * @param options - Code version and manifest options
+ * @returns Counts of added, changed, removed and unchanged files
+ * @throws Error if code version not set or upload fails
+ *
+ * @example
+ * ```typescript
+ * const cartridges = findCartridges('./cartridges');
+ * const changes = await uploadCartridgesIncremental(instance, cartridges, {verifyRemote: true});
+ * console.log(`${changes.added} added, ${changes.changed} changed, ${changes.removed} removed`);
+ * ```
+ */
+export async function uploadCartridgesIncremental(
+  instance: B2CInstance,
+  cartridges: CartridgeMapping[],
+  options: IncrementalUploadOptions = {},
+): Promise<DeployChanges> {
+  const logger = getLogger();
+  const codeVersion = options.codeVersion ?? instance.config.codeVersion;
+  const hostname = instance.config.hostname;
+
+  if (!codeVersion) {
+    throw new Error('Code version required for cartridge upload');
   }
-  logger.debug('Archive unzipped');
 
-  // Delete temporary archive
-  await webdav.delete(uploadPath);
-  logger.debug('Temporary archive deleted');
+  if (cartridges.length === 0) {
+    throw new Error('No cartridges to upload');
+  }
+
+  logger.debug('Computing file hashes...');
+  const local = await computeCartridgeHashes(cartridges);
+
+  const manifest = options.force ? undefined : loadDeployManifest(hostname, codeVersion, options.manifestDir);
+  let previous: Record<string, ManifestEntry> = manifest?.files ?? {};
+
+  if (!options.force && options.verifyRemote) {
+    logger.debug({codeVersion}, 'Verifying manifest against instance...');
+    previous = await verifyDeployManifest(instance, cartridges, previous, codeVersion);
+  }
 
+  const diff = diffDeployManifest(local, previous, cartridges);
   logger.debug(
-    {hostname: instance.config.hostname, codeVersion, cartridgeCount: cartridges.length},
-    `Uploaded ${cartridges.length} cartridges to ${instance.config.hostname}`,
+    {added: diff.added.length, changed: diff.changed.length, removed: diff.removed.length, unchanged: diff.unchanged},
+    `${diff.added.length} added, ${diff.changed.length} changed, ${diff.removed.length} removed`,
   );
+
+  const toUpload = [...diff.added, ...diff.changed];
+  if (toUpload.length > 0) {
+    logger.debug('Creating archive of changed files...');
+    const zip = new JSZip();
+    const sources = new Map(cartridges.map((c) => [c.dest, c.src]));
+
+    for (const file of toUpload) {
+      const [dest, ...rest] = file.split('/');
+      const src = sources.get(dest);
+      if (!src) {
+        throw new Error(`No cartridge found for ${file}`);
+      }
+      const content = await fs.promises.readFile(path.join(src, ...rest));
+      zip.file(`${codeVersion}/${file}`, content);
+    }
+
+    await uploadArchive(instance, zip);
+  } else {
+    logger.debug('No changed files to upload');
+  }
+
+  const webdav = instance.webdav;
+  for (const file of diff.removed) {
+    const deletePath = `Cartridges/${codeVersion}/${file}`;
+    try {
+      await webdav.delete(deletePath);
+      logger.debug({file: deletePath}, `Deleted ${deletePath}`);
+    } catch {
+      // Ignore errors - file may already be gone
+      logger.debug({file: deletePath}, `Could not delete ${deletePath} (may not exist)`);
+    }
+  }
+
+  // Keep entries of cartridges not part of this deploy
+  const prefixes = cartridges.map((c) => `${c.dest}/`);
+  const files: Record<string, ManifestEntry> = {};
+  for (const [file, entry] of Object.entries(manifest?.files ?? {})) {
+    if (!prefixes.some((p) => file.startsWith(p))) {
+      files[file] = entry;
+    }
+  }
+  Object.assign(files, local);
+
+  saveDeployManifest(hostname, codeVersion, files, options.manifestDir);
+
+  return {
+    added: diff.added.length,
+    changed: diff.changed.length,
+    removed: diff.removed.length,
+    unchanged: diff.unchanged,
+  };
 }
 
 /**
@@ -190,14 +367,15 @@ export async function uploadCartridges(instance: B2CInstance, cartridges: Cartri
  * 1. Finds cartridges in the specified directory (by .project files)
  * 2. Applies include/exclude filters
  * 3. Optionally deletes existing cartridges first
- * 4. Creates a zip archive and uploads via WebDAV
+ * 4. Creates a zip archive and uploads via WebDAV (only changed files
+ *    when `incremental` is set, see {@link uploadCartridgesIncremental})
  * 5. Optionally reloads the code version
  *
- * Requires `instance.config.codeVersion` to be set.
+ * Requires `options.codeVersion` or `instance.config.codeVersion` to be set.
  *
- * @param instance - B2C instance to deploy to (must have codeVersion set)
+ * @param instance - B2C instance to deploy to
  * @param directory - Directory to search for cartridges
- * @param options - Deploy options (filters, reload, delete)
+ * @param options - Deploy options (code version, filters, reload, delete)
  * @returns Deploy result with cartridges and status
  * @throws Error if code version not set, no cartridges found, or deployment fails
  *
@@ -217,6 +395,12 @@ export async function uploadCartridges(instance: B2CInstance, cartridges: Cartri
  *   delete: true,
  *   reload: true,
  * });
+ *
+ * // Upload only files changed since the last deploy
+ * const result = await findAndDeployCartridges(instance, './cartridges', {
+ *   incremental: true,
+ * });
+ * console.log(result.changes);
  * ```
  */
 export async function findAndDeployCartridges(
@@ -225,7 +409,7 @@ export async function findAndDeployCartridges(
   options: DeployOptions = {},
 ): Promise<DeployResult> {
   const logger = getLogger();
-  const codeVersion = instance.config.codeVersion;
+  const codeVersion = options.codeVersion ?? instance.config.codeVersion;
 
   if (!codeVersion) {
     throw new Error('Code version required for deployment');
@@ -248,11 +432,22 @@ export async function findAndDeployCartridges(
 
   // Optionally delete existing cartridges first
   if (options.delete) {
-    await deleteCartridges(instance, cartridges);
+    await deleteCartridges(instance, cartridges, codeVersion);
   }
 
   // Upload cartridges
-  await uploadCartridges(instance, cartridges);
+  let changes: DeployChanges | undefined;
+  if (options.incremental) {
+    // Deleted cartridges are gone remotely, so everything has to be uploaded again
+    changes = await uploadCartridgesIncremental(instance, cartridges, {
+      codeVersion,
+      verifyRemote: options.verifyRemote,
+      manifestDir: options.manifestDir,
+      force: options.delete,
+    });
+  } else {
+    await uploadCartridges(instance, cartridges, codeVersion);
+  }
 
   // Optionally reload
   let reloaded = false;
@@ -270,5 +465,6 @@ export async function findAndDeployCartridges(
     cartridges,
     codeVersion,
     reloaded,
+    changes,
   };
 }
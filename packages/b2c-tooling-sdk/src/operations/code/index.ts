@@ -21,13 +21,19 @@
  * - {@link reloadCodeVersion} - Reload (re-activate) a code version
  * - {@link deleteCodeVersion} - Delete a code version
  * - {@link createCodeVersion} - Create a new code version
+ * - {@link cloneCodeVersion} - Create a code version by copying another on the server
+ * - {@link pruneCodeVersions} - Delete old inactive code versions
+ * - {@link diffCodeVersions} - Compare the files of two code versions
  *
  * ## Deployment
  *
  * - {@link findAndDeployCartridges} - Find and deploy cartridges to an instance
  * - {@link uploadCartridges} - Low-level cartridge upload
+ * - {@link uploadCartridgesIncremental} - Low-level upload of changed files only
  * - {@link deleteCartridges} - Low-level cartridge deletion
  * - {@link watchCartridges} - Watch and sync file changes
+ * - {@link blueGreenDeploy} - Deploy to a new code version, activate it and roll back if a smoke check fails
+ * - {@link runSmokeCheck} - Check storefront URLs and/or run a job against an instance
  *
  * ## Usage
  *
@@ -73,13 +79,47 @@ export {
   reloadCodeVersion,
   deleteCodeVersion,
   createCodeVersion,
+  cloneCodeVersion,
+  pruneCodeVersions,
+  diffCodeVersions,
+} from './versions.js';
+export type {
+  CodeVersion,
+  CodeVersionResult,
+  CloneCodeVersionOptions,
+  CloneCodeVersionResult,
+  PruneCodeVersionsOptions,
+  PruneCodeVersionsResult,
+  CodeVersionDiff,
 } from './versions.js';
-export type {CodeVersion, CodeVersionResult} from './versions.js';
 
 // Deployment
-export {findAndDeployCartridges, uploadCartridges, deleteCartridges} from './deploy.js';
-export type {DeployOptions, DeployResult} from './deploy.js';
+export {findAndDeployCartridges, uploadCartridges, uploadCartridgesIncremental, deleteCartridges} from './deploy.js';
+export type {DeployOptions, DeployResult, DeployChanges, IncrementalUploadOptions} from './deploy.js';
+
+// Blue/green deployment
+export {blueGreenDeploy, runSmokeCheck, generateCodeVersionId} from './blue-green.js';
+export type {
+  BlueGreenDeployOptions,
+  BlueGreenDeployResult,
+  SmokeCheckConfig,
+  SmokeCheckEntry,
+  SmokeCheckResult,
+} from './blue-green.js';
+
+// Deploy manifests
+export {
+  DEFAULT_MANIFEST_DIR,
+  getDeployManifestPath,
+  loadDeployManifest,
+  saveDeployManifest,
+  computeCartridgeHashes,
+  diffDeployManifest,
+  verifyDeployManifest,
+} from './manifest.js';
+export type {DeployManifest, ManifestEntry, ManifestDiff} from './manifest.js';
 
 // Watch
 export {watchCartridges} from './watch.js';
-export type {WatchOptions, WatchResult} from './watch.js';
+export type {WatchOptions, WatchResult, WatchRetryInfo} from './watch.js';
+export type {SiteArchiveWatchOptions, SiteArchiveSyncResult} from './site-archive-sync.js';
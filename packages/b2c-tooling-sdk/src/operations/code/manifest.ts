@@ -0,0 +1,281 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import {createHash} from 'node:crypto';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import type {B2CInstance} from '../../instance/index.js';
+import {HTTPError} from '../../errors/http-error.js';
+import {getLogger} from '../../logging/logger.js';
+import type {CartridgeMapping} from './cartridges.js';
+
+/** Current manifest file format version */
+const MANIFEST_VERSION = 1;
+
+/**
+ * Default directory for deploy manifests (`~/.b2c/deploy-manifests`).
+ */
+export const DEFAULT_MANIFEST_DIR = path.join(os.homedir(), '.b2c', 'deploy-manifests');
+
+/**
+ * A single file entry in a deploy manifest.
+ */
+export interface ManifestEntry {
+  /** SHA-256 hash of the file content (hex) */
+  hash: string;
+  /** File size in bytes */
+  size: number;
+}
+
+/**
+ * Hash manifest of the files deployed to an instance/code version.
+ *
+ * File keys are cartridge-relative POSIX paths (e.g. `app_storefront/cartridge/scripts/foo.js`).
+ */
+export interface DeployManifest {
+  version: number;
+  hostname: string;
+  codeVersion: string;
+  /** ISO timestamp of the last update */
+  updatedAt: string;
+  files: Record<string, ManifestEntry>;
+}
+
+/**
+ * Differences between the local cartridges and a deploy manifest.
+ */
+export interface ManifestDiff {
+  /** Files that are new locally */
+  added: string[];
+  /** Files whose content changed */
+  changed: string[];
+  /** Files that were removed locally */
+  removed: string[];
+  /** Number of files that are unchanged */
+  unchanged: number;
+}
+
+/**
+ * Returns the manifest file path for an instance and code version.
+ *
+ * @param hostname - Instance hostname
+ * @param codeVersion - Code version
+ * @param manifestDir - Directory holding manifests (defaults to {@link DEFAULT_MANIFEST_DIR})
+ * @returns Absolute path to the manifest file
+ */
+export function getDeployManifestPath(
+  hostname: string,
+  codeVersion: string,
+  manifestDir: string = DEFAULT_MANIFEST_DIR,
+): string {
+  const safeName = `${hostname}__${codeVersion}`.replace(/[^\w.-]/g, '_');
+  return path.join(manifestDir, `${safeName}.json`);
+}
+
+/**
+ * Loads the deploy manifest for an instance and code version.
+ *
+ * @param hostname - Instance hostname
+ * @param codeVersion - Code version
+ * @param manifestDir - Directory holding manifests
+ * @returns The manifest, or undefined if none exists or it cannot be read
+ */
+export function loadDeployManifest(
+  hostname: string,
+  codeVersion: string,
+  manifestDir?: string,
+): DeployManifest | undefined {
+  const logger = getLogger();
+  const manifestPath = getDeployManifestPath(hostname, codeVersion, manifestDir);
+
+  if (!fs.existsSync(manifestPath)) {
+    return undefined;
+  }
+
+  try {
+    const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8')) as DeployManifest;
+    if (manifest.version !== MANIFEST_VERSION || !manifest.files) {
+      logger.debug({manifestPath}, 'Ignoring deploy manifest with unsupported format');
+      return undefined;
+    }
+    return manifest;
+  } catch (error) {
+    logger.debug({manifestPath, error}, 'Could not read deploy manifest');
+    return undefined;
+  }
+}
+
+/**
+ * Saves the deploy manifest for an instance and code version.
+ *
+ * @param hostname - Instance hostname
+ * @param codeVersion - Code version
+ * @param files - Deployed file entries
+ * @param manifestDir - Directory holding manifests
+ * @returns The saved manifest
+ */
+export function saveDeployManifest(
+  hostname: string,
+  codeVersion: string,
+  files: Record<string, ManifestEntry>,
+  manifestDir?: string,
+): DeployManifest {
+  const manifestPath = getDeployManifestPath(hostname, codeVersion, manifestDir);
+  const manifest: DeployManifest = {
+    version: MANIFEST_VERSION,
+    hostname,
+    codeVersion,
+    updatedAt: new Date().toISOString(),
+    files,
+  };
+
+  fs.mkdirSync(path.dirname(manifestPath), {recursive: true});
+  fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2));
+  getLogger().debug({manifestPath}, 'Deploy manifest saved');
+
+  return manifest;
+}
+
+/**
+ * Recursively collects file paths in a directory.
+ */
+async function listFiles(dirPath: string): Promise<string[]> {
+  const entries = await fs.promises.readdir(dirPath, {withFileTypes: true});
+  const files: string[] = [];
+
+  for (const entry of entries) {
+    const fullPath = path.join(dirPath, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...(await listFiles(fullPath)));
+    } else if (entry.isFile()) {
+      files.push(fullPath);
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Computes content hashes for all files in the given cartridges.
+ *
+ * @param cartridges - Cartridges to hash
+ * @returns Manifest entries keyed by cartridge-relative POSIX path
+ */
+export async function computeCartridgeHashes(cartridges: CartridgeMapping[]): Promise<Record<string, ManifestEntry>> {
+  const files: Record<string, ManifestEntry> = {};
+
+  for (const c of cartridges) {
+    for (const filePath of await listFiles(c.src)) {
+      const content = await fs.promises.readFile(filePath);
+      const relativePath = path.relative(c.src, filePath).split(path.sep).join('/');
+      files[`${c.dest}/${relativePath}`] = {
+        hash: createHash('sha256').update(content).digest('hex'),
+        size: content.length,
+      };
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Compares local file hashes against previously deployed files.
+ *
+ * Only previous entries belonging to the given cartridges are considered for removal,
+ * so deploying a subset of cartridges never removes files of other cartridges.
+ *
+ * @param local - Local file entries (from {@link computeCartridgeHashes})
+ * @param previous - Previously deployed file entries
+ * @param cartridges - Cartridges being deployed
+ * @returns Added, changed and removed files
+ */
+export function diffDeployManifest(
+  local: Record<string, ManifestEntry>,
+  previous: Record<string, ManifestEntry>,
+  cartridges: CartridgeMapping[],
+): ManifestDiff {
+  const diff: ManifestDiff = {added: [], changed: [], removed: [], unchanged: 0};
+  const prefixes = cartridges.map((c) => `${c.dest}/`);
+
+  for (const [file, entry] of Object.entries(local)) {
+    const prev = previous[file];
+    if (!prev) {
+      diff.added.push(file);
+    } else if (prev.hash !== entry.hash) {
+      diff.changed.push(file);
+    } else {
+      diff.unchanged++;
+    }
+  }
+
+  for (const file of Object.keys(previous)) {
+    if (!(file in local) && prefixes.some((p) => file.startsWith(p))) {
+      diff.removed.push(file);
+    }
+  }
+
+  return diff;
+}
+
+/**
+ * Lists the files currently deployed for the given cartridges via WebDAV PROPFIND.
+ *
+ * Remote files are merged with the manifest: a file keeps its manifest hash only if it
+ * exists remotely with the recorded size, otherwise it is marked as unknown so the next
+ * diff re-uploads it. Remote files missing from the manifest are included so they can be
+ * removed if they no longer exist locally.
+ *
+ * @param instance - B2C instance
+ * @param cartridges - Cartridges to verify
+ * @param manifestFiles - Files from the local manifest
+ * @param codeVersion - Code version to verify (default: `instance.config.codeVersion`)
+ * @returns Verified file entries
+ */
+export async function verifyDeployManifest(
+  instance: B2CInstance,
+  cartridges: CartridgeMapping[],
+  manifestFiles: Record<string, ManifestEntry>,
+  codeVersion = instance.config.codeVersion,
+): Promise<Record<string, ManifestEntry>> {
+  const logger = getLogger();
+
+  if (!codeVersion) {
+    throw new Error('Code version required for manifest verification');
+  }
+
+  const basePath = `Cartridges/${codeVersion}`;
+  let entries;
+  try {
+    entries = await instance.webdav.propfind(basePath, 'infinity');
+  } catch (error) {
+    if (error instanceof HTTPError && error.response.status === 404) {
+      logger.debug({codeVersion}, 'Code version does not exist remotely');
+      return {};
+    }
+    throw error;
+  }
+
+  const marker = `/${basePath}/`;
+  const prefixes = cartridges.map((c) => `${c.dest}/`);
+  const verified: Record<string, ManifestEntry> = {};
+
+  for (const entry of entries) {
+    if (entry.isCollection) continue;
+
+    const href = decodeURIComponent(entry.href);
+    const index = href.indexOf(marker);
+    if (index === -1) continue;
+
+    const file = href.slice(index + marker.length);
+    if (!prefixes.some((p) => file.startsWith(p))) continue;
+
+    const known = manifestFiles[file];
+    verified[file] = known && known.size === entry.contentLength ? known : {hash: '', size: entry.contentLength ?? -1};
+  }
+
+  logger.debug({count: Object.keys(verified).length}, 'Verified deployed files against instance');
+  return verified;
+}
@@ -0,0 +1,198 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import path from 'node:path';
+import fs from 'node:fs';
+import JSZip from 'jszip';
+import type {B2CInstance} from '../../instance/index.js';
+import {getLogger} from '../../logging/logger.js';
+import type {JobExecution, WaitForJobOptions} from '../jobs/run.js';
+import {siteArchiveImport} from '../jobs/site-archive.js';
+import {reloadCodeVersion} from './versions.js';
+
+/** Default debounce time in ms for site archive imports */
+const DEFAULT_SITE_ARCHIVE_DEBOUNCE_TIME = 1000;
+
+/** Default initial delay in ms before retrying a failed import */
+const DEFAULT_SITE_ARCHIVE_RETRY_DELAY = 5000;
+
+/** Default maximum delay in ms between import retries */
+const DEFAULT_SITE_ARCHIVE_MAX_RETRY_DELAY = 300_000;
+
+/**
+ * Options for importing site archive changes while watching.
+ */
+export interface SiteArchiveWatchOptions {
+  /** Site archive directory (containing e.g. `meta/`, `libraries/`, `sites/`) */
+  directory: string;
+  /** Debounce time in ms before importing changes (default: 1000) */
+  debounceTime?: number;
+  /** Reload the code version after each successful import, so templates and caches pick up the changes */
+  reload?: boolean;
+  /** Initial delay in ms before retrying a failed import, doubled on each failure (default: 5000) */
+  retryDelay?: number;
+  /** Maximum delay in ms between import retries (default: 300000) */
+  maxRetryDelay?: number;
+  /** Options for waiting on each import job */
+  waitOptions?: WaitForJobOptions;
+}
+
+/**
+ * Outcome of a site archive import triggered by the watcher.
+ */
+export interface SiteArchiveSyncResult {
+  /** Imported files, relative to the site archive directory */
+  files: string[];
+  /** Import job execution (if the job ran) */
+  execution?: JobExecution;
+  /** Import error (the files are included in the next import) */
+  error?: Error;
+  /** Delay in ms until a failed import is retried */
+  retryDelay?: number;
+  /** Whether the code version was reloaded after the import */
+  reloaded: boolean;
+}
+
+/**
+ * Imports changed site archive files in debounced batches.
+ * @internal
+ */
+export interface SiteArchiveSync {
+  /** Whether the file belongs to the site archive directory */
+  contains: (file: string) => boolean;
+  /** Queues a changed file for import */
+  add: (file: string) => void;
+  /** Number of files not yet imported (queued, being imported, or of failed imports) */
+  getPendingCount: () => number;
+  /** Cancels scheduled imports and retries */
+  stop: () => void;
+}
+
+/**
+ * Builds a site archive containing only the given files.
+ */
+async function createPartialArchive(directory: string, files: string[], archiveName: string): Promise<Buffer> {
+  const zip = new JSZip();
+  const root = zip.folder(archiveName)!;
+
+  for (const file of files) {
+    const relativePath = path.relative(directory, file).split(path.sep).join('/');
+    root.file(relativePath, await fs.promises.readFile(file));
+  }
+
+  return zip.generateAsync({type: 'nodebuffer', compression: 'DEFLATE', compressionOptions: {level: 9}});
+}
+
+/**
+ * Creates the site archive part of a cartridge watcher.
+ *
+ * Deleted files are not synced, as a site archive import cannot remove data.
+ * If an import fails, its files are imported again with exponential backoff (see
+ * `retryDelay`/`maxRetryDelay`). A change made in the meantime is imported after
+ * the debounce time together with the failed files, as it may fix the cause
+ * (usually invalid XML).
+ *
+ * @param instance - B2C instance
+ * @param codeVersion - Code version to reload after imports
+ * @param options - Site archive options
+ * @param onImport - Called after each import attempt
+ * @returns Controller used by the watcher
+ * @internal
+ */
+export function createSiteArchiveSync(
+  instance: B2CInstance,
+  codeVersion: string,
+  options: SiteArchiveWatchOptions,
+  onImport?: (result: SiteArchiveSyncResult) => void,
+): SiteArchiveSync {
+  const logger = getLogger();
+  const directory = path.resolve(options.directory);
+  const debounceTime = options.debounceTime ?? DEFAULT_SITE_ARCHIVE_DEBOUNCE_TIME;
+  const retryDelay = options.retryDelay ?? DEFAULT_SITE_ARCHIVE_RETRY_DELAY;
+  const maxRetryDelay = options.maxRetryDelay ?? DEFAULT_SITE_ARCHIVE_MAX_RETRY_DELAY;
+
+  const pending = new Set<string>();
+  const failed = new Set<string>();
+  let importing: string[] = [];
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let failedAttempts = 0;
+  let running = false;
+  let stopped = false;
+
+  const importPending = async (): Promise<void> => {
+    if (running || stopped) return;
+
+    const files = [...new Set([...failed, ...pending])].filter((f) => fs.existsSync(f));
+    pending.clear();
+    failed.clear();
+    if (files.length === 0) return;
+
+    running = true;
+    importing = files;
+    const relativeFiles = files.map((f) => path.relative(directory, f).split(path.sep).join('/'));
+    const result: SiteArchiveSyncResult = {files: relativeFiles, reloaded: false};
+    logger.debug({files: relativeFiles}, `Importing ${files.length} site archive file(s)`);
+
+    try {
+      const archiveName = `watch-${Date.now()}`;
+      const archive = await createPartialArchive(directory, files, archiveName);
+      const {execution} = await siteArchiveImport(instance, archive, {archiveName, waitOptions: options.waitOptions});
+      result.execution = execution;
+
+      if (options.reload) {
+        await reloadCodeVersion(instance, codeVersion);
+        result.reloaded = true;
+      }
+    } catch (error) {
+      result.error = error instanceof Error ? error : new Error(String(error));
+      for (const file of files) failed.add(file);
+    } finally {
+      running = false;
+      importing = [];
+    }
+
+    if (result.error) {
+      failedAttempts++;
+      result.retryDelay = Math.min(retryDelay * 2 ** (failedAttempts - 1), maxRetryDelay);
+      logger.debug(
+        {error: result.error, attempt: failedAttempts, delay: result.retryDelay},
+        'Site archive import failed, retrying',
+      );
+      // Changes that arrived during the import are imported after the debounce time instead
+      if (pending.size === 0) schedule(result.retryDelay);
+    } else {
+      failedAttempts = 0;
+    }
+
+    // Changes arrived during the import
+    if (pending.size > 0) schedule(debounceTime);
+
+    onImport?.(result);
+  };
+
+  const schedule = (delay: number): void => {
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      timer = undefined;
+      importPending().catch((error: unknown) => {
+        // Only a throwing onImport callback gets here; the import itself is already settled
+        logger.error({error}, `Site archive import error: ${error instanceof Error ? error.message : String(error)}`);
+      });
+    }, delay);
+  };
+
+  return {
+    contains: (file) => file.startsWith(directory + path.sep),
+    add: (file) => {
+      pending.add(file);
+      schedule(debounceTime);
+    },
+    getPendingCount: () => new Set([...importing, ...failed, ...pending]).size,
+    stop: () => {
+      stopped = true;
+      clearTimeout(timer);
+    },
+  };
+}
@@ -5,6 +5,7 @@
  */
 import type {B2CInstance} from '../../instance/index.js';
 import {type OcapiComponents} from '../../clients/index.js';
+import {HTTPError} from '../../errors/http-error.js';
 import {getLogger} from '../../logging/logger.js';
 
 /** Code version type from OCAPI */
@@ -189,3 +190,253 @@ export async function createCodeVersion(instance: B2CInstance, codeVersionId: st
 
   logger.debug({codeVersionId}, `Code version ${codeVersionId} created`);
 }
+
+/**
+ * Options for cloning a code version.
+ */
+export interface CloneCodeVersionOptions {
+  /** Code version to clone (defaults to the active code version) */
+  from?: string;
+}
+
+/**
+ * Result of cloning a code version.
+ */
+export interface CloneCodeVersionResult {
+  /** ID of the created code version */
+  id: string;
+  /** ID of the cloned code version */
+  from: string;
+}
+
+/**
+ * Creates a code version by copying an existing one on the server.
+ *
+ * The copy is done with a WebDAV COPY of the code version directory, so no
+ * cartridges need to be uploaded. Fails if the target code version already exists.
+ *
+ * @param instance - B2C instance
+ * @param codeVersionId - Code version ID to create
+ * @param options - Clone options
+ * @returns The created and source code version IDs
+ * @throws Error if there is no active code version to clone or the copy fails
+ *
+ * @example
+ * ```typescript
+ * // Clone the active version as a starting point for a release
+ * const {from} = await cloneCodeVersion(instance, 'release-42');
+ * console.log(`Created release-42 from ${from}`);
+ * ```
+ */
+export async function cloneCodeVersion(
+  instance: B2CInstance,
+  codeVersionId: string,
+  options: CloneCodeVersionOptions = {},
+): Promise<CloneCodeVersionResult> {
+  const logger = getLogger();
+  const from = options.from ?? (await getActiveCodeVersion(instance))?.id;
+
+  if (!from) {
+    throw new Error('No code version to clone specified and no active version found');
+  }
+
+  logger.debug({from, codeVersionId}, `Cloning code version ${from} to ${codeVersionId}`);
+
+  try {
+    await instance.webdav.copy(`Cartridges/${from}`, `Cartridges/${codeVersionId}`);
+  } catch (error) {
+    if (error instanceof HTTPError && error.response.status === 412) {
+      throw new Error(`Code version ${codeVersionId} already exists`, {cause: error});
+    }
+    throw new Error(`Failed to clone code version ${from}`, {cause: error});
+  }
+
+  logger.debug({codeVersionId}, `Code version ${codeVersionId} created`);
+  return {id: codeVersionId, from};
+}
+
+/**
+ * Options for pruning code versions.
+ */
+export interface PruneCodeVersionsOptions {
+  /** Number of most recently modified inactive versions to keep (required unless codeVersionIds is set) */
+  keep?: number;
+  /**
+   * Code versions to delete instead of the ones selected by `keep`, e.g. the
+   * `deleted` list of a confirmed dry run. Versions that are active or no longer
+   * exist are skipped.
+   */
+  codeVersionIds?: string[];
+  /** Only report which versions would be deleted (default: false) */
+  dryRun?: boolean;
+}
+
+/**
+ * Result of pruning code versions.
+ */
+export interface PruneCodeVersionsResult {
+  /** Deleted (or with dryRun, to be deleted) code version IDs, oldest first */
+  deleted: string[];
+  /** Kept inactive code version IDs, newest first */
+  kept: string[];
+  /** Active code version ID (never deleted) */
+  active?: string;
+}
+
+/**
+ * Deletes old inactive code versions.
+ *
+ * Inactive versions are ordered by last modification time and all but the
+ * `keep` newest ones are deleted. Alternatively, `codeVersionIds` names the
+ * versions to delete. The active code version is never deleted.
+ *
+ * @param instance - B2C instance
+ * @param options - Prune options
+ * @returns Deleted and kept code versions
+ * @throws Error if keep is missing or negative, or a deletion fails
+ *
+ * @example
+ * ```typescript
+ * const {deleted} = await pruneCodeVersions(instance, {keep: 3});
+ * console.log(`Deleted ${deleted.join(', ')}`);
+ *
+ * // Delete exactly the versions of a confirmed plan
+ * const plan = await pruneCodeVersions(instance, {keep: 3, dryRun: true});
+ * await pruneCodeVersions(instance, {codeVersionIds: plan.deleted});
+ * ```
+ */
+export async function pruneCodeVersions(
+  instance: B2CInstance,
+  options: PruneCodeVersionsOptions,
+): Promise<PruneCodeVersionsResult> {
+  const logger = getLogger();
+
+  const {keep, codeVersionIds} = options;
+
+  if (codeVersionIds === undefined && keep === undefined) {
+    throw new Error('keep or codeVersionIds is required');
+  }
+  if (keep !== undefined && keep < 0) {
+    throw new Error('keep must not be negative');
+  }
+
+  const versions = await listCodeVersions(instance);
+  const active = versions.find((v) => v.active)?.id;
+  const inactive = versions
+    .filter((v) => !v.active && v.id)
+    .sort((a, b) => Date.parse(b.last_modification_time ?? '') - Date.parse(a.last_modification_time ?? ''));
+
+  // Explicit IDs are matched against the current inactive versions, so a version
+  // activated since they were chosen is kept
+  const selected = codeVersionIds ? new Set(codeVersionIds) : new Set(inactive.slice(keep).map((v) => v.id!));
+  const kept = inactive.filter((v) => !selected.has(v.id!)).map((v) => v.id!);
+  const deleted = inactive
+    .filter((v) => selected.has(v.id!))
+    .map((v) => v.id!)
+    .reverse();
+
+  logger.debug({active, kept, deleted, dryRun: options.dryRun}, `Pruning ${deleted.length} code version(s)`);
+
+  if (!options.dryRun) {
+    for (const codeVersionId of deleted) {
+      await deleteCodeVersion(instance, codeVersionId);
+    }
+  }
+
+  return {deleted, kept, active};
+}
+
+/**
+ * Differences between the files of two code versions.
+ */
+export interface CodeVersionDiff {
+  /** Files only in the second version */
+  added: string[];
+  /** Files in both versions with different size */
+  changed: string[];
+  /** Files only in the first version */
+  removed: string[];
+  /** Number of files with the same size in both versions */
+  unchanged: number;
+}
+
+/**
+ * Lists the files of a code version with their sizes.
+ *
+ * @returns File sizes keyed by cartridge-relative path (e.g. `app_custom/cartridge/scripts/a.js`)
+ */
+async function listCodeVersionFiles(instance: B2CInstance, codeVersionId: string): Promise<Map<string, number>> {
+  const basePath = `Cartridges/${codeVersionId}`;
+  let entries;
+  try {
+    entries = await instance.webdav.propfind(basePath, 'infinity');
+  } catch (error) {
+    if (error instanceof HTTPError && error.response.status === 404) {
+      throw new Error(`Code version ${codeVersionId} not found`, {cause: error});
+    }
+    throw error;
+  }
+
+  const marker = `/${basePath}/`;
+  const files = new Map<string, number>();
+  for (const entry of entries) {
+    if (entry.isCollection) continue;
+
+    const href = decodeURIComponent(entry.href);
+    const index = href.indexOf(marker);
+    if (index !== -1) {
+      files.set(href.slice(index + marker.length), entry.contentLength ?? 0);
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Compares the cartridge files of two code versions.
+ *
+ * Files are listed with WebDAV PROPFIND and compared by path and size, so
+ * changes that keep the file size are not detected.
+ *
+ * @param instance - B2C instance
+ * @param from - First (base) code version
+ * @param to - Second code version
+ * @returns Files added, changed and removed in `to` relative to `from`
+ * @throws Error if a code version does not exist
+ *
+ * @example
+ * ```typescript
+ * const diff = await diffCodeVersions(instance, 'release-41', 'release-42');
+ * console.log(`${diff.added.length} added, ${diff.changed.length} changed, ${diff.removed.length} removed`);
+ * ```
+ */
+export async function diffCodeVersions(instance: B2CInstance, from: string, to: string): Promise<CodeVersionDiff> {
+  const [fromFiles, toFiles] = await Promise.all([
+    listCodeVersionFiles(instance, from),
+    listCodeVersionFiles(instance, to),
+  ]);
+
+  const diff: CodeVersionDiff = {added: [], changed: [], removed: [], unchanged: 0};
+
+  for (const [file, size] of toFiles) {
+    const fromSize = fromFiles.get(file);
+    if (fromSize === undefined) {
+      diff.added.push(file);
+    } else if (fromSize === size) {
+      diff.unchanged++;
+    } else {
+      diff.changed.push(file);
+    }
+  }
+
+  for (const file of fromFiles.keys()) {
+    if (!toFiles.has(file)) {
+      diff.removed.push(file);
+    }
+  }
+
+  diff.added.sort();
+  diff.changed.sort();
+  diff.removed.sort();
+  return diff;
+}
@@ -8,8 +8,10 @@ import fs from 'node:fs';
 import {watch, type FSWatcher} from 'chokidar';
 import JSZip from 'jszip';
 import type {B2CInstance} from '../../instance/index.js';
+import {HTTPError} from '../../errors/http-error.js';
 import {getLogger} from '../../logging/logger.js';
 import {findCartridges, type CartridgeMapping, type FindCartridgesOptions} from './cartridges.js';
+import {createSiteArchiveSync, type SiteArchiveSyncResult, type SiteArchiveWatchOptions} from './site-archive-sync.js';
 import {getActiveCodeVersion} from './versions.js';
 
 const UNZIP_BODY = new URLSearchParams({method: 'UNZIP'}).toString();
@@ -17,6 +19,12 @@ const UNZIP_BODY = new URLSearchParams({method: 'UNZIP'}).toString();
 /** Default debounce time in ms for batching file uploads */
 const DEFAULT_DEBOUNCE_TIME = parseInt(process.env.SFCC_UPLOAD_DEBOUNCE_TIME ?? '100', 10);
 
+/** Default initial retry delay in ms after a failed sync */
+const DEFAULT_RETRY_DELAY = 1000;
+
+/** Default maximum retry delay in ms */
+const DEFAULT_MAX_RETRY_DELAY = 60_000;
+
 /**
  * Options for watching cartridges.
  */
@@ -29,6 +37,41 @@ export interface WatchOptions extends FindCartridgesOptions {
   onDelete?: (files: string[]) => void;
   /** Callback on error */
   onError?: (error: Error) => void;
+  /** Callback when a sync failed and is scheduled to be retried */
+  onRetry?: (info: WatchRetryInfo) => void;
+  /** Callback when all pending cartridge changes have been synced (site archive imports are reported by `onImport`) */
+  onSynced?: () => void;
+  /** Initial delay in ms before retrying a failed sync, doubled on each failure (default: 1000) */
+  retryDelay?: number;
+  /** Maximum delay in ms between retries (default: 60000) */
+  maxRetryDelay?: number;
+  /**
+   * File to keep the changes not yet synced in. Changes found in it on start are
+   * synced first, so changes of a stopped or crashed watcher are not lost
+   * (default: changes are only kept in memory).
+   */
+  queueFile?: string;
+  /**
+   * Also watch a site archive directory and import changed files (e.g. `meta/*.xml`,
+   * `libraries/**`) with the site archive import job.
+   */
+  siteArchive?: SiteArchiveWatchOptions;
+  /** Callback after each site archive import attempt */
+  onImport?: (result: SiteArchiveSyncResult) => void;
+}
+
+/**
+ * State of a failed sync passed to {@link WatchOptions.onRetry}.
+ */
+export interface WatchRetryInfo {
+  /** Number of consecutive failed attempts */
+  attempt: number;
+  /** Delay in ms until the next attempt */
+  delay: number;
+  /** Number of files waiting to be synced */
+  pending: number;
+  /** Error of the failed attempt */
+  error: Error;
 }
 
 /**
@@ -41,10 +84,53 @@ export interface WatchResult {
   cartridges: CartridgeMapping[];
   /** Code version being deployed to */
   codeVersion: string;
+  /** Number of changed or deleted files not yet synced to the instance, including site archive files not yet imported */
+  getPendingCount: () => number;
   /** Stop watching */
   stop: () => Promise<void>;
 }
 
+/**
+ * Changes not yet synced, as stored in {@link WatchOptions.queueFile}.
+ */
+interface WatchQueue {
+  /** Absolute paths of files to upload */
+  uploads: string[];
+  /** Absolute paths of files to delete */
+  deletes: string[];
+}
+
+/**
+ * Reads a queue file, returning an empty queue if it does not exist or is invalid.
+ */
+function readQueue(queueFile: string): WatchQueue {
+  try {
+    const queue = JSON.parse(fs.readFileSync(queueFile, 'utf8')) as Partial<WatchQueue>;
+    return {uploads: queue.uploads ?? [], deletes: queue.deletes ?? []};
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      getLogger().warn({queueFile, error}, `Ignoring invalid watch queue file ${queueFile}`);
+    }
+    return {uploads: [], deletes: []};
+  }
+}
+
+/**
+ * Writes a queue file, removing it once the queue is empty.
+ */
+function writeQueue(queueFile: string, queue: WatchQueue): void {
+  try {
+    if (queue.uploads.length === 0 && queue.deletes.length === 0) {
+      fs.rmSync(queueFile, {force: true});
+      return;
+    }
+    fs.mkdirSync(path.dirname(queueFile), {recursive: true});
+    fs.writeFileSync(queueFile, `${JSON.stringify(queue, null, 2)}\n`);
+  } catch (error) {
+    getLogger().warn({queueFile, error}, `Failed to write watch queue file ${queueFile}`);
+  }
+}
+
 /**
  * Maps an absolute file path to its cartridge-relative destination.
  */
@@ -96,6 +182,18 @@ function debounce<T extends () => void>(fn: T, delay: number): T {
  *
  * The watcher uses debouncing to batch rapid changes into single uploads.
  *
+ * Changes are kept in a pending queue until they are synced. If a sync fails, its
+ * changes are put back into the queue and retried with exponential backoff (see
+ * `retryDelay`/`maxRetryDelay`), merged with any changes made in the meantime.
+ * Use `onRetry`/`onSynced` or `getPendingCount()` to tell whether the instance is
+ * up to date. With `queueFile`, the queue is also written to disk and restored on
+ * the next start; otherwise it is lost when the process exits.
+ *
+ * With `siteArchive`, changes under the site archive directory are debounced
+ * separately and imported as a partial site archive containing only the changed
+ * files; `onImport` reports each job result. Deletions are not imported, and
+ * failed imports are retried with exponential backoff.
+ *
  * @param instance - B2C instance to sync to
  * @param directory - Directory containing cartridges
  * @param options - Watch options (filters, callbacks, debounce)
@@ -121,6 +219,8 @@ export async function watchCartridges(
   const logger = getLogger();
   let codeVersion = instance.config.codeVersion;
   const debounceTime = options.debounceTime ?? DEFAULT_DEBOUNCE_TIME;
+  const retryDelay = options.retryDelay ?? DEFAULT_RETRY_DELAY;
+  const maxRetryDelay = options.maxRetryDelay ?? DEFAULT_MAX_RETRY_DELAY;
 
   // If no code version specified, get the active one
   if (!codeVersion) {
@@ -152,135 +252,263 @@ export async function watchCartridges(
   const webdavLocation = `Cartridges/${codeVersion}`;
   const cwd = process.cwd();
 
-  // Sets for batching file changes
-  const filesToUpload = new Set<string>();
-  const filesToDelete = new Set<string>();
-  let lastErrorTime = 0;
+  // Pending changes (absolute paths). A path is either pending upload or pending delete,
+  // whichever event came last.
+  const pendingUploads = new Set<string>();
+  const pendingDeletes = new Set<string>();
+  // Changes of the batch being synced, kept in the queue file until the sync succeeded
+  let syncing: WatchQueue = {uploads: [], deletes: []};
+  let running = false;
+  let stopped = false;
+  let failedAttempts = 0;
+  let retryTimer: ReturnType<typeof setTimeout> | undefined;
+
+  if (options.queueFile) {
+    const queue = readQueue(options.queueFile);
+    // Only restore changes of the cartridges watched now
+    for (const file of queue.uploads) {
+      if (fileToCartridgePath(file, cartridges)) pendingUploads.add(file);
+    }
+    for (const file of queue.deletes) {
+      if (fileToCartridgePath(file, cartridges)) pendingDeletes.add(file);
+    }
+    if (pendingUploads.size + pendingDeletes.size > 0) {
+      logger.debug(
+        {queueFile: options.queueFile, uploads: pendingUploads.size, deletes: pendingDeletes.size},
+        'Restored pending changes',
+      );
+    }
+  }
+
+  const siteArchive = options.siteArchive
+    ? createSiteArchiveSync(instance, codeVersion, options.siteArchive, options.onImport)
+    : undefined;
+
+  // Cartridge changes only; the site archive sync schedules and reports its imports itself
+  const getQueuedCount = (): number => pendingUploads.size + pendingDeletes.size;
+
+  const getPendingCount = (): number => getQueuedCount() + (siteArchive?.getPendingCount() ?? 0);
+
+  const persistQueue = (): void => {
+    if (!options.queueFile) return;
+    writeQueue(options.queueFile, {
+      uploads: [...new Set([...syncing.uploads, ...pendingUploads])].filter((f) => !pendingDeletes.has(f)),
+      deletes: [...new Set([...syncing.deletes, ...pendingDeletes])].filter((f) => !pendingUploads.has(f)),
+    });
+  };
 
   /**
-   * Processes batched file changes.
+   * Puts the changes of a failed batch back into the queue, unless a newer event
+   * for the same file is already queued.
    */
-  const processChanges = debounce(async () => {
-    const now = Date.now();
-
-    // Rate limit on errors
-    if (now - lastErrorTime < 5000) {
-      logger.debug('Rate limiting after recent error, waiting...');
-      return;
+  const requeue = (uploads: string[], deletes: string[]): void => {
+    for (const file of uploads) {
+      if (!pendingDeletes.has(file)) pendingUploads.add(file);
     }
+    for (const file of deletes) {
+      if (!pendingUploads.has(file)) pendingDeletes.add(file);
+    }
+  };
 
-    const uploadFiles = Array.from(filesToUpload)
-      .map((f) => fileToCartridgePath(f, cartridges))
-      .filter((f): f is NonNullable<typeof f> => f !== undefined);
+  /**
+   * Uploads changed files as one archive.
+   */
+  const uploadBatch = async (files: Array<{src: string; dest: string}>): Promise<void> => {
+    const uploadPath = `${webdavLocation}/_upload-${Date.now()}.zip`;
+    const zip = new JSZip();
 
-    const deleteFiles = Array.from(filesToDelete)
-      .map((f) => fileToCartridgePath(f, cartridges))
-      .filter((f): f is NonNullable<typeof f> => f !== undefined);
+    for (const f of files) {
+      try {
+        const content = await fs.promises.readFile(f.src);
+        zip.file(f.dest, content);
+      } catch (error) {
+        logger.warn({file: f.src, error}, 'Failed to add file to archive');
+      }
+    }
 
-    filesToUpload.clear();
-    filesToDelete.clear();
+    const buffer = await zip.generateAsync({
+      type: 'nodebuffer',
+      compression: 'DEFLATE',
+      compressionOptions: {level: 5},
+    });
 
-    // Filter out files that no longer exist
-    const validUploadFiles = uploadFiles.filter((f) => {
-      if (!fs.existsSync(f.src)) {
-        logger.debug({file: f.src}, 'Skipping missing file');
-        return false;
-      }
-      return true;
+    await webdav.put(uploadPath, buffer, 'application/zip');
+    logger.debug({uploadPath}, 'Archive uploaded');
+
+    const response = await webdav.request(uploadPath, {
+      method: 'POST',
+      body: UNZIP_BODY,
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
     });
 
-    // Upload files
-    if (validUploadFiles.length > 0) {
-      const uploadPath = `${webdavLocation}/_upload-${now}.zip`;
+    if (!response.ok) {
+      throw new Error(`Unzip failed: ${response.status}`);
+    }
 
-      try {
-        const zip = new JSZip();
+    await webdav.delete(uploadPath);
 
-        for (const f of validUploadFiles) {
-          try {
-            const content = await fs.promises.readFile(f.src);
-            zip.file(f.dest, content);
-          } catch (error) {
-            logger.warn({file: f.src, error}, 'Failed to add file to archive');
+    logger.debug({fileCount: files.length, hostname: instance.config.hostname}, `Uploaded ${files.length} file(s)`);
+  };
+
+  /**
+   * Syncs all pending changes. On failure the batch is requeued and retried with
+   * exponential backoff; changes arriving meanwhile are merged into the retry.
+   */
+  const syncPending = async (): Promise<void> => {
+    if (running || stopped || retryTimer || getQueuedCount() === 0) {
+      return;
+    }
+
+    running = true;
+    const uploads = [...pendingUploads];
+    const deletes = [...pendingDeletes];
+    pendingUploads.clear();
+    pendingDeletes.clear();
+    syncing = {uploads, deletes};
+
+    let failure: Error | undefined;
+
+    try {
+      const uploadFiles = uploads
+        .filter((f) => {
+          if (!fs.existsSync(f)) {
+            logger.debug({file: f}, 'Skipping missing file');
+            return false;
           }
+          return true;
+        })
+        .map((f) => fileToCartridgePath(f, cartridges))
+        .filter((f): f is NonNullable<typeof f> => f !== undefined);
+
+      const deleteFiles = deletes
+        .map((f) => fileToCartridgePath(f, cartridges))
+        .filter((f): f is NonNullable<typeof f> => f !== undefined);
+
+      const failedDeletes: string[] = [];
+
+      if (uploadFiles.length > 0) {
+        try {
+          await uploadBatch(uploadFiles);
+        } catch (error) {
+          failure = error instanceof Error ? error : new Error(String(error));
+          logger.error({error: failure}, `Upload error: ${failure.message}`);
+          requeue(uploads, deletes);
         }
 
-        const buffer = await zip.generateAsync({
-          type: 'nodebuffer',
-          compression: 'DEFLATE',
-          compressionOptions: {level: 5},
-        });
-
-        await webdav.put(uploadPath, buffer, 'application/zip');
-        logger.debug({uploadPath}, 'Archive uploaded');
-
-        const response = await webdav.request(uploadPath, {
-          method: 'POST',
-          body: UNZIP_BODY,
-          headers: {
-            'Content-Type': 'application/x-www-form-urlencoded',
-          },
-        });
-
-        if (!response.ok) {
-          throw new Error(`Unzip failed: ${response.status}`);
+        if (!failure) {
+          options.onUpload?.(uploadFiles.map((f) => f.dest));
         }
+      }
 
-        await webdav.delete(uploadPath);
+      if (!failure && deleteFiles.length > 0) {
+        logger.debug({fileCount: deleteFiles.length}, `Deleting ${deleteFiles.length} file(s)`);
+        const deleted: string[] = [];
 
-        logger.debug(
-          {fileCount: validUploadFiles.length, hostname: instance.config.hostname},
-          `Uploaded ${validUploadFiles.length} file(s)`,
-        );
+        for (const f of deleteFiles) {
+          const deletePath = `${webdavLocation}/${f.dest}`;
+          try {
+            await webdav.delete(deletePath);
+            logger.info({file: deletePath}, `Deleted: ${deletePath}`);
+            deleted.push(f.dest);
+          } catch (error) {
+            if (error instanceof HTTPError && error.response.status === 404) {
+              deleted.push(f.dest);
+              continue;
+            }
+            failure = error instanceof Error ? error : new Error(String(error));
+            logger.debug({file: deletePath, error}, `Failed to delete ${deletePath}`);
+            failedDeletes.push(f.src);
+          }
+        }
 
-        options.onUpload?.(validUploadFiles.map((f) => f.dest));
-      } catch (error) {
-        lastErrorTime = now;
-        const err = error instanceof Error ? error : new Error(String(error));
-        logger.error({error: err}, `Upload error: ${err.message}`);
-        options.onError?.(err);
+        requeue([], failedDeletes);
+        if (deleted.length > 0) {
+          options.onDelete?.(deleted);
+        }
       }
+    } catch (error) {
+      // Unexpected errors (e.g. thrown by a callback) retry the whole batch; re-uploads and deletes are idempotent
+      failure = error instanceof Error ? error : new Error(String(error));
+      requeue(uploads, deletes);
+    } finally {
+      running = false;
+      syncing = {uploads: [], deletes: []};
+      persistQueue();
     }
 
-    // Delete files (filter out recently uploaded to prevent conflicts)
-    const recentlyUploadedPaths = new Set(validUploadFiles.map((f) => f.dest));
-    const filesToDeleteFiltered = deleteFiles.filter((f) => !recentlyUploadedPaths.has(f.dest));
+    if (failure) {
+      failedAttempts++;
+      const delay = Math.min(retryDelay * 2 ** (failedAttempts - 1), maxRetryDelay);
+      logger.debug({attempt: failedAttempts, delay, pending: getQueuedCount()}, 'Sync failed, retrying');
 
-    if (filesToDeleteFiltered.length > 0) {
-      logger.debug({fileCount: filesToDeleteFiltered.length}, `Deleting ${filesToDeleteFiltered.length} file(s)`);
+      // Scheduled before the callbacks, so a throwing callback cannot prevent the retry
+      retryTimer = setTimeout(() => {
+        retryTimer = undefined;
+        runSync();
+      }, delay);
 
-      for (const f of filesToDeleteFiltered) {
-        const deletePath = `${webdavLocation}/${f.dest}`;
-        try {
-          await webdav.delete(deletePath);
-          logger.info({file: deletePath}, `Deleted: ${deletePath}`);
-        } catch (error) {
-          logger.debug({file: deletePath, error}, `Failed to delete ${deletePath}`);
-        }
-      }
+      options.onError?.(failure);
+      options.onRetry?.({attempt: failedAttempts, delay, pending: getQueuedCount(), error: failure});
+      return;
+    }
 
-      options.onDelete?.(filesToDeleteFiltered.map((f) => f.dest));
+    failedAttempts = 0;
+    if (getQueuedCount() > 0) {
+      // Changes arrived while syncing
+      processChanges();
+    } else {
+      options.onSynced?.();
     }
+  };
+
+  /**
+   * Starts a sync without awaiting it, reporting errors thrown outside the sync
+   * itself (e.g. by the retry callbacks).
+   */
+  const runSync = (): void => {
+    syncPending().catch((error: unknown) => {
+      const syncError = error instanceof Error ? error : new Error(String(error));
+      logger.error({error: syncError}, `Sync error: ${syncError.message}`);
+      options.onError?.(syncError);
+    });
+  };
+
+  const processChanges = debounce(() => {
+    persistQueue();
+    runSync();
   }, debounceTime);
 
   // Set up file watcher
-  const watcher = watch(
-    cartridges.map((c) => c.src),
-    {
-      ignoreInitial: true,
-      cwd,
-    },
-  );
+  const watchPaths = cartridges.map((c) => c.src);
+  if (options.siteArchive) {
+    watchPaths.push(path.resolve(options.siteArchive.directory));
+  }
+
+  const watcher = watch(watchPaths, {
+    ignoreInitial: true,
+    cwd,
+  });
 
   watcher.on('all', (event, p) => {
     const fullPath = path.resolve(cwd, p);
     logger.info({event, path: fullPath}, `File event: ${event} ${fullPath}`);
 
+    if (siteArchive?.contains(fullPath)) {
+      if (event === 'change' || event === 'add') {
+        siteArchive.add(fullPath);
+      }
+      return;
+    }
+
     if (event === 'change' || event === 'add') {
-      filesToUpload.add(fullPath);
+      pendingDeletes.delete(fullPath);
+      pendingUploads.add(fullPath);
       processChanges();
     } else if (event === 'unlink') {
-      filesToDelete.add(fullPath);
+      pendingUploads.delete(fullPath);
+      pendingDeletes.add(fullPath);
       processChanges();
     }
   });
@@ -293,11 +521,20 @@ export async function watchCartridges(
 
   logger.debug({hostname: instance.config.hostname, codeVersion}, 'Watching for changes...');
 
+  if (getQueuedCount() > 0) {
+    processChanges();
+  }
+
   return {
     watcher,
     cartridges,
     codeVersion,
+    getPendingCount,
     stop: async () => {
+      stopped = true;
+      clearTimeout(retryTimer);
+      persistQueue();
+      siteArchive?.stop();
       await watcher.close();
       logger.debug('Watcher stopped');
     },
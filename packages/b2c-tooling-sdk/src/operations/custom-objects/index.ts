@@ -0,0 +1,93 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+/**
+ * Custom object operations for B2C Commerce.
+ *
+ * Reads, writes, searches and bulk transfers global and site-specific custom
+ * objects via the OCAPI Data API.
+ *
+ * ## Objects
+ *
+ * - {@link getCustomObject} - Get a custom object by key
+ * - {@link putCustomObject} - Create or replace a custom object
+ * - {@link deleteCustomObject} - Delete a custom object
+ * - {@link searchCustomObjects} - Search one page of custom objects
+ * - {@link iterateCustomObjects} - Iterate over all matching custom objects
+ * - {@link parseCustomObjectQuery} - Build a search query from a query expression
+ *
+ * ## Export and Import
+ *
+ * - {@link exportCustomObjects} - Export matching objects as NDJSON or CSV
+ * - {@link importCustomObjects} - Import objects from NDJSON or CSV
+ *
+ * ## Usage
+ *
+ * ```typescript
+ * import {
+ *   exportCustomObjects,
+ *   importCustomObjects,
+ *   parseCustomObjectQuery,
+ *   putCustomObject,
+ * } from '@salesforce/b2c-tooling-sdk/operations/custom-objects';
+ *
+ * // Seed a config object
+ * await putCustomObject(instance, 'SiteConfig', 'checkout', {c_enabled: true});
+ *
+ * // Export enabled objects
+ * const {content} = await exportCustomObjects(instance, 'SiteConfig', {
+ *   query: parseCustomObjectQuery('c_enabled = true'),
+ * });
+ *
+ * // Import them into another instance
+ * await importCustomObjects(otherInstance, 'SiteConfig', content);
+ * ```
+ *
+ * ## Authentication
+ *
+ * Custom object operations require OAuth authentication with OCAPI Data API
+ * permissions for `/custom_objects/**`, `/custom_objects_search/**` and, for
+ * site-specific objects, `/sites/*\/custom_objects/**`. CSV imports also read
+ * `/custom_object_definitions/*\/attribute_definitions`.
+ *
+ * @module operations/custom-objects
+ */
+
+export {
+  getCustomObject,
+  putCustomObject,
+  deleteCustomObject,
+  searchCustomObjects,
+  iterateCustomObjects,
+  getCustomObjectKey,
+  getCustomObjectAttributeTypes,
+} from './objects.js';
+export type {
+  CustomObject,
+  CustomObjectAttributes,
+  CustomObjectAttributeType,
+  CustomObjectScope,
+  SearchCustomObjectsOptions,
+  CustomObjectSearchResult,
+} from './objects.js';
+
+export {parseCustomObjectQuery} from './query.js';
+
+export {
+  exportCustomObjects,
+  importCustomObjects,
+  serializeCustomObjects,
+  parseCustomObjectRecords,
+  detectCustomObjectFormat,
+  CUSTOM_OBJECT_FORMATS,
+} from './transfer.js';
+export type {
+  CustomObjectFormat,
+  CustomObjectRecord,
+  ExportCustomObjectsOptions,
+  ExportCustomObjectsResult,
+  ImportCustomObjectsOptions,
+  ImportCustomObjectsResult,
+} from './transfer.js';
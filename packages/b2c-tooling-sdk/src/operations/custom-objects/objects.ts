@@ -0,0 +1,329 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import type {B2CInstance} from '../../instance/index.js';
+import type {OcapiComponents} from '../../clients/index.js';
+import {getLogger} from '../../logging/logger.js';
+
+/** Maximum page size of OCAPI searches */
+const MAX_PAGE_SIZE = 200;
+
+/**
+ * A custom object as returned by OCAPI.
+ *
+ * Custom attributes are returned as `c_`-prefixed properties.
+ */
+export type CustomObject = OcapiComponents['schemas']['custom_object'] & Record<string, unknown>;
+
+/**
+ * Custom object attribute values to write. Only `c_`-prefixed properties are stored.
+ */
+export type CustomObjectAttributes = Record<string, unknown>;
+
+/**
+ * Scope of a custom object.
+ */
+export interface CustomObjectScope {
+  /** Site ID for site-specific custom objects (global if omitted) */
+  siteId?: string;
+}
+
+/**
+ * Value type of a custom attribute, from its attribute definition.
+ */
+export type CustomObjectAttributeType = Pick<
+  OcapiComponents['schemas']['object_attribute_definition'],
+  'localizable' | 'multi_value_type' | 'value_type'
+>;
+
+/**
+ * Options for searching custom objects.
+ */
+export interface SearchCustomObjectsOptions {
+  /** OCAPI query document (default: match all, see {@link parseCustomObjectQuery}) */
+  query?: unknown;
+  /** Sort clauses (ascending by default) */
+  sorts?: Array<{field: string; order?: 'asc' | 'desc'}>;
+  /** Maximum results to return (default: 25, max: 200) */
+  count?: number;
+  /** Starting index for pagination */
+  start?: number;
+}
+
+/**
+ * Search results for custom objects.
+ */
+export interface CustomObjectSearchResult {
+  /** Total matching objects */
+  total: number;
+  /** Number of results returned */
+  count: number;
+  /** Starting index */
+  start: number;
+  /** Custom objects with all attributes */
+  hits: CustomObject[];
+}
+
+/**
+ * Returns the key of a custom object (string or integer key attribute).
+ *
+ * @param object - Custom object
+ * @returns The key, or undefined if the object has none
+ */
+export function getCustomObjectKey(object: CustomObject): string | undefined {
+  const key = object.key_value_string ?? object.key_value_integer;
+  return key === undefined ? undefined : String(key);
+}
+
+/**
+ * Gets a custom object.
+ *
+ * @param instance - B2C instance
+ * @param objectType - Custom object type ID
+ * @param key - Value of the key attribute
+ * @param scope - Site scope (global if omitted)
+ * @returns The custom object, or undefined if it does not exist
+ * @throws Error if the object cannot be read
+ *
+ * @example
+ * ```typescript
+ * const config = await getCustomObject(instance, 'SiteConfig', 'checkout');
+ * console.log(config?.c_enabled);
+ * ```
+ */
+export async function getCustomObject(
+  instance: B2CInstance,
+  objectType: string,
+  key: string,
+  scope: CustomObjectScope = {},
+): Promise<CustomObject | undefined> {
+  const {data, error, response} = scope.siteId
+    ? await instance.ocapi.GET('/sites/{site_id}/custom_objects/{object_type}/{key}', {
+        params: {path: {site_id: scope.siteId, object_type: objectType, key}},
+      })
+    : await instance.ocapi.GET('/custom_objects/{object_type}/{key}', {
+        params: {path: {object_type: objectType, key}},
+      });
+
+  if (response.status === 404) {
+    return undefined;
+  }
+  if (error) {
+    throw new Error(`Failed to get custom object ${objectType}/${key}`, {cause: error});
+  }
+
+  return data as CustomObject;
+}
+
+/**
+ * Creates or replaces a custom object.
+ *
+ * Attributes not included in `attributes` are cleared on an existing object.
+ *
+ * @param instance - B2C instance
+ * @param objectType - Custom object type ID
+ * @param key - Value of the key attribute
+ * @param attributes - Custom attribute values (`c_`-prefixed)
+ * @param scope - Site scope (global if omitted)
+ * @returns The stored custom object
+ * @throws Error if the object cannot be written
+ *
+ * @example
+ * ```typescript
+ * await putCustomObject(instance, 'SiteConfig', 'checkout', {c_enabled: true});
+ * ```
+ */
+export async function putCustomObject(
+  instance: B2CInstance,
+  objectType: string,
+  key: string,
+  attributes: CustomObjectAttributes,
+  scope: CustomObjectScope = {},
+): Promise<CustomObject> {
+  const logger = getLogger();
+  logger.debug({objectType, key, siteId: scope.siteId}, `Writing custom object ${objectType}/${key}`);
+
+  const body = attributes as OcapiComponents['schemas']['custom_object'];
+  const {data, error} = scope.siteId
+    ? await instance.ocapi.PUT('/sites/{site_id}/custom_objects/{object_type}/{key}', {
+        params: {path: {site_id: scope.siteId, object_type: objectType, key}},
+        body,
+      })
+    : await instance.ocapi.PUT('/custom_objects/{object_type}/{key}', {
+        params: {path: {object_type: objectType, key}},
+        body,
+      });
+
+  if (error) {
+    throw new Error(`Failed to write custom object ${objectType}/${key}`, {cause: error});
+  }
+
+  return data as CustomObject;
+}
+
+/**
+ * Deletes a custom object. Deleting an object that does not exist succeeds.
+ *
+ * @param instance - B2C instance
+ * @param objectType - Custom object type ID
+ * @param key - Value of the key attribute
+ * @param scope - Site scope (global if omitted)
+ * @throws Error if the object cannot be deleted
+ *
+ * @example
+ * ```typescript
+ * await deleteCustomObject(instance, 'SiteConfig', 'checkout', {siteId: 'RefArch'});
+ * ```
+ */
+export async function deleteCustomObject(
+  instance: B2CInstance,
+  objectType: string,
+  key: string,
+  scope: CustomObjectScope = {},
+): Promise<void> {
+  const logger = getLogger();
+  logger.debug({objectType, key, siteId: scope.siteId}, `Deleting custom object ${objectType}/${key}`);
+
+  const {error} = scope.siteId
+    ? await instance.ocapi.DELETE('/sites/{site_id}/custom_objects/{object_type}/{key}', {
+        params: {path: {site_id: scope.siteId, object_type: objectType, key}},
+      })
+    : await instance.ocapi.DELETE('/custom_objects/{object_type}/{key}', {
+        params: {path: {object_type: objectType, key}},
+      });
+
+  if (error) {
+    throw new Error(`Failed to delete custom object ${objectType}/${key}`, {cause: error});
+  }
+}
+
+/**
+ * Searches custom objects of a type.
+ *
+ * OCAPI only offers a search resource per object type, so the search covers
+ * global and site-specific objects of the type alike.
+ *
+ * @param instance - B2C instance
+ * @param objectType - Custom object type ID
+ * @param options - Search options
+ * @returns One page of search results
+ * @throws Error if the search fails (e.g. unknown object type or invalid query)
+ *
+ * @example
+ * ```typescript
+ * const result = await searchCustomObjects(instance, 'SiteConfig', {
+ *   query: parseCustomObjectQuery('c_enabled = true'),
+ *   count: 50,
+ * });
+ * console.log(`${result.total} matching objects`);
+ * ```
+ */
+export async function searchCustomObjects(
+  instance: B2CInstance,
+  objectType: string,
+  options: SearchCustomObjectsOptions = {},
+): Promise<CustomObjectSearchResult> {
+  const {query = {match_all_query: {}}, sorts, count = 25, start = 0} = options;
+
+  const {data, error} = await instance.ocapi.POST('/custom_objects_search/{object_type}', {
+    params: {path: {object_type: objectType}},
+    body: {
+      query,
+      sorts: sorts?.map((s) => ({field: s.field, sort_order: s.order ?? 'asc'})),
+      count: Math.min(count, MAX_PAGE_SIZE),
+      start,
+      select: '(**)',
+    } as unknown as OcapiComponents['schemas']['search_request'],
+  });
+
+  if (error || !data) {
+    throw new Error(`Failed to search custom objects of type ${objectType}`, {cause: error});
+  }
+
+  return {
+    total: data.total ?? 0,
+    count: data.count ?? 0,
+    start: data.start ?? 0,
+    hits: (data.hits ?? []) as CustomObject[],
+  };
+}
+
+/**
+ * Gets the value types of the custom attributes of a custom object type.
+ *
+ * @param instance - B2C instance
+ * @param objectType - Custom object type ID
+ * @returns Attribute types keyed by `c_`-prefixed attribute ID
+ * @throws Error if the object type cannot be read
+ *
+ * @example
+ * ```typescript
+ * const types = await getCustomObjectAttributeTypes(instance, 'SiteConfig');
+ * console.log(types.c_enabled?.value_type); // 'boolean'
+ * ```
+ */
+export async function getCustomObjectAttributeTypes(
+  instance: B2CInstance,
+  objectType: string,
+): Promise<Record<string, CustomObjectAttributeType>> {
+  const types: Record<string, CustomObjectAttributeType> = {};
+  let start = 0;
+
+  while (true) {
+    const {data, error} = await instance.ocapi.GET('/custom_object_definitions/{object_type}/attribute_definitions', {
+      params: {path: {object_type: objectType}, query: {start, count: MAX_PAGE_SIZE, select: '(**)'}},
+    });
+
+    if (error || !data) {
+      throw new Error(`Failed to get attribute definitions of custom object type ${objectType}`, {cause: error});
+    }
+
+    const definitions = data.data ?? [];
+    for (const {effective_id: id, localizable, multi_value_type, value_type} of definitions) {
+      if (id?.startsWith('c_')) {
+        types[id] = {localizable, multi_value_type, value_type};
+      }
+    }
+
+    start += definitions.length;
+    if (definitions.length === 0 || start >= (data.total ?? 0)) {
+      return types;
+    }
+  }
+}
+
+/**
+ * Iterates over all custom objects matching a search, fetching pages as needed.
+ *
+ * @param instance - B2C instance
+ * @param objectType - Custom object type ID
+ * @param options - Search options (`count` is the page size, default 200)
+ * @yields Matching custom objects
+ *
+ * @example
+ * ```typescript
+ * for await (const object of iterateCustomObjects(instance, 'SiteConfig')) {
+ *   console.log(getCustomObjectKey(object));
+ * }
+ * ```
+ */
+export async function* iterateCustomObjects(
+  instance: B2CInstance,
+  objectType: string,
+  options: Omit<SearchCustomObjectsOptions, 'start'> = {},
+): AsyncGenerator<CustomObject> {
+  const pageSize = Math.min(options.count ?? MAX_PAGE_SIZE, MAX_PAGE_SIZE);
+  let start = 0;
+
+  while (true) {
+    const page = await searchCustomObjects(instance, objectType, {...options, count: pageSize, start});
+    yield* page.hits;
+
+    start += page.hits.length;
+    if (page.hits.length === 0 || start >= page.total) {
+      return;
+    }
+  }
+}
@@ -0,0 +1,147 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+
+/** A single condition: field, operator and the rest of the condition as value */
+const CONDITION_PATTERN = /^([\w.]+)\s*(!=|=|<|>|~|in\b|is\s+not\s+null$|is\s+null$)\s*(.*)$/i;
+
+type TermOperator = 'greater' | 'is' | 'is_not_null' | 'is_null' | 'less' | 'neq' | 'one_of';
+
+const TERM_OPERATORS: Record<string, TermOperator> = {
+  '=': 'is',
+  '!=': 'neq',
+  '<': 'less',
+  '>': 'greater',
+  in: 'one_of',
+};
+
+/**
+ * Splits an expression at top-level `AND` keywords, ignoring quoted text.
+ */
+function splitConditions(expression: string): string[] {
+  const conditions: string[] = [];
+  let current = '';
+  let quote: string | undefined;
+
+  for (let i = 0; i < expression.length; i++) {
+    const char = expression[i];
+    if (quote) {
+      if (char === quote) quote = undefined;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (/^\s+and\s+/i.test(expression.slice(i)) && current.trim()) {
+      const [separator] = /^\s+and\s+/i.exec(expression.slice(i))!;
+      conditions.push(current.trim());
+      current = '';
+      i += separator.length - 1;
+      continue;
+    }
+    current += char;
+  }
+
+  if (quote) {
+    throw new Error(`Unterminated quote in query: ${expression}`);
+  }
+  if (current.trim()) {
+    conditions.push(current.trim());
+  }
+  return conditions;
+}
+
+/**
+ * Parses a literal: quoted strings stay strings, `true`/`false` become booleans and
+ * numbers become numbers. Anything else is taken as an unquoted string.
+ */
+function parseValue(raw: string): boolean | number | string {
+  const value = raw.trim();
+  const quoted = /^(["'])(.*)\1$/.exec(value);
+  if (quoted) return quoted[2];
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  if (value !== '' && !Number.isNaN(Number(value))) return Number(value);
+  return value;
+}
+
+/**
+ * Splits a comma-separated value list, ignoring commas in quoted values.
+ */
+function parseValueList(raw: string): Array<boolean | number | string> {
+  const list = raw.trim().replace(/^\((.*)\)$/, '$1');
+  return (list.match(/("[^"]*"|'[^']*'|[^,]+)/g) ?? []).map((v) => parseValue(v));
+}
+
+function parseCondition(condition: string): unknown {
+  const match = CONDITION_PATTERN.exec(condition);
+  if (!match) {
+    throw new Error(`Invalid query condition: ${condition}`);
+  }
+
+  const [, field, rawOperator, rawValue] = match;
+  const operator = rawOperator.toLowerCase().replace(/\s+/g, ' ');
+
+  if (operator === 'is null' || operator === 'is not null') {
+    return {term_query: {fields: [field], operator: operator === 'is null' ? 'is_null' : 'is_not_null'}};
+  }
+
+  if (!rawValue.trim()) {
+    throw new Error(`Missing value in query condition: ${condition}`);
+  }
+
+  if (operator === '~') {
+    return {text_query: {fields: [field], search_phrase: String(parseValue(rawValue))}};
+  }
+
+  const values = operator === 'in' ? parseValueList(rawValue) : [parseValue(rawValue)];
+  return {term_query: {fields: [field], operator: TERM_OPERATORS[operator], values}};
+}
+
+/**
+ * Parses a query expression into an OCAPI search query document.
+ *
+ * Conditions are combined with `AND`. Supported conditions:
+ *
+ * | Condition | Meaning |
+ * |-----------|---------|
+ * | `field = value` | equals |
+ * | `field != value` | does not equal |
+ * | `field < value`, `field > value` | less / greater than |
+ * | `field in (a, b)` | equals one of the values |
+ * | `field ~ phrase` | full-text match |
+ * | `field is null`, `field is not null` | attribute (not) set |
+ *
+ * Values are numbers, `true`/`false`, or strings (quote strings that look like
+ * numbers or contain ` and `). An expression starting with `{` is parsed as a raw
+ * OCAPI query document.
+ *
+ * @param expression - Query expression (match all if empty)
+ * @returns OCAPI query document
+ * @throws Error if the expression is invalid
+ *
+ * @example
+ * ```typescript
+ * parseCustomObjectQuery('c_enabled = true AND c_region in (EU, US)');
+ * // {bool_query: {must: [
+ * //   {term_query: {fields: ['c_enabled'], operator: 'is', values: [true]}},
+ * //   {term_query: {fields: ['c_region'], operator: 'one_of', values: ['EU', 'US']}},
+ * // ]}}
+ * ```
+ */
+export function parseCustomObjectQuery(expression?: string): unknown {
+  const trimmed = expression?.trim();
+  if (!trimmed) {
+    return {match_all_query: {}};
+  }
+
+  if (trimmed.startsWith('{')) {
+    try {
+      return JSON.parse(trimmed);
+    } catch (error) {
+      throw new Error('Invalid JSON query', {cause: error});
+    }
+  }
+
+  const queries = splitConditions(trimmed).map((c) => parseCondition(c));
+  return queries.length === 1 ? queries[0] : {bool_query: {must: queries}};
+}
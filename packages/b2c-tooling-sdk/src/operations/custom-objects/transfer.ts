@@ -0,0 +1,329 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import type {B2CInstance} from '../../instance/index.js';
+import {getLogger} from '../../logging/logger.js';
+import {escapeCsv, parseCsv} from '../../utils/csv.js';
+import {
+  getCustomObjectKey,
+  iterateCustomObjects,
+  getCustomObjectAttributeTypes,
+  putCustomObject,
+  type CustomObject,
+  type CustomObjectAttributes,
+  type CustomObjectAttributeType,
+  type CustomObjectScope,
+  type SearchCustomObjectsOptions,
+} from './objects.js';
+
+/**
+ * File format for custom object export and import.
+ *
+ * - `ndjson`: one JSON object per line, preserves attribute types
+ * - `csv`: header row with `key` and one column per custom attribute; values are
+ *   converted back using the attribute definitions of the object type
+ */
+export type CustomObjectFormat = 'csv' | 'ndjson';
+
+/** Supported export/import formats */
+export const CUSTOM_OBJECT_FORMATS: CustomObjectFormat[] = ['ndjson', 'csv'];
+
+/**
+ * A custom object to import: its key and custom attribute values.
+ */
+export interface CustomObjectRecord {
+  key: string;
+  attributes: CustomObjectAttributes;
+}
+
+/**
+ * Options for exporting custom objects.
+ */
+export interface ExportCustomObjectsOptions extends Pick<SearchCustomObjectsOptions, 'query' | 'sorts'> {
+  /** Output format (default: ndjson) */
+  format?: CustomObjectFormat;
+}
+
+/**
+ * Result of a custom object export.
+ */
+export interface ExportCustomObjectsResult {
+  /** Number of exported objects */
+  count: number;
+  /** Serialized objects */
+  content: string;
+}
+
+/**
+ * Options for importing custom objects.
+ */
+export interface ImportCustomObjectsOptions extends CustomObjectScope {
+  /** Input format (default: ndjson) */
+  format?: CustomObjectFormat;
+  /** Only parse and validate the input, do not write objects */
+  dryRun?: boolean;
+  /** Called after each object is written */
+  onProgress?: (record: CustomObjectRecord, index: number, total: number) => void;
+}
+
+/**
+ * Result of a custom object import.
+ */
+export interface ImportCustomObjectsResult {
+  /** Keys of the written objects (or of the objects that would be written in a dry run) */
+  imported: string[];
+  /** Objects that could not be written */
+  failed: Array<{key: string; error: string}>;
+}
+
+/**
+ * Returns the format for a file name based on its extension (`.csv` or NDJSON otherwise).
+ *
+ * @param fileName - File name or path
+ * @returns The detected format
+ */
+export function detectCustomObjectFormat(fileName: string): CustomObjectFormat {
+  return fileName.toLowerCase().endsWith('.csv') ? 'csv' : 'ndjson';
+}
+
+/**
+ * Removes OCAPI document metadata (`_v`, `_type`, `link`, ...) from an object.
+ */
+function stripMetadata(object: CustomObject): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(object).filter(([name]) => !name.startsWith('_') && name !== 'link'));
+}
+
+function customAttributes(object: Record<string, unknown>): CustomObjectAttributes {
+  return Object.fromEntries(Object.entries(object).filter(([name]) => name.startsWith('c_')));
+}
+
+/**
+ * Returns the OCAPI fault message of a failed request, falling back to the error message.
+ */
+function getErrorMessage(error: unknown): string {
+  if (!(error instanceof Error)) return String(error);
+  const fault = (error.cause as undefined | {fault?: {message?: string}})?.fault;
+  return fault?.message ?? error.message;
+}
+
+function toCsvValue(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+/**
+ * Converts a CSV cell back into an attribute value of the given type. Localized
+ * and multi-value attributes are JSON-decoded, booleans and numbers converted;
+ * values of other or unknown types stay strings.
+ *
+ * @throws Error if the value does not match the type
+ */
+function fromCsvValue(value: string, type: CustomObjectAttributeType | undefined): unknown {
+  if (!type) return value;
+
+  if (type.localizable || type.multi_value_type || type.value_type?.startsWith('set_of_')) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      throw new Error(`expected a JSON value but got "${value}"`);
+    }
+  }
+
+  switch (type.value_type) {
+    case 'boolean': {
+      if (value !== 'true' && value !== 'false') {
+        throw new Error(`expected true or false but got "${value}"`);
+      }
+      return value === 'true';
+    }
+    case 'double':
+    case 'enum_of_int':
+    case 'int': {
+      const number = Number(value);
+      if (value.trim() === '' || Number.isNaN(number)) {
+        throw new Error(`expected a number but got "${value}"`);
+      }
+      return number;
+    }
+    default: {
+      return value;
+    }
+  }
+}
+
+/**
+ * Serializes custom objects for export.
+ *
+ * NDJSON lines contain the objects without OCAPI metadata. CSV has a `key` column
+ * followed by the custom attributes of all objects (sorted); non-string values are
+ * JSON-encoded.
+ *
+ * @param objects - Custom objects (e.g. from {@link iterateCustomObjects})
+ * @param format - Output format
+ * @returns Serialized objects
+ */
+export function serializeCustomObjects(objects: CustomObject[], format: CustomObjectFormat): string {
+  if (format === 'ndjson') {
+    return objects.map((o) => `${JSON.stringify(stripMetadata(o))}\n`).join('');
+  }
+
+  const columns = [...new Set(objects.flatMap((o) => Object.keys(customAttributes(o))))].sort();
+  const lines = [['key', ...columns].join(',')];
+  for (const object of objects) {
+    const values = [getCustomObjectKey(object) ?? '', ...columns.map((c) => toCsvValue(object[c]))];
+    lines.push(values.map((v) => escapeCsv(v)).join(','));
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Parses exported custom objects into import records.
+ *
+ * NDJSON objects take their key from `key_value_string`, `key_value_integer` or `key`.
+ * Only `c_`-prefixed attributes are imported; other properties are ignored.
+ *
+ * CSV values are converted using `attributeTypes` (see {@link getCustomObjectAttributeTypes});
+ * values of attributes without a known type stay strings.
+ *
+ * @param content - File content
+ * @param format - Input format
+ * @param attributeTypes - Attribute types of the object type, for CSV
+ * @returns Records to import
+ * @throws Error if a line or row is invalid or has no key
+ */
+export function parseCustomObjectRecords(
+  content: string,
+  format: CustomObjectFormat,
+  attributeTypes: Record<string, CustomObjectAttributeType> = {},
+): CustomObjectRecord[] {
+  const records: CustomObjectRecord[] = [];
+
+  if (format === 'ndjson') {
+    for (const [index, line] of content.split(/\r?\n/).entries()) {
+      if (!line.trim()) continue;
+
+      let object: Record<string, unknown>;
+      try {
+        object = JSON.parse(line) as Record<string, unknown>;
+      } catch (error) {
+        throw new Error(`Invalid JSON on line ${index + 1}`, {cause: error});
+      }
+
+      const key = object.key_value_string ?? object.key_value_integer ?? object.key;
+      if (key === undefined || key === null || key === '') {
+        throw new Error(`Missing key on line ${index + 1}`);
+      }
+      records.push({key: String(key), attributes: customAttributes(object)});
+    }
+    return records;
+  }
+
+  const [header, ...rows] = parseCsv(content);
+  const keyIndex = header?.indexOf('key') ?? -1;
+  if (keyIndex === -1) {
+    throw new Error('CSV header must contain a "key" column');
+  }
+
+  for (const [index, row] of rows.entries()) {
+    const key = row[keyIndex];
+    if (!key) {
+      throw new Error(`Missing key in CSV row ${index + 2}`);
+    }
+
+    const attributes: CustomObjectAttributes = {};
+    for (const [column, name] of header.entries()) {
+      if (name.startsWith('c_') && row[column]) {
+        try {
+          attributes[name] = fromCsvValue(row[column], attributeTypes[name]);
+        } catch (error) {
+          throw new Error(`Invalid ${name} in CSV row ${index + 2}: ${(error as Error).message}`);
+        }
+      }
+    }
+    records.push({key, attributes});
+  }
+
+  return records;
+}
+
+/**
+ * Exports all custom objects of a type matching a query.
+ *
+ * @param instance - B2C instance
+ * @param objectType - Custom object type ID
+ * @param options - Query, sorting and output format
+ * @returns Number of objects and serialized content
+ *
+ * @example
+ * ```typescript
+ * const {content} = await exportCustomObjects(instance, 'SiteConfig', {format: 'csv'});
+ * await fs.promises.writeFile('site-config.csv', content);
+ * ```
+ */
+export async function exportCustomObjects(
+  instance: B2CInstance,
+  objectType: string,
+  options: ExportCustomObjectsOptions = {},
+): Promise<ExportCustomObjectsResult> {
+  const objects: CustomObject[] = [];
+  for await (const object of iterateCustomObjects(instance, objectType, {query: options.query, sorts: options.sorts})) {
+    objects.push(object);
+  }
+
+  getLogger().debug({objectType, count: objects.length}, `Exported ${objects.length} custom object(s)`);
+  return {count: objects.length, content: serializeCustomObjects(objects, options.format ?? 'ndjson')};
+}
+
+/**
+ * Imports custom objects, creating or replacing each object by key.
+ *
+ * The whole input is parsed before anything is written, so a malformed file writes
+ * nothing. Objects that fail to write are reported and the import continues.
+ * CSV input is converted using the attribute definitions of the object type.
+ *
+ * @param instance - B2C instance
+ * @param objectType - Custom object type ID
+ * @param content - Serialized objects (see {@link serializeCustomObjects})
+ * @param options - Format, site scope and dry run
+ * @returns Imported and failed keys
+ * @throws Error if the input cannot be parsed
+ *
+ * @example
+ * ```typescript
+ * const content = await fs.promises.readFile('site-config.ndjson', 'utf8');
+ * const {imported, failed} = await importCustomObjects(instance, 'SiteConfig', content);
+ * ```
+ */
+export async function importCustomObjects(
+  instance: B2CInstance,
+  objectType: string,
+  content: string,
+  options: ImportCustomObjectsOptions = {},
+): Promise<ImportCustomObjectsResult> {
+  const logger = getLogger();
+  const format = options.format ?? 'ndjson';
+  const attributeTypes = format === 'csv' ? await getCustomObjectAttributeTypes(instance, objectType) : {};
+  const records = parseCustomObjectRecords(content, format, attributeTypes);
+  const result: ImportCustomObjectsResult = {imported: [], failed: []};
+
+  logger.debug({objectType, count: records.length, dryRun: options.dryRun}, `Importing ${records.length} object(s)`);
+
+  if (options.dryRun) {
+    result.imported = records.map((r) => r.key);
+    return result;
+  }
+
+  for (const [index, record] of records.entries()) {
+    try {
+      await putCustomObject(instance, objectType, record.key, record.attributes, {siteId: options.siteId});
+      result.imported.push(record.key);
+    } catch (error) {
+      result.failed.push({key: record.key, error: getErrorMessage(error)});
+    }
+    options.onProgress?.(record, index, records.length);
+  }
+
+  return result;
+}
@@ -0,0 +1,421 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import fs from 'node:fs';
+import path from 'node:path';
+import {Builder} from 'xml2js';
+import {getLogger} from '../../logging/logger.js';
+import type {
+  AttributeDefinition,
+  CustomObjectDefinition,
+  CustomTypeDefinition,
+  LocalizedString,
+  PreferenceValuesDefinition,
+  SiteArchiveDefinition,
+} from './definitions.js';
+import {SITE_ARCHIVE_NAMESPACES, validateSiteArchiveXml} from './schema.js';
+
+/**
+ * Error thrown when generated XML does not match the known element structure.
+ */
+export class SiteArchiveValidationError extends Error {
+  constructor(
+    message: string,
+    public readonly problems: Array<{file: string; message: string}>,
+  ) {
+    super(message);
+    this.name = 'SiteArchiveValidationError';
+  }
+}
+
+/**
+ * Result of {@link buildSiteArchive}.
+ */
+export interface SiteArchiveBuildResult {
+  /** Output directory */
+  directory: string;
+  /** Written files, relative to the output directory */
+  files: string[];
+}
+
+/** xml2js builder input */
+type XmlObject = Record<string, unknown>;
+
+type Value = boolean | number | string | string[];
+
+const builder = new Builder({
+  xmldec: {version: '1.0', encoding: 'UTF-8'},
+  renderOpts: {pretty: true, indent: '    ', newline: '\n'},
+});
+
+function localized(value: LocalizedString | undefined): XmlObject[] | undefined {
+  if (value === undefined) return undefined;
+  const values = typeof value === 'string' ? {'x-default': value} : value;
+  return Object.entries(values).map(([lang, text]) => ({_: text, $: {'xml:lang': lang}}));
+}
+
+function text(value: boolean | number | string | undefined): string[] | undefined {
+  return value === undefined ? undefined : [String(value)];
+}
+
+/**
+ * Builds an element object, dropping unset children so they are not rendered.
+ */
+function element(
+  attributes: Record<string, string> | undefined,
+  children: Record<string, unknown[] | undefined>,
+): XmlObject {
+  const result: XmlObject = attributes ? {$: attributes} : {};
+  for (const [name, value] of Object.entries(children)) {
+    if (value !== undefined && value.length > 0) {
+      result[name] = value;
+    }
+  }
+  return result;
+}
+
+function valueElement(attributes: Record<string, string>, value: Value): XmlObject {
+  return Array.isArray(value) ? {$: attributes, value} : {$: attributes, _: String(value)};
+}
+
+function attributeDefinition(attribute: AttributeDefinition): XmlObject {
+  return element(
+    {'attribute-id': attribute.id},
+    {
+      'display-name': localized(attribute.displayName),
+      description: localized(attribute.description),
+      type: [attribute.type],
+      'localizable-flag': text(attribute.localizable ?? false),
+      'site-specific-flag': text(attribute.siteSpecific ?? false),
+      'mandatory-flag': text(attribute.mandatory ?? false),
+      'externally-managed-flag': text(attribute.externallyManaged ?? false),
+      'min-length': text(attribute.minLength ?? (attribute.type === 'string' ? 0 : undefined)),
+      'min-value': text(attribute.minValue),
+      'max-value': text(attribute.maxValue),
+      regex: text(attribute.regex),
+      'value-definitions': attribute.values && [
+        {
+          'value-definition': attribute.values.map((v) =>
+            element(v.default ? {default: 'true'} : undefined, {
+              display: localized(v.display),
+              value: [String(v.value)],
+            }),
+          ),
+        },
+      ],
+      'default-value': text(attribute.defaultValue),
+    },
+  );
+}
+
+function groupDefinitions(attributes: AttributeDefinition[]): XmlObject[] | undefined {
+  const groups = new Map<string, string[]>();
+  for (const attribute of attributes) {
+    if (attribute.group) {
+      groups.set(attribute.group, [...(groups.get(attribute.group) ?? []), attribute.id]);
+    }
+  }
+  if (groups.size === 0) return undefined;
+
+  return [
+    {
+      'attribute-group': [...groups].map(([group, ids]) => ({
+        $: {'group-id': group},
+        'display-name': localized(group),
+        attribute: ids.map((id) => ({$: {'attribute-id': id}})),
+      })),
+    },
+  ];
+}
+
+/**
+ * Fails on duplicate keys, which the import would silently merge.
+ */
+function assertUnique(keys: string[], label: string): void {
+  const seen = new Set<string>();
+  for (const key of keys) {
+    if (seen.has(key)) {
+      throw new Error(`Duplicate ${label} ${key}`);
+    }
+    seen.add(key);
+  }
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    groups.set(key(item), [...(groups.get(key(item)) ?? []), item]);
+  }
+  return groups;
+}
+
+function systemObjectExtensions(definition: SiteArchiveDefinition): XmlObject | undefined {
+  const attributes = definition.attributes ?? [];
+  if (attributes.length === 0) return undefined;
+  assertUnique(
+    attributes.map((a) => `${a.objectType}.${a.id}`),
+    'attribute',
+  );
+
+  return {
+    metadata: {
+      $: {xmlns: SITE_ARCHIVE_NAMESPACES.metadata},
+      'type-extension': [...groupBy(attributes, (a) => a.objectType)].map(([objectType, typeAttributes]) =>
+        element(
+          {'type-id': objectType},
+          {
+            'custom-attribute-definitions': [
+              {'attribute-definition': typeAttributes.map((a) => attributeDefinition(a))},
+            ],
+            'group-definitions': groupDefinitions(typeAttributes),
+          },
+        ),
+      ),
+    },
+  };
+}
+
+function customTypeDefinitions(types: CustomTypeDefinition[]): XmlObject | undefined {
+  if (types.length === 0) return undefined;
+  assertUnique(
+    types.map((t) => t.id),
+    'custom object type',
+  );
+
+  return {
+    metadata: {
+      $: {xmlns: SITE_ARCHIVE_NAMESPACES.metadata},
+      'custom-type': types.map((type) => {
+        const attributes = type.attributes ?? [];
+        return element(
+          {'type-id': type.id},
+          {
+            'display-name': localized(type.displayName),
+            description: localized(type.description),
+            'staging-mode': ['no-staging'],
+            'storage-scope': [type.storageScope ?? 'organization'],
+            'retention-days': text(type.retentionDays),
+            'key-definition': [{$: {'attribute-id': type.keyAttribute ?? 'ID'}, type: ['string'], 'min-length': ['0']}],
+            'attribute-definitions':
+              attributes.length > 0
+                ? [{'attribute-definition': attributes.map((a) => attributeDefinition(a))}]
+                : undefined,
+            'group-definitions': groupDefinitions(attributes),
+          },
+        );
+      }),
+    },
+  };
+}
+
+function sitePreferences(preferences: PreferenceValuesDefinition[]): XmlObject {
+  const byInstanceType = groupBy(preferences, (p) => p.instanceType ?? 'all-instances');
+  const instanceTypes = ['all-instances', 'development', 'staging', 'production'].filter((t) => byInstanceType.has(t));
+
+  return {
+    preferences: {
+      $: {xmlns: SITE_ARCHIVE_NAMESPACES.preferences},
+      'custom-preferences': [
+        Object.fromEntries(
+          instanceTypes.map((instanceType) => {
+            const values = Object.assign({}, ...byInstanceType.get(instanceType)!.map((p) => p.values)) as Record<
+              string,
+              Value
+            >;
+            return [
+              instanceType,
+              [{preference: Object.entries(values).map(([id, value]) => valueElement({'preference-id': id}, value))}],
+            ];
+          }),
+        ),
+      ],
+    },
+  };
+}
+
+function customObjects(objects: CustomObjectDefinition[]): XmlObject {
+  return {
+    'custom-objects': {
+      $: {xmlns: SITE_ARCHIVE_NAMESPACES['custom-objects']},
+      'custom-object': objects.map((object) =>
+        element(
+          {'type-id': object.type, 'object-id': object.id},
+          {
+            'object-attribute': Object.entries(object.attributes ?? {}).map(([id, value]) =>
+              valueElement({'attribute-id': id}, value),
+            ),
+          },
+        ),
+      ),
+    },
+  };
+}
+
+function services(definition: SiteArchiveDefinition): XmlObject | undefined {
+  const serviceList = definition.services ?? [];
+  const profiles = definition.serviceProfiles ?? [];
+  const credentials = definition.serviceCredentials ?? [];
+  if (serviceList.length + profiles.length + credentials.length === 0) return undefined;
+
+  assertUnique(
+    serviceList.map((s) => s.id),
+    'service',
+  );
+  assertUnique(
+    profiles.map((p) => p.id),
+    'service profile',
+  );
+  assertUnique(
+    credentials.map((c) => c.id),
+    'service credential',
+  );
+
+  return {
+    services: element(
+      {xmlns: SITE_ARCHIVE_NAMESPACES.services},
+      {
+        'service-credential': credentials.map((c) =>
+          element(
+            {'service-credential-id': c.id},
+            {url: text(c.url), 'user-id': text(c.user), password: text(c.password)},
+          ),
+        ),
+        'service-profile': profiles.map((p) =>
+          element(
+            {'service-profile-id': p.id},
+            {
+              'timeout-millis': text(p.timeout ?? 1000),
+              'rate-limit-enabled': text(p.rateLimit !== undefined),
+              'rate-limit-calls': text(p.rateLimit?.calls ?? 0),
+              'rate-limit-millis': text(p.rateLimit?.millis ?? 0),
+              'cb-enabled': text(p.circuitBreaker !== undefined),
+              'cb-calls': text(p.circuitBreaker?.calls ?? 0),
+              'cb-millis': text(p.circuitBreaker?.millis ?? 0),
+            },
+          ),
+        ),
+        service: serviceList.map((s) =>
+          element(
+            {'service-id': s.id},
+            {
+              'service-type': [s.type ?? 'HTTP'],
+              enabled: text(s.enabled ?? true),
+              'log-prefix': text(s.logPrefix),
+              'comm-log-enabled': text(s.communicationLog ?? false),
+              'force-prd-enabled': text(s.forcePrdLog ?? false),
+              'mock-mode-enabled': text(s.mockMode ?? false),
+              'profile-id': text(s.profile),
+              'credential-id': text(s.credential),
+            },
+          ),
+        ),
+      },
+    ),
+  };
+}
+
+/**
+ * Generates the site archive files of a definition and checks them against the
+ * known element structure.
+ *
+ * Files are laid out as the import expects them:
+ * - `meta/system-objecttype-extensions.xml` - custom attributes of system object types
+ * - `meta/custom-objecttype-definitions.xml` - custom object types
+ * - `sites/<site>/preferences.xml` - site preference values
+ * - `custom-objects/<type>.xml`, `sites/<site>/custom-objects/<type>.xml` - custom objects
+ * - `services.xml` - services, profiles and credentials
+ *
+ * @param definition - Site archive definition
+ * @returns File contents keyed by path relative to the archive root
+ * @throws SiteArchiveValidationError if a generated file does not match the known structure
+ * @throws Error on duplicate definitions
+ *
+ * @example
+ * ```typescript
+ * const files = await generateSiteArchive({
+ *   attributes: [{objectType: 'Product', id: 'color', type: 'string', group: 'Storefront'}],
+ * });
+ * console.log(files.get('meta/system-objecttype-extensions.xml'));
+ * ```
+ */
+export async function generateSiteArchive(definition: SiteArchiveDefinition): Promise<Map<string, string>> {
+  const documents = new Map<string, XmlObject | undefined>();
+
+  documents.set('meta/system-objecttype-extensions.xml', systemObjectExtensions(definition));
+  documents.set('meta/custom-objecttype-definitions.xml', customTypeDefinitions(definition.customTypes ?? []));
+
+  for (const [site, preferences] of groupBy(definition.preferences ?? [], (p) => p.site)) {
+    documents.set(`sites/${site}/preferences.xml`, sitePreferences(preferences));
+  }
+
+  const objects = definition.customObjects ?? [];
+  assertUnique(
+    objects.map((o) => `${o.site ?? ''}/${o.type}/${o.id}`),
+    'custom object',
+  );
+  for (const [file, fileObjects] of groupBy(objects, (o) =>
+    o.site ? `sites/${o.site}/custom-objects/${o.type}.xml` : `custom-objects/${o.type}.xml`,
+  )) {
+    documents.set(file, customObjects(fileObjects));
+  }
+
+  documents.set('services.xml', services(definition));
+
+  const files = new Map<string, string>();
+  const problems: Array<{file: string; message: string}> = [];
+
+  for (const [file, document] of documents) {
+    if (!document) continue;
+    const xml = `${builder.buildObject(document)}\n`;
+    for (const message of await validateSiteArchiveXml(xml)) {
+      problems.push({file, message});
+    }
+    files.set(file, xml);
+  }
+
+  if (problems.length > 0) {
+    throw new SiteArchiveValidationError(
+      `Generated site archive is invalid:\n${problems.map((p) => `  ${p.file}: ${p.message}`).join('\n')}`,
+      problems,
+    );
+  }
+
+  return files;
+}
+
+/**
+ * Builds a site archive directory from a definition.
+ *
+ * Generated files overwrite existing files in the output directory; other files
+ * are left in place.
+ *
+ * @param definition - Site archive definition
+ * @param outputDirectory - Directory to write the archive to (created if needed)
+ * @returns The written files
+ * @throws SiteArchiveValidationError if a generated file does not match the known structure
+ *
+ * @example
+ * ```typescript
+ * const {definition} = loadSiteArchiveDefinitions(['./metadata']);
+ * const result = await buildSiteArchive(definition, './site-archive');
+ * await siteArchiveImport(instance, result.directory);
+ * ```
+ */
+export async function buildSiteArchive(
+  definition: SiteArchiveDefinition,
+  outputDirectory: string,
+): Promise<SiteArchiveBuildResult> {
+  const logger = getLogger();
+  const files = await generateSiteArchive(definition);
+
+  for (const [file, content] of files) {
+    const target = path.join(outputDirectory, file);
+    await fs.promises.mkdir(path.dirname(target), {recursive: true});
+    await fs.promises.writeFile(target, content);
+    logger.debug({file: target}, `Wrote ${file}`);
+  }
+
+  return {directory: outputDirectory, files: [...files.keys()]};
+}
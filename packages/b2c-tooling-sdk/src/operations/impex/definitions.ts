@@ -0,0 +1,368 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import fs from 'node:fs';
+import path from 'node:path';
+import {parse as parseYaml} from 'yaml';
+
+/** Attribute value types supported by custom attribute definitions */
+export const ATTRIBUTE_TYPES = [
+  'boolean',
+  'date',
+  'datetime',
+  'double',
+  'email',
+  'enum-of-int',
+  'enum-of-string',
+  'html',
+  'image',
+  'int',
+  'money',
+  'password',
+  'quantity',
+  'set-of-double',
+  'set-of-int',
+  'set-of-string',
+  'string',
+  'text',
+] as const;
+
+/** Attribute value type */
+export type AttributeType = (typeof ATTRIBUTE_TYPES)[number];
+
+/** A localized string: a plain string for `x-default`, or values keyed by locale */
+export type LocalizedString = Record<string, string> | string;
+
+/**
+ * A custom attribute definition.
+ */
+export interface AttributeDefinition {
+  /** Attribute ID (without `c_` prefix) */
+  id: string;
+  type: AttributeType;
+  displayName?: LocalizedString;
+  description?: LocalizedString;
+  localizable?: boolean;
+  siteSpecific?: boolean;
+  mandatory?: boolean;
+  externallyManaged?: boolean;
+  minLength?: number;
+  minValue?: number;
+  maxValue?: number;
+  regex?: string;
+  /** Allowed values of enum attributes; the `default` value is selected by default */
+  values?: Array<{value: number | string; display?: LocalizedString; default?: boolean}>;
+  /** Default value of non-enum attributes */
+  defaultValue?: boolean | number | string;
+  /** Attribute group the attribute is shown in (created if needed) */
+  group?: string;
+}
+
+/**
+ * A custom attribute added to a system object type.
+ */
+export interface SystemAttributeDefinition extends AttributeDefinition {
+  /** System object type, e.g. `Product`, `Order`, `SitePreferences` */
+  objectType: string;
+}
+
+/**
+ * A custom object type.
+ */
+export interface CustomTypeDefinition {
+  /** Type ID */
+  id: string;
+  displayName?: LocalizedString;
+  description?: LocalizedString;
+  /** Key attribute ID (default: `ID`) */
+  keyAttribute?: string;
+  /** `site` for site-specific objects (default: `organization`) */
+  storageScope?: 'organization' | 'site';
+  /** Days after which objects are deleted */
+  retentionDays?: number;
+  attributes?: AttributeDefinition[];
+}
+
+/**
+ * Custom site preference values.
+ */
+export interface PreferenceValuesDefinition {
+  /** Site ID */
+  site: string;
+  /** Instance type the values apply to (default: `all-instances`) */
+  instanceType?: 'all-instances' | 'development' | 'production' | 'staging';
+  /** Values keyed by preference ID (without `c_` prefix) */
+  values: Record<string, boolean | number | string | string[]>;
+}
+
+/**
+ * A custom object instance.
+ */
+export interface CustomObjectDefinition {
+  /** Custom object type ID */
+  type: string;
+  /** Key value */
+  id: string;
+  /** Site ID for site-scoped types (default: organization) */
+  site?: string;
+  /** Attribute values keyed by attribute ID */
+  attributes?: Record<string, boolean | number | string | string[]>;
+}
+
+/**
+ * A service definition.
+ */
+export interface ServiceDefinition {
+  /** Service ID */
+  id: string;
+  /** Service type (default: `HTTP`) */
+  type?: string;
+  /** Default: true */
+  enabled?: boolean;
+  logPrefix?: string;
+  communicationLog?: boolean;
+  forcePrdLog?: boolean;
+  mockMode?: boolean;
+  /** Service profile ID */
+  profile?: string;
+  /** Service credential ID */
+  credential?: string;
+}
+
+/**
+ * A service profile definition.
+ */
+export interface ServiceProfileDefinition {
+  /** Profile ID */
+  id: string;
+  /** Timeout in ms (default: 1000) */
+  timeout?: number;
+  /** Rate limit; disabled if not set */
+  rateLimit?: {calls: number; millis: number};
+  /** Circuit breaker; disabled if not set */
+  circuitBreaker?: {calls: number; millis: number};
+}
+
+/**
+ * A service credential definition.
+ */
+export interface ServiceCredentialDefinition {
+  /** Credential ID */
+  id: string;
+  url?: string;
+  user?: string;
+  password?: string;
+}
+
+/**
+ * Structured definition of site archive content.
+ *
+ * Each section is optional; definitions from several files are merged with
+ * {@link mergeSiteArchiveDefinitions}.
+ */
+export interface SiteArchiveDefinition {
+  /** Custom attributes of system object types */
+  attributes?: SystemAttributeDefinition[];
+  /** Custom object types */
+  customTypes?: CustomTypeDefinition[];
+  /** Site preference values */
+  preferences?: PreferenceValuesDefinition[];
+  /** Custom object instances */
+  customObjects?: CustomObjectDefinition[];
+  services?: ServiceDefinition[];
+  serviceProfiles?: ServiceProfileDefinition[];
+  serviceCredentials?: ServiceCredentialDefinition[];
+}
+
+const SECTIONS: Array<keyof SiteArchiveDefinition> = [
+  'attributes',
+  'customTypes',
+  'preferences',
+  'customObjects',
+  'services',
+  'serviceProfiles',
+  'serviceCredentials',
+];
+
+/** Required string fields per section */
+const REQUIRED_FIELDS: Record<keyof SiteArchiveDefinition, string[]> = {
+  attributes: ['objectType', 'id', 'type'],
+  customTypes: ['id'],
+  preferences: ['site'],
+  customObjects: ['type', 'id'],
+  services: ['id'],
+  serviceProfiles: ['id'],
+  serviceCredentials: ['id'],
+};
+
+const INSTANCE_TYPES = ['all-instances', 'development', 'staging', 'production'];
+
+function validateAttribute(attribute: AttributeDefinition, label: string): void {
+  if (typeof attribute.id !== 'string') {
+    throw new Error(`${label}: "id" is required`);
+  }
+  if (!ATTRIBUTE_TYPES.includes(attribute.type)) {
+    throw new Error(`${label}: "type" must be one of ${ATTRIBUTE_TYPES.join(', ')}`);
+  }
+  if (attribute.values !== undefined && !attribute.type.startsWith('enum-of-')) {
+    throw new Error(`${label}: "values" is only supported for enum-of-string and enum-of-int attributes`);
+  }
+}
+
+/**
+ * Parses and validates a site archive definition.
+ *
+ * @param content - Definition JSON or YAML
+ * @param format - Format of the content (default: `json`)
+ * @returns The definition
+ * @throws Error describing the first invalid entry
+ *
+ * @example
+ * ```typescript
+ * const definition = parseSiteArchiveDefinition(JSON.stringify({
+ *   attributes: [{objectType: 'Product', id: 'color', type: 'string'}],
+ * }));
+ * ```
+ */
+export function parseSiteArchiveDefinition(content: string, format: 'json' | 'yaml' = 'json'): SiteArchiveDefinition {
+  let json: unknown;
+  try {
+    json = format === 'yaml' ? parseYaml(content) : JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Invalid definition ${format.toUpperCase()}`, {cause: error});
+  }
+
+  if (!json || typeof json !== 'object' || Array.isArray(json)) {
+    throw new Error('Definition must be an object');
+  }
+
+  const definition = json as Record<string, unknown>;
+  const unknownSections = Object.keys(definition).filter((k) => !SECTIONS.includes(k as keyof SiteArchiveDefinition));
+  if (unknownSections.length > 0) {
+    throw new Error(`Unknown section(s) ${unknownSections.join(', ')} (supported: ${SECTIONS.join(', ')})`);
+  }
+
+  for (const section of SECTIONS) {
+    const entries = definition[section];
+    if (entries === undefined) continue;
+    if (!Array.isArray(entries)) {
+      throw new Error(`"${section}" must be a list`);
+    }
+
+    for (const [index, entry] of entries.entries()) {
+      const label = `${section}[${index}]`;
+      if (!entry || typeof entry !== 'object') {
+        throw new Error(`${label} must be an object`);
+      }
+      for (const field of REQUIRED_FIELDS[section]) {
+        if (typeof (entry as Record<string, unknown>)[field] !== 'string') {
+          throw new Error(`${label}: "${field}" is required`);
+        }
+      }
+    }
+  }
+
+  const result = definition as SiteArchiveDefinition;
+
+  for (const [index, attribute] of (result.attributes ?? []).entries()) {
+    validateAttribute(attribute, `attributes[${index}]`);
+  }
+  for (const [index, type] of (result.customTypes ?? []).entries()) {
+    for (const [attrIndex, attribute] of (type.attributes ?? []).entries()) {
+      validateAttribute(attribute, `customTypes[${index}].attributes[${attrIndex}]`);
+    }
+  }
+  for (const [index, preferences] of (result.preferences ?? []).entries()) {
+    if (preferences.instanceType !== undefined && !INSTANCE_TYPES.includes(preferences.instanceType)) {
+      throw new Error(`preferences[${index}]: "instanceType" must be one of ${INSTANCE_TYPES.join(', ')}`);
+    }
+    if (!preferences.values || typeof preferences.values !== 'object') {
+      throw new Error(`preferences[${index}]: "values" is required`);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Merges several definitions by concatenating their sections.
+ *
+ * @param definitions - Definitions to merge
+ * @returns The merged definition
+ */
+export function mergeSiteArchiveDefinitions(definitions: SiteArchiveDefinition[]): SiteArchiveDefinition {
+  const merged: Record<string, unknown[]> = {};
+
+  for (const definition of definitions) {
+    for (const section of SECTIONS) {
+      const entries = definition[section];
+      if (entries) {
+        merged[section] = [...(merged[section] ?? []), ...entries];
+      }
+    }
+  }
+
+  return merged as SiteArchiveDefinition;
+}
+
+/**
+ * Lists the definition files of a path: the file itself, or the `.json`, `.yml` and `.yaml` files of a directory
+ * (recursively, sorted).
+ */
+function listDefinitionFiles(sourcePath: string): string[] {
+  if (!fs.existsSync(sourcePath)) {
+    throw new Error(`Definition path not found: ${sourcePath}`);
+  }
+
+  if (!fs.statSync(sourcePath).isDirectory()) {
+    return [sourcePath];
+  }
+
+  return fs
+    .readdirSync(sourcePath, {recursive: true, withFileTypes: true})
+    .filter((entry) => entry.isFile() && /\.(json|ya?ml)$/i.test(entry.name))
+    .map((entry) => path.join(entry.parentPath, entry.name))
+    .sort();
+}
+
+/**
+ * Loads and merges definition files.
+ *
+ * Definition files are JSON, or YAML if the file name ends with `.yml` or `.yaml`.
+ * Directories are searched recursively for `.json`, `.yml` and `.yaml` files.
+ *
+ * @param sourcePaths - Definition files or directories
+ * @returns The merged definition and the files it was loaded from
+ * @throws Error if a file cannot be read or is invalid
+ *
+ * @example
+ * ```typescript
+ * const {definition, files} = loadSiteArchiveDefinitions(['./metadata']);
+ * ```
+ */
+export function loadSiteArchiveDefinitions(sourcePaths: string[]): {
+  definition: SiteArchiveDefinition;
+  files: string[];
+} {
+  const files = sourcePaths.flatMap((p) => listDefinitionFiles(p));
+  const definitions: SiteArchiveDefinition[] = [];
+
+  for (const file of files) {
+    let content: string;
+    try {
+      content = fs.readFileSync(file, 'utf8');
+    } catch (error) {
+      throw new Error(`Failed to read definition file ${file}`, {cause: error});
+    }
+
+    try {
+      definitions.push(parseSiteArchiveDefinition(content, /\.ya?ml$/i.test(file) ? 'yaml' : 'json'));
+    } catch (error) {
+      throw new Error(`${file}: ${(error as Error).message}`, {cause: error});
+    }
+  }
+
+  return {definition: mergeSiteArchiveDefinitions(definitions), files};
+}
@@ -0,0 +1,58 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+/**
+ * Site archive building for B2C Commerce.
+ *
+ * This module generates site archive (IMPEX) XML from structured JSON or YAML
+ * definitions of custom attributes, custom object types, site preferences,
+ * custom objects and services, so metadata can be kept reviewable in source
+ * control and imported with `siteArchiveImport`.
+ *
+ * ## Functions
+ *
+ * - {@link loadSiteArchiveDefinitions} - Load and merge definition files
+ * - {@link parseSiteArchiveDefinition} - Parse and validate a definition
+ * - {@link generateSiteArchive} - Generate the archive files in memory
+ * - {@link buildSiteArchive} - Write the archive to a directory
+ * - {@link validateSiteArchiveXml} - Check XML against the known element structure
+ *
+ * ## Usage
+ *
+ * ```typescript
+ * import {loadSiteArchiveDefinitions, buildSiteArchive} from '@salesforce/b2c-tooling-sdk/operations/impex';
+ * import {siteArchiveImport} from '@salesforce/b2c-tooling-sdk/operations/jobs';
+ *
+ * const {definition} = loadSiteArchiveDefinitions(['./metadata']);
+ * const result = await buildSiteArchive(definition, './site-archive');
+ * await siteArchiveImport(instance, result.directory);
+ * ```
+ *
+ * @module operations/impex
+ */
+export {
+  ATTRIBUTE_TYPES,
+  loadSiteArchiveDefinitions,
+  mergeSiteArchiveDefinitions,
+  parseSiteArchiveDefinition,
+} from './definitions.js';
+export type {
+  AttributeDefinition,
+  AttributeType,
+  CustomObjectDefinition,
+  CustomTypeDefinition,
+  LocalizedString,
+  PreferenceValuesDefinition,
+  ServiceCredentialDefinition,
+  ServiceDefinition,
+  ServiceProfileDefinition,
+  SiteArchiveDefinition,
+  SystemAttributeDefinition,
+} from './definitions.js';
+
+export {buildSiteArchive, generateSiteArchive, SiteArchiveValidationError} from './build.js';
+export type {SiteArchiveBuildResult} from './build.js';
+
+export {SITE_ARCHIVE_NAMESPACES, validateSiteArchiveXml} from './schema.js';
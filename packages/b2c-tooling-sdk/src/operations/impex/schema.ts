@@ -0,0 +1,262 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import {parseStringPromise, processors} from 'xml2js';
+
+/** Namespaces of the site archive documents the builder generates */
+export const SITE_ARCHIVE_NAMESPACES = {
+  'custom-objects': 'http://www.demandware.com/xml/impex/customobject/2006-10-31',
+  metadata: 'http://www.demandware.com/xml/impex/metadata/2006-10-31',
+  preferences: 'http://www.demandware.com/xml/impex/preferences/2007-03-31',
+  services: 'http://www.demandware.com/xml/impex/services/2014-09-26',
+} as const;
+
+/**
+ * Known structure of an element.
+ */
+interface ElementRule {
+  /** Allowed child elements, in the order the import expects them */
+  children?: string[];
+  /** Children that must be present */
+  required?: string[];
+  /** Attributes that must be present */
+  attributes?: string[];
+  /** Whether child elements may appear in any order */
+  unordered?: boolean;
+}
+
+const INSTANCE_TYPES = ['all-instances', 'development', 'staging', 'production'];
+
+const ATTRIBUTE_DEFINITION: ElementRule = {
+  attributes: ['attribute-id'],
+  children: [
+    'display-name',
+    'description',
+    'type',
+    'localizable-flag',
+    'site-specific-flag',
+    'mandatory-flag',
+    'visible-flag',
+    'externally-managed-flag',
+    'order-required-flag',
+    'externally-defined-flag',
+    'min-length',
+    'field-length',
+    'field-height',
+    'scale',
+    'min-value',
+    'max-value',
+    'unit',
+    'regex',
+    'select-multiple-flag',
+    'value-definitions',
+    'default-value',
+  ],
+  required: ['type'],
+};
+
+/**
+ * Element structure of the supported documents. Elements without a rule are
+ * text elements and must not contain child elements.
+ */
+const ELEMENTS: Record<string, ElementRule> = {
+  // metadata
+  metadata: {children: ['custom-type', 'type-extension'], unordered: true},
+  'custom-type': {
+    attributes: ['type-id'],
+    children: [
+      'display-name',
+      'description',
+      'staging-mode',
+      'storage-scope',
+      'retention-days',
+      'key-definition',
+      'attribute-definitions',
+      'group-definitions',
+    ],
+    required: ['key-definition'],
+  },
+  'key-definition': {
+    attributes: ['attribute-id'],
+    children: ['display-name', 'description', 'type', 'min-length'],
+    required: ['type'],
+  },
+  'type-extension': {
+    attributes: ['type-id'],
+    children: ['custom-attribute-definitions', 'system-attribute-definitions', 'group-definitions'],
+  },
+  'attribute-definitions': {children: ['attribute-definition']},
+  'custom-attribute-definitions': {children: ['attribute-definition']},
+  'system-attribute-definitions': {children: ['attribute-definition']},
+  'attribute-definition': ATTRIBUTE_DEFINITION,
+  'value-definitions': {children: ['value-definition']},
+  'value-definition': {children: ['display', 'value'], required: ['value']},
+  'group-definitions': {children: ['attribute-group']},
+  'attribute-group': {attributes: ['group-id'], children: ['display-name', 'description', 'attribute']},
+  attribute: {attributes: ['attribute-id'], children: []},
+
+  // preferences
+  preferences: {children: ['custom-preferences', 'standard-preferences']},
+  'custom-preferences': {children: INSTANCE_TYPES},
+  'standard-preferences': {children: INSTANCE_TYPES},
+  ...Object.fromEntries(INSTANCE_TYPES.map((type) => [type, {children: ['preference']}])),
+  preference: {attributes: ['preference-id'], children: ['value']},
+
+  // custom objects
+  'custom-objects': {children: ['custom-object']},
+  'custom-object': {attributes: ['type-id', 'object-id'], children: ['object-attribute']},
+  'object-attribute': {attributes: ['attribute-id'], children: ['value']},
+
+  // services
+  services: {children: ['service-credential', 'service-profile', 'service']},
+  'service-credential': {attributes: ['service-credential-id'], children: ['url', 'user-id', 'password']},
+  'service-profile': {
+    attributes: ['service-profile-id'],
+    children: [
+      'timeout-millis',
+      'rate-limit-enabled',
+      'rate-limit-calls',
+      'rate-limit-millis',
+      'cb-enabled',
+      'cb-calls',
+      'cb-millis',
+    ],
+  },
+  service: {
+    attributes: ['service-id'],
+    children: [
+      'service-type',
+      'enabled',
+      'log-prefix',
+      'comm-log-enabled',
+      'force-prd-enabled',
+      'mock-mode-enabled',
+      'profile-id',
+      'credential-id',
+    ],
+  },
+};
+
+/** Text elements that must contain `true` or `false` */
+const BOOLEAN_ELEMENT = /(-flag|enabled)$/;
+
+/** Text elements that must contain an integer */
+const INTEGER_ELEMENTS = new Set([
+  'cb-calls',
+  'cb-millis',
+  'field-height',
+  'field-length',
+  'min-length',
+  'rate-limit-calls',
+  'rate-limit-millis',
+  'retention-days',
+  'timeout-millis',
+]);
+
+/** xml2js node with ordered children (explicitChildren, preserveChildrenOrder) */
+interface OrderedNode {
+  '#name': string;
+  $?: Record<string, string>;
+  _?: string;
+  $$?: OrderedNode[];
+}
+
+function validateElement(node: OrderedNode, location: string, problems: string[]): void {
+  const name = node['#name'];
+  const rule = ELEMENTS[name];
+  const children = node.$$ ?? [];
+
+  if (!rule) {
+    if (children.length > 0) {
+      problems.push(`${location}: <${name}> must not contain elements`);
+    }
+    const text = node._?.trim() ?? '';
+    if (BOOLEAN_ELEMENT.test(name) && text !== 'true' && text !== 'false') {
+      problems.push(`${location}: <${name}> must be true or false, got "${text}"`);
+    }
+    if (INTEGER_ELEMENTS.has(name) && !/^\d+$/.test(text)) {
+      problems.push(`${location}: <${name}> must be a non-negative integer, got "${text}"`);
+    }
+    return;
+  }
+
+  for (const attribute of rule.attributes ?? []) {
+    if (!node.$?.[attribute]) {
+      problems.push(`${location}: <${name}> is missing attribute "${attribute}"`);
+    }
+  }
+
+  const allowed = rule.children ?? [];
+  let lastPosition = 0;
+  for (const child of children) {
+    const childName = child['#name'];
+    const key = child.$ ? Object.values(child.$)[0] : undefined;
+    const childLocation = `${location}/${childName}${key ? `[${key}]` : ''}`;
+    const position = allowed.indexOf(childName);
+
+    if (position === -1) {
+      problems.push(`${location}: unexpected element <${childName}> in <${name}>`);
+      continue;
+    }
+    if (!rule.unordered && position < lastPosition) {
+      problems.push(`${childLocation}: <${childName}> must come before <${allowed[lastPosition]}>`);
+    }
+    lastPosition = Math.max(lastPosition, position);
+
+    validateElement(child, childLocation, problems);
+  }
+
+  for (const required of rule.required ?? []) {
+    if (!children.some((c) => c['#name'] === required)) {
+      problems.push(`${location}: <${name}> is missing element <${required}>`);
+    }
+  }
+}
+
+/**
+ * Checks a site archive XML document against the known element structure.
+ *
+ * Covers object type definitions (`metadata`), preferences, custom objects and
+ * services: element names and order, required elements and attributes, and
+ * boolean and integer values. This catches most mistakes before an import job
+ * rejects the archive; it is not a full XSD validation.
+ *
+ * @param xml - XML document
+ * @returns Problems found (empty if the document is valid)
+ *
+ * @example
+ * ```typescript
+ * const problems = await validateSiteArchiveXml(fs.readFileSync('meta/system-objecttype-extensions.xml', 'utf8'));
+ * if (problems.length > 0) console.error(problems.join('\n'));
+ * ```
+ */
+export async function validateSiteArchiveXml(xml: string): Promise<string[]> {
+  let parsed: Record<string, OrderedNode>;
+  try {
+    parsed = await parseStringPromise(xml, {
+      explicitChildren: true,
+      preserveChildrenOrder: true,
+      tagNameProcessors: [processors.stripPrefix],
+    });
+  } catch (error) {
+    return [`Invalid XML: ${(error as Error).message}`];
+  }
+
+  const [rootName] = Object.keys(parsed);
+  const root = parsed[rootName];
+  const namespace = SITE_ARCHIVE_NAMESPACES[rootName as keyof typeof SITE_ARCHIVE_NAMESPACES];
+
+  if (!namespace) {
+    return [`Unsupported root element <${rootName}>`];
+  }
+
+  const problems: string[] = [];
+  if (root.$?.xmlns !== namespace) {
+    problems.push(`${rootName}: expected namespace ${namespace}`);
+  }
+  validateElement(root, rootName, problems);
+
+  return problems;
+}
@@ -17,12 +17,14 @@
  * - {@link searchJobExecutions} - Search for job executions
  * - {@link findRunningJobExecution} - Find a running execution
  * - {@link getJobLog} - Retrieve job log file content
+ * - {@link followJobExecution} - Stream log lines and status changes of a running job
  *
  * ## System Jobs
  *
  * - {@link siteArchiveImport} - Import a site archive
  * - {@link siteArchiveExport} - Export a site archive
  * - {@link siteArchiveExportToPath} - Export and save to local path
+ * - {@link siteArchiveDiff} - Export and compare with a local site archive directory
  *
  * ## Usage
  *
@@ -73,6 +75,7 @@ export {
   searchJobExecutions,
   findRunningJobExecution,
   getJobLog,
+  followJobExecution,
   getJobErrorMessage,
   JobExecutionError,
 } from './run.js';
@@ -84,6 +87,8 @@ export type {
   JobExecutionParameter,
   ExecuteJobOptions,
   WaitForJobOptions,
+  FollowJobOptions,
+  JobFollowEvent,
   SearchJobExecutionsOptions,
   JobExecutionSearchResult,
 } from './run.js';
@@ -100,3 +105,14 @@ export type {
   ExportSitesConfiguration,
   ExportGlobalDataConfiguration,
 } from './site-archive.js';
+
+// Site archive diff
+export {siteArchiveDiff, diffSiteArchiveFiles, diffSiteArchiveXml} from './site-archive-diff.js';
+
+export type {
+  SiteArchiveChange,
+  SiteArchivePropertyChange,
+  SiteArchiveFileDiff,
+  SiteArchiveDiffOptions,
+  SiteArchiveDiffResult,
+} from './site-archive-diff.js';
@@ -46,6 +46,28 @@ export interface ExecuteJobOptions {
   waitForRunning?: boolean;
 }
 
+/**
+ * Options for following a job execution.
+ */
+export interface FollowJobOptions {
+  /** Polling interval in milliseconds (default: 3000) */
+  pollInterval?: number;
+  /** Maximum time to follow in milliseconds (default: no limit) */
+  timeout?: number;
+}
+
+/**
+ * Event emitted while following a job execution.
+ *
+ * - `log`: a new line was appended to the execution's log file
+ * - `step`: a step execution changed its status
+ * - `status`: the job execution changed its status
+ */
+export type JobFollowEvent =
+  | {type: 'log'; line: string}
+  | {type: 'status'; execution: JobExecution; previousStatus?: JobExecutionStatus}
+  | {type: 'step'; step: JobStepExecution; previousStatus?: string};
+
 /**
  * Options for waiting on a job.
  */
@@ -447,14 +469,110 @@ export async function getJobLog(instance: B2CInstance, execution: JobExecution):
     throw new Error('Log file does not exist');
   }
 
-  // log_file_path from OCAPI is "/Sites/LOGS/jobs/..."
-  // WebDAV client base is /webdav/Sites, so strip the leading /Sites/
-  const logPath = execution.log_file_path.replace(/^\/Sites\//, '');
-
-  const content = await instance.webdav.get(logPath);
+  const content = await instance.webdav.get(toWebDavLogPath(execution.log_file_path));
   return new TextDecoder().decode(content);
 }
 
+/**
+ * Follows a job execution until it completes, streaming its log file.
+ *
+ * Polls the execution status and reads newly appended log content with ranged
+ * WebDAV GETs. Yields a `log` event per complete log line, `step` events when a
+ * step execution changes status and `status` events when the execution changes status.
+ *
+ * @param instance - B2C instance
+ * @param jobId - Job ID
+ * @param executionId - Execution ID to follow
+ * @param options - Follow options
+ * @returns Final execution status (generator return value)
+ * @throws JobExecutionError if the job fails (after all log lines were yielded)
+ * @throws Error if timeout is exceeded
+ *
+ * @example
+ * ```typescript
+ * for await (const event of followJobExecution(instance, 'my-job', 'exec-123')) {
+ *   if (event.type === 'log') {
+ *     console.log(event.line);
+ *   } else if (event.type === 'step') {
+ *     console.log(`Step ${event.step.step_id}: ${event.step.status}`);
+ *   }
+ * }
+ * ```
+ */
+export async function* followJobExecution(
+  instance: B2CInstance,
+  jobId: string,
+  executionId: string,
+  options: FollowJobOptions = {},
+): AsyncGenerator<JobFollowEvent, JobExecution> {
+  const logger = getLogger();
+  const {pollInterval = 3000, timeout} = options;
+
+  const startTime = Date.now();
+  const decoder = new TextDecoder();
+  const stepStatuses = new Map<string, string | undefined>();
+  let status: JobExecutionStatus | undefined;
+  let offset = 0;
+  let pending = '';
+
+  while (true) {
+    const execution = await getJobExecution(instance, jobId, executionId);
+
+    if (execution.execution_status !== status) {
+      yield {type: 'status', execution, previousStatus: status};
+      status = execution.execution_status;
+    }
+
+    for (const step of execution.step_executions ?? []) {
+      const stepKey = step.id ?? step.step_id ?? '';
+      const stepStatus = step.status ?? step.execution_status;
+      if (stepStatuses.get(stepKey) !== stepStatus) {
+        yield {type: 'step', step, previousStatus: stepStatuses.get(stepKey)};
+        stepStatuses.set(stepKey, stepStatus);
+      }
+    }
+
+    if (execution.log_file_path && execution.is_log_file_existing) {
+      const chunk = await instance.webdav.getRange(toWebDavLogPath(execution.log_file_path), offset);
+      offset += chunk.byteLength;
+
+      const lines = (pending + decoder.decode(chunk, {stream: true})).split(/\r?\n/);
+      pending = lines.pop() ?? '';
+      for (const line of lines) {
+        yield {type: 'log', line};
+      }
+    }
+
+    const failed = execution.execution_status === 'aborted' || execution.exit_status?.code === 'ERROR';
+    if (failed || execution.execution_status === 'finished') {
+      if (pending) {
+        yield {type: 'log', line: pending};
+      }
+      if (failed) {
+        logger.debug({execution}, `Job ${jobId} failed`);
+        throw new JobExecutionError(`Job ${jobId} failed`, execution);
+      }
+      return execution;
+    }
+
+    if (timeout && Date.now() - startTime > timeout) {
+      throw new Error(`Timeout waiting for job ${jobId} execution ${executionId}`);
+    }
+
+    await sleep(pollInterval);
+  }
+}
+
+/**
+ * Converts an OCAPI log file path to a WebDAV path.
+ *
+ * log_file_path from OCAPI is "/Sites/LOGS/jobs/..."; the WebDAV client base
+ * is /webdav/Sites, so the leading /Sites/ is stripped.
+ */
+function toWebDavLogPath(logFilePath: string): string {
+  return logFilePath.replace(/^\/Sites\//, '');
+}
+
 /**
  * Helper function for sleeping.
  */
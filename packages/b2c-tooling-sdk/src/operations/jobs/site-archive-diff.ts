@@ -0,0 +1,469 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+/**
+ * Semantic comparison of site archives.
+ *
+ * Compares an export from an instance with a local site archive directory,
+ * reporting changed entities (object types, preferences, custom objects) and
+ * their attributes instead of line differences.
+ */
+import fs from 'node:fs';
+import path from 'node:path';
+import JSZip from 'jszip';
+import {parseStringPromise} from 'xml2js';
+import type {B2CInstance} from '../../instance/index.js';
+import {getLogger} from '../../logging/logger.js';
+import type {JobExecution} from './run.js';
+import {siteArchiveExport, type ExportDataUnitsConfiguration, type SiteArchiveExportOptions} from './site-archive.js';
+
+/**
+ * A changed property of an entity or item.
+ */
+export interface SiteArchivePropertyChange {
+  /** Property path within the element, e.g. `type` or `display-name[x-default]` (`value` for text content) */
+  name: string;
+  /** Value in the local file (undefined if not set) */
+  local?: string;
+  /** Value on the instance (undefined if not set) */
+  remote?: string;
+}
+
+/**
+ * A semantic change in a site archive file, read as going from the local file to the instance.
+ */
+export interface SiteArchiveChange {
+  /** `added`: only on the instance, `removed`: only in the local file */
+  type: 'added' | 'changed' | 'removed';
+  /** Entity, e.g. `type-extension Product`, `custom-preferences (development)`, `custom-object SiteConfig/checkout` */
+  entity: string;
+  /**
+   * Item within the entity, e.g. `attribute c_color` or `preference enableFoo`, with other
+   * identifying attributes in brackets, e.g. `attribute name[de]` (entity itself if omitted)
+   */
+  item?: string;
+  /** Changed properties (`changed` only) */
+  properties?: SiteArchivePropertyChange[];
+}
+
+/**
+ * Differences of a single file.
+ */
+export interface SiteArchiveFileDiff {
+  /** Path relative to the archive root */
+  path: string;
+  /** `added`: only on the instance, `removed`: only in the local directory */
+  status: 'added' | 'changed' | 'removed';
+  /** Semantic changes (XML files that exist on both sides) */
+  changes: SiteArchiveChange[];
+}
+
+/**
+ * Options for {@link siteArchiveDiff}.
+ */
+export interface SiteArchiveDiffOptions extends SiteArchiveExportOptions {
+  /**
+   * Also report local files in directories the export does not contain
+   * (default: false, as the export only covers the requested data units)
+   */
+  includeUnexported?: boolean;
+}
+
+/**
+ * Result of {@link siteArchiveDiff}.
+ */
+export interface SiteArchiveDiffResult {
+  /** Export job execution */
+  execution: JobExecution;
+  /** Files that differ */
+  files: SiteArchiveFileDiff[];
+  /** Number of compared files */
+  compared: number;
+}
+
+/** Flattened element properties: path → value */
+type Properties = Record<string, string>;
+
+interface XmlEntity {
+  /** Properties of the entity element without its items */
+  properties: Properties;
+  /** Keyed child items (attributes, preferences, ...) */
+  items: Map<string, Properties>;
+}
+
+/** xml2js node (explicitArray, attributes in `$`, text in `_`) */
+type XmlNode = string | {$?: Record<string, string>; _?: string; [child: string]: unknown};
+
+/** Item collections per entity: path of child elements to the items, key attribute and item label */
+interface ItemRule {
+  path: string[];
+  key: string;
+  label: string;
+}
+
+const OBJECT_TYPE_ITEMS: ItemRule[] = [
+  {path: ['custom-attribute-definitions', 'attribute-definition'], key: 'attribute-id', label: 'attribute'},
+  {path: ['system-attribute-definitions', 'attribute-definition'], key: 'attribute-id', label: 'attribute'},
+  {path: ['attribute-definitions', 'attribute-definition'], key: 'attribute-id', label: 'attribute'},
+  {path: ['group-definitions', 'attribute-group'], key: 'group-id', label: 'group'},
+];
+
+function children(node: XmlNode | undefined, name: string): XmlNode[] {
+  if (!node || typeof node === 'string') return [];
+  const value = node[name];
+  return Array.isArray(value) ? (value as XmlNode[]) : [];
+}
+
+function attribute(node: XmlNode, name: string): string | undefined {
+  return typeof node === 'string' ? undefined : node.$?.[name];
+}
+
+/**
+ * Flattens an element into property paths. Repeated elements are distinguished
+ * by their first attribute (e.g. `xml:lang`) or their position.
+ */
+function flatten(node: XmlNode, prefix: string, out: Properties, skip: Set<string> = new Set()): Properties {
+  if (typeof node === 'string') {
+    if (node.trim()) out[prefix || 'value'] = node.trim();
+    return out;
+  }
+
+  for (const [name, value] of Object.entries(node.$ ?? {})) {
+    if (name !== 'xmlns' && !name.startsWith('xmlns:')) {
+      out[`${prefix}@${name}`] = value;
+    }
+  }
+  if (node._?.trim()) {
+    out[prefix || 'value'] = node._.trim();
+  }
+
+  for (const [name, value] of Object.entries(node)) {
+    if (name === '$' || name === '_' || skip.has(name) || !Array.isArray(value)) continue;
+
+    for (const [index, child] of (value as XmlNode[]).entries()) {
+      const [discriminatorAttribute] = typeof child === 'string' ? [] : Object.keys(child.$ ?? {});
+      let discriminator = value.length > 1 ? String(index) : undefined;
+      if (discriminatorAttribute !== undefined) discriminator = attribute(child, discriminatorAttribute);
+      const childPrefix = `${prefix ? `${prefix}/` : ''}${name}${discriminator === undefined ? '' : `[${discriminator}]`}`;
+      let childNode = child;
+      if (typeof child !== 'string' && discriminatorAttribute !== undefined) {
+        // The identifying attribute is part of the path already; other attributes are compared
+        const {[discriminatorAttribute]: _discriminator, ...otherAttributes} = child.$!;
+        childNode = {...child, $: otherAttributes};
+      }
+      flatten(childNode, childPrefix, out);
+    }
+  }
+
+  return out;
+}
+
+/**
+ * Builds an entity from an element, extracting the keyed items.
+ */
+function toEntity(node: XmlNode, rules: ItemRule[]): XmlEntity {
+  const items = new Map<string, Properties>();
+  const skip = new Set<string>();
+
+  for (const rule of rules) {
+    const [container, itemName] = rule.path;
+    const containers = itemName ? children(node, container) : [node];
+    for (const containerNode of containers) {
+      for (const item of children(containerNode, itemName ?? container)) {
+        const key = attribute(item, rule.key) ?? '';
+        const properties = flatten(item, '', {});
+        delete properties[`@${rule.key}`];
+        // Other attributes (e.g. `xml:lang` of localized preferences) tell apart items with the same key
+        const qualifiers = Object.keys(typeof item === 'string' ? {} : (item.$ ?? {}))
+          .filter((name) => name !== rule.key && name !== 'xmlns' && !name.startsWith('xmlns:'))
+          .sort()
+          .map((name) => {
+            delete properties[`@${name}`];
+            return attribute(item, name);
+          });
+        items.set(`${rule.label} ${key}${qualifiers.length > 0 ? `[${qualifiers.join(',')}]` : ''}`, properties);
+      }
+    }
+    skip.add(container);
+  }
+
+  const own = typeof node === 'string' ? node : {...node};
+  return {properties: flatten(own, '', {}, skip), items};
+}
+
+/**
+ * Extracts the entities of a site archive XML document.
+ *
+ * Object type definitions (`metadata`), preferences and custom objects are split
+ * into entities with keyed items; other documents are compared as one entity.
+ */
+function extractEntities(root: string, node: XmlNode): Map<string, XmlEntity> {
+  const entities = new Map<string, XmlEntity>();
+
+  switch (root) {
+    case 'metadata': {
+      for (const kind of ['type-extension', 'custom-type']) {
+        for (const type of children(node, kind)) {
+          const entity = toEntity(type, OBJECT_TYPE_ITEMS);
+          delete entity.properties['@type-id'];
+          entities.set(`${kind} ${attribute(type, 'type-id')}`, entity);
+        }
+      }
+      break;
+    }
+
+    case 'preferences': {
+      for (const group of ['custom-preferences', 'standard-preferences']) {
+        for (const groupNode of children(node, group)) {
+          if (typeof groupNode === 'string') continue;
+          for (const instanceType of Object.keys(groupNode).filter((k) => k !== '$' && k !== '_')) {
+            for (const scope of children(groupNode, instanceType)) {
+              entities.set(
+                `${group} (${instanceType})`,
+                toEntity(scope, [{path: ['preference'], key: 'preference-id', label: 'preference'}]),
+              );
+            }
+          }
+        }
+      }
+      break;
+    }
+
+    case 'custom-objects': {
+      for (const object of children(node, 'custom-object')) {
+        const entity = toEntity(object, [{path: ['object-attribute'], key: 'attribute-id', label: 'attribute'}]);
+        delete entity.properties['@type-id'];
+        delete entity.properties['@object-id'];
+        entities.set(`custom-object ${attribute(object, 'type-id')}/${attribute(object, 'object-id')}`, entity);
+      }
+      break;
+    }
+
+    default: {
+      entities.set(root, {properties: flatten(node, '', {}), items: new Map()});
+    }
+  }
+
+  return entities;
+}
+
+function diffProperties(local: Properties, remote: Properties): SiteArchivePropertyChange[] {
+  const names = [...new Set([...Object.keys(local), ...Object.keys(remote)])].sort();
+  return names
+    .filter((name) => local[name] !== remote[name])
+    .map((name) => ({name, local: local[name], remote: remote[name]}));
+}
+
+async function parseXml(xml: string): Promise<{root: string; node: XmlNode}> {
+  const parsed = (await parseStringPromise(xml, {explicitArray: true})) as Record<string, XmlNode>;
+  const [root] = Object.keys(parsed);
+  return {root, node: parsed[root]};
+}
+
+/**
+ * Compares two versions of a site archive XML file semantically.
+ *
+ * Element order, whitespace and namespace declarations are ignored. Object type
+ * definitions are compared per attribute definition and attribute group,
+ * preferences per preference and instance type, and custom objects per object
+ * and attribute. Other documents are compared property by property.
+ *
+ * @param localXml - Content of the local file
+ * @param remoteXml - Content of the file exported from the instance
+ * @returns Changes from the local file to the instance (empty if equivalent)
+ * @throws Error if either document is not valid XML
+ *
+ * @example
+ * ```typescript
+ * const changes = await diffSiteArchiveXml(localXml, remoteXml);
+ * for (const change of changes) {
+ *   console.log(change.type, change.entity, change.item ?? '');
+ * }
+ * ```
+ */
+export async function diffSiteArchiveXml(localXml: string, remoteXml: string): Promise<SiteArchiveChange[]> {
+  const local = await parseXml(localXml);
+  const remote = await parseXml(remoteXml);
+
+  const localEntities = extractEntities(local.root, local.node);
+  const remoteEntities = extractEntities(remote.root, remote.node);
+  const changes: SiteArchiveChange[] = [];
+
+  for (const [entity, localEntity] of localEntities) {
+    const remoteEntity = remoteEntities.get(entity);
+    if (!remoteEntity) {
+      changes.push({type: 'removed', entity});
+      continue;
+    }
+
+    const properties = diffProperties(localEntity.properties, remoteEntity.properties);
+    if (properties.length > 0) {
+      changes.push({type: 'changed', entity, properties});
+    }
+
+    for (const [item, localItem] of localEntity.items) {
+      const remoteItem = remoteEntity.items.get(item);
+      if (!remoteItem) {
+        changes.push({type: 'removed', entity, item});
+        continue;
+      }
+      const itemProperties = diffProperties(localItem, remoteItem);
+      if (itemProperties.length > 0) {
+        changes.push({type: 'changed', entity, item, properties: itemProperties});
+      }
+    }
+    for (const item of remoteEntity.items.keys()) {
+      if (!localEntity.items.has(item)) {
+        changes.push({type: 'added', entity, item});
+      }
+    }
+  }
+
+  for (const entity of remoteEntities.keys()) {
+    if (!localEntities.has(entity)) {
+      changes.push({type: 'added', entity});
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Reads all files of a directory, keyed by their relative path with `/` separators.
+ */
+async function readDirectoryFiles(directory: string): Promise<Map<string, Buffer>> {
+  const files = new Map<string, Buffer>();
+  const entries = await fs.promises.readdir(directory, {recursive: true, withFileTypes: true});
+
+  for (const entry of entries) {
+    if (!entry.isFile()) continue;
+    const fullPath = path.join(entry.parentPath, entry.name);
+    files.set(path.relative(directory, fullPath).split(path.sep).join('/'), await fs.promises.readFile(fullPath));
+  }
+
+  return files;
+}
+
+/**
+ * Reads the files of an exported archive, without the archive's top-level directory.
+ */
+async function readArchiveFiles(data: Buffer): Promise<Map<string, Buffer>> {
+  const zip = await JSZip.loadAsync(data);
+  const files = new Map<string, Buffer>();
+
+  for (const [name, entry] of Object.entries(zip.files)) {
+    if (entry.dir) continue;
+    const relativePath = name.split('/').slice(1).join('/');
+    if (relativePath) {
+      files.set(relativePath, await entry.async('nodebuffer'));
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Compares the files of two site archives.
+ *
+ * XML files are compared with {@link diffSiteArchiveXml}, other files byte by byte.
+ *
+ * @param local - Local files by relative path
+ * @param remote - Exported files by relative path
+ * @param options - Whether to report local files outside the exported directories
+ * @returns Files that differ, sorted by path
+ */
+export async function diffSiteArchiveFiles(
+  local: Map<string, Buffer>,
+  remote: Map<string, Buffer>,
+  options: Pick<SiteArchiveDiffOptions, 'includeUnexported'> = {},
+): Promise<SiteArchiveFileDiff[]> {
+  const exportedDirs = new Set([...remote.keys()].map((p) => path.posix.dirname(p)));
+  const diffs: SiteArchiveFileDiff[] = [];
+
+  for (const [filePath, localContent] of local) {
+    const remoteContent = remote.get(filePath);
+
+    if (!remoteContent) {
+      if (options.includeUnexported || exportedDirs.has(path.posix.dirname(filePath))) {
+        diffs.push({path: filePath, status: 'removed', changes: []});
+      }
+      continue;
+    }
+
+    if (localContent.equals(remoteContent)) continue;
+
+    if (filePath.endsWith('.xml')) {
+      const changes = await diffSiteArchiveXml(localContent.toString('utf8'), remoteContent.toString('utf8'));
+      if (changes.length > 0) {
+        diffs.push({path: filePath, status: 'changed', changes});
+      }
+    } else {
+      diffs.push({path: filePath, status: 'changed', changes: []});
+    }
+  }
+
+  for (const filePath of remote.keys()) {
+    if (!local.has(filePath)) {
+      diffs.push({path: filePath, status: 'added', changes: []});
+    }
+  }
+
+  return diffs.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * Exports data units from an instance and compares them with a local site archive directory.
+ *
+ * Local files are only compared if the export contains their directory (unless
+ * `includeUnexported` is set), since the export only covers the requested data units.
+ *
+ * @param instance - B2C instance to export from
+ * @param dataUnits - Data units to export and compare
+ * @param localDirectory - Local site archive directory (e.g. containing `meta/`, `sites/`)
+ * @param options - Export and comparison options
+ * @returns Differing files with their semantic changes
+ * @throws JobExecutionError if the export job fails
+ *
+ * @example
+ * ```typescript
+ * const result = await siteArchiveDiff(instance, {global_data: {meta_data: true}}, './site-data');
+ * for (const file of result.files) {
+ *   console.log(file.status, file.path, file.changes.length);
+ * }
+ * ```
+ */
+export async function siteArchiveDiff(
+  instance: B2CInstance,
+  dataUnits: Partial<ExportDataUnitsConfiguration>,
+  localDirectory: string,
+  options: SiteArchiveDiffOptions = {},
+): Promise<SiteArchiveDiffResult> {
+  const logger = getLogger();
+
+  if (!fs.existsSync(localDirectory) || !fs.statSync(localDirectory).isDirectory()) {
+    throw new Error(`Local site archive directory not found: ${localDirectory}`);
+  }
+
+  const {includeUnexported, ...exportOptions} = options;
+  const result = await siteArchiveExport(instance, dataUnits, exportOptions);
+  if (!result.data) {
+    throw new Error('No archive data returned');
+  }
+
+  const remote = await readArchiveFiles(result.data);
+  const local = await readDirectoryFiles(localDirectory);
+  logger.debug(
+    {remote: remote.size, local: local.size},
+    `Comparing ${remote.size} exported file(s) with ${localDirectory}`,
+  );
+
+  const files = await diffSiteArchiveFiles(local, remote, {includeUnexported});
+
+  return {
+    execution: result.execution,
+    files,
+    compared: [...local.keys()].filter((p) => remote.has(p)).length,
+  };
+}
@@ -0,0 +1,149 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+
+/**
+ * A log entry. Entries span multiple lines when they include stack traces.
+ */
+export interface LogEntry {
+  /** Name of the log file the entry was read from */
+  file: string;
+  /** Prefix of the log file (e.g. `error`, `custom`, `jobs`) */
+  prefix: string;
+  /** Entry timestamp (log timestamps are GMT) */
+  timestamp?: Date;
+  /** Log level (e.g. ERROR, WARN, INFO, DEBUG, FATAL) */
+  level?: string;
+  /** Entry text after timestamp and level, including continuation lines */
+  message: string;
+  /** Raw entry text as written to the log file */
+  raw: string;
+}
+
+/**
+ * Filter for log entries. All given criteria must match.
+ */
+export interface LogFilter {
+  /** Levels to include (case-insensitive) */
+  levels?: string[];
+  /** Pattern the raw entry text must match */
+  pattern?: RegExp;
+  /** Only entries at or after this time */
+  since?: Date;
+  /** Only entries at or before this time */
+  until?: Date;
+}
+
+/** Matches the header line of a log entry: `[2025-01-01 12:00:00.123 GMT] ERROR message` */
+const ENTRY_HEADER = /^\[(\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}(?:\.\d{1,3})?) GMT\]\s+(?:([A-Z]+)\s+)?(.*)$/;
+
+const DURATION_UNITS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Parses log text into entries.
+ *
+ * Lines that do not start with a timestamp are appended to the previous entry.
+ * Leading continuation lines (e.g. the end of an entry read in a previous chunk)
+ * become an entry without timestamp and level.
+ *
+ * @param text - Log text (complete lines)
+ * @param file - Log file the text was read from
+ * @returns Parsed entries in file order
+ *
+ * @example
+ * ```typescript
+ * const entries = parseLogEntries(text, {name: 'error-blade0-1-appserver-20250101.log', prefix: 'error'});
+ * ```
+ */
+export function parseLogEntries(text: string, file: {name: string; prefix: string}): LogEntry[] {
+  const entries: LogEntry[] = [];
+  let current: LogEntry | undefined;
+
+  for (const line of text.split(/\r?\n/)) {
+    const match = ENTRY_HEADER.exec(line);
+    if (match) {
+      current = {
+        file: file.name,
+        prefix: file.prefix,
+        timestamp: new Date(`${match[1].replace(' ', 'T')}Z`),
+        level: match[2],
+        message: match[3],
+        raw: line,
+      };
+      entries.push(current);
+    } else if (current) {
+      current.message += `\n${line}`;
+      current.raw += `\n${line}`;
+    } else if (line) {
+      current = {file: file.name, prefix: file.prefix, message: line, raw: line};
+      entries.push(current);
+    }
+  }
+
+  // Drop trailing empty lines
+  for (const entry of entries) {
+    entry.message = entry.message.trimEnd();
+    entry.raw = entry.raw.trimEnd();
+  }
+
+  return entries;
+}
+
+/**
+ * Checks whether a log entry matches a filter.
+ *
+ * Entries without timestamp or level never match a time window or level filter.
+ *
+ * @param entry - Log entry
+ * @param filter - Filter criteria
+ * @returns True if all criteria match
+ */
+export function matchesLogFilter(entry: LogEntry, filter: LogFilter): boolean {
+  if (filter.levels && filter.levels.length > 0) {
+    const levels = filter.levels.map((l) => l.toUpperCase());
+    if (!entry.level || !levels.includes(entry.level)) return false;
+  }
+
+  if (filter.since && (!entry.timestamp || entry.timestamp < filter.since)) return false;
+  if (filter.until && (!entry.timestamp || entry.timestamp > filter.until)) return false;
+
+  if (filter.pattern && !filter.pattern.test(entry.raw)) return false;
+
+  return true;
+}
+
+/**
+ * Parses a point in time given as relative duration or date.
+ *
+ * Relative durations (`30s`, `15m`, `2h`, `1d`) are subtracted from `now`.
+ * Anything else is parsed as a date (e.g. `2025-01-01T12:00:00Z`).
+ *
+ * @param value - Duration or date
+ * @param now - Reference time for durations (default: current time)
+ * @returns The point in time
+ * @throws Error if the value is neither a duration nor a date
+ *
+ * @example
+ * ```typescript
+ * const since = parseLogTime('15m'); // 15 minutes ago
+ * ```
+ */
+export function parseLogTime(value: string, now: Date = new Date()): Date {
+  const duration = /^(\d+)([smhd])$/.exec(value.trim());
+  if (duration) {
+    return new Date(now.getTime() - Number(duration[1]) * DURATION_UNITS[duration[2]]);
+  }
+
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid time: ${value}. Use a duration (e.g. 15m, 2h, 1d) or a date.`);
+  }
+  return date;
+}
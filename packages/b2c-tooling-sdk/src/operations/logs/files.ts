@@ -0,0 +1,139 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import type {B2CInstance} from '../../instance/index.js';
+import type {PropfindEntry} from '../../clients/webdav.js';
+import {getLogger} from '../../logging/logger.js';
+
+/** WebDAV root of the instance log files */
+export const LOGS_ROOT = 'Logs';
+
+/**
+ * Log file prefixes read by default.
+ *
+ * `custom` matches all custom log files (`custom-<name>-...`), `jobs` matches
+ * the job logs in the `jobs` subdirectory.
+ */
+export const DEFAULT_LOG_PREFIXES = ['error', 'customerror', 'warn', 'custom', 'jobs'];
+
+/**
+ * A log file on the instance.
+ */
+export interface LogFile {
+  /** File name (e.g. `error-blade0-1-appserver-20250101.log`) */
+  name: string;
+  /** WebDAV path relative to the Sites root (e.g. `Logs/error-...log`) */
+  path: string;
+  /** Prefix the file was matched by (e.g. `error`, `custom`, `jobs`) */
+  prefix: string;
+  /** File size in bytes */
+  size: number;
+  lastModified?: Date;
+}
+
+/**
+ * Options for discovering log files.
+ */
+export interface ListLogFilesOptions {
+  /** Log file prefixes to include (default: {@link DEFAULT_LOG_PREFIXES}) */
+  prefixes?: string[];
+  /** Return all matching files instead of only the current file of each log (default: false) */
+  all?: boolean;
+}
+
+/**
+ * Returns the name of a log file without its daily rotation date,
+ * identifying the log the file belongs to.
+ */
+function getLogStream(file: LogFile): string {
+  const dir = file.path.slice(0, file.path.length - file.name.length);
+  return dir + file.name.replace(/-\d{8}(\.\d+)?\.log$/, '');
+}
+
+function toLogFile(entry: PropfindEntry, prefix: string, basePath: string): LogFile | undefined {
+  const href = decodeURIComponent(entry.href);
+  const index = href.indexOf(`/${basePath}/`);
+  if (index === -1) return undefined;
+
+  const path = href.slice(index + 1);
+  return {
+    name: path.split('/').pop()!,
+    path,
+    prefix,
+    size: entry.contentLength ?? 0,
+    lastModified: entry.lastModified,
+  };
+}
+
+/**
+ * Discovers log files on an instance.
+ *
+ * Files in the `Logs` root are matched by `<prefix>-`, so `custom` matches
+ * `custom-myservice-...log` but not `customerror-...log`. The `jobs` prefix
+ * matches the files in `Logs/jobs`.
+ *
+ * B2C Commerce rotates logs daily. By default only the current (most recently
+ * modified) file of each log is returned.
+ *
+ * @param instance - B2C instance
+ * @param options - Discovery options
+ * @returns Matching log files, sorted by path
+ * @throws HTTPError if the log directory cannot be listed
+ *
+ * @example
+ * ```typescript
+ * const files = await listLogFiles(instance, {prefixes: ['error', 'customerror']});
+ * for (const file of files) {
+ *   console.log(`${file.name} (${file.size} bytes)`);
+ * }
+ * ```
+ */
+export async function listLogFiles(instance: B2CInstance, options: ListLogFilesOptions = {}): Promise<LogFile[]> {
+  const logger = getLogger();
+  const prefixes = options.prefixes ?? DEFAULT_LOG_PREFIXES;
+  const files: LogFile[] = [];
+
+  const rootPrefixes = prefixes.filter((p) => p !== 'jobs');
+  if (rootPrefixes.length > 0) {
+    for (const entry of await instance.webdav.propfind(LOGS_ROOT, '1')) {
+      if (entry.isCollection) continue;
+
+      const file = toLogFile(entry, '', LOGS_ROOT);
+      const prefix = file && rootPrefixes.find((p) => file.name.startsWith(`${p}-`) && file.name.endsWith('.log'));
+      if (file && prefix) {
+        files.push({...file, prefix});
+      }
+    }
+  }
+
+  if (prefixes.includes('jobs')) {
+    const jobsPath = `${LOGS_ROOT}/jobs`;
+    for (const entry of await instance.webdav.propfind(jobsPath, 'infinity')) {
+      if (entry.isCollection) continue;
+
+      const file = toLogFile(entry, 'jobs', jobsPath);
+      if (file?.name.endsWith('.log')) {
+        files.push(file);
+      }
+    }
+  }
+
+  let result = files;
+  if (!options.all) {
+    const current = new Map<string, LogFile>();
+    for (const file of files) {
+      // Job logs are one file per execution, so the current file is the newest of the job directory
+      const stream = file.prefix === 'jobs' ? file.path.slice(0, file.path.lastIndexOf('/')) : getLogStream(file);
+      const existing = current.get(stream);
+      if (!existing || (file.lastModified?.getTime() ?? 0) > (existing.lastModified?.getTime() ?? 0)) {
+        current.set(stream, file);
+      }
+    }
+    result = [...current.values()];
+  }
+
+  logger.debug({prefixes, count: result.length}, `Found ${result.length} log file(s)`);
+  return result.sort((a, b) => a.path.localeCompare(b.path));
+}
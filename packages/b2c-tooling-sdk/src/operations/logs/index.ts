@@ -0,0 +1,55 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+/**
+ * Instance log operations for B2C Commerce.
+ *
+ * This module provides functions for discovering, searching and following
+ * the log files of B2C Commerce instances via WebDAV.
+ *
+ * ## Functions
+ *
+ * - {@link listLogFiles} - Discover log files by prefix
+ * - {@link searchLogs} - Search log files for matching entries
+ * - {@link tailLogs} - Follow log files as they grow
+ * - {@link parseLogEntries} - Parse log text into entries
+ * - {@link matchesLogFilter} - Filter entries by level, pattern and time window
+ * - {@link parseLogTime} - Parse relative durations (e.g. `15m`) and dates
+ *
+ * ## Usage
+ *
+ * ```typescript
+ * import { searchLogs, tailLogs, parseLogTime } from '@salesforce/b2c-tooling-sdk/operations/logs';
+ * import { B2CInstance } from '@salesforce/b2c-tooling-sdk';
+ *
+ * const instance = B2CInstance.fromEnvironment();
+ *
+ * // Errors of the last hour
+ * const entries = await searchLogs(instance, {
+ *   prefixes: ['error', 'customerror'],
+ *   filter: { since: parseLogTime('1h') },
+ * });
+ *
+ * // Follow custom logs
+ * for await (const entry of tailLogs(instance, { prefixes: ['custom'] })) {
+ *   console.log(entry.raw);
+ * }
+ * ```
+ *
+ * ## Authentication
+ *
+ * Log operations require WebDAV access to the `Logs` directory
+ * (Basic auth or OAuth with WebDAV permissions).
+ *
+ * @module operations/logs
+ */
+export {listLogFiles, DEFAULT_LOG_PREFIXES, LOGS_ROOT} from './files.js';
+export type {LogFile, ListLogFilesOptions} from './files.js';
+
+export {parseLogEntries, matchesLogFilter, parseLogTime} from './entries.js';
+export type {LogEntry, LogFilter} from './entries.js';
+
+export {searchLogs, tailLogs} from './read.js';
+export type {SearchLogsOptions, TailLogsOptions} from './read.js';
@@ -0,0 +1,197 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import type {B2CInstance} from '../../instance/index.js';
+import {getLogger} from '../../logging/logger.js';
+import {DEFAULT_LOG_PREFIXES, listLogFiles, type LogFile} from './files.js';
+import {matchesLogFilter, parseLogEntries, type LogEntry, type LogFilter} from './entries.js';
+
+/**
+ * Options for searching log files.
+ */
+export interface SearchLogsOptions {
+  /** Log file prefixes to search (default: all default prefixes) */
+  prefixes?: string[];
+  /** Search all rotated files instead of only the current ones (default: false) */
+  all?: boolean;
+  /** Entry filter */
+  filter?: LogFilter;
+}
+
+/**
+ * Options for tailing log files.
+ */
+export interface TailLogsOptions {
+  /** Log file prefixes to follow (default: all default prefixes) */
+  prefixes?: string[];
+  /** Entry filter */
+  filter?: LogFilter;
+  /** Polling interval in milliseconds (default: 3000) */
+  pollInterval?: number;
+  /** Interval in milliseconds at which new job log files are discovered (default: 30000) */
+  jobDiscoveryInterval?: number;
+  /** Bytes of existing content to show per file when starting (default: 0) */
+  initialBytes?: number;
+  /** Aborts tailing when signaled */
+  signal?: AbortSignal;
+}
+
+/**
+ * Read state of a followed log file.
+ */
+interface FollowedFile {
+  /** Bytes read so far */
+  offset: number;
+  /** Incomplete last line, kept until the rest of it is written */
+  pending: string;
+  /** Streaming decoder, so multi-byte characters split across reads are decoded correctly */
+  decoder: InstanceType<typeof TextDecoder>;
+}
+
+/**
+ * Searches log files on an instance.
+ *
+ * Files last modified before `filter.since` are skipped without being downloaded.
+ *
+ * @param instance - B2C instance
+ * @param options - Search options
+ * @returns Matching entries, ordered by time
+ *
+ * @example
+ * ```typescript
+ * const entries = await searchLogs(instance, {
+ *   prefixes: ['error', 'customerror'],
+ *   filter: {pattern: /NullPointerException/, since: parseLogTime('1h')},
+ * });
+ * ```
+ */
+export async function searchLogs(instance: B2CInstance, options: SearchLogsOptions = {}): Promise<LogEntry[]> {
+  const logger = getLogger();
+  const filter = options.filter ?? {};
+  const files = await listLogFiles(instance, {prefixes: options.prefixes, all: options.all});
+  const results: LogEntry[] = [];
+
+  for (const file of files) {
+    if (filter.since && file.lastModified && file.lastModified < filter.since) {
+      logger.debug({file: file.path}, 'Skipping log file not modified in time window');
+      continue;
+    }
+
+    const text = new TextDecoder().decode(await instance.webdav.get(file.path));
+    results.push(...parseLogEntries(text, file).filter((entry) => matchesLogFilter(entry, filter)));
+  }
+
+  // Merge files; the sort is stable so entries of the same file keep their order
+  return results.sort((a, b) => (a.timestamp?.getTime() ?? 0) - (b.timestamp?.getTime() ?? 0));
+}
+
+/**
+ * Follows log files on an instance, yielding new entries as they are written.
+ *
+ * Log files are re-discovered on every poll so rotated and newly created files
+ * are picked up; new files are read from the beginning. Job logs need a deep
+ * directory listing, so they are only re-discovered every `jobDiscoveryInterval`
+ * and otherwise polled for appended content directly. Appended content is read
+ * with ranged WebDAV GETs. The iterator runs until the signal is aborted or the
+ * consumer stops iterating.
+ *
+ * @param instance - B2C instance
+ * @param options - Tail options
+ * @returns Async iterator of matching entries
+ *
+ * @example
+ * ```typescript
+ * for await (const entry of tailLogs(instance, {prefixes: ['error'], filter: {levels: ['ERROR']}})) {
+ *   console.log(entry.raw);
+ * }
+ * ```
+ */
+export async function* tailLogs(instance: B2CInstance, options: TailLogsOptions = {}): AsyncGenerator<LogEntry> {
+  const logger = getLogger();
+  const {pollInterval = 3000, jobDiscoveryInterval = 30_000, initialBytes = 0, signal} = options;
+  const filter = options.filter ?? {};
+  const prefixes = options.prefixes ?? DEFAULT_LOG_PREFIXES;
+  const rootPrefixes = prefixes.filter((p) => p !== 'jobs');
+  const followed = new Map<string, FollowedFile>();
+  let jobFiles: LogFile[] = [];
+  let lastJobDiscovery: number | undefined;
+  let firstPoll = true;
+
+  while (!signal?.aborted) {
+    const files = rootPrefixes.length > 0 ? await listLogFiles(instance, {prefixes: rootPrefixes}) : [];
+
+    if (
+      prefixes.includes('jobs') &&
+      (lastJobDiscovery === undefined || Date.now() - lastJobDiscovery >= jobDiscoveryInterval)
+    ) {
+      jobFiles = await listLogFiles(instance, {prefixes: ['jobs']});
+      lastJobDiscovery = Date.now();
+    }
+
+    for (const file of [...files, ...jobFiles]) {
+      let state = followed.get(file.path);
+      if (!state) {
+        // Existing files start at their end, files created while tailing at their beginning
+        state = {
+          offset: firstPoll ? Math.max(0, file.size - initialBytes) : 0,
+          pending: '',
+          decoder: new TextDecoder(),
+        };
+        followed.set(file.path, state);
+        logger.debug({file: file.path}, `Following ${file.name}`);
+      }
+
+      // Job file sizes are only current right after discovery, so those are always read
+      if (file.prefix !== 'jobs' && file.size <= state.offset) continue;
+
+      yield* readAppended(instance, file, state, filter);
+    }
+
+    firstPoll = false;
+    await sleep(pollInterval, signal);
+  }
+}
+
+/**
+ * Reads content appended to a file and yields the matching entries of complete lines.
+ */
+async function* readAppended(
+  instance: B2CInstance,
+  file: LogFile,
+  state: FollowedFile,
+  filter: LogFilter,
+): AsyncGenerator<LogEntry> {
+  const chunk = await instance.webdav.getRange(file.path, state.offset);
+  if (chunk.byteLength === 0) return;
+  state.offset += chunk.byteLength;
+
+  // Keep an incomplete last line until the rest of it is written
+  const text = state.pending + state.decoder.decode(chunk, {stream: true});
+  const lastNewline = text.lastIndexOf('\n');
+  state.pending = text.slice(lastNewline + 1);
+
+  for (const entry of parseLogEntries(text.slice(0, lastNewline + 1), file)) {
+    if (matchesLogFilter(entry, filter)) {
+      yield entry;
+    }
+  }
+}
+
+/**
+ * Sleeps for the given time, resolving early when the signal is aborted.
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      'abort',
+      () => {
+        clearTimeout(timer);
+        resolve();
+      },
+      {once: true},
+    );
+  });
+}
@@ -0,0 +1,177 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+/**
+ * Access control operations for Managed Runtime.
+ *
+ * Handles the access control headers that restrict an MRT environment to
+ * requests carrying a shared secret, e.g. from a CDN or the development team.
+ *
+ * @module operations/mrt/access
+ */
+import type {AuthStrategy} from '../../auth/types.js';
+import {createMrtClient, DEFAULT_MRT_ORIGIN} from '../../clients/mrt.js';
+import type {components} from '../../clients/mrt.js';
+import {getLogger} from '../../logging/logger.js';
+
+/** Page size when listing access control headers */
+const ACCESS_CONTROL_PAGE_SIZE = 100;
+
+/**
+ * Name of the request header that must carry one of the access control
+ * header values of a protected environment.
+ */
+export const ACCESS_CONTROL_HEADER_NAME = 'x-sfdc-access-control';
+
+/**
+ * An access control header of an MRT environment.
+ */
+export type MrtAccessControlHeader = components['schemas']['APIAccessControlHeaderV2Create'];
+
+/**
+ * Options for access control operations.
+ */
+export interface AccessControlOptions {
+  /** MRT project slug */
+  projectSlug: string;
+  /** Target environment (e.g., 'staging', 'production') */
+  environment: string;
+  /**
+   * MRT API origin URL.
+   * @default "https://cloud.mobify.com"
+   */
+  origin?: string;
+}
+
+/**
+ * Lists the access control headers of an environment.
+ *
+ * @param options - Options specifying project and environment
+ * @param auth - Authentication strategy (ApiKeyStrategy)
+ * @returns All access control headers of the environment
+ * @throws Error if request fails
+ *
+ * @example
+ * ```typescript
+ * const headers = await listAccessControlHeaders({
+ *   projectSlug: 'my-storefront',
+ *   environment: 'staging'
+ * }, auth);
+ * ```
+ */
+export async function listAccessControlHeaders(
+  options: AccessControlOptions,
+  auth: AuthStrategy,
+): Promise<MrtAccessControlHeader[]> {
+  const logger = getLogger();
+  const {projectSlug, environment, origin} = options;
+
+  logger.debug({projectSlug, environment}, '[MRT] Listing access control headers');
+
+  const client = createMrtClient({origin: origin || DEFAULT_MRT_ORIGIN}, auth);
+  const headers: MrtAccessControlHeader[] = [];
+
+  for (let offset = 0; ; offset += ACCESS_CONTROL_PAGE_SIZE) {
+    const {data, error} = await client.GET('/api/projects/{project_slug}/target/{target_slug}/access-control-header/', {
+      params: {
+        path: {project_slug: projectSlug, target_slug: environment},
+        query: {limit: ACCESS_CONTROL_PAGE_SIZE, offset},
+      },
+    });
+
+    if (error) {
+      throw new Error(`Failed to list access control headers: ${JSON.stringify(error)}`);
+    }
+
+    headers.push(...(data?.results ?? []));
+
+    if (!data?.next) {
+      break;
+    }
+  }
+
+  return headers;
+}
+
+/**
+ * Creates an access control header. Once an environment has an access control
+ * header, requests must send one of its values in the `x-sfdc-access-control`
+ * header or they are rejected.
+ *
+ * @param options - Options specifying project and environment
+ * @param value - Secret header value
+ * @param auth - Authentication strategy (ApiKeyStrategy)
+ * @returns The created header
+ * @throws Error if request fails
+ *
+ * @example
+ * ```typescript
+ * const header = await createAccessControlHeader(
+ *   {projectSlug: 'my-storefront', environment: 'staging'},
+ *   process.env.STAGING_ACCESS_SECRET!,
+ *   auth
+ * );
+ * console.log(`Created access control header ${header.id}`);
+ * ```
+ */
+export async function createAccessControlHeader(
+  options: AccessControlOptions,
+  value: string,
+  auth: AuthStrategy,
+): Promise<MrtAccessControlHeader> {
+  const logger = getLogger();
+  const {projectSlug, environment, origin} = options;
+
+  logger.debug({projectSlug, environment}, '[MRT] Creating access control header');
+
+  const client = createMrtClient({origin: origin || DEFAULT_MRT_ORIGIN}, auth);
+
+  const {data, error} = await client.POST('/api/projects/{project_slug}/target/{target_slug}/access-control-header/', {
+    params: {
+      path: {project_slug: projectSlug, target_slug: environment},
+    },
+    body: {value},
+  });
+
+  if (error) {
+    throw new Error(`Failed to create access control header: ${JSON.stringify(error)}`);
+  }
+
+  logger.debug({id: data.id}, '[MRT] Access control header created');
+
+  return data;
+}
+
+/**
+ * Deletes an access control header. Deleting the last header makes the
+ * environment publicly reachable again.
+ *
+ * @param options - Options specifying project and environment
+ * @param id - ID of the header to delete
+ * @param auth - Authentication strategy (ApiKeyStrategy)
+ * @throws Error if request fails
+ */
+export async function deleteAccessControlHeader(
+  options: AccessControlOptions,
+  id: string,
+  auth: AuthStrategy,
+): Promise<void> {
+  const logger = getLogger();
+  const {projectSlug, environment, origin} = options;
+
+  logger.debug({projectSlug, environment, id}, '[MRT] Deleting access control header');
+
+  const client = createMrtClient({origin: origin || DEFAULT_MRT_ORIGIN}, auth);
+
+  const {error} = await client.DELETE('/api/projects/{project_slug}/target/{target_slug}/access-control-header/{id}/', {
+    params: {
+      path: {project_slug: projectSlug, target_slug: environment, id},
+    },
+  });
+
+  if (error) {
+    throw new Error(`Failed to delete access control header ${id}: ${JSON.stringify(error)}`);
+  }
+}
@@ -20,6 +20,12 @@ import {Minimatch} from 'minimatch';
 import {getLogger} from '../../logging/logger.js';
 import type {Stats} from 'node:fs';
 
+/** Default glob patterns for server-only files of a bundle */
+export const DEFAULT_SSR_ONLY = ['ssr.js', 'ssr.mjs', 'server/**/*'];
+
+/** Default glob patterns for files shared between client and server */
+export const DEFAULT_SSR_SHARED = ['static/**/*', 'client/**/*'];
+
 /**
  * Default SSR parameters applied to all bundles.
  * These can be overridden by providing ssrParameters in CreateBundleOptions.
@@ -0,0 +1,85 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+/**
+ * CDN cache operations for Managed Runtime.
+ *
+ * Handles invalidating cached objects of MRT environments in the CDN.
+ *
+ * @module operations/mrt/cache
+ */
+import type {AuthStrategy} from '../../auth/types.js';
+import {createMrtClient, DEFAULT_MRT_ORIGIN} from '../../clients/mrt.js';
+import {getLogger} from '../../logging/logger.js';
+
+/**
+ * Options for invalidating the CDN cache of an environment.
+ */
+export interface InvalidateCacheOptions {
+  /** MRT project slug */
+  projectSlug: string;
+  /** Target environment (e.g., 'staging', 'production') */
+  environment: string;
+  /**
+   * Path patterns to invalidate, each starting with `/` (e.g., `/*`, `/category/*`).
+   */
+  paths: string[];
+  /**
+   * MRT API origin URL.
+   * @default "https://cloud.mobify.com"
+   */
+  origin?: string;
+}
+
+/**
+ * Invalidates cached objects of an environment in the CDN.
+ *
+ * One invalidation request is made per path pattern. Invalidations are
+ * asynchronous and usually complete within two minutes.
+ *
+ * @param options - Options specifying project, environment and paths
+ * @param auth - Authentication strategy (ApiKeyStrategy)
+ * @returns The invalidated path patterns
+ * @throws Error if a path does not start with `/` or a request fails
+ *
+ * @example
+ * ```typescript
+ * await invalidateCache({
+ *   projectSlug: 'my-storefront',
+ *   environment: 'production',
+ *   paths: ['/category/*', '/product/*']
+ * }, auth);
+ * ```
+ */
+export async function invalidateCache(options: InvalidateCacheOptions, auth: AuthStrategy): Promise<string[]> {
+  const logger = getLogger();
+  const {projectSlug, environment, paths, origin} = options;
+
+  const invalid = paths.filter((p) => !p.startsWith('/'));
+  if (invalid.length > 0) {
+    throw new Error(`Invalid cache invalidation path ${invalid.join(', ')}: paths must start with "/"`);
+  }
+
+  logger.debug({projectSlug, environment, paths}, '[MRT] Invalidating CDN cache');
+
+  const client = createMrtClient({origin: origin || DEFAULT_MRT_ORIGIN}, auth);
+
+  for (const pattern of paths) {
+    const {error} = await client.POST('/api/projects/{project_slug}/target/{target_slug}/invalidation/', {
+      params: {
+        path: {project_slug: projectSlug, target_slug: environment},
+      },
+      body: {pattern, items: []},
+    });
+
+    if (error) {
+      throw new Error(`Failed to invalidate ${pattern}: ${JSON.stringify(error)}`);
+    }
+  }
+
+  logger.debug({projectSlug, environment, count: paths.length}, '[MRT] CDN cache invalidation requested');
+
+  return paths;
+}
@@ -0,0 +1,260 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+/**
+ * Deployment operations for Managed Runtime.
+ *
+ * Handles listing the deployment history of an environment and
+ * (re)deploying bundles, e.g. to roll back a release.
+ *
+ * @module operations/mrt/deploy
+ */
+import type {AuthStrategy} from '../../auth/types.js';
+import {createMrtClient, DEFAULT_MRT_ORIGIN} from '../../clients/mrt.js';
+import type {components} from '../../clients/mrt.js';
+import {getLogger} from '../../logging/logger.js';
+
+/**
+ * A deployment of a bundle to an MRT environment.
+ */
+export type MrtDeployment = components['schemas']['DeployList'];
+
+/**
+ * A bundle of an MRT project.
+ */
+export type MrtBundle = components['schemas']['BundleList'];
+
+/**
+ * Options for deployment operations.
+ */
+export interface DeploymentOptions {
+  /** MRT project slug */
+  projectSlug: string;
+  /** Target environment (e.g., 'staging', 'production') */
+  environment: string;
+  /**
+   * MRT API origin URL.
+   * @default "https://cloud.mobify.com"
+   */
+  origin?: string;
+}
+
+/**
+ * Options for listing deployments.
+ */
+export interface ListDeploymentsOptions extends DeploymentOptions {
+  /** Maximum number of deployments to return */
+  limit?: number;
+  /** Number of deployments to skip */
+  offset?: number;
+}
+
+/**
+ * Options for deploying a bundle.
+ */
+export interface DeployBundleOptions extends DeploymentOptions {
+  /** Bundle ID to deploy, or `current` to redeploy the current bundle */
+  bundleId: number | 'current';
+}
+
+/**
+ * Options for waiting for a deployment to finish.
+ */
+export interface WaitForDeploymentOptions extends DeploymentOptions {
+  /** Bundle ID of the deployment to wait for */
+  bundleId: number;
+
+  /**
+   * Only consider deployments created after this ISO timestamp, e.g. the
+   * `created_at` of the newest deployment before the bundle was deployed.
+   */
+  after?: string;
+
+  /**
+   * Polling interval in milliseconds.
+   * @default 10000
+   */
+  pollInterval?: number;
+
+  /**
+   * Maximum time to wait in milliseconds.
+   * @default 1800000 (30 minutes)
+   */
+  timeout?: number;
+
+  /**
+   * Optional callback called on each poll with the deployment, once it exists.
+   */
+  onPoll?: (deployment: MrtDeployment) => void;
+}
+
+/**
+ * Lists the deployment history of an environment, newest first.
+ *
+ * @param options - Options specifying project, environment and pagination
+ * @param auth - Authentication strategy (ApiKeyStrategy)
+ * @returns Deployments, newest first
+ * @throws Error if request fails
+ *
+ * @example
+ * ```typescript
+ * import { ApiKeyStrategy } from '@salesforce/b2c-tooling-sdk/auth';
+ * import { listDeployments } from '@salesforce/b2c-tooling-sdk/operations/mrt';
+ *
+ * const auth = new ApiKeyStrategy(process.env.MRT_API_KEY!, 'Authorization');
+ *
+ * const deployments = await listDeployments({
+ *   projectSlug: 'my-storefront',
+ *   environment: 'production',
+ *   limit: 10
+ * }, auth);
+ *
+ * for (const d of deployments) {
+ *   console.log(`${d.created_at} #${d.bundle.id} ${d.status} ${d.bundle.message}`);
+ * }
+ * ```
+ */
+export async function listDeployments(options: ListDeploymentsOptions, auth: AuthStrategy): Promise<MrtDeployment[]> {
+  const logger = getLogger();
+  const {projectSlug, environment, limit, offset, origin} = options;
+
+  logger.debug({projectSlug, environment}, '[MRT] Listing deployments');
+
+  const client = createMrtClient({origin: origin || DEFAULT_MRT_ORIGIN}, auth);
+
+  const {data, error} = await client.GET('/api/projects/{project_slug}/target/{target_slug}/deploy/', {
+    params: {
+      path: {project_slug: projectSlug, target_slug: environment},
+      query: {limit, offset},
+    },
+  });
+
+  if (error) {
+    throw new Error(`Failed to list deployments: ${JSON.stringify(error)}`);
+  }
+
+  const deployments = [...(data?.results ?? [])].sort((a, b) => (b.created_at ?? '').localeCompare(a.created_at ?? ''));
+
+  logger.debug({count: deployments.length}, '[MRT] Listed deployments');
+
+  return deployments;
+}
+
+/**
+ * Deploys an existing bundle to an environment.
+ *
+ * The deployment runs asynchronously; use {@link waitForDeployment} to wait
+ * for it to finish.
+ *
+ * @param options - Options specifying project, environment and bundle
+ * @param auth - Authentication strategy (ApiKeyStrategy)
+ * @throws Error if request fails
+ *
+ * @example
+ * ```typescript
+ * await deployBundle({
+ *   projectSlug: 'my-storefront',
+ *   environment: 'production',
+ *   bundleId: 42
+ * }, auth);
+ * ```
+ */
+export async function deployBundle(options: DeployBundleOptions, auth: AuthStrategy): Promise<void> {
+  const logger = getLogger();
+  const {projectSlug, environment, bundleId, origin} = options;
+
+  logger.debug({projectSlug, environment, bundleId}, '[MRT] Deploying bundle');
+
+  const client = createMrtClient({origin: origin || DEFAULT_MRT_ORIGIN}, auth);
+
+  const {error} = await client.POST('/api/projects/{project_slug}/target/{target_slug}/deploy/', {
+    params: {
+      path: {project_slug: projectSlug, target_slug: environment},
+    },
+    body: {bundle_id: bundleId},
+  });
+
+  if (error) {
+    throw new Error(`Failed to deploy bundle ${bundleId}: ${JSON.stringify(error)}`);
+  }
+
+  logger.debug({environment, bundleId}, '[MRT] Deployment started');
+}
+
+/**
+ * Finds the bundle that was live before the current one.
+ *
+ * The current bundle is the one of the newest finished deployment; the
+ * previous bundle is the one of the next older finished deployment with a
+ * different bundle.
+ *
+ * @param deployments - Deployments, newest first (see {@link listDeployments})
+ * @returns The current and previous bundle, if any
+ */
+export function findPreviousBundle(deployments: MrtDeployment[]): {current?: MrtBundle; previous?: MrtBundle} {
+  const finished = deployments.filter((d) => d.status === 'Finished');
+  const current = finished[0]?.bundle;
+  const previous = finished.find((d) => d.bundle.id !== current?.id)?.bundle;
+
+  return {current, previous};
+}
+
+/**
+ * Waits for the deployment of a bundle to an environment to finish.
+ *
+ * @param options - Wait options including bundle, polling interval and timeout
+ * @param auth - Authentication strategy (ApiKeyStrategy)
+ * @returns The finished deployment
+ * @throws Error if the deployment fails or the timeout is reached
+ *
+ * @example
+ * ```typescript
+ * const [latest] = await listDeployments({projectSlug, environment, limit: 1}, auth);
+ * await deployBundle({projectSlug, environment, bundleId: 41}, auth);
+ * await waitForDeployment({
+ *   projectSlug,
+ *   environment,
+ *   bundleId: 41,
+ *   after: latest?.created_at,
+ *   onPoll: (d) => console.log(d.status)
+ * }, auth);
+ * ```
+ */
+export async function waitForDeployment(options: WaitForDeploymentOptions, auth: AuthStrategy): Promise<MrtDeployment> {
+  const logger = getLogger();
+  const {projectSlug, environment, bundleId, after, pollInterval = 10000, timeout = 1800000, onPoll, origin} = options;
+
+  logger.debug({projectSlug, environment, bundleId, pollInterval, timeout}, '[MRT] Waiting for deployment');
+
+  const startTime = Date.now();
+
+  while (Date.now() - startTime < timeout) {
+    const deployments = await listDeployments({projectSlug, environment, origin, limit: 20}, auth);
+    const deployment = deployments.find((d) => d.bundle.id === bundleId && (!after || (d.created_at ?? '') > after));
+
+    if (deployment) {
+      if (onPoll) {
+        onPoll(deployment);
+      }
+
+      if (deployment.status === 'Failed') {
+        throw new Error(`Deployment of bundle ${bundleId} to ${environment} failed`);
+      }
+      if (deployment.status === 'Finished') {
+        logger.debug({environment, bundleId}, '[MRT] Deployment finished');
+        return deployment;
+      }
+    }
+
+    logger.debug(
+      {environment, bundleId, status: deployment?.status, elapsed: Date.now() - startTime},
+      '[MRT] Deployment still in progress',
+    );
+
+    await new Promise((resolve) => setTimeout(resolve, pollInterval));
+  }
+
+  throw new Error(`Timeout waiting for deployment of bundle ${bundleId} to ${environment} after ${timeout}ms`);
+}
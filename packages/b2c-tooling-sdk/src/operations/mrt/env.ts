@@ -14,6 +14,7 @@ import type {AuthStrategy} from '../../auth/types.js';
 import {createMrtClient, DEFAULT_MRT_ORIGIN} from '../../clients/mrt.js';
 import type {components} from '../../clients/mrt.js';
 import {getLogger} from '../../logging/logger.js';
+import {createAccessControlHeader} from './access.js';
 
 /**
  * MRT environment (target) type from API.
@@ -103,6 +104,14 @@ export interface CreateEnvOptions {
     host: string;
   }>;
 
+  /**
+   * Access control header values to protect the environment with. The headers
+   * are added right after the creation request, while the environment is
+   * still being created and not yet reachable. If a header cannot be added,
+   * the environment is deleted again.
+   */
+  accessControlHeaders?: string[];
+
   /**
    * MRT API origin URL.
    * @default "https://cloud.mobify.com"
@@ -206,6 +215,29 @@ export async function createEnv(options: CreateEnvOptions, auth: AuthStrategy):
 
   logger.debug({slug: data.slug, state: data.state}, '[MRT] Environment created successfully');
 
+  for (const value of options.accessControlHeaders ?? []) {
+    try {
+      await createAccessControlHeader({projectSlug, environment: slug, origin}, value, auth);
+    } catch (error) {
+      // Never leave an environment behind that was meant to be protected but is not
+      logger.debug({slug}, '[MRT] Deleting environment after failing to add access control header');
+      try {
+        await deleteEnv({projectSlug, slug, origin}, auth);
+      } catch (deleteError) {
+        throw new Error(
+          `Failed to protect environment ${slug} with access control headers, and deleting it failed: ${(deleteError as Error).message}`,
+          {cause: error},
+        );
+      }
+      throw new Error(
+        `Failed to protect environment ${slug} with access control headers; the environment was deleted`,
+        {
+          cause: error,
+        },
+      );
+    }
+  }
+
   return data;
 }
 
@@ -16,6 +16,34 @@
  * - {@link uploadBundle} - Upload a pre-created bundle
  * - {@link listBundles} - List bundles for a project
  *
+ * ## Deployment Operations
+ *
+ * - {@link listDeployments} - Deployment history of an environment
+ * - {@link deployBundle} - Deploy an existing bundle to an environment
+ * - {@link waitForDeployment} - Wait for a deployment to finish
+ * - {@link findPreviousBundle} - Find the bundle to roll back to
+ *
+ * ## Cache Operations
+ *
+ * - {@link invalidateCache} - Invalidate CDN cache paths of an environment
+ *
+ * ## Access Control Operations
+ *
+ * - {@link listAccessControlHeaders} - List the access control headers of an environment
+ * - {@link createAccessControlHeader} - Restrict an environment to requests with a header value
+ * - {@link deleteAccessControlHeader} - Delete an access control header
+ *
+ * ## Redirect Operations
+ *
+ * - {@link listRedirects} - List the redirects of an environment
+ * - {@link createRedirects} - Create one or more redirects
+ * - {@link updateRedirect} - Update a redirect
+ * - {@link deleteRedirect} - Delete a redirect
+ * - {@link cloneRedirects} - Replace an environment's redirects with another's
+ * - {@link parseRedirects} - Parse a CSV or JSON redirect file
+ * - {@link planRedirectSync} - Compute the changes to match a redirect file
+ * - {@link applyRedirectSync} - Apply the changes in batches
+ *
  * ## Usage
  *
  * ```typescript
@@ -46,13 +74,67 @@
  */
 
 // Bundle creation
-export {createBundle, createGlobFilter, getDefaultMessage, DEFAULT_SSR_PARAMETERS} from './bundle.js';
+export {
+  createBundle,
+  createGlobFilter,
+  getDefaultMessage,
+  DEFAULT_SSR_ONLY,
+  DEFAULT_SSR_SHARED,
+  DEFAULT_SSR_PARAMETERS,
+} from './bundle.js';
 export type {CreateBundleOptions, Bundle} from './bundle.js';
 
 // Push operations
 export {pushBundle, uploadBundle, listBundles} from './push.js';
 export type {PushOptions, PushResult} from './push.js';
 
+// Deployment operations
+export {listDeployments, deployBundle, waitForDeployment, findPreviousBundle} from './deploy.js';
+export type {
+  MrtDeployment,
+  MrtBundle,
+  DeploymentOptions,
+  ListDeploymentsOptions,
+  DeployBundleOptions,
+  WaitForDeploymentOptions,
+} from './deploy.js';
+
+// Cache operations
+export {invalidateCache} from './cache.js';
+export type {InvalidateCacheOptions} from './cache.js';
+
+// Access control operations
+export {
+  listAccessControlHeaders,
+  createAccessControlHeader,
+  deleteAccessControlHeader,
+  ACCESS_CONTROL_HEADER_NAME,
+} from './access.js';
+export type {MrtAccessControlHeader, AccessControlOptions} from './access.js';
+
+// Redirect operations
+export {
+  listRedirects,
+  createRedirects,
+  updateRedirect,
+  deleteRedirect,
+  cloneRedirects,
+  getRedirectFileFormat,
+  parseRedirects,
+  planRedirectSync,
+  applyRedirectSync,
+} from './redirects.js';
+export type {
+  MrtRedirect,
+  MrtRedirectInput,
+  RedirectFileFormat,
+  RedirectOptions,
+  ListRedirectsOptions,
+  CloneRedirectsOptions,
+  RedirectSyncPlan,
+  ApplyRedirectSyncOptions,
+} from './redirects.js';
+
 // Environment variable operations
 export {listEnvVars, setEnvVar, setEnvVars, deleteEnvVar} from './env-var.js';
 export type {
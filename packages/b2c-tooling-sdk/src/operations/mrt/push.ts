@@ -16,6 +16,9 @@ import type {MrtClient, BuildPushResponse, components} from '../../clients/mrt.j
 import {getLogger} from '../../logging/logger.js';
 import {createBundle} from './bundle.js';
 import type {CreateBundleOptions, Bundle} from './bundle.js';
+import {invalidateCache} from './cache.js';
+import {waitForDeployment} from './deploy.js';
+import type {MrtDeployment} from './deploy.js';
 
 /**
  * Options for pushing a bundle to MRT.
@@ -27,6 +30,19 @@ export interface PushOptions extends CreateBundleOptions {
    */
   target?: string;
 
+  /**
+   * CDN path patterns to invalidate once the deployment to `target` has
+   * finished (e.g., `['/*']`). Requires `target`; the push then waits for
+   * the deployment before returning.
+   */
+  invalidate?: string[];
+
+  /**
+   * Called on each status check while waiting for the deployment before
+   * invalidating the CDN cache.
+   */
+  onDeploymentPoll?: (deployment: MrtDeployment) => void;
+
   /**
    * MRT API origin URL.
    * @default "https://cloud.mobify.com"
@@ -62,6 +78,11 @@ export interface PushResult {
    * The bundle message.
    */
   message: string;
+
+  /**
+   * CDN path patterns invalidated after the deployment, if requested.
+   */
+  invalidated?: string[];
 }
 
 /**
@@ -69,7 +90,8 @@ export interface PushResult {
  *
  * This function creates a bundle from the build directory and uploads it
  * to the specified MRT project. Optionally, it can also deploy the bundle
- * to a target environment.
+ * to a target environment, and invalidate CDN paths once that deployment
+ * has finished.
  *
  * @param options - Push configuration options
  * @param auth - Authentication strategy (ApiKeyStrategy)
@@ -89,7 +111,8 @@ export interface PushResult {
  *   ssrShared: ['**\/*.js', 'static/**\/*'],
  *   buildDirectory: './build',
  *   message: 'Release v1.0.0',
- *   target: 'staging'  // Optional: deploy after push
+ *   target: 'staging',  // Optional: deploy after push
+ *   invalidate: ['/*']  // Optional: purge the CDN cache after the deployment
  * }, auth);
  *
  * console.log(`Bundle ${result.bundleId} pushed to ${result.projectSlug}`);
@@ -100,7 +123,11 @@ export interface PushResult {
  */
 export async function pushBundle(options: PushOptions, auth: AuthStrategy): Promise<PushResult> {
   const logger = getLogger();
-  const {projectSlug, target, origin} = options;
+  const {projectSlug, target, invalidate, onDeploymentPoll, origin} = options;
+
+  if (invalidate?.length && !target) {
+    throw new Error('Cache invalidation requires a target environment to deploy to');
+  }
 
   logger.debug({projectSlug, target}, '[MRT] Pushing bundle');
 
@@ -115,6 +142,15 @@ export async function pushBundle(options: PushOptions, auth: AuthStrategy): Prom
 
   logger.debug({bundleId: result.bundleId, deployed: result.deployed}, '[MRT] Bundle pushed successfully');
 
+  if (invalidate?.length && target) {
+    // Purging before the new bundle is live would let the CDN cache the old responses again
+    await waitForDeployment(
+      {projectSlug, environment: target, bundleId: result.bundleId, onPoll: onDeploymentPoll, origin},
+      auth,
+    );
+    result.invalidated = await invalidateCache({projectSlug, environment: target, paths: invalidate, origin}, auth);
+  }
+
   return result;
 }
 
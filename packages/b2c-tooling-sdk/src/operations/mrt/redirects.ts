@@ -0,0 +1,504 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+/**
+ * Redirect operations for Managed Runtime.
+ *
+ * Handles listing, creating, deleting and cloning redirects of MRT
+ * environments, and synchronizing them with a redirect file.
+ *
+ * @module operations/mrt/redirects
+ */
+import type {AuthStrategy} from '../../auth/types.js';
+import {createMrtClient, DEFAULT_MRT_ORIGIN} from '../../clients/mrt.js';
+import type {components} from '../../clients/mrt.js';
+import {getLogger} from '../../logging/logger.js';
+import {parseCsv} from '../../utils/csv.js';
+
+/** Page size when listing redirects */
+const REDIRECTS_PAGE_SIZE = 100;
+
+/**
+ * A redirect of an MRT environment as returned by the API.
+ */
+export type MrtRedirect = components['schemas']['APIRedirectV2CreateUpdate'];
+
+/**
+ * The settings of a redirect, as created or read from a redirect file.
+ */
+export type MrtRedirectInput = Pick<
+  MrtRedirect,
+  'from_path' | 'to_url' | 'forward_querystring' | 'forward_wildcard' | 'http_status_code'
+>;
+
+/**
+ * Redirect file format.
+ *
+ * - `csv`: header row with `from_path` and `to_url`, and optionally
+ *   `http_status_code`, `forward_querystring` and `forward_wildcard` columns
+ * - `json`: array of redirect objects with the same fields
+ */
+export type RedirectFileFormat = 'csv' | 'json';
+
+/**
+ * Options for redirect operations.
+ */
+export interface RedirectOptions {
+  /** MRT project slug */
+  projectSlug: string;
+  /** Target environment (e.g., 'staging', 'production') */
+  environment: string;
+  /**
+   * MRT API origin URL.
+   * @default "https://cloud.mobify.com"
+   */
+  origin?: string;
+}
+
+/**
+ * Options for listing redirects.
+ */
+export interface ListRedirectsOptions extends RedirectOptions {
+  /** Only return redirects matching this search term */
+  search?: string;
+}
+
+/**
+ * Options for cloning redirects between environments.
+ */
+export interface CloneRedirectsOptions extends RedirectOptions {
+  /** Environment to copy the redirects from; `environment` is the one that is replaced */
+  fromEnvironment: string;
+}
+
+/**
+ * Changes needed to make an environment's redirects match a redirect file.
+ */
+export interface RedirectSyncPlan {
+  /** Redirects in the file that the environment does not have */
+  add: MrtRedirectInput[];
+  /** Redirects whose target or options differ from the file */
+  update: MrtRedirectInput[];
+  /** Redirects of the environment that are not in the file */
+  delete: MrtRedirect[];
+  /** Number of redirects that already match */
+  unchanged: number;
+}
+
+/**
+ * Options for applying a redirect sync plan.
+ */
+export interface ApplyRedirectSyncOptions extends RedirectOptions {
+  /**
+   * Number of redirects created per request and deleted or updated in parallel.
+   * @default 25
+   */
+  batchSize?: number;
+  /** Callback called after each batch with the number of applied changes */
+  onProgress?: (applied: number, total: number) => void;
+}
+
+/**
+ * Lists all redirects of an environment, following pagination.
+ *
+ * @param options - Options specifying project, environment and an optional search term
+ * @param auth - Authentication strategy (ApiKeyStrategy)
+ * @returns All redirects
+ * @throws Error if request fails
+ *
+ * @example
+ * ```typescript
+ * import { ApiKeyStrategy } from '@salesforce/b2c-tooling-sdk/auth';
+ * import { listRedirects } from '@salesforce/b2c-tooling-sdk/operations/mrt';
+ *
+ * const auth = new ApiKeyStrategy(process.env.MRT_API_KEY!, 'Authorization');
+ *
+ * const redirects = await listRedirects({
+ *   projectSlug: 'my-storefront',
+ *   environment: 'staging'
+ * }, auth);
+ *
+ * for (const r of redirects) {
+ *   console.log(`${r.from_path} -> ${r.to_url}`);
+ * }
+ * ```
+ */
+export async function listRedirects(options: ListRedirectsOptions, auth: AuthStrategy): Promise<MrtRedirect[]> {
+  const logger = getLogger();
+  const {projectSlug, environment, search, origin} = options;
+
+  logger.debug({projectSlug, environment, search}, '[MRT] Listing redirects');
+
+  const client = createMrtClient({origin: origin || DEFAULT_MRT_ORIGIN}, auth);
+  const redirects: MrtRedirect[] = [];
+
+  for (let offset = 0; ; offset += REDIRECTS_PAGE_SIZE) {
+    const {data, error} = await client.GET('/api/projects/{project_slug}/target/{target_slug}/redirect/', {
+      params: {
+        path: {project_slug: projectSlug, target_slug: environment},
+        query: {limit: REDIRECTS_PAGE_SIZE, offset, search},
+      },
+    });
+
+    if (error) {
+      throw new Error(`Failed to list redirects: ${JSON.stringify(error)}`);
+    }
+
+    redirects.push(...(data?.results ?? []));
+
+    if (!data?.next) {
+      break;
+    }
+  }
+
+  logger.debug({count: redirects.length}, '[MRT] Listed redirects');
+
+  return redirects;
+}
+
+/**
+ * Creates one or more redirects in a single request.
+ *
+ * @param options - Options specifying project and environment
+ * @param redirects - Redirects to create
+ * @param auth - Authentication strategy (ApiKeyStrategy)
+ * @throws Error if request fails
+ *
+ * @example
+ * ```typescript
+ * await createRedirects({projectSlug: 'my-storefront', environment: 'staging'}, [
+ *   {from_path: '/spring', to_url: '/summer', http_status_code: 302}
+ * ], auth);
+ * ```
+ */
+export async function createRedirects(
+  options: RedirectOptions,
+  redirects: MrtRedirectInput[],
+  auth: AuthStrategy,
+): Promise<void> {
+  const logger = getLogger();
+  const {projectSlug, environment, origin} = options;
+
+  logger.debug({projectSlug, environment, count: redirects.length}, '[MRT] Creating redirects');
+
+  const client = createMrtClient({origin: origin || DEFAULT_MRT_ORIGIN}, auth);
+
+  const {error} = await client.POST('/api/projects/{project_slug}/target/{target_slug}/redirect/', {
+    params: {
+      path: {project_slug: projectSlug, target_slug: environment},
+    },
+    // The endpoint accepts an object or an array for bulk creation (see the bulk example in
+    // specs/mrt-api-v1.json), but the generated request type only covers a single redirect
+    body: redirects as unknown as MrtRedirect,
+  });
+
+  if (error) {
+    throw new Error(`Failed to create redirects: ${JSON.stringify(error)}`);
+  }
+}
+
+/**
+ * Updates the target or options of a redirect.
+ *
+ * @param options - Options specifying project and environment
+ * @param fromPath - Path of the redirect to update
+ * @param changes - Settings to change
+ * @param auth - Authentication strategy (ApiKeyStrategy)
+ * @returns The updated redirect
+ * @throws Error if request fails
+ */
+export async function updateRedirect(
+  options: RedirectOptions,
+  fromPath: string,
+  changes: Partial<MrtRedirectInput>,
+  auth: AuthStrategy,
+): Promise<MrtRedirect> {
+  const logger = getLogger();
+  const {projectSlug, environment, origin} = options;
+
+  logger.debug({projectSlug, environment, fromPath}, '[MRT] Updating redirect');
+
+  const client = createMrtClient({origin: origin || DEFAULT_MRT_ORIGIN}, auth);
+
+  const {data, error} = await client.PATCH('/api/projects/{project_slug}/target/{target_slug}/redirect/{from_path}', {
+    params: {
+      path: {project_slug: projectSlug, target_slug: environment, from_path: fromPath},
+    },
+    body: changes,
+  });
+
+  if (error) {
+    throw new Error(`Failed to update redirect ${fromPath}: ${JSON.stringify(error)}`);
+  }
+
+  return data;
+}
+
+/**
+ * Deletes a redirect.
+ *
+ * @param options - Options specifying project and environment
+ * @param fromPath - Path of the redirect to delete
+ * @param auth - Authentication strategy (ApiKeyStrategy)
+ * @throws Error if request fails
+ */
+export async function deleteRedirect(options: RedirectOptions, fromPath: string, auth: AuthStrategy): Promise<void> {
+  const logger = getLogger();
+  const {projectSlug, environment, origin} = options;
+
+  logger.debug({projectSlug, environment, fromPath}, '[MRT] Deleting redirect');
+
+  const client = createMrtClient({origin: origin || DEFAULT_MRT_ORIGIN}, auth);
+
+  const {error} = await client.DELETE('/api/projects/{project_slug}/target/{target_slug}/redirect/{from_path}', {
+    params: {
+      path: {project_slug: projectSlug, target_slug: environment, from_path: fromPath},
+    },
+  });
+
+  if (error) {
+    throw new Error(`Failed to delete redirect ${fromPath}: ${JSON.stringify(error)}`);
+  }
+}
+
+/**
+ * Replaces all redirects of an environment with the redirects of another one.
+ *
+ * @param options - Options specifying project, source and target environment
+ * @param auth - Authentication strategy (ApiKeyStrategy)
+ * @throws Error if request fails
+ *
+ * @example
+ * ```typescript
+ * // Promote the redirects tested on staging to production
+ * await cloneRedirects({
+ *   projectSlug: 'my-storefront',
+ *   fromEnvironment: 'staging',
+ *   environment: 'production'
+ * }, auth);
+ * ```
+ */
+export async function cloneRedirects(options: CloneRedirectsOptions, auth: AuthStrategy): Promise<void> {
+  const logger = getLogger();
+  const {projectSlug, environment, fromEnvironment, origin} = options;
+
+  logger.debug({projectSlug, fromEnvironment, environment}, '[MRT] Cloning redirects');
+
+  const client = createMrtClient({origin: origin || DEFAULT_MRT_ORIGIN}, auth);
+
+  const {error} = await client.POST('/api/projects/{project_slug}/target/{to_target_slug}/redirect/clone/', {
+    params: {
+      path: {project_slug: projectSlug, to_target_slug: environment},
+    },
+    body: {from_target_slug: fromEnvironment},
+  });
+
+  if (error) {
+    throw new Error(`Failed to clone redirects from ${fromEnvironment}: ${JSON.stringify(error)}`);
+  }
+}
+
+/**
+ * Returns the redirect file format for a file name (`.csv` or JSON otherwise).
+ */
+export function getRedirectFileFormat(fileName: string): RedirectFileFormat {
+  return fileName.toLowerCase().endsWith('.csv') ? 'csv' : 'json';
+}
+
+function parseBoolean(value: unknown, field: string, row: number): boolean | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value === 'boolean') return value;
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  throw new Error(`Invalid ${field} "${String(value)}" in redirect ${row}, expected true or false`);
+}
+
+/**
+ * Parses a redirect file.
+ *
+ * @param content - File content
+ * @param format - File format
+ * @returns The redirects in the file
+ * @throws Error if the file is malformed or contains duplicate paths
+ *
+ * @example
+ * ```typescript
+ * const content = await fs.promises.readFile('redirects.csv', 'utf8');
+ * const redirects = parseRedirects(content, 'csv');
+ * ```
+ */
+export function parseRedirects(content: string, format: RedirectFileFormat): MrtRedirectInput[] {
+  let records: Record<string, unknown>[];
+
+  if (format === 'csv') {
+    const [header, ...rows] = parseCsv(content);
+    if (!header?.includes('from_path') || !header.includes('to_url')) {
+      throw new Error('CSV header must contain "from_path" and "to_url" columns');
+    }
+    records = rows.map((row) => Object.fromEntries(header.map((name, i) => [name.trim(), row[i]?.trim()])));
+  } else {
+    const parsed = JSON.parse(content) as unknown;
+    if (!Array.isArray(parsed)) {
+      throw new TypeError('Redirect JSON must be an array of redirects');
+    }
+    records = parsed as Record<string, unknown>[];
+  }
+
+  const seen = new Set<string>();
+
+  return records.map((record, index) => {
+    const row = index + 1;
+    const fromPath = record.from_path;
+    const toUrl = record.to_url;
+    if (typeof fromPath !== 'string' || !fromPath || typeof toUrl !== 'string' || !toUrl) {
+      throw new Error(`Redirect ${row} must have from_path and to_url`);
+    }
+    if (seen.has(fromPath)) {
+      throw new Error(`Duplicate from_path "${fromPath}" in redirect ${row}`);
+    }
+    seen.add(fromPath);
+
+    const redirect: MrtRedirectInput = {from_path: fromPath, to_url: toUrl};
+
+    const statusCode = record.http_status_code;
+    if (statusCode !== undefined && statusCode !== null && statusCode !== '') {
+      const code = Number(statusCode);
+      if (code !== 301 && code !== 302) {
+        throw new Error(`Invalid http_status_code "${String(statusCode)}" in redirect ${row}, expected 301 or 302`);
+      }
+      redirect.http_status_code = code;
+    }
+
+    const forwardQuerystring = parseBoolean(record.forward_querystring, 'forward_querystring', row);
+    if (forwardQuerystring !== undefined) redirect.forward_querystring = forwardQuerystring;
+
+    const forwardWildcard = parseBoolean(record.forward_wildcard, 'forward_wildcard', row);
+    if (forwardWildcard !== undefined) redirect.forward_wildcard = forwardWildcard;
+
+    return redirect;
+  });
+}
+
+/**
+ * Whether a redirect differs from the desired settings, applying the API defaults
+ * (301, no query string or wildcard forwarding) to unset fields.
+ */
+function redirectDiffers(current: MrtRedirectInput, desired: MrtRedirectInput): boolean {
+  return (
+    current.to_url !== desired.to_url ||
+    (current.http_status_code ?? 301) !== (desired.http_status_code ?? 301) ||
+    Boolean(current.forward_querystring) !== Boolean(desired.forward_querystring) ||
+    Boolean(current.forward_wildcard) !== Boolean(desired.forward_wildcard)
+  );
+}
+
+/**
+ * Computes the changes needed to make an environment's redirects match a redirect file.
+ *
+ * @param desired - Redirects from the file
+ * @param current - Redirects of the environment (see {@link listRedirects})
+ * @param options - With `delete: false`, redirects missing from the file are kept
+ * @returns The sync plan
+ *
+ * @example
+ * ```typescript
+ * const plan = planRedirectSync(parseRedirects(content, 'csv'), await listRedirects(options, auth));
+ * console.log(`${plan.add.length} to add, ${plan.delete.length} to delete`);
+ * ```
+ */
+export function planRedirectSync(
+  desired: MrtRedirectInput[],
+  current: MrtRedirect[],
+  options: {delete?: boolean} = {},
+): RedirectSyncPlan {
+  const currentByPath = new Map(current.map((r) => [r.from_path, r]));
+  const desiredPaths = new Set(desired.map((r) => r.from_path));
+  const plan: RedirectSyncPlan = {add: [], update: [], delete: [], unchanged: 0};
+
+  for (const redirect of desired) {
+    const existing = currentByPath.get(redirect.from_path);
+    if (!existing) {
+      plan.add.push(redirect);
+    } else if (redirectDiffers(existing, redirect)) {
+      plan.update.push(redirect);
+    } else {
+      plan.unchanged++;
+    }
+  }
+
+  if (options.delete !== false) {
+    plan.delete = current.filter((r) => !desiredPaths.has(r.from_path));
+  }
+
+  return plan;
+}
+
+/**
+ * Applies a redirect sync plan in batches: additions first, then updates, then deletions.
+ *
+ * @param options - Options specifying project, environment and batch size
+ * @param plan - Plan from {@link planRedirectSync}
+ * @param auth - Authentication strategy (ApiKeyStrategy)
+ * @throws Error if a batch fails; earlier batches stay applied
+ *
+ * @example
+ * ```typescript
+ * await applyRedirectSync({projectSlug, environment, batchSize: 50}, plan, auth);
+ * ```
+ */
+export async function applyRedirectSync(
+  options: ApplyRedirectSyncOptions,
+  plan: RedirectSyncPlan,
+  auth: AuthStrategy,
+): Promise<void> {
+  const logger = getLogger();
+  const {batchSize = 25, onProgress} = options;
+  const total = plan.add.length + plan.update.length + plan.delete.length;
+  let applied = 0;
+
+  const report = (count: number) => {
+    applied += count;
+    onProgress?.(applied, total);
+  };
+
+  logger.debug(
+    {add: plan.add.length, update: plan.update.length, delete: plan.delete.length},
+    '[MRT] Applying redirect changes',
+  );
+
+  for (let i = 0; i < plan.add.length; i += batchSize) {
+    const batch = plan.add.slice(i, i + batchSize);
+    await createRedirects(options, batch, auth);
+    report(batch.length);
+  }
+
+  for (let i = 0; i < plan.update.length; i += batchSize) {
+    const batch = plan.update.slice(i, i + batchSize);
+    // Send every setting so that options removed from the file are reset to the defaults
+    await Promise.all(
+      batch.map((r) =>
+        updateRedirect(
+          options,
+          r.from_path,
+          {
+            to_url: r.to_url,
+            http_status_code: r.http_status_code ?? 301,
+            forward_querystring: Boolean(r.forward_querystring),
+            forward_wildcard: Boolean(r.forward_wildcard),
+          },
+          auth,
+        ),
+      ),
+    );
+    report(batch.length);
+  }
+
+  // Delete last so that a failed sync leaves stale redirects in place rather than missing ones
+  for (let i = 0; i < plan.delete.length; i += batchSize) {
+    const batch = plan.delete.slice(i, i + batchSize);
+    await Promise.all(batch.map((r) => deleteRedirect(options, r.from_path, auth)));
+    report(batch.length);
+  }
+}
@@ -0,0 +1,376 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import type {B2CInstance} from '../../instance/index.js';
+import type {OcapiComponents} from '../../clients/index.js';
+import {getLogger} from '../../logging/logger.js';
+
+/**
+ * OCAPI configuration of a client, with global and per-site settings.
+ */
+export type OcapiClientConfig = OcapiComponents['schemas']['ocapi_configs_api_response'];
+
+/**
+ * Settings of a client for one API type: resources, allowed origins and response headers.
+ */
+export type OcapiResourceInfo = OcapiComponents['schemas']['resource_info'];
+
+/**
+ * A resource permission, as in the Business Manager OCAPI settings.
+ */
+export type OcapiResource = OcapiComponents['schemas']['resource_object'];
+
+/**
+ * OCAPI API type.
+ */
+export type OcapiApiType = OcapiResourceInfo['api_type'];
+
+/** Valid OCAPI API types */
+export const OCAPI_API_TYPES: OcapiApiType[] = ['data', 'shop'];
+
+/**
+ * HTTP method of a resource permission.
+ */
+export type OcapiResourceMethod = 'get' | 'put' | 'post' | 'patch' | 'delete';
+
+/**
+ * Data API resources the CLI needs for code versions, job execution and site cartridge paths.
+ *
+ * Only the fields shared by the OCAPI settings and sandbox OCAPI settings schemas are
+ * set, so the list can also be used when creating on-demand sandboxes.
+ */
+export const CLI_REQUIRED_RESOURCES: Array<
+  Pick<OcapiResource, 'read_attributes' | 'resource_id' | 'write_attributes'> & {methods: OcapiResourceMethod[]}
+> = [
+  {resource_id: '/code_versions', methods: ['get'], read_attributes: '(**)', write_attributes: '(**)'},
+  {
+    resource_id: '/code_versions/*',
+    methods: ['put', 'patch', 'delete'],
+    read_attributes: '(**)',
+    write_attributes: '(**)',
+  },
+  {resource_id: '/jobs/*/executions', methods: ['post'], read_attributes: '(**)', write_attributes: '(**)'},
+  {resource_id: '/jobs/*/executions/*', methods: ['get'], read_attributes: '(**)', write_attributes: '(**)'},
+  {resource_id: '/job_execution_search', methods: ['post'], read_attributes: '(**)', write_attributes: '(**)'},
+  {resource_id: '/sites/*', methods: ['get'], read_attributes: '(**)', write_attributes: '(**)'},
+  {resource_id: '/sites/*/cartridges', methods: ['put', 'post'], read_attributes: '(**)', write_attributes: '(**)'},
+  {resource_id: '/sites/*/cartridges/*', methods: ['delete'], read_attributes: '(**)', write_attributes: '(**)'},
+];
+
+/**
+ * Options for reading and writing a client's OCAPI configuration.
+ */
+export interface OcapiConfigScopeOptions {
+  /** Site IDs to update; the global configuration is updated if empty or omitted */
+  sites?: string[];
+}
+
+/**
+ * Result of merging resources into an OCAPI configuration.
+ */
+export interface OcapiResourceMergeResult {
+  /** Merged settings */
+  resourceInfo: OcapiResourceInfo;
+  /** IDs of resources that did not exist before */
+  added: string[];
+  /** IDs of existing resources that got new methods or settings */
+  updated: string[];
+}
+
+/**
+ * Result of merging resources into a client's configuration for one scope.
+ */
+export interface OcapiConfigMergeResult extends OcapiResourceMergeResult {
+  /** Site ID, or undefined for the global configuration */
+  site?: string;
+  /** Whether the configuration was written */
+  changed: boolean;
+}
+
+/**
+ * Client settings in the Business Manager OCAPI settings format.
+ */
+interface BusinessManagerClientSettings {
+  client_id?: string;
+  allowed_origins?: string[];
+  resources?: OcapiResource[];
+  response_headers?: Record<string, string>;
+}
+
+/**
+ * Reads a client's settings from OCAPI settings JSON.
+ *
+ * Accepts the JSON pasted into Business Manager (`{"_v": ..., "clients": [...]}`),
+ * in which case the entry of the given client is used, or a single client entry
+ * with `resources`, `allowed_origins` and `response_headers`.
+ *
+ * @param json - Parsed OCAPI settings
+ * @param apiType - API type the settings are for
+ * @param clientId - Client ID to select from the `clients` list
+ * @returns The client's settings
+ * @throws Error if the JSON has no settings for the client
+ *
+ * @example
+ * ```typescript
+ * const settings = JSON.parse(fs.readFileSync('ocapi-data.json', 'utf8'));
+ * await setOcapiConfig(instance, clientId, parseResourceInfo(settings, 'data', clientId));
+ * ```
+ */
+export function parseResourceInfo(json: unknown, apiType: OcapiApiType, clientId?: string): OcapiResourceInfo {
+  if (typeof json !== 'object' || json === null || Array.isArray(json)) {
+    throw new Error('OCAPI settings must be a JSON object');
+  }
+
+  let entry = json as BusinessManagerClientSettings & {clients?: BusinessManagerClientSettings[]};
+
+  if (Array.isArray(entry.clients)) {
+    const clients = entry.clients;
+    const match = clients.find((c) => c.client_id === clientId) ?? (clients.length === 1 ? clients[0] : undefined);
+    if (!match) {
+      throw new Error(`OCAPI settings contain no entry for client ${clientId}`);
+    }
+    entry = match;
+  }
+
+  if (!Array.isArray(entry.resources)) {
+    throw new Error('OCAPI settings contain no resources');
+  }
+  for (const resource of entry.resources) {
+    if (typeof resource?.resource_id !== 'string' || !Array.isArray(resource.methods)) {
+      throw new Error(`Invalid OCAPI resource ${JSON.stringify(resource)}: resource_id and methods are required`);
+    }
+  }
+
+  const info: OcapiResourceInfo = {api_type: apiType, resources: entry.resources};
+  if (entry.allowed_origins) {
+    info.allowed_origins = entry.allowed_origins;
+  }
+  if (entry.response_headers) {
+    info.response_headers = entry.response_headers;
+  }
+
+  return info;
+}
+
+/**
+ * Gets the OCAPI configuration of a client.
+ *
+ * @param instance - B2C instance
+ * @param clientId - API client ID
+ * @returns The client's configuration, or undefined if the client is not configured
+ * @throws Error if the configuration cannot be read
+ *
+ * @example
+ * ```typescript
+ * const config = await getOcapiConfig(instance, 'my-client-id');
+ * const data = findResourceInfo(config, 'data');
+ * console.log(data?.resources.map((r) => r.resource_id));
+ * ```
+ */
+export async function getOcapiConfig(instance: B2CInstance, clientId: string): Promise<OcapiClientConfig | undefined> {
+  const {data, error, response} = await instance.ocapi.GET('/ocapi_configs/{clientId}', {
+    params: {path: {clientId}},
+  });
+
+  if (response.status === 404) {
+    return undefined;
+  }
+  if (error) {
+    throw new Error(`Failed to get OCAPI configuration of client ${clientId}`, {cause: error});
+  }
+
+  return data;
+}
+
+/**
+ * Finds the settings of an API type in a client's configuration.
+ *
+ * @param config - Client configuration
+ * @param apiType - API type
+ * @param site - Site ID, or undefined for the global configuration
+ * @returns The settings, or undefined if the client has none for this API type and scope
+ */
+export function findResourceInfo(
+  config: OcapiClientConfig | undefined,
+  apiType: OcapiApiType,
+  site?: string,
+): OcapiResourceInfo | undefined {
+  const scopes = site ? config?.sites?.filter((s) => s.site_id === site) : config?.global;
+
+  for (const scope of scopes ?? []) {
+    const info = scope.site_configs?.find((c) => c.api_type === apiType);
+    if (info) {
+      return info;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Replaces a client's settings for one API type.
+ *
+ * Other API types and sites are not changed.
+ *
+ * @param instance - B2C instance
+ * @param clientId - API client ID
+ * @param resourceInfo - New settings, including the API type
+ * @param options - Sites to update
+ * @returns The client's configuration after the update
+ * @throws Error if the configuration cannot be written
+ *
+ * @example
+ * ```typescript
+ * await setOcapiConfig(instance, 'my-client-id', {
+ *   api_type: 'data',
+ *   resources: [{resource_id: '/sites', methods: ['get'], read_attributes: '(**)'}],
+ * });
+ * ```
+ */
+export async function setOcapiConfig(
+  instance: B2CInstance,
+  clientId: string,
+  resourceInfo: OcapiResourceInfo,
+  options: OcapiConfigScopeOptions = {},
+): Promise<OcapiClientConfig> {
+  const logger = getLogger();
+  const sites = options.sites ?? [];
+
+  logger.debug(
+    {clientId, apiType: resourceInfo.api_type, sites, resources: resourceInfo.resources.length},
+    `Setting ${resourceInfo.api_type} API configuration of client ${clientId}`,
+  );
+
+  const {data, error} = await instance.ocapi.PUT('/ocapi_configs/{clientId}', {
+    params: {path: {clientId}},
+    body: {resource_info: resourceInfo, sites},
+  });
+
+  if (error) {
+    throw new Error(`Failed to set OCAPI configuration of client ${clientId}`, {cause: error});
+  }
+
+  return data ?? {};
+}
+
+/**
+ * Merges resources into existing settings without removing anything.
+ *
+ * Resources are matched by `resource_id`. Methods and allowed origins are
+ * combined; other settings of existing resources and existing response headers
+ * are kept. Merging the same resources again results in no changes.
+ *
+ * @param existing - Existing settings, or undefined if there are none
+ * @param additions - Settings to merge in
+ * @returns The merged settings and the IDs of added and updated resources
+ *
+ * @example
+ * ```typescript
+ * const {added, updated} = mergeResourceInfo(current, {api_type: 'data', resources: CLI_REQUIRED_RESOURCES});
+ * ```
+ */
+export function mergeResourceInfo(
+  existing: OcapiResourceInfo | undefined,
+  additions: OcapiResourceInfo,
+): OcapiResourceMergeResult {
+  const resources = (existing?.resources ?? []).map((r) => ({...r}));
+  const added: string[] = [];
+  const updated: string[] = [];
+
+  for (const addition of additions.resources) {
+    const current = resources.find((r) => r.resource_id === addition.resource_id);
+
+    if (!current) {
+      resources.push({...addition});
+      added.push(addition.resource_id);
+      continue;
+    }
+
+    let changed = false;
+
+    const newMethods = addition.methods.filter((m) => !current.methods.includes(m));
+    if (newMethods.length > 0) {
+      current.methods = [...current.methods, ...newMethods];
+      changed = true;
+    }
+
+    for (const key of Object.keys(addition) as (keyof OcapiResource)[]) {
+      if (current[key] === undefined && addition[key] !== undefined) {
+        (current as Record<string, unknown>)[key] = addition[key];
+        changed = true;
+      }
+    }
+
+    if (changed) {
+      updated.push(addition.resource_id);
+    }
+  }
+
+  const resourceInfo: OcapiResourceInfo = {...existing, api_type: additions.api_type, resources};
+
+  const origins = existing?.allowed_origins ?? [];
+  const newOrigins = (additions.allowed_origins ?? []).filter((o) => !origins.includes(o));
+  if (newOrigins.length > 0) {
+    resourceInfo.allowed_origins = [...origins, ...newOrigins];
+  }
+
+  if (additions.response_headers) {
+    resourceInfo.response_headers = {...additions.response_headers, ...existing?.response_headers};
+  }
+
+  return {resourceInfo, added, updated};
+}
+
+/**
+ * Grants resources to a client, keeping its existing settings.
+ *
+ * The configuration of each scope (global, or each given site) is read, merged
+ * with {@link mergeResourceInfo} and only written if something changed, so
+ * running this repeatedly is safe.
+ *
+ * @param instance - B2C instance
+ * @param clientId - API client ID
+ * @param additions - Settings to merge in, including the API type
+ * @param options - Sites to update
+ * @returns One result per updated scope
+ * @throws Error if the configuration cannot be read or written
+ *
+ * @example
+ * ```typescript
+ * // Grant the resources the CLI needs
+ * await mergeOcapiConfig(instance, 'my-client-id', {api_type: 'data', resources: CLI_REQUIRED_RESOURCES});
+ * ```
+ */
+export async function mergeOcapiConfig(
+  instance: B2CInstance,
+  clientId: string,
+  additions: OcapiResourceInfo,
+  options: OcapiConfigScopeOptions = {},
+): Promise<OcapiConfigMergeResult[]> {
+  const logger = getLogger();
+  const config = await getOcapiConfig(instance, clientId);
+  const sites: (string | undefined)[] = options.sites?.length ? options.sites : [undefined];
+  const results: OcapiConfigMergeResult[] = [];
+
+  for (const site of sites) {
+    const existing = findResourceInfo(config, additions.api_type, site);
+    const result = mergeResourceInfo(existing, additions);
+    const changed =
+      !existing ||
+      result.added.length > 0 ||
+      result.updated.length > 0 ||
+      JSON.stringify(result.resourceInfo) !== JSON.stringify(existing);
+
+    if (changed) {
+      await setOcapiConfig(instance, clientId, result.resourceInfo, {sites: site ? [site] : []});
+    } else {
+      logger.debug({clientId, site}, `OCAPI configuration of client ${clientId} is up to date`);
+    }
+
+    results.push({...result, site, changed});
+  }
+
+  return results;
+}
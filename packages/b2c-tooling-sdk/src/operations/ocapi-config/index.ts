@@ -0,0 +1,60 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+/**
+ * OCAPI client configuration for B2C Commerce.
+ *
+ * This module reads and writes the Data and Shop API resource permissions of
+ * an API client, replacing the manual editing of OCAPI settings in Business
+ * Manager.
+ *
+ * ## Functions
+ *
+ * - {@link getOcapiConfig} - Get a client's configuration
+ * - {@link findResourceInfo} - Find the settings of an API type and scope
+ * - {@link setOcapiConfig} - Replace a client's settings for an API type
+ * - {@link mergeOcapiConfig} - Grant resources, keeping existing settings
+ * - {@link mergeResourceInfo} - Merge resources into settings (offline)
+ * - {@link parseResourceInfo} - Read settings from Business Manager OCAPI settings JSON
+ *
+ * ## Usage
+ *
+ * ```typescript
+ * import {mergeOcapiConfig, CLI_REQUIRED_RESOURCES} from '@salesforce/b2c-tooling-sdk/operations/ocapi-config';
+ *
+ * const [{added, updated}] = await mergeOcapiConfig(instance, 'my-client-id', {
+ *   api_type: 'data',
+ *   resources: CLI_REQUIRED_RESOURCES,
+ * });
+ * ```
+ *
+ * ## Authentication
+ *
+ * OCAPI configuration operations require OAuth authentication with OCAPI Data
+ * API permissions for the /ocapi_configs resource. This permission has to be
+ * granted once in Business Manager.
+ *
+ * @module operations/ocapi-config
+ */
+export {
+  getOcapiConfig,
+  findResourceInfo,
+  setOcapiConfig,
+  mergeOcapiConfig,
+  mergeResourceInfo,
+  parseResourceInfo,
+  OCAPI_API_TYPES,
+  CLI_REQUIRED_RESOURCES,
+} from './config.js';
+export type {
+  OcapiClientConfig,
+  OcapiResourceInfo,
+  OcapiResource,
+  OcapiResourceMethod,
+  OcapiApiType,
+  OcapiConfigScopeOptions,
+  OcapiResourceMergeResult,
+  OcapiConfigMergeResult,
+} from './config.js';
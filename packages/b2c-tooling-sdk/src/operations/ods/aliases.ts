@@ -0,0 +1,196 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import type {OdsClient, OdsComponents} from '../../clients/index.js';
+import {getLogger} from '../../logging/logger.js';
+
+/**
+ * A sandbox alias: a custom hostname mapped to a sandbox.
+ */
+export type SandboxAlias = OdsComponents['schemas']['SandboxAliasModel'];
+
+/**
+ * Properties of a new sandbox alias.
+ */
+export interface CreateSandboxAliasOptions {
+  /** Whether the alias is a unique configuration */
+  unique?: boolean;
+  /** Request a Let's Encrypt certificate for the hostname (consumes the domain's certificate quota) */
+  requestLetsEncryptCertificate?: boolean;
+}
+
+/**
+ * Options for waiting until an alias is active.
+ */
+export interface WaitForSandboxAliasOptions {
+  /** Polling interval in milliseconds (default: 10000) */
+  pollInterval?: number;
+  /** Maximum time to wait in milliseconds (default: no limit) */
+  timeout?: number;
+  /** Callback for progress updates */
+  onProgress?: (alias: SandboxAlias, elapsedMs: number) => void;
+}
+
+/**
+ * Lists the aliases of a sandbox.
+ *
+ * @param client - ODS client
+ * @param sandboxId - Sandbox ID (UUID)
+ * @returns The sandbox's aliases
+ * @throws Error if the aliases cannot be listed
+ *
+ * @example
+ * ```typescript
+ * for (const alias of await listSandboxAliases(client, sandboxId)) {
+ *   console.log(alias.name, alias.status);
+ * }
+ * ```
+ */
+export async function listSandboxAliases(client: OdsClient, sandboxId: string): Promise<SandboxAlias[]> {
+  const {data, error} = await client.GET('/sandboxes/{sandboxId}/aliases', {
+    params: {path: {sandboxId}},
+  });
+
+  if (error || !data) {
+    throw new Error(`Failed to list aliases of sandbox ${sandboxId}`, {cause: error});
+  }
+
+  return data.data ?? [];
+}
+
+/**
+ * Gets a sandbox alias.
+ *
+ * @param client - ODS client
+ * @param sandboxId - Sandbox ID (UUID)
+ * @param aliasId - Alias ID (UUID)
+ * @returns The alias, including its registration link and cookie
+ * @throws Error if the alias cannot be read
+ */
+export async function getSandboxAlias(client: OdsClient, sandboxId: string, aliasId: string): Promise<SandboxAlias> {
+  const {data, error} = await client.GET('/sandboxes/{sandboxId}/aliases/{sandboxAliasId}', {
+    params: {path: {sandboxId, sandboxAliasId: aliasId}},
+  });
+
+  if (error || !data?.data) {
+    throw new Error(`Failed to get alias ${aliasId} of sandbox ${sandboxId}`, {cause: error});
+  }
+
+  return data.data;
+}
+
+/**
+ * Creates a sandbox alias.
+ *
+ * New aliases of custom domains are `pending` until the domain is verified
+ * (see `domainVerificationRecord`); use {@link waitForSandboxAlias} to wait.
+ *
+ * @param client - ODS client
+ * @param sandboxId - Sandbox ID (UUID)
+ * @param name - Alias hostname (e.g. `www.example.com`)
+ * @param options - Alias properties
+ * @returns The created alias
+ * @throws Error if the alias cannot be created
+ *
+ * @example
+ * ```typescript
+ * const alias = await createSandboxAlias(client, sandboxId, 'dev.example.com', {unique: true});
+ * console.log(alias.registration);
+ * ```
+ */
+export async function createSandboxAlias(
+  client: OdsClient,
+  sandboxId: string,
+  name: string,
+  options: CreateSandboxAliasOptions = {},
+): Promise<SandboxAlias> {
+  const logger = getLogger();
+  logger.debug({sandboxId, name, ...options}, `Creating alias ${name} for sandbox ${sandboxId}`);
+
+  const {data, error} = await client.POST('/sandboxes/{sandboxId}/aliases', {
+    params: {path: {sandboxId}},
+    body: {
+      name,
+      unique: options.unique,
+      requestLetsEncryptCertificate: options.requestLetsEncryptCertificate,
+    },
+  });
+
+  if (error || !data?.data) {
+    throw new Error(`Failed to create alias ${name} for sandbox ${sandboxId}`, {cause: error});
+  }
+
+  return data.data;
+}
+
+/**
+ * Deletes a sandbox alias.
+ *
+ * @param client - ODS client
+ * @param sandboxId - Sandbox ID (UUID)
+ * @param aliasId - Alias ID (UUID)
+ * @throws Error if the alias cannot be deleted
+ */
+export async function deleteSandboxAlias(client: OdsClient, sandboxId: string, aliasId: string): Promise<void> {
+  const logger = getLogger();
+  logger.debug({sandboxId, aliasId}, `Deleting alias ${aliasId} of sandbox ${sandboxId}`);
+
+  const {error} = await client.DELETE('/sandboxes/{sandboxId}/aliases/{sandboxAliasId}', {
+    params: {path: {sandboxId, sandboxAliasId: aliasId}},
+  });
+
+  if (error) {
+    throw new Error(`Failed to delete alias ${aliasId} of sandbox ${sandboxId}`, {cause: error});
+  }
+}
+
+/**
+ * Waits until a sandbox alias is active, i.e. no longer pending domain verification.
+ *
+ * @param client - ODS client
+ * @param sandboxId - Sandbox ID (UUID)
+ * @param aliasId - Alias ID (UUID)
+ * @param options - Polling options
+ * @returns The active alias
+ * @throws Error if the timeout is reached or the alias cannot be read
+ *
+ * @example
+ * ```typescript
+ * const alias = await createSandboxAlias(client, sandboxId, 'dev.example.com');
+ * await waitForSandboxAlias(client, sandboxId, alias.id!, {timeout: 600_000});
+ * ```
+ */
+export async function waitForSandboxAlias(
+  client: OdsClient,
+  sandboxId: string,
+  aliasId: string,
+  options: WaitForSandboxAliasOptions = {},
+): Promise<SandboxAlias> {
+  const {pollInterval = 10_000, timeout, onProgress} = options;
+  const startTime = Date.now();
+
+  while (true) {
+    const alias = await getSandboxAlias(client, sandboxId, aliasId);
+    const elapsed = Date.now() - startTime;
+
+    if (onProgress) {
+      onProgress(alias, elapsed);
+    }
+
+    if (alias.status !== 'pending') {
+      return alias;
+    }
+
+    if (timeout && elapsed + pollInterval > timeout) {
+      throw new Error(`Timeout waiting for alias ${alias.name} to become active`);
+    }
+
+    await sleep(pollInterval);
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
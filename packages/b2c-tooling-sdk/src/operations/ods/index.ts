@@ -0,0 +1,116 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+/**
+ * On-Demand Sandbox operations.
+ *
+ * This module provides functions built on the ODS API client for reporting on
+ * and managing on-demand sandboxes and realms.
+ *
+ * ## Usage Reporting
+ *
+ * - {@link getRealmUsage} - Get the usage of a realm
+ * - {@link getRealmsUsage} - Get the usage of several realms
+ * - {@link getSandboxUsage} - Get the usage of a sandbox
+ * - {@link summarizeRealmUsage} - Aggregate uptime/downtime per realm
+ * - {@link summarizeSandboxUsage} - Aggregate uptime/downtime per sandbox
+ * - {@link formatUsageCsv} - Format usage summaries as CSV
+ * - {@link getMonthRange} - Date range of a calendar month
+ *
+ * ## Aliases
+ *
+ * - {@link listSandboxAliases} - List the aliases of a sandbox
+ * - {@link getSandboxAlias} - Get an alias with its registration link and cookie
+ * - {@link createSandboxAlias} - Map a hostname to a sandbox
+ * - {@link deleteSandboxAlias} - Delete an alias
+ * - {@link waitForSandboxAlias} - Wait until an alias is active
+ *
+ * ## Operations and Settings
+ *
+ * - {@link listSandboxOperations} - Start/stop/restart/reset history of a sandbox
+ * - {@link getSandboxSettings} - OCAPI and WebDAV settings of a sandbox
+ * - {@link applySandboxOcapiSettings} - Apply OCAPI settings to a running sandbox
+ *
+ * ## Lifecycle and Scheduling
+ *
+ * - {@link runSandboxOperation} - Start, stop, restart or reset a sandbox
+ * - {@link getSandboxOperation} - Get the state of an operation
+ * - {@link waitForSandboxOperation} - Wait until an operation has finished
+ * - {@link buildWeekdaySchedule} - Build a start/stop window
+ * - {@link setSandboxSchedule} - Enable automatic start/stop with windows
+ * - {@link clearSandboxSchedule} - Disable automatic start/stop
+ *
+ * ## Usage
+ *
+ * ```typescript
+ * import {getRealmUsage, summarizeSandboxUsage, getMonthRange} from '@salesforce/b2c-tooling-sdk/operations/ods';
+ *
+ * const usage = await getRealmUsage(client, 'zzzz', {...getMonthRange('2025-01'), detailed: true});
+ * for (const sandbox of summarizeSandboxUsage([usage])) {
+ *   console.log(sandbox.sandbox, sandbox.minutesUp);
+ * }
+ * ```
+ *
+ * ## Authentication
+ *
+ * ODS operations take an {@link OdsClient}, which requires OAuth authentication
+ * with an Account Manager API client that has sandbox access to the realms.
+ *
+ * @module operations/ods
+ */
+export {
+  getRealmUsage,
+  getRealmsUsage,
+  getSandboxUsage,
+  summarizeRealmUsage,
+  summarizeSandboxUsage,
+  formatUsageCsv,
+  getMonthRange,
+} from './usage.js';
+export type {
+  RealmUsage,
+  SandboxUsage,
+  SandboxUsageDetails,
+  UsageDateRange,
+  RealmUsageOptions,
+  RealmUsageSummary,
+  SandboxUsageSummary,
+} from './usage.js';
+
+export {
+  listSandboxAliases,
+  getSandboxAlias,
+  createSandboxAlias,
+  deleteSandboxAlias,
+  waitForSandboxAlias,
+} from './aliases.js';
+export type {SandboxAlias, CreateSandboxAliasOptions, WaitForSandboxAliasOptions} from './aliases.js';
+
+export {listSandboxOperations, getSandboxSettings, applySandboxOcapiSettings} from './sandbox.js';
+export type {
+  SandboxOperation,
+  SandboxSettings,
+  ListSandboxOperationsOptions,
+  SandboxOcapiSettingsResult,
+} from './sandbox.js';
+
+export {
+  runSandboxOperation,
+  getSandboxOperation,
+  waitForSandboxOperation,
+  buildWeekdaySchedule,
+  setSandboxSchedule,
+  clearSandboxSchedule,
+  SandboxOperationError,
+  WEEKDAYS,
+} from './lifecycle.js';
+export type {
+  Sandbox,
+  SandboxOperationType,
+  WeekdaySchedule,
+  Weekday,
+  SandboxSchedule,
+  WaitForSandboxOperationOptions,
+} from './lifecycle.js';
@@ -0,0 +1,292 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import type {OdsClient, OdsComponents} from '../../clients/index.js';
+import {getLogger} from '../../logging/logger.js';
+import type {SandboxOperation} from './sandbox.js';
+
+/**
+ * An on-demand sandbox.
+ */
+export type Sandbox = OdsComponents['schemas']['SandboxModel'];
+
+/**
+ * Operations that can be requested on a sandbox.
+ */
+export type SandboxOperationType = OdsComponents['schemas']['SandboxOperationRequestModel']['operation'];
+
+/**
+ * Weekdays and time of an automatic start or stop.
+ */
+export type WeekdaySchedule = OdsComponents['schemas']['WeekdaySchedule'];
+
+/**
+ * Day of the week in a {@link WeekdaySchedule}.
+ */
+export type Weekday = NonNullable<WeekdaySchedule['weekdays']>[number];
+
+/**
+ * All weekdays, Monday first.
+ */
+export const WEEKDAYS: Weekday[] = ['MONDAY', 'TUESDAY', 'WEDNESDAY', 'THURSDAY', 'FRIDAY', 'SATURDAY', 'SUNDAY'];
+
+/**
+ * Automatic start and stop windows of a sandbox.
+ */
+export interface SandboxSchedule {
+  /** When the sandbox is started */
+  start?: WeekdaySchedule;
+  /** When the sandbox is stopped */
+  stop?: WeekdaySchedule;
+}
+
+/**
+ * Options for waiting until a sandbox operation has finished.
+ */
+export interface WaitForSandboxOperationOptions {
+  /** Polling interval in milliseconds (default: 10000) */
+  pollInterval?: number;
+  /** Maximum time to wait in milliseconds (default: no limit) */
+  timeout?: number;
+  /** Callback for progress updates */
+  onProgress?: (operation: SandboxOperation, elapsedMs: number) => void;
+}
+
+/**
+ * Error thrown when a sandbox operation finishes unsuccessfully.
+ */
+export class SandboxOperationError extends Error {
+  constructor(
+    message: string,
+    public readonly operation: SandboxOperation,
+  ) {
+    super(message);
+    this.name = 'SandboxOperationError';
+  }
+}
+
+/**
+ * Requests a start, stop, restart or reset of a sandbox.
+ *
+ * The operation runs asynchronously; use {@link waitForSandboxOperation} to wait
+ * for it to finish.
+ *
+ * @param client - ODS client
+ * @param sandboxId - Sandbox ID (UUID)
+ * @param operation - Operation to run
+ * @returns The requested operation
+ * @throws Error if the operation cannot be requested
+ *
+ * @example
+ * ```typescript
+ * const operation = await runSandboxOperation(client, sandboxId, 'reset');
+ * await waitForSandboxOperation(client, sandboxId, operation.id, {timeout: 1_800_000});
+ * ```
+ */
+export async function runSandboxOperation(
+  client: OdsClient,
+  sandboxId: string,
+  operation: SandboxOperationType,
+): Promise<SandboxOperation> {
+  const logger = getLogger();
+  logger.debug({sandboxId, operation}, `Requesting ${operation} of sandbox ${sandboxId}`);
+
+  const {data, error} = await client.POST('/sandboxes/{sandboxId}/operations', {
+    params: {path: {sandboxId}},
+    body: {operation},
+  });
+
+  if (error || !data?.data) {
+    throw new Error(`Failed to ${operation} sandbox ${sandboxId}`, {cause: error});
+  }
+
+  return data.data;
+}
+
+/**
+ * Gets the current state of a sandbox operation.
+ *
+ * @param client - ODS client
+ * @param sandboxId - Sandbox ID (UUID)
+ * @param operationId - Operation ID (UUID)
+ * @returns The operation
+ * @throws Error if the operation cannot be read
+ */
+export async function getSandboxOperation(
+  client: OdsClient,
+  sandboxId: string,
+  operationId: string,
+): Promise<SandboxOperation> {
+  const {data, error} = await client.GET('/sandboxes/{sandboxId}/operations/{operationId}', {
+    params: {path: {sandboxId, operationId}},
+  });
+
+  if (error || !data?.data) {
+    throw new Error(`Failed to get operation ${operationId} of sandbox ${sandboxId}`, {cause: error});
+  }
+
+  return data.data;
+}
+
+/**
+ * Waits until a sandbox operation has finished.
+ *
+ * @param client - ODS client
+ * @param sandboxId - Sandbox ID (UUID)
+ * @param operationId - Operation ID (UUID)
+ * @param options - Polling options
+ * @returns The finished operation
+ * @throws SandboxOperationError if the operation failed
+ * @throws Error if the timeout is reached or the operation cannot be read
+ *
+ * @example
+ * ```typescript
+ * const operation = await runSandboxOperation(client, sandboxId, 'restart');
+ * await waitForSandboxOperation(client, sandboxId, operation.id, {
+ *   onProgress: (op, elapsed) => console.log(`${op.operationState} after ${elapsed}ms`),
+ * });
+ * ```
+ */
+export async function waitForSandboxOperation(
+  client: OdsClient,
+  sandboxId: string,
+  operationId: string,
+  options: WaitForSandboxOperationOptions = {},
+): Promise<SandboxOperation> {
+  const logger = getLogger();
+  const {pollInterval = 10_000, timeout, onProgress} = options;
+  const startTime = Date.now();
+
+  while (true) {
+    const operation = await getSandboxOperation(client, sandboxId, operationId);
+    const elapsed = Date.now() - startTime;
+
+    if (onProgress) {
+      onProgress(operation, elapsed);
+    }
+
+    if (operation.operationState === 'finished') {
+      if (operation.status === 'failure') {
+        logger.debug({operation}, `Operation ${operationId} of sandbox ${sandboxId} failed`);
+        throw new SandboxOperationError(
+          `Sandbox ${operation.operation} failed (sandbox state: ${operation.sandboxState ?? 'unknown'})`,
+          operation,
+        );
+      }
+      return operation;
+    }
+
+    if (timeout && elapsed + pollInterval > timeout) {
+      throw new Error(`Timeout waiting for sandbox ${operation.operation} to finish`);
+    }
+
+    await sleep(pollInterval);
+  }
+}
+
+/**
+ * Builds a weekday schedule from a local time and a UTC offset.
+ *
+ * @param time - Time of day as `HH:MM` or `HH:MM:SS`
+ * @param weekdays - Days on which the action takes place
+ * @param timezone - UTC offset as `Z`, `+02:00` or `-0500` (default: `Z`)
+ * @returns The schedule, with the time in ISO 8601 format
+ * @throws Error if the time or offset is invalid
+ *
+ * @example
+ * ```typescript
+ * buildWeekdaySchedule('08:00', ['MONDAY', 'FRIDAY'], '+02:00');
+ * // {weekdays: ['MONDAY', 'FRIDAY'], time: '08:00:00+02:00'}
+ * ```
+ */
+export function buildWeekdaySchedule(time: string, weekdays: Weekday[], timezone = 'Z'): WeekdaySchedule {
+  const timeMatch = /^([01]\d|2[0-3]):([0-5]\d)(?::([0-5]\d))?$/.exec(time);
+  if (!timeMatch) {
+    throw new Error(`Invalid time "${time}", expected HH:MM`);
+  }
+
+  const offsetMatch = /^(?:Z|([+-])([01]\d|2[0-3]):?([0-5]\d))$/i.exec(timezone);
+  if (!offsetMatch) {
+    throw new Error(`Invalid timezone "${timezone}", expected a UTC offset such as Z or +02:00`);
+  }
+
+  const offset = offsetMatch[1] ? `${offsetMatch[1]}${offsetMatch[2]}:${offsetMatch[3]}` : 'Z';
+  return {
+    weekdays,
+    time: `${timeMatch[1]}:${timeMatch[2]}:${timeMatch[3] ?? '00'}${offset}`,
+  };
+}
+
+/**
+ * Enables automatic start/stop of a sandbox with the given windows.
+ *
+ * @param client - ODS client
+ * @param sandboxId - Sandbox ID (UUID)
+ * @param schedule - Start and/or stop schedule
+ * @returns The updated sandbox
+ * @throws Error if the sandbox cannot be updated
+ *
+ * @example
+ * ```typescript
+ * await setSandboxSchedule(client, sandboxId, {
+ *   start: buildWeekdaySchedule('08:00', WEEKDAYS.slice(0, 5), '+01:00'),
+ *   stop: buildWeekdaySchedule('19:00', WEEKDAYS.slice(0, 5), '+01:00'),
+ * });
+ * ```
+ */
+export async function setSandboxSchedule(
+  client: OdsClient,
+  sandboxId: string,
+  schedule: SandboxSchedule,
+): Promise<Sandbox> {
+  const logger = getLogger();
+  logger.debug({sandboxId, schedule}, `Setting schedule of sandbox ${sandboxId}`);
+
+  return updateSandbox(client, sandboxId, {
+    autoScheduled: true,
+    startScheduler: schedule.start,
+    stopScheduler: schedule.stop,
+  });
+}
+
+/**
+ * Disables automatic start/stop of a sandbox and removes its windows.
+ *
+ * @param client - ODS client
+ * @param sandboxId - Sandbox ID (UUID)
+ * @returns The updated sandbox
+ * @throws Error if the sandbox cannot be updated
+ */
+export async function clearSandboxSchedule(client: OdsClient, sandboxId: string): Promise<Sandbox> {
+  const logger = getLogger();
+  logger.debug({sandboxId}, `Clearing schedule of sandbox ${sandboxId}`);
+
+  return updateSandbox(client, sandboxId, {
+    autoScheduled: false,
+    startScheduler: null,
+    stopScheduler: null,
+  });
+}
+
+async function updateSandbox(
+  client: OdsClient,
+  sandboxId: string,
+  body: OdsComponents['schemas']['SandboxUpdateRequestModel'],
+): Promise<Sandbox> {
+  const {data, error} = await client.PATCH('/sandboxes/{sandboxId}', {
+    params: {path: {sandboxId}},
+    body,
+  });
+
+  if (error || !data?.data) {
+    throw new Error(`Failed to update sandbox ${sandboxId}`, {cause: error});
+  }
+
+  return data.data;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
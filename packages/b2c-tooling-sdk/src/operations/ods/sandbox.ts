@@ -0,0 +1,177 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import type {OdsClient, OdsComponents} from '../../clients/index.js';
+import type {B2CInstance} from '../../instance/index.js';
+import {getLogger} from '../../logging/logger.js';
+import {mergeOcapiConfig, setOcapiConfig, type OcapiResource} from '../ocapi-config/index.js';
+import type {UsageDateRange} from './usage.js';
+
+/** Page size when listing sandbox operations */
+const OPERATIONS_PAGE_SIZE = 100;
+
+/**
+ * A start, stop, restart, reset, create, delete or upgrade operation on a sandbox.
+ */
+export type SandboxOperation = OdsComponents['schemas']['SandboxOperationModel'];
+
+/**
+ * OCAPI and WebDAV permission settings of a sandbox.
+ */
+export type SandboxSettings = OdsComponents['schemas']['SandboxSettings'];
+
+/**
+ * Filters for the operation history of a sandbox.
+ */
+export interface ListSandboxOperationsOptions extends UsageDateRange {
+  /** Only include operations of this type */
+  operation?: SandboxOperation['operation'];
+  /** Only include successful or failed operations */
+  status?: NonNullable<SandboxOperation['status']>;
+}
+
+/**
+ * Result of applying the OCAPI settings of one client to a sandbox.
+ */
+export interface SandboxOcapiSettingsResult {
+  clientId: string;
+  /** Number of resources in the settings */
+  resources: number;
+  /** Resources added to the existing configuration (merge only) */
+  added?: string[];
+  /** Existing resources that got new methods or settings (merge only) */
+  updated?: string[];
+}
+
+/**
+ * Converts a resource of the sandbox settings to an OCAPI configuration resource.
+ * OCAPI configurations take a single version range, so only the first one is kept.
+ */
+function toOcapiResource(
+  resource: NonNullable<NonNullable<SandboxSettings['ocapi']>[number]['resources']>[number],
+): OcapiResource {
+  const {version_range: versionRanges, ...rest} = resource;
+  return versionRanges?.length ? {...rest, version_range: versionRanges[0]} : rest;
+}
+
+/**
+ * Lists the operations on a sandbox, newest first.
+ *
+ * @param client - ODS client
+ * @param sandboxId - Sandbox ID (UUID)
+ * @param options - Date range (last 30 days by default) and filters
+ * @returns All matching operations, following pagination
+ * @throws Error if the operations cannot be listed
+ *
+ * @example
+ * ```typescript
+ * const failed = await listSandboxOperations(client, sandboxId, {status: 'failure'});
+ * ```
+ */
+export async function listSandboxOperations(
+  client: OdsClient,
+  sandboxId: string,
+  options: ListSandboxOperationsOptions = {},
+): Promise<SandboxOperation[]> {
+  const operations: SandboxOperation[] = [];
+
+  for (let page = 0; ; page++) {
+    const {data, error} = await client.GET('/sandboxes/{sandboxId}/operations', {
+      params: {
+        path: {sandboxId},
+        query: {
+          from: options.from,
+          to: options.to,
+          operation: options.operation,
+          status: options.status,
+          sort_by: 'created',
+          sort_order: 'desc',
+          page,
+          per_page: OPERATIONS_PAGE_SIZE,
+        },
+      },
+    });
+
+    if (error || !data) {
+      throw new Error(`Failed to list operations of sandbox ${sandboxId}`, {cause: error});
+    }
+
+    const items = data.data ?? [];
+    operations.push(...items);
+
+    if (items.length < OPERATIONS_PAGE_SIZE || page + 1 >= (data.metadata?.pageCount ?? 0)) {
+      return operations;
+    }
+  }
+}
+
+/**
+ * Gets the OCAPI and WebDAV permission settings of a sandbox.
+ *
+ * @param client - ODS client
+ * @param sandboxId - Sandbox ID (UUID)
+ * @returns The sandbox settings
+ * @throws Error if the settings cannot be read
+ */
+export async function getSandboxSettings(client: OdsClient, sandboxId: string): Promise<SandboxSettings> {
+  const {data, error} = await client.GET('/sandboxes/{sandboxId}/settings', {
+    params: {path: {sandboxId}},
+  });
+
+  if (error || !data) {
+    throw new Error(`Failed to get settings of sandbox ${sandboxId}`, {cause: error});
+  }
+
+  return data.data ?? {};
+}
+
+/**
+ * Applies the OCAPI settings of sandbox settings to a running sandbox.
+ *
+ * The ODS API only applies settings when a sandbox is created, so the settings
+ * are written through the sandbox's OCAPI Data API (`/ocapi_configs`) instead.
+ * The instance's API client therefore needs permission for `/ocapi_configs`.
+ * WebDAV settings cannot be changed after creation and are not applied.
+ *
+ * @param instance - The sandbox instance
+ * @param ocapiSettings - OCAPI settings, one entry per client
+ * @param options - With `merge`, resources are added to the existing
+ *   configuration instead of replacing it
+ * @returns One result per client
+ * @throws Error if a client's configuration cannot be written
+ *
+ * @example
+ * ```typescript
+ * await applySandboxOcapiSettings(instance, settings.ocapi ?? [], {merge: true});
+ * ```
+ */
+export async function applySandboxOcapiSettings(
+  instance: B2CInstance,
+  ocapiSettings: NonNullable<SandboxSettings['ocapi']>,
+  options: {merge?: boolean} = {},
+): Promise<SandboxOcapiSettingsResult[]> {
+  const logger = getLogger();
+  const results: SandboxOcapiSettingsResult[] = [];
+
+  for (const entry of ocapiSettings) {
+    const resourceInfo = {api_type: 'data' as const, resources: (entry.resources ?? []).map(toOcapiResource)};
+    logger.debug({clientId: entry.client_id, merge: options.merge}, `Applying OCAPI settings of ${entry.client_id}`);
+
+    if (options.merge) {
+      const [result] = await mergeOcapiConfig(instance, entry.client_id, resourceInfo);
+      results.push({
+        clientId: entry.client_id,
+        resources: resourceInfo.resources.length,
+        added: result.added,
+        updated: result.updated,
+      });
+    } else {
+      await setOcapiConfig(instance, entry.client_id, resourceInfo);
+      results.push({clientId: entry.client_id, resources: resourceInfo.resources.length});
+    }
+  }
+
+  return results;
+}
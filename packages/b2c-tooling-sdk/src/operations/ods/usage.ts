@@ -0,0 +1,331 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import type {OdsClient, OdsComponents} from '../../clients/index.js';
+import {getLogger} from '../../logging/logger.js';
+import {escapeCsv} from '../../utils/csv.js';
+
+/**
+ * Usage of a realm as returned by the ODS API.
+ */
+export type RealmUsage = OdsComponents['schemas']['RealmUsageModel'];
+
+/**
+ * Usage of a single sandbox as returned by the ODS API.
+ */
+export type SandboxUsage = OdsComponents['schemas']['SandboxUsageModel'];
+
+/**
+ * Per-sandbox usage details of a realm usage report.
+ */
+export type SandboxUsageDetails = OdsComponents['schemas']['SandboxInfo'];
+
+/**
+ * Date range of a usage report.
+ */
+export interface UsageDateRange {
+  /** Earliest date (ISO 8601, e.g. `2025-01-01`); 30 days ago by default */
+  from?: string;
+  /** Latest date (ISO 8601); today by default */
+  to?: string;
+}
+
+/**
+ * Options for realm usage reports.
+ */
+export interface RealmUsageOptions extends UsageDateRange {
+  /** Include per-sandbox details */
+  detailed?: boolean;
+}
+
+/**
+ * Aggregated usage of a realm.
+ */
+export interface RealmUsageSummary {
+  realm: string;
+  /** Sandboxes active during the period */
+  activeSandboxes: number;
+  /** Sandboxes created during the period */
+  createdSandboxes: number;
+  /** Sandboxes deleted during the period */
+  deletedSandboxes: number;
+  minutesUp: number;
+  minutesDown: number;
+  /** Uptime minutes per resource profile */
+  minutesUpByProfile: Record<string, number>;
+}
+
+/**
+ * Aggregated usage of a sandbox.
+ */
+export interface SandboxUsageSummary {
+  realm: string;
+  /** Instance ID (e.g. `zzzz_001`) or sandbox ID */
+  sandbox: string;
+  /** Resource profile; the profile with the most uptime if it changed */
+  profile: string;
+  minutesUp: number;
+  minutesDown: number;
+  /** Creation time, if known */
+  createdAt?: string;
+  /** Deletion time, if the sandbox was deleted */
+  deletedAt?: string;
+}
+
+/**
+ * Gets the usage of a realm.
+ *
+ * @param client - ODS client
+ * @param realm - Realm ID (four-letter ID)
+ * @param options - Date range and whether to include per-sandbox details
+ * @returns The realm usage
+ * @throws Error if the usage cannot be read
+ *
+ * @example
+ * ```typescript
+ * const usage = await getRealmUsage(client, 'zzzz', {from: '2025-01-01', to: '2025-01-31', detailed: true});
+ * console.log(usage.minutesUp, usage.sandboxDetails?.length);
+ * ```
+ */
+export async function getRealmUsage(
+  client: OdsClient,
+  realm: string,
+  options: RealmUsageOptions = {},
+): Promise<RealmUsage> {
+  const logger = getLogger();
+  logger.debug({realm, ...options}, `Fetching usage of realm ${realm}`);
+
+  const {data, error} = await client.GET('/realms/{realm}/usage', {
+    params: {
+      path: {realm},
+      query: {from: options.from, to: options.to, detailedReport: options.detailed ?? false},
+    },
+  });
+
+  if (error || !data?.data) {
+    throw new Error(`Failed to get usage of realm ${realm}`, {cause: error});
+  }
+
+  return data.data;
+}
+
+/**
+ * Gets the usage of several realms in one request.
+ *
+ * Realms whose usage cannot be read are reported in `errors` instead of
+ * failing the whole report.
+ *
+ * @param client - ODS client
+ * @param realms - Realm IDs
+ * @param options - Date range and whether to include per-sandbox details
+ * @returns Usage of each realm that could be read, and errors by realm
+ * @throws Error if the request fails
+ */
+export async function getRealmsUsage(
+  client: OdsClient,
+  realms: string[],
+  options: RealmUsageOptions = {},
+): Promise<{usages: RealmUsage[]; errors: Record<string, string>}> {
+  const logger = getLogger();
+  logger.debug({realms, ...options}, `Fetching usage of realms ${realms.join(', ')}`);
+
+  const {data, error} = await client.POST('/realms/usages', {
+    body: {realms, from: options.from, to: options.to, detailedReport: options.detailed ?? false},
+  });
+
+  if (error || !data) {
+    throw new Error(`Failed to get usage of realms ${realms.join(', ')}`, {cause: error});
+  }
+
+  const usages: RealmUsage[] = [];
+  const errors: Record<string, string> = {};
+  for (const entry of data.data ?? []) {
+    if (entry.realmUsage) {
+      usages.push({...entry.realmUsage, id: entry.realmName});
+    } else {
+      errors[entry.realmName] = entry.error ?? 'No usage returned';
+    }
+  }
+
+  return {usages, errors};
+}
+
+/**
+ * Gets the usage of a sandbox.
+ *
+ * @param client - ODS client
+ * @param sandboxId - Sandbox ID (UUID)
+ * @param options - Date range
+ * @returns The sandbox usage, including its uptime history
+ * @throws Error if the usage cannot be read
+ */
+export async function getSandboxUsage(
+  client: OdsClient,
+  sandboxId: string,
+  options: UsageDateRange = {},
+): Promise<SandboxUsage> {
+  const {data, error} = await client.GET('/sandboxes/{sandboxId}/usage', {
+    params: {path: {sandboxId}, query: {from: options.from, to: options.to}},
+  });
+
+  if (error || !data?.data) {
+    throw new Error(`Failed to get usage of sandbox ${sandboxId}`, {cause: error});
+  }
+
+  return data.data;
+}
+
+/**
+ * Sums minutes per resource profile.
+ */
+function sumByProfile(
+  target: Record<string, number>,
+  entries: {profile?: string; minutes?: number}[] | undefined,
+): Record<string, number> {
+  for (const {profile, minutes} of entries ?? []) {
+    const key = profile ?? 'unknown';
+    target[key] = (target[key] ?? 0) + (minutes ?? 0);
+  }
+  return target;
+}
+
+/**
+ * Aggregates realm usage reports into one summary per realm.
+ *
+ * Reports of the same realm (e.g. from several date ranges) are added up.
+ *
+ * @param usages - Realm usage reports
+ * @returns One summary per realm, sorted by realm
+ */
+export function summarizeRealmUsage(usages: RealmUsage[]): RealmUsageSummary[] {
+  const byRealm = new Map<string, RealmUsageSummary>();
+
+  for (const usage of usages) {
+    const summary = byRealm.get(usage.id) ?? {
+      realm: usage.id,
+      activeSandboxes: 0,
+      createdSandboxes: 0,
+      deletedSandboxes: 0,
+      minutesUp: 0,
+      minutesDown: 0,
+      minutesUpByProfile: {},
+    };
+
+    summary.activeSandboxes += usage.activeSandboxes ?? 0;
+    summary.createdSandboxes += usage.createdSandboxes ?? 0;
+    summary.deletedSandboxes += usage.deletedSandboxes ?? 0;
+    summary.minutesUp += usage.minutesUp ?? 0;
+    summary.minutesDown += usage.minutesDown ?? 0;
+    sumByProfile(summary.minutesUpByProfile, usage.minutesUpByProfile);
+
+    byRealm.set(usage.id, summary);
+  }
+
+  return [...byRealm.values()].sort((a, b) => a.realm.localeCompare(b.realm));
+}
+
+/**
+ * Aggregates the per-sandbox details of realm usage reports into one summary per sandbox.
+ *
+ * Requires reports fetched with `detailed: true`.
+ *
+ * @param usages - Realm usage reports
+ * @returns One summary per sandbox, sorted by realm and by uptime (highest first)
+ */
+export function summarizeSandboxUsage(usages: RealmUsage[]): SandboxUsageSummary[] {
+  const bySandbox = new Map<string, SandboxUsageSummary & {profiles: Record<string, number>}>();
+
+  for (const usage of usages) {
+    for (const details of usage.sandboxDetails ?? []) {
+      const realm = details.realm ?? usage.id;
+      const sandbox = details.instanceId ?? details.name ?? 'unknown';
+      const key = `${realm}/${sandbox}`;
+      const summary = bySandbox.get(key) ?? {
+        realm,
+        sandbox,
+        profile: details.resourceProfile ?? '-',
+        minutesUp: 0,
+        minutesDown: 0,
+        profiles: {},
+      };
+
+      summary.minutesUp += details.minutesUp ?? 0;
+      summary.minutesDown += details.minutesDown ?? 0;
+      if (details.createdAt && !summary.createdAt) {
+        summary.createdAt = details.createdAt;
+      }
+      if (details.deletedAt) {
+        summary.deletedAt = details.deletedAt;
+      }
+      sumByProfile(summary.profiles, details.minutesUpByProfile);
+
+      bySandbox.set(key, summary);
+    }
+  }
+
+  return [...bySandbox.values()]
+    .map(({profiles, ...summary}) => {
+      const [topProfile] = Object.entries(profiles).sort((a, b) => b[1] - a[1]);
+      return topProfile ? {...summary, profile: topProfile[0]} : summary;
+    })
+    .sort((a, b) => a.realm.localeCompare(b.realm) || b.minutesUp - a.minutesUp);
+}
+
+/**
+ * Formats usage summaries as CSV with a header row.
+ *
+ * @param rows - Realm or sandbox usage summaries
+ * @param columns - Properties to include, in order
+ * @returns CSV text
+ *
+ * @example
+ * ```typescript
+ * const csv = formatUsageCsv(summarizeRealmUsage(usages), ['realm', 'minutesUp', 'minutesDown']);
+ * ```
+ */
+export function formatUsageCsv<T extends object>(rows: T[], columns: (keyof T & string)[]): string {
+  const lines = [columns.join(',')];
+
+  for (const row of rows) {
+    lines.push(
+      columns
+        .map((column) => {
+          const value = row[column];
+          if (value === undefined || value === null) {
+            return '';
+          }
+          return escapeCsv(typeof value === 'object' ? JSON.stringify(value) : String(value));
+        })
+        .join(','),
+    );
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Returns the date range of a calendar month.
+ *
+ * @param month - Month as `YYYY-MM`
+ * @returns First and last day of the month as `YYYY-MM-DD`
+ * @throws Error if the month is not in `YYYY-MM` format
+ *
+ * @example
+ * ```typescript
+ * getMonthRange('2025-02'); // {from: '2025-02-01', to: '2025-02-28'}
+ * ```
+ */
+export function getMonthRange(month: string): Required<UsageDateRange> {
+  const match = /^(\d{4})-(\d{2})$/.exec(month);
+  if (!match || Number(match[2]) < 1 || Number(match[2]) > 12) {
+    throw new Error(`Invalid month ${month}, expected YYYY-MM`);
+  }
+
+  const year = Number(match[1]);
+  const monthIndex = Number(match[2]) - 1;
+  const lastDay = new Date(Date.UTC(year, monthIndex + 1, 0)).getUTCDate();
+
+  return {from: `${month}-01`, to: `${month}-${String(lastDay).padStart(2, '0')}`};
+}
@@ -0,0 +1,69 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+/**
+ * Declarative deploy pipelines.
+ *
+ * A pipeline file names targets from the dw.json `configs` and lists steps
+ * (cartridge deploy, code activation, site archive import, job runs, MRT bundle
+ * push) that run in order for each target.
+ *
+ * ## Functions
+ *
+ * - {@link loadPipeline} - Load and validate a pipeline file
+ * - {@link parsePipeline} - Validate a pipeline definition
+ * - {@link planPipeline} - Show what applying a pipeline would change
+ * - {@link applyPipeline} - Run a pipeline, resuming from its state file
+ * - {@link resolvePipelineTarget} - Resolve a target from dw.json
+ *
+ * ## Usage
+ *
+ * ```typescript
+ * import {loadPipeline, planPipeline, applyPipeline} from '@salesforce/b2c-tooling-sdk/operations/pipeline';
+ *
+ * // deploy.json:
+ * // {
+ * //   "targets": ["staging", "production"],
+ * //   "steps": [
+ * //     {"type": "code-deploy", "directory": "./cartridges", "codeVersion": "release-42"},
+ * //     {"type": "site-archive-import", "path": "./site-data"},
+ * //     {"type": "code-activate", "codeVersion": "release-42"},
+ * //     {"type": "job-run", "jobId": "Reindex", "parameters": {"SiteScope": "RefArch"}}
+ * //   ]
+ * // }
+ * const pipeline = loadPipeline('./deploy.json');
+ *
+ * const plan = await planPipeline(pipeline);
+ * const result = await applyPipeline(pipeline);
+ * ```
+ *
+ * @module operations/pipeline
+ */
+export {loadPipeline, parsePipeline, getStepId, PIPELINE_STEP_TYPES} from './pipeline.js';
+export type {
+  Pipeline,
+  PipelineStep,
+  PipelineStepBase,
+  CodeDeployStep,
+  CodeActivateStep,
+  SiteArchiveImportStep,
+  JobRunStep,
+  MrtPushStep,
+  LoadedPipeline,
+} from './pipeline.js';
+
+export {getDefaultStatePath, getStepStateKey, readPipelineState, writePipelineState} from './state.js';
+export type {PipelineState, PipelineStepState, PipelineStepStatus} from './state.js';
+
+export {planPipeline, applyPipeline, resolvePipelineTarget} from './run.js';
+export type {
+  PipelineTarget,
+  PipelineRunOptions,
+  PlannedStep,
+  PipelinePlan,
+  ApplyPipelineOptions,
+  PipelineStepResult,
+  ApplyPipelineResult,
+} from './run.js';
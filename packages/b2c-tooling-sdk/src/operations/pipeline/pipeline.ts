@@ -0,0 +1,257 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import {createHash} from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+import {parse as parseYaml} from 'yaml';
+
+/**
+ * Fields shared by all pipeline steps.
+ */
+export interface PipelineStepBase {
+  /** Step ID used in output and in the state file (default: `<position>-<type>`, e.g. `1-code-deploy`) */
+  id?: string;
+  /** Only run the step for these targets (default: all targets) */
+  targets?: string[];
+}
+
+/**
+ * Uploads cartridges to a code version.
+ */
+export interface CodeDeployStep extends PipelineStepBase {
+  type: 'code-deploy';
+  /** Directory to search for cartridges (default: the pipeline file's directory) */
+  directory?: string;
+  /** Only deploy these cartridges */
+  cartridges?: string[];
+  /** Do not deploy these cartridges */
+  exclude?: string[];
+  /** Code version to deploy to (default: the target's `code-version`); created if it does not exist */
+  codeVersion?: string;
+  /** Delete the cartridges on the instance before uploading */
+  delete?: boolean;
+  /** Reload the code version after uploading */
+  reload?: boolean;
+}
+
+/**
+ * Activates a code version.
+ */
+export interface CodeActivateStep extends PipelineStepBase {
+  type: 'code-activate';
+  /** Code version to activate (default: the target's `code-version`) */
+  codeVersion?: string;
+}
+
+/**
+ * Imports a site archive directory or zip file.
+ */
+export interface SiteArchiveImportStep extends PipelineStepBase {
+  type: 'site-archive-import';
+  /** Site archive directory or zip file */
+  path: string;
+}
+
+/**
+ * Runs a job and waits for it to finish.
+ */
+export interface JobRunStep extends PipelineStepBase {
+  type: 'job-run';
+  /** Job ID */
+  jobId: string;
+  /** Job parameters */
+  parameters?: Record<string, string>;
+  /** Maximum time to wait for the job in seconds (default: no limit) */
+  timeout?: number;
+}
+
+/**
+ * Pushes a bundle to Managed Runtime and optionally deploys it.
+ */
+export interface MrtPushStep extends PipelineStepBase {
+  type: 'mrt-push';
+  /** MRT project slug (default: the target's `mrtProject`) */
+  project?: string;
+  /** Environment to deploy to (default: the target's `mrtEnvironment`; upload only if neither is set) */
+  environment?: string;
+  /** Build directory (default: `build`) */
+  buildDirectory?: string;
+  /** Bundle message */
+  message?: string;
+  /** Glob patterns for server-only files */
+  ssrOnly?: string[];
+  /** Glob patterns for shared files */
+  ssrShared?: string[];
+  /** SSR parameters */
+  ssrParameters?: Record<string, unknown>;
+}
+
+/**
+ * A pipeline step.
+ */
+export type PipelineStep = CodeActivateStep | CodeDeployStep | JobRunStep | MrtPushStep | SiteArchiveImportStep;
+
+/** Supported step types */
+export const PIPELINE_STEP_TYPES: Array<PipelineStep['type']> = [
+  'code-deploy',
+  'code-activate',
+  'site-archive-import',
+  'job-run',
+  'mrt-push',
+];
+
+/**
+ * A deploy pipeline: steps run in order for each target.
+ */
+export interface Pipeline {
+  /** Target names, resolved from the dw.json `configs` */
+  targets: string[];
+  /** Steps to run for each target */
+  steps: PipelineStep[];
+}
+
+/**
+ * A pipeline loaded from a file.
+ */
+export interface LoadedPipeline {
+  /** Absolute path of the pipeline file */
+  path: string;
+  /** Directory relative step paths are resolved against */
+  directory: string;
+  /** SHA-256 hash of the file content, used to match the state file */
+  hash: string;
+  pipeline: Pipeline;
+}
+
+/** Required string fields per step type */
+const REQUIRED_FIELDS: Partial<Record<PipelineStep['type'], string[]>> = {
+  'site-archive-import': ['path'],
+  'job-run': ['jobId'],
+};
+
+/**
+ * Returns the ID of a step, generated from its position if not set.
+ *
+ * @param step - Pipeline step
+ * @param index - Zero-based position of the step
+ * @returns Step ID
+ */
+export function getStepId(step: PipelineStep, index: number): string {
+  return step.id ?? `${index + 1}-${step.type}`;
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((v) => typeof v === 'string');
+}
+
+/**
+ * Parses and validates a pipeline definition.
+ *
+ * @param content - Pipeline JSON or YAML
+ * @param format - Format of the content (default: `json`)
+ * @returns The pipeline
+ * @throws Error describing the first invalid field
+ *
+ * @example
+ * ```typescript
+ * const pipeline = parsePipeline(JSON.stringify({
+ *   targets: ['staging'],
+ *   steps: [{type: 'code-deploy', directory: './cartridges'}, {type: 'code-activate'}],
+ * }));
+ * ```
+ */
+export function parsePipeline(content: string, format: 'json' | 'yaml' = 'json'): Pipeline {
+  let json: unknown;
+  try {
+    json = format === 'yaml' ? parseYaml(content) : JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Invalid pipeline ${format.toUpperCase()}`, {cause: error});
+  }
+
+  const pipeline = json as Partial<Pipeline>;
+  if (!pipeline || typeof pipeline !== 'object') {
+    throw new Error('Pipeline must be an object');
+  }
+  if (!isStringArray(pipeline.targets) || pipeline.targets.length === 0) {
+    throw new Error('Pipeline "targets" must be a non-empty list of dw.json config names');
+  }
+  if (!Array.isArray(pipeline.steps) || pipeline.steps.length === 0) {
+    throw new Error('Pipeline "steps" must be a non-empty list');
+  }
+
+  const ids = new Set<string>();
+  for (const [index, step] of pipeline.steps.entries()) {
+    const label = `Step ${index + 1}`;
+    if (!step || typeof step !== 'object' || !PIPELINE_STEP_TYPES.includes(step.type)) {
+      throw new Error(`${label}: "type" must be one of ${PIPELINE_STEP_TYPES.join(', ')}`);
+    }
+
+    for (const field of REQUIRED_FIELDS[step.type] ?? []) {
+      if (typeof (step as unknown as Record<string, unknown>)[field] !== 'string') {
+        throw new Error(`${label} (${step.type}): "${field}" is required`);
+      }
+    }
+
+    if (step.targets !== undefined) {
+      if (!isStringArray(step.targets)) {
+        throw new Error(`${label}: "targets" must be a list of target names`);
+      }
+      const unknown = step.targets.filter((t) => !pipeline.targets!.includes(t));
+      if (unknown.length > 0) {
+        throw new Error(`${label}: unknown target(s) ${unknown.join(', ')}`);
+      }
+    }
+
+    const id = getStepId(step, index);
+    if (ids.has(id)) {
+      throw new Error(`${label}: duplicate step ID "${id}"`);
+    }
+    ids.add(id);
+  }
+
+  return pipeline as Pipeline;
+}
+
+/**
+ * Loads a pipeline file.
+ *
+ * Pipeline files are JSON, or YAML if the file name ends with `.yml` or `.yaml`.
+ * Relative paths in steps are resolved against the directory of the file.
+ *
+ * @param filePath - Path to the pipeline file
+ * @returns The pipeline with its location and content hash
+ * @throws Error if the file cannot be read or is invalid
+ *
+ * @example
+ * ```typescript
+ * const loaded = loadPipeline('./deploy.json');
+ * console.log(loaded.pipeline.targets);
+ * ```
+ */
+export function loadPipeline(filePath: string): LoadedPipeline {
+  const absolutePath = path.resolve(filePath);
+
+  let content: string;
+  try {
+    content = fs.readFileSync(absolutePath, 'utf8');
+  } catch (error) {
+    throw new Error(`Failed to read pipeline file ${filePath}`, {cause: error});
+  }
+
+  let pipeline: Pipeline;
+  try {
+    pipeline = parsePipeline(content, /\.ya?ml$/i.test(absolutePath) ? 'yaml' : 'json');
+  } catch (error) {
+    throw new Error(`${filePath}: ${(error as Error).message}`, {cause: error});
+  }
+
+  return {
+    path: absolutePath,
+    directory: path.dirname(absolutePath),
+    hash: createHash('sha256').update(content).digest('hex'),
+    pipeline,
+  };
+}
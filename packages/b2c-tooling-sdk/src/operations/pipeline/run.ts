@@ -0,0 +1,529 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import fs from 'node:fs';
+import path from 'node:path';
+import type {AuthStrategy} from '../../auth/types.js';
+import {loadDwJson} from '../../config/dw-json.js';
+import {B2CInstance} from '../../instance/index.js';
+import {getLogger} from '../../logging/logger.js';
+import {findCartridges} from '../code/cartridges.js';
+import {findAndDeployCartridges} from '../code/deploy.js';
+import {activateCodeVersion, createCodeVersion, listCodeVersions, type CodeVersion} from '../code/versions.js';
+import {executeJob, getJobErrorMessage, JobExecutionError, waitForJob} from '../jobs/run.js';
+import {siteArchiveImport} from '../jobs/site-archive.js';
+import {DEFAULT_SSR_ONLY, DEFAULT_SSR_SHARED} from '../mrt/bundle.js';
+import {pushBundle} from '../mrt/push.js';
+import {getStepId, type LoadedPipeline, type PipelineStep} from './pipeline.js';
+import {
+  getDefaultStatePath,
+  getStepStateKey,
+  readPipelineState,
+  writePipelineState,
+  type PipelineState,
+  type PipelineStepState,
+  type PipelineStepStatus,
+} from './state.js';
+
+/**
+ * A resolved pipeline target.
+ */
+export interface PipelineTarget {
+  /** Target name (dw.json config name) */
+  name: string;
+  instance: B2CInstance;
+  /** Default MRT project for `mrt-push` steps */
+  mrtProject?: string;
+  /** Default MRT environment for `mrt-push` steps */
+  mrtEnvironment?: string;
+}
+
+/**
+ * Options shared by {@link planPipeline} and {@link applyPipeline}.
+ */
+export interface PipelineRunOptions {
+  /** Only run these targets (default: all targets of the pipeline) */
+  targets?: string[];
+  /** Path to dw.json (default: searched upwards from the current directory) */
+  configPath?: string;
+  /** Custom target resolution (default: {@link resolvePipelineTarget}) */
+  resolveTarget?: (name: string) => PipelineTarget | Promise<PipelineTarget>;
+  /** MRT authentication, required by `mrt-push` steps */
+  mrtAuth?: AuthStrategy;
+  /** MRT API origin URL */
+  mrtOrigin?: string;
+  /** State file path (default: see {@link getDefaultStatePath}) */
+  statePath?: string;
+}
+
+/**
+ * A step of a plan for one target.
+ */
+export interface PlannedStep {
+  target: string;
+  stepId: string;
+  type: PipelineStep['type'];
+  /** Changes the step would make (empty if it would change nothing) */
+  changes: string[];
+  /** `succeeded` if the step already ran and will be skipped by a resumed apply */
+  status: PipelineStepStatus;
+  /** Problem that would make the step fail */
+  error?: string;
+}
+
+/**
+ * Result of {@link planPipeline}.
+ */
+export interface PipelinePlan {
+  steps: PlannedStep[];
+  /** State file the plan was checked against */
+  statePath: string;
+  /**
+   * - `new`: no state file, apply starts from the first step
+   * - `resume`: apply resumes after the last succeeded step
+   * - `outdated`: the state file belongs to an older version of the pipeline (apply needs `restart`)
+   */
+  state: 'new' | 'outdated' | 'resume';
+}
+
+/**
+ * Options for {@link applyPipeline}.
+ */
+export interface ApplyPipelineOptions extends PipelineRunOptions {
+  /** Ignore an existing state file and run all steps */
+  restart?: boolean;
+  /** Called before a step runs */
+  onStepStart?: (target: string, stepId: string, step: PipelineStep) => void;
+  /** Called after a step ran or was skipped */
+  onStepComplete?: (result: PipelineStepResult) => void;
+}
+
+/**
+ * Outcome of a step for one target.
+ */
+export interface PipelineStepResult extends PipelineStepState {
+  target: string;
+  stepId: string;
+  type: PipelineStep['type'];
+}
+
+/**
+ * Result of {@link applyPipeline}.
+ */
+export interface ApplyPipelineResult {
+  /** Whether all steps succeeded */
+  succeeded: boolean;
+  /** Steps that ran or were skipped, up to the first failure */
+  steps: PipelineStepResult[];
+  /** State file path (removed once every step of every target succeeded) */
+  statePath: string;
+}
+
+interface RunStep {
+  target: string;
+  stepId: string;
+  step: PipelineStep;
+}
+
+/**
+ * Resolves a target from the `configs` of dw.json.
+ *
+ * @param name - Config name
+ * @param configPath - Path to dw.json (default: searched upwards from the current directory)
+ * @returns Instance and MRT defaults of the config
+ * @throws Error if dw.json has no config with that name
+ */
+export function resolvePipelineTarget(name: string, configPath?: string): PipelineTarget {
+  const config = loadDwJson({instance: name, path: configPath});
+  if (config?.name !== name) {
+    throw new Error(`No config named "${name}" in dw.json`);
+  }
+
+  return {
+    name,
+    instance: B2CInstance.fromEnvironment({instance: name, configPath}),
+    mrtProject: config.mrtProject,
+    mrtEnvironment: config.mrtEnvironment,
+  };
+}
+
+/**
+ * Lists the steps to run, target by target.
+ */
+function getRunSteps(loaded: LoadedPipeline, targets?: string[]): RunStep[] {
+  const {pipeline} = loaded;
+  const unknown = (targets ?? []).filter((t) => !pipeline.targets.includes(t));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown target(s): ${unknown.join(', ')}`);
+  }
+
+  const runSteps: RunStep[] = [];
+  for (const target of pipeline.targets.filter((t) => !targets || targets.includes(t))) {
+    for (const [index, step] of pipeline.steps.entries()) {
+      if (!step.targets || step.targets.includes(target)) {
+        runSteps.push({target, stepId: getStepId(step, index), step});
+      }
+    }
+  }
+  return runSteps;
+}
+
+/**
+ * Returns a target resolver that resolves each target once.
+ */
+function createTargetResolver(options: PipelineRunOptions): (name: string) => Promise<PipelineTarget> {
+  const cache = new Map<string, Promise<PipelineTarget>>();
+  const resolve = options.resolveTarget ?? ((name: string) => resolvePipelineTarget(name, options.configPath));
+
+  return (name) => {
+    if (!cache.has(name)) {
+      cache.set(
+        name,
+        Promise.resolve().then(() => resolve(name)),
+      );
+    }
+    return cache.get(name)!;
+  };
+}
+
+function errorMessage(error: unknown): string {
+  if (error instanceof JobExecutionError) {
+    return getJobErrorMessage(error.execution) ?? error.message;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+function getCodeVersion(step: {codeVersion?: string}, target: PipelineTarget): string {
+  const codeVersion = step.codeVersion ?? target.instance.config.codeVersion;
+  if (!codeVersion) {
+    throw new Error(`No code version: set "codeVersion" on the step or "code-version" in the ${target.name} config`);
+  }
+  return codeVersion;
+}
+
+function getMrtProject(step: {project?: string}, target: PipelineTarget): string {
+  const project = step.project ?? target.mrtProject;
+  if (!project) {
+    throw new Error(`No MRT project: set "project" on the step or "mrtProject" in the ${target.name} config`);
+  }
+  return project;
+}
+
+/**
+ * Describes what a step would change on a target.
+ *
+ * @param plannedVersions - Code versions created by earlier steps of the target
+ */
+async function describeStep(
+  step: PipelineStep,
+  target: PipelineTarget,
+  loaded: LoadedPipeline,
+  options: PipelineRunOptions,
+  getCodeVersions: () => Promise<CodeVersion[]>,
+  plannedVersions: Set<string>,
+): Promise<string[]> {
+  switch (step.type) {
+    case 'code-deploy': {
+      const codeVersion = getCodeVersion(step, target);
+      const directory = path.resolve(loaded.directory, step.directory ?? '.');
+      const cartridges = findCartridges(directory, {include: step.cartridges, exclude: step.exclude});
+      if (cartridges.length === 0) {
+        throw new Error(`No cartridges found in ${directory}`);
+      }
+
+      const changes: string[] = [];
+      const exists = (await getCodeVersions()).some((v) => v.id === codeVersion) || plannedVersions.has(codeVersion);
+      if (!exists) {
+        changes.push(`Create code version ${codeVersion}`);
+        plannedVersions.add(codeVersion);
+      }
+      if (step.delete) {
+        changes.push(`Delete ${cartridges.length} cartridge(s) from ${codeVersion}`);
+      }
+      changes.push(
+        `Upload ${cartridges.length} cartridge(s) to ${codeVersion}: ${cartridges.map((c) => c.name).join(', ')}`,
+      );
+      if (step.reload) {
+        changes.push(`Reload code version ${codeVersion}`);
+      }
+      return changes;
+    }
+
+    case 'code-activate': {
+      const codeVersion = getCodeVersion(step, target);
+      const versions = await getCodeVersions();
+      const active = versions.find((v) => v.active)?.id;
+      if (!versions.some((v) => v.id === codeVersion) && !plannedVersions.has(codeVersion)) {
+        throw new Error(`Code version ${codeVersion} does not exist`);
+      }
+      return active === codeVersion ? [] : [`Activate ${codeVersion} (active: ${active ?? 'none'})`];
+    }
+
+    case 'site-archive-import': {
+      const archivePath = path.resolve(loaded.directory, step.path);
+      if (!fs.existsSync(archivePath)) {
+        throw new Error(`Site archive not found: ${archivePath}`);
+      }
+      if (fs.statSync(archivePath).isDirectory()) {
+        const files = fs.readdirSync(archivePath, {recursive: true, withFileTypes: true}).filter((e) => e.isFile());
+        return [`Import site archive directory ${archivePath} (${files.length} file(s))`];
+      }
+      return [`Import site archive ${archivePath}`];
+    }
+
+    case 'job-run': {
+      const parameters = Object.entries(step.parameters ?? {}).map(([name, value]) => `${name}=${value}`);
+      return [`Run job ${step.jobId}${parameters.length > 0 ? ` with ${parameters.join(', ')}` : ''}`];
+    }
+
+    case 'mrt-push': {
+      const project = getMrtProject(step, target);
+      const environment = step.environment ?? target.mrtEnvironment;
+      const buildDirectory = path.resolve(loaded.directory, step.buildDirectory ?? 'build');
+      if (!options.mrtAuth) {
+        throw new Error('MRT API key required');
+      }
+      if (!fs.existsSync(buildDirectory)) {
+        throw new Error(`Build directory not found: ${buildDirectory}`);
+      }
+      return [
+        environment
+          ? `Push bundle from ${buildDirectory} to ${project} and deploy to ${environment}`
+          : `Push bundle from ${buildDirectory} to ${project} (not deployed)`,
+      ];
+    }
+  }
+}
+
+/**
+ * Runs a step on a target.
+ *
+ * @returns Summary of what the step did
+ */
+async function executeStep(
+  step: PipelineStep,
+  target: PipelineTarget,
+  loaded: LoadedPipeline,
+  options: PipelineRunOptions,
+): Promise<string> {
+  const {instance} = target;
+
+  switch (step.type) {
+    case 'code-deploy': {
+      const codeVersion = getCodeVersion(step, target);
+      const versions = await listCodeVersions(instance);
+      if (!versions.some((v) => v.id === codeVersion)) {
+        await createCodeVersion(instance, codeVersion);
+      }
+
+      const {cartridges} = await findAndDeployCartridges(
+        instance,
+        path.resolve(loaded.directory, step.directory ?? '.'),
+        {
+          codeVersion,
+          include: step.cartridges,
+          exclude: step.exclude,
+          delete: step.delete,
+          reload: step.reload,
+        },
+      );
+      return `Deployed ${cartridges.length} cartridge(s) to ${codeVersion}`;
+    }
+
+    case 'code-activate': {
+      const codeVersion = getCodeVersion(step, target);
+      await activateCodeVersion(instance, codeVersion);
+      return `Activated ${codeVersion}`;
+    }
+
+    case 'site-archive-import': {
+      const {execution} = await siteArchiveImport(instance, path.resolve(loaded.directory, step.path));
+      return `Import job ${execution.id} finished (${execution.exit_status?.code ?? execution.execution_status})`;
+    }
+
+    case 'job-run': {
+      const parameters = Object.entries(step.parameters ?? {}).map(([name, value]) => ({name, value}));
+      const started = await executeJob(instance, step.jobId, {parameters});
+      const execution = await waitForJob(instance, step.jobId, started.id!, {
+        timeout: step.timeout ? step.timeout * 1000 : undefined,
+      });
+      return `Job ${step.jobId} execution ${execution.id} finished (${execution.exit_status?.code ?? execution.execution_status})`;
+    }
+
+    case 'mrt-push': {
+      if (!options.mrtAuth) {
+        throw new Error('MRT API key required');
+      }
+      const result = await pushBundle(
+        {
+          projectSlug: getMrtProject(step, target),
+          target: step.environment ?? target.mrtEnvironment,
+          buildDirectory: path.resolve(loaded.directory, step.buildDirectory ?? 'build'),
+          message: step.message,
+          ssrOnly: step.ssrOnly ?? DEFAULT_SSR_ONLY,
+          ssrShared: step.ssrShared ?? DEFAULT_SSR_SHARED,
+          ssrParameters: step.ssrParameters,
+          origin: options.mrtOrigin,
+        },
+        options.mrtAuth,
+      );
+      return result.deployed
+        ? `Bundle #${result.bundleId} pushed to ${result.projectSlug} and deployed to ${result.target}`
+        : `Bundle #${result.bundleId} pushed to ${result.projectSlug}`;
+    }
+  }
+}
+
+/**
+ * Shows what applying a pipeline would change, without changing anything.
+ *
+ * Code version steps are checked against the code versions on each target.
+ * Steps recorded as succeeded in the state file are marked, as a resumed
+ * apply skips them.
+ *
+ * @param loaded - Pipeline (see {@link loadPipeline})
+ * @param options - Targets, dw.json location, MRT authentication and state file
+ * @returns Planned changes per target and step
+ * @throws Error if a target cannot be resolved
+ *
+ * @example
+ * ```typescript
+ * const plan = await planPipeline(loadPipeline('./deploy.json'));
+ * for (const step of plan.steps) {
+ *   console.log(step.target, step.stepId, step.error ?? step.changes.join('; '));
+ * }
+ * ```
+ */
+export async function planPipeline(loaded: LoadedPipeline, options: PipelineRunOptions = {}): Promise<PipelinePlan> {
+  const runSteps = getRunSteps(loaded, options.targets);
+  const resolveTarget = createTargetResolver(options);
+  const statePath = options.statePath ?? getDefaultStatePath(loaded);
+  const state = readPipelineState(statePath);
+  const outdated = state !== undefined && state.pipelineHash !== loaded.hash;
+
+  const codeVersions = new Map<string, Promise<CodeVersion[]>>();
+  const plannedVersions = new Map<string, Set<string>>();
+  const steps: PlannedStep[] = [];
+
+  for (const {target: name, stepId, step} of runSteps) {
+    const target = await resolveTarget(name);
+    const planned: PlannedStep = {target: name, stepId, type: step.type, changes: [], status: 'pending'};
+
+    if (!outdated && state?.steps[getStepStateKey(name, stepId)]?.status === 'succeeded') {
+      planned.status = 'succeeded';
+      steps.push(planned);
+      continue;
+    }
+
+    const getCodeVersions = (): Promise<CodeVersion[]> => {
+      if (!codeVersions.has(name)) codeVersions.set(name, listCodeVersions(target.instance));
+      return codeVersions.get(name)!;
+    };
+    if (!plannedVersions.has(name)) plannedVersions.set(name, new Set());
+
+    try {
+      planned.changes = await describeStep(step, target, loaded, options, getCodeVersions, plannedVersions.get(name)!);
+    } catch (error) {
+      planned.error = errorMessage(error);
+    }
+    steps.push(planned);
+  }
+
+  return {steps, statePath, state: state ? (outdated ? 'outdated' : 'resume') : 'new'};
+}
+
+/**
+ * Applies a pipeline: runs its steps in order, target by target.
+ *
+ * Progress is written to a state file after each step. The run stops at the first
+ * failing step; applying the same pipeline again resumes at that step, skipping
+ * the steps that already succeeded. Once every step of every target has
+ * succeeded, the state file is removed.
+ *
+ * @param loaded - Pipeline (see {@link loadPipeline})
+ * @param options - Targets, dw.json location, MRT authentication, state file and callbacks
+ * @returns Outcome of each step
+ * @throws Error if the state file belongs to a changed pipeline (and `restart` is not set)
+ *   or a target cannot be resolved
+ *
+ * @example
+ * ```typescript
+ * const result = await applyPipeline(loadPipeline('./deploy.json'), {
+ *   onStepComplete: (step) => console.log(step.target, step.stepId, step.status),
+ * });
+ * if (!result.succeeded) {
+ *   console.log(`Fix the problem and apply again to resume (${result.statePath})`);
+ * }
+ * ```
+ */
+export async function applyPipeline(
+  loaded: LoadedPipeline,
+  options: ApplyPipelineOptions = {},
+): Promise<ApplyPipelineResult> {
+  const logger = getLogger();
+  const runSteps = getRunSteps(loaded, options.targets);
+  const resolveTarget = createTargetResolver(options);
+  const statePath = options.statePath ?? getDefaultStatePath(loaded);
+
+  const previous = options.restart ? undefined : readPipelineState(statePath);
+  if (previous && previous.pipelineHash !== loaded.hash) {
+    throw new Error(`${statePath} belongs to a different version of the pipeline; restart to run all steps`);
+  }
+  const state: PipelineState = previous ?? {pipelineHash: loaded.hash, startedAt: new Date().toISOString(), steps: {}};
+
+  const results: PipelineStepResult[] = [];
+
+  for (const {target: name, stepId, step} of runSteps) {
+    const key = getStepStateKey(name, stepId);
+
+    if (state.steps[key]?.status === 'succeeded') {
+      const result: PipelineStepResult = {
+        target: name,
+        stepId,
+        type: step.type,
+        ...state.steps[key],
+        status: 'skipped',
+      };
+      results.push(result);
+      options.onStepComplete?.(result);
+      continue;
+    }
+
+    options.onStepStart?.(name, stepId, step);
+    logger.debug({target: name, stepId}, `Running step ${stepId} on ${name}`);
+
+    const startedAt = new Date().toISOString();
+    try {
+      const target = await resolveTarget(name);
+      const summary = await executeStep(step, target, loaded, options);
+      state.steps[key] = {status: 'succeeded', startedAt, finishedAt: new Date().toISOString(), summary};
+    } catch (error) {
+      state.steps[key] = {
+        status: 'failed',
+        startedAt,
+        finishedAt: new Date().toISOString(),
+        error: errorMessage(error),
+      };
+    }
+
+    writePipelineState(statePath, state);
+    const result: PipelineStepResult = {target: name, stepId, type: step.type, ...state.steps[key]};
+    results.push(result);
+    options.onStepComplete?.(result);
+
+    if (result.status === 'failed') {
+      return {succeeded: false, steps: results, statePath};
+    }
+  }
+
+  const allSucceeded = getRunSteps(loaded).every(
+    ({target, stepId}) => state.steps[getStepStateKey(target, stepId)]?.status === 'succeeded',
+  );
+  if (allSucceeded) {
+    fs.rmSync(statePath, {force: true});
+  }
+
+  return {succeeded: true, steps: results, statePath};
+}
@@ -0,0 +1,91 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import fs from 'node:fs';
+import path from 'node:path';
+import type {LoadedPipeline} from './pipeline.js';
+
+/**
+ * Status of a step for one target.
+ */
+export type PipelineStepStatus = 'failed' | 'pending' | 'skipped' | 'succeeded';
+
+/**
+ * Recorded outcome of a step for one target.
+ */
+export interface PipelineStepState {
+  status: PipelineStepStatus;
+  /** ISO timestamp of the start of the step */
+  startedAt?: string;
+  /** ISO timestamp of the end of the step */
+  finishedAt?: string;
+  /** Short summary of what the step did */
+  summary?: string;
+  /** Error message of a failed step */
+  error?: string;
+}
+
+/**
+ * Progress of a pipeline run, written after each step so a failed run can be resumed.
+ */
+export interface PipelineState {
+  /** Hash of the pipeline file the state belongs to */
+  pipelineHash: string;
+  /** ISO timestamp of the start of the run */
+  startedAt: string;
+  /** Step outcomes keyed by {@link getStepStateKey} */
+  steps: Record<string, PipelineStepState>;
+}
+
+/**
+ * Returns the default state file path for a pipeline: `<pipeline file>.state.json`.
+ *
+ * @param pipeline - Loaded pipeline
+ * @returns State file path
+ */
+export function getDefaultStatePath(pipeline: LoadedPipeline): string {
+  const {dir, name} = path.parse(pipeline.path);
+  return path.join(dir, `${name}.state.json`);
+}
+
+/**
+ * Returns the key of a step for a target in {@link PipelineState.steps}.
+ *
+ * @param target - Target name
+ * @param stepId - Step ID
+ * @returns State key
+ */
+export function getStepStateKey(target: string, stepId: string): string {
+  return `${target}/${stepId}`;
+}
+
+/**
+ * Reads a pipeline state file.
+ *
+ * @param statePath - State file path
+ * @returns The state, or undefined if the file does not exist
+ * @throws Error if the file is not valid JSON
+ */
+export function readPipelineState(statePath: string): PipelineState | undefined {
+  if (!fs.existsSync(statePath)) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(fs.readFileSync(statePath, 'utf8')) as PipelineState;
+  } catch (error) {
+    throw new Error(`Invalid pipeline state file ${statePath}`, {cause: error});
+  }
+}
+
+/**
+ * Writes a pipeline state file.
+ *
+ * @param statePath - State file path
+ * @param state - State to write
+ */
+export function writePipelineState(statePath: string, state: PipelineState): void {
+  fs.writeFileSync(statePath, `${JSON.stringify(state, null, 2)}\n`);
+}
@@ -0,0 +1,219 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import type {B2CInstance} from '../../instance/index.js';
+import type {OcapiComponents} from '../../clients/index.js';
+import {getLogger} from '../../logging/logger.js';
+
+/** Cartridge path response from OCAPI */
+type CartridgePathResponse = OcapiComponents['schemas']['cartridge_path_api_response'];
+
+/**
+ * Position of a cartridge added to a site cartridge path.
+ */
+export type CartridgePosition = OcapiComponents['schemas']['cartridge_path_add_request']['position'];
+
+/** Valid cartridge positions */
+export const CARTRIDGE_POSITIONS: CartridgePosition[] = ['first', 'last', 'before', 'after'];
+
+/**
+ * Options for adding a cartridge to a site cartridge path.
+ */
+export interface AddCartridgeOptions {
+  /** Where to add the cartridge (default: first) */
+  position?: CartridgePosition;
+  /** Target cartridge when position is 'before' or 'after' */
+  target?: string;
+}
+
+/**
+ * A site cartridge path.
+ */
+export interface SiteCartridgePath {
+  /** Site ID */
+  siteId: string;
+  /** Cartridge names in path order */
+  cartridges: string[];
+}
+
+/**
+ * Splits a colon-separated cartridge path into cartridge names.
+ *
+ * @param cartridgePath - Cartridge path (e.g. `app_custom:app_storefront_base`)
+ * @returns Cartridge names in path order
+ */
+export function parseCartridgePath(cartridgePath: string | undefined): string[] {
+  return (cartridgePath ?? '')
+    .split(':')
+    .map((c) => c.trim())
+    .filter(Boolean);
+}
+
+function toSiteCartridgePath(siteId: string, response: CartridgePathResponse | undefined): SiteCartridgePath {
+  return {
+    siteId: response?.site_id ?? siteId,
+    cartridges: parseCartridgePath(response?.cartridges),
+  };
+}
+
+/**
+ * Gets the cartridge path of a site.
+ *
+ * @param instance - B2C instance
+ * @param siteId - Site ID
+ * @returns The site cartridge path
+ * @throws Error if the site cannot be read
+ *
+ * @example
+ * ```typescript
+ * const {cartridges} = await getCartridgePath(instance, 'RefArch');
+ * console.log(cartridges.join(':'));
+ * ```
+ */
+export async function getCartridgePath(instance: B2CInstance, siteId: string): Promise<SiteCartridgePath> {
+  const {data, error} = await instance.ocapi.GET('/sites/{site_id}', {
+    params: {path: {site_id: siteId}},
+  });
+
+  if (error) {
+    throw new Error(`Failed to get cartridge path of site ${siteId}`, {cause: error});
+  }
+
+  return {siteId, cartridges: parseCartridgePath(data?.cartridges)};
+}
+
+/**
+ * Adds a cartridge to the cartridge path of a site.
+ *
+ * @param instance - B2C instance
+ * @param siteId - Site ID
+ * @param cartridge - Cartridge name to add
+ * @param options - Position options
+ * @returns The updated site cartridge path
+ * @throws Error if the cartridge cannot be added (e.g. already on the path)
+ *
+ * @example
+ * ```typescript
+ * await addCartridge(instance, 'RefArch', 'plugin_applepay', {position: 'after', target: 'app_custom'});
+ * ```
+ */
+export async function addCartridge(
+  instance: B2CInstance,
+  siteId: string,
+  cartridge: string,
+  options: AddCartridgeOptions = {},
+): Promise<SiteCartridgePath> {
+  const logger = getLogger();
+  const position = options.position ?? 'first';
+
+  if ((position === 'before' || position === 'after') && !options.target) {
+    throw new Error(`A target cartridge is required for position '${position}'`);
+  }
+
+  logger.debug({siteId, cartridge, position, target: options.target}, `Adding ${cartridge} to site ${siteId}`);
+
+  const {data, error} = await instance.ocapi.POST('/sites/{site_id}/cartridges', {
+    params: {path: {site_id: siteId}},
+    body: {name: cartridge, position, target: options.target},
+  });
+
+  if (error) {
+    throw new Error(`Failed to add cartridge ${cartridge} to site ${siteId}`, {cause: error});
+  }
+
+  return toSiteCartridgePath(siteId, data);
+}
+
+/**
+ * Removes a cartridge from the cartridge path of a site.
+ *
+ * @param instance - B2C instance
+ * @param siteId - Site ID
+ * @param cartridge - Cartridge name to remove
+ * @returns The updated site cartridge path
+ * @throws Error if the cartridge is not on the path or cannot be removed
+ */
+export async function removeCartridge(
+  instance: B2CInstance,
+  siteId: string,
+  cartridge: string,
+): Promise<SiteCartridgePath> {
+  getLogger().debug({siteId, cartridge}, `Removing ${cartridge} from site ${siteId}`);
+
+  const {data, error} = await instance.ocapi.DELETE('/sites/{site_id}/cartridges/{cartridge_name}', {
+    params: {path: {site_id: siteId, cartridge_name: cartridge}},
+  });
+
+  if (error) {
+    throw new Error(`Failed to remove cartridge ${cartridge} from site ${siteId}`, {cause: error});
+  }
+
+  return toSiteCartridgePath(siteId, data);
+}
+
+/**
+ * Replaces the cartridge path of a site.
+ *
+ * @param instance - B2C instance
+ * @param siteId - Site ID
+ * @param cartridges - Cartridge names in path order
+ * @returns The updated site cartridge path
+ * @throws Error if the cartridge path is invalid
+ */
+export async function setCartridgePath(
+  instance: B2CInstance,
+  siteId: string,
+  cartridges: string[],
+): Promise<SiteCartridgePath> {
+  const cartridgePath = cartridges.join(':');
+  getLogger().debug({siteId, cartridgePath}, `Setting cartridge path of site ${siteId}`);
+
+  const {data, error} = await instance.ocapi.PUT('/sites/{site_id}/cartridges', {
+    params: {path: {site_id: siteId}},
+    body: {cartridges: cartridgePath},
+  });
+
+  if (error) {
+    throw new Error(`Failed to set cartridge path of site ${siteId}`, {cause: error});
+  }
+
+  return toSiteCartridgePath(siteId, data);
+}
+
+/**
+ * Ensures cartridges are on the cartridge path of a site.
+ *
+ * Missing cartridges are prepended (position 'first') or appended (position 'last')
+ * in the given order. Cartridges already on the path are left where they are.
+ *
+ * @param instance - B2C instance
+ * @param siteId - Site ID
+ * @param cartridges - Cartridge names that must be on the path
+ * @param position - Where to add missing cartridges (default: first)
+ * @returns The cartridge path and the cartridges that were added
+ *
+ * @example
+ * ```typescript
+ * const {added} = await ensureCartridgesOnPath(instance, 'RefArch', ['app_custom', 'int_payment']);
+ * ```
+ */
+export async function ensureCartridgesOnPath(
+  instance: B2CInstance,
+  siteId: string,
+  cartridges: string[],
+  position: 'first' | 'last' = 'first',
+): Promise<SiteCartridgePath & {added: string[]}> {
+  const current = await getCartridgePath(instance, siteId);
+  const added = cartridges.filter((c, i) => !current.cartridges.includes(c) && cartridges.indexOf(c) === i);
+
+  if (added.length === 0) {
+    return {...current, added};
+  }
+
+  const updated = position === 'first' ? [...added, ...current.cartridges] : [...current.cartridges, ...added];
+  const result = await setCartridgePath(instance, siteId, updated);
+
+  return {...result, added};
+}
@@ -14,6 +14,14 @@
  * - {@link listSites} - List all sites on an instance
  * - {@link getSite} - Get details for a specific site
  *
+ * ## Cartridge Path
+ *
+ * - {@link getCartridgePath} - Get the cartridge path of a site
+ * - {@link addCartridge} - Add a cartridge at a position
+ * - {@link removeCartridge} - Remove a cartridge
+ * - {@link setCartridgePath} - Replace the cartridge path
+ * - {@link ensureCartridgesOnPath} - Add missing cartridges to the path
+ *
  * ## Usage
  *
  * ```typescript
@@ -37,6 +45,9 @@
  *
  * // Get a specific site
  * const site = await getSite(instance, 'RefArch');
+ *
+ * // Add a cartridge to the front of the site cartridge path
+ * await addCartridge(instance, 'RefArch', 'app_custom', { position: 'first' });
  * ```
  *
  * ## Authentication
@@ -47,6 +58,17 @@
  */
 import {B2CInstance} from '../../instance/index.js';
 
+export {
+  getCartridgePath,
+  addCartridge,
+  removeCartridge,
+  setCartridgePath,
+  ensureCartridgesOnPath,
+  parseCartridgePath,
+  CARTRIDGE_POSITIONS,
+} from './cartridges.js';
+export type {AddCartridgeOptions, CartridgePosition, SiteCartridgePath} from './cartridges.js';
+
 export interface Site {
   id: string;
   displayName: string;
@@ -0,0 +1,52 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+/**
+ * Business Manager user and role administration for B2C Commerce.
+ *
+ * This module provides functions for managing Business Manager users, their
+ * access roles and access keys via OCAPI.
+ *
+ * ## Users
+ *
+ * - {@link listUsers} - List all users
+ * - {@link getUser} - Get a user
+ * - {@link createUser} - Create a user
+ * - {@link setUserDisabled} - Disable or enable a user
+ * - {@link createAccessKey} - Create an access key (e.g. for WebDAV)
+ *
+ * ## Roles
+ *
+ * - {@link listRoles} - List all access roles
+ * - {@link getRole} - Get a role with its users
+ * - {@link getRolePermissions} - Get the permissions of a role
+ * - {@link grantRole} - Assign a user to a role
+ * - {@link revokeRole} - Remove a user from a role
+ *
+ * ## Usage
+ *
+ * ```typescript
+ * import {createUser, grantRole, createAccessKey} from '@salesforce/b2c-tooling-sdk/operations/users';
+ * import {updateDwJson} from '@salesforce/b2c-tooling-sdk';
+ *
+ * await createUser(instance, 'jdoe', {email: 'jdoe@example.com', lastName: 'Doe'});
+ * await grantRole(instance, 'Administrator', 'jdoe');
+ *
+ * const {access_key} = await createAccessKey(instance, 'jdoe', 'WEBDAV_AND_STUDIO');
+ * updateDwJson({username: 'jdoe', password: access_key});
+ * ```
+ *
+ * ## Authentication
+ *
+ * User and role operations require OAuth authentication with OCAPI Data API
+ * permissions for the /users and /roles resources.
+ *
+ * @module operations/users
+ */
+export {listUsers, getUser, createUser, setUserDisabled, createAccessKey, ACCESS_KEY_SCOPES} from './users.js';
+export type {BusinessManagerUser, AccessKeyDetails, AccessKeyScope, CreateUserOptions} from './users.js';
+
+export {listRoles, getRole, getRolePermissions, flattenRolePermissions, grantRole, revokeRole} from './roles.js';
+export type {AccessRole, RolePermissions, RolePermission} from './roles.js';
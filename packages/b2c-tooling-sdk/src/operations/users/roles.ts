@@ -0,0 +1,207 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import type {B2CInstance} from '../../instance/index.js';
+import type {OcapiComponents} from '../../clients/index.js';
+import {getLogger} from '../../logging/logger.js';
+
+/** Maximum page size of OCAPI list resources */
+const MAX_PAGE_SIZE = 200;
+
+/**
+ * A Business Manager access role as returned by OCAPI.
+ */
+export type AccessRole = OcapiComponents['schemas']['role'];
+
+/**
+ * Permissions of an access role, grouped by kind and scope.
+ */
+export type RolePermissions = OcapiComponents['schemas']['role_permissions'];
+
+/**
+ * A single permission of a role, flattened for display.
+ */
+export interface RolePermission {
+  /** Permission kind */
+  kind: 'functional' | 'locale' | 'module' | 'webdav';
+  /** Scope: `organization`, `site` or `unscoped` */
+  scope: string;
+  /** Permission name: functional permission, `application/module`, locale ID or WebDAV folder */
+  name: string;
+  /** Access value (e.g. `ACCESS`, `READ_WRITE`), or per-site values joined as `site=value` */
+  value: string;
+}
+
+/** Fields of the functional, module, locale and WebDAV permission schemas */
+interface PermissionEntry {
+  name?: string;
+  application?: string;
+  locale_id?: string;
+  folder?: string;
+  value?: string;
+  values?: Record<string, string>;
+}
+
+/**
+ * Lists all access roles.
+ *
+ * @param instance - B2C instance
+ * @returns All roles with their user counts
+ * @throws Error if the roles cannot be listed
+ *
+ * @example
+ * ```typescript
+ * for (const role of await listRoles(instance)) {
+ *   console.log(role.id, role.user_count);
+ * }
+ * ```
+ */
+export async function listRoles(instance: B2CInstance): Promise<AccessRole[]> {
+  const roles: AccessRole[] = [];
+  let start = 0;
+
+  for (;;) {
+    const {data, error} = await instance.ocapi.GET('/roles', {
+      params: {query: {start, count: MAX_PAGE_SIZE, select: '(**)'}},
+    });
+
+    if (error) {
+      throw new Error('Failed to list roles', {cause: error});
+    }
+
+    const page = data?.data ?? [];
+    roles.push(...page);
+    start += page.length;
+
+    if (page.length === 0 || start >= (data?.total ?? 0)) {
+      return roles;
+    }
+  }
+}
+
+/**
+ * Gets an access role with its assigned users.
+ *
+ * @param instance - B2C instance
+ * @param roleId - Role ID
+ * @returns The role, or undefined if it does not exist
+ * @throws Error if the role cannot be read
+ */
+export async function getRole(instance: B2CInstance, roleId: string): Promise<AccessRole | undefined> {
+  const {data, error, response} = await instance.ocapi.GET('/roles/{id}', {
+    params: {path: {id: roleId}, query: {expand: ['users']}},
+  });
+
+  if (response.status === 404) {
+    return undefined;
+  }
+  if (error) {
+    throw new Error(`Failed to get role ${roleId}`, {cause: error});
+  }
+
+  return data;
+}
+
+/**
+ * Gets the permissions of an access role.
+ *
+ * @param instance - B2C instance
+ * @param roleId - Role ID
+ * @returns The role permissions
+ * @throws Error if the role does not exist or its permissions cannot be read
+ */
+export async function getRolePermissions(instance: B2CInstance, roleId: string): Promise<RolePermissions> {
+  const {data, error} = await instance.ocapi.GET('/roles/{id}/permissions', {
+    params: {path: {id: roleId}},
+  });
+
+  if (error) {
+    throw new Error(`Failed to get permissions of role ${roleId}`, {cause: error});
+  }
+
+  return data ?? {};
+}
+
+/**
+ * Flattens role permissions into one entry per permission and scope.
+ *
+ * @param permissions - Role permissions
+ * @returns Functional, module, locale and WebDAV permissions, in that order
+ *
+ * @example
+ * ```typescript
+ * const permissions = flattenRolePermissions(await getRolePermissions(instance, 'Administrator'));
+ * ```
+ */
+export function flattenRolePermissions(permissions: RolePermissions): RolePermission[] {
+  const result: RolePermission[] = [];
+
+  const add = (
+    kind: RolePermission['kind'],
+    scopes: Record<string, PermissionEntry[] | undefined> | undefined,
+    getName: (entry: PermissionEntry) => string,
+  ): void => {
+    for (const [scope, entries] of Object.entries(scopes ?? {})) {
+      for (const entry of entries ?? []) {
+        const siteValues = Object.entries(entry.values ?? {}).map(([site, value]) => `${site}=${value}`);
+        result.push({kind, scope, name: getName(entry), value: entry.value ?? siteValues.join(', ')});
+      }
+    }
+  };
+
+  add('functional', permissions.functional, (p) => p.name ?? '');
+  add('module', permissions.module, (p) => `${p.application}/${p.name}`);
+  add('locale', permissions.locale, (p) => p.locale_id ?? '');
+  add('webdav', permissions.webdav, (p) => p.folder ?? '');
+
+  return result;
+}
+
+/**
+ * Assigns a user to an access role.
+ *
+ * @param instance - B2C instance
+ * @param roleId - Role ID
+ * @param login - User login
+ * @throws Error if the role or user does not exist
+ *
+ * @example
+ * ```typescript
+ * await grantRole(instance, 'Administrator', 'jdoe');
+ * ```
+ */
+export async function grantRole(instance: B2CInstance, roleId: string, login: string): Promise<void> {
+  const logger = getLogger();
+  logger.debug({roleId, login}, `Granting role ${roleId} to ${login}`);
+
+  const {error} = await instance.ocapi.PUT('/roles/{id}/users/{login}', {
+    params: {path: {id: roleId, login}},
+  });
+
+  if (error) {
+    throw new Error(`Failed to grant role ${roleId} to ${login}`, {cause: error});
+  }
+}
+
+/**
+ * Removes a user from an access role.
+ *
+ * @param instance - B2C instance
+ * @param roleId - Role ID
+ * @param login - User login
+ * @throws Error if the role or user does not exist
+ */
+export async function revokeRole(instance: B2CInstance, roleId: string, login: string): Promise<void> {
+  const logger = getLogger();
+  logger.debug({roleId, login}, `Revoking role ${roleId} from ${login}`);
+
+  const {error} = await instance.ocapi.DELETE('/roles/{id}/users/{login}', {
+    params: {path: {id: roleId, login}},
+  });
+
+  if (error) {
+    throw new Error(`Failed to revoke role ${roleId} from ${login}`, {cause: error});
+  }
+}
@@ -0,0 +1,229 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import type {B2CInstance} from '../../instance/index.js';
+import type {OcapiComponents} from '../../clients/index.js';
+import {getLogger} from '../../logging/logger.js';
+
+/** Maximum page size of OCAPI list resources */
+const MAX_PAGE_SIZE = 200;
+
+/**
+ * A Business Manager user as returned by OCAPI.
+ */
+export type BusinessManagerUser = OcapiComponents['schemas']['user'];
+
+/**
+ * An access key as returned by OCAPI.
+ */
+export type AccessKeyDetails = OcapiComponents['schemas']['access_key_details'];
+
+/**
+ * Access key scopes: WebDAV and UX Studio, Agent user and OCAPI, or storefront login.
+ */
+export type AccessKeyScope = 'AGENT_USER_AND_OCAPI' | 'STOREFRONT' | 'WEBDAV_AND_STUDIO';
+
+/** Valid access key scopes */
+export const ACCESS_KEY_SCOPES: AccessKeyScope[] = ['WEBDAV_AND_STUDIO', 'AGENT_USER_AND_OCAPI', 'STOREFRONT'];
+
+/**
+ * Properties of a new user.
+ */
+export interface CreateUserOptions {
+  email: string;
+  lastName: string;
+  firstName?: string;
+  externalId?: string;
+  /** Initial password (local users only) */
+  password?: string;
+  preferredUiLocale?: string;
+  preferredDataLocale?: string;
+}
+
+/**
+ * Lists all Business Manager users.
+ *
+ * @param instance - B2C instance
+ * @returns All users, following pagination
+ * @throws Error if the users cannot be listed
+ *
+ * @example
+ * ```typescript
+ * const users = await listUsers(instance);
+ * for (const user of users) {
+ *   console.log(user.login, user.disabled ? '(disabled)' : '');
+ * }
+ * ```
+ */
+export async function listUsers(instance: B2CInstance): Promise<BusinessManagerUser[]> {
+  const users: BusinessManagerUser[] = [];
+  let start = 0;
+
+  for (;;) {
+    const {data, error} = await instance.ocapi.GET('/users', {
+      params: {query: {start, count: MAX_PAGE_SIZE, select: '(**)'}},
+    });
+
+    if (error) {
+      throw new Error('Failed to list users', {cause: error});
+    }
+
+    const page = data?.data ?? [];
+    users.push(...page);
+    start += page.length;
+
+    if (page.length === 0 || start >= (data?.total ?? 0)) {
+      return users;
+    }
+  }
+}
+
+/**
+ * Gets a Business Manager user.
+ *
+ * @param instance - B2C instance
+ * @param login - User login
+ * @returns The user, or undefined if it does not exist
+ * @throws Error if the user cannot be read
+ */
+export async function getUser(instance: B2CInstance, login: string): Promise<BusinessManagerUser | undefined> {
+  const {data, error, response} = await instance.ocapi.GET('/users/{login}', {
+    params: {path: {login}},
+  });
+
+  if (response.status === 404) {
+    return undefined;
+  }
+  if (error) {
+    throw new Error(`Failed to get user ${login}`, {cause: error});
+  }
+
+  return data;
+}
+
+/**
+ * Creates a Business Manager user.
+ *
+ * Unlike the underlying OCAPI resource, this does not overwrite an existing user.
+ *
+ * @param instance - B2C instance
+ * @param login - User login
+ * @param options - User properties
+ * @returns The created user
+ * @throws Error if the user already exists or cannot be created
+ *
+ * @example
+ * ```typescript
+ * await createUser(instance, 'jdoe', {email: 'jdoe@example.com', lastName: 'Doe', firstName: 'Jane'});
+ * await grantRole(instance, 'Administrator', 'jdoe');
+ * ```
+ */
+export async function createUser(
+  instance: B2CInstance,
+  login: string,
+  options: CreateUserOptions,
+): Promise<BusinessManagerUser> {
+  const logger = getLogger();
+
+  if (await getUser(instance, login)) {
+    throw new Error(`User ${login} already exists`);
+  }
+
+  logger.debug({login}, `Creating user ${login}`);
+
+  const {data, error} = await instance.ocapi.PUT('/users/{login}', {
+    params: {path: {login}},
+    body: {
+      login,
+      email: options.email,
+      last_name: options.lastName,
+      first_name: options.firstName,
+      external_id: options.externalId,
+      password: options.password,
+      preferred_ui_locale: options.preferredUiLocale,
+      preferred_data_locale: options.preferredDataLocale,
+    },
+  });
+
+  if (error) {
+    throw new Error(`Failed to create user ${login}`, {cause: error});
+  }
+
+  return data as BusinessManagerUser;
+}
+
+/**
+ * Disables or enables a Business Manager user.
+ *
+ * @param instance - B2C instance
+ * @param login - User login
+ * @param disabled - Whether the user is disabled (default: true)
+ * @returns The updated user
+ * @throws Error if the user cannot be updated
+ *
+ * @example
+ * ```typescript
+ * await setUserDisabled(instance, 'jdoe');
+ * ```
+ */
+export async function setUserDisabled(
+  instance: B2CInstance,
+  login: string,
+  disabled = true,
+): Promise<BusinessManagerUser> {
+  const logger = getLogger();
+  logger.debug({login, disabled}, `${disabled ? 'Disabling' : 'Enabling'} user ${login}`);
+
+  // PATCH only updates the given properties, but shares the request body type of PUT, which requires email and last_name
+  const {data, error} = await instance.ocapi.PATCH('/users/{login}', {
+    params: {path: {login}},
+    body: {disabled} as BusinessManagerUser,
+  });
+
+  if (error) {
+    throw new Error(`Failed to ${disabled ? 'disable' : 'enable'} user ${login}`, {cause: error});
+  }
+
+  return data as BusinessManagerUser;
+}
+
+/**
+ * Creates an access key for a user, replacing an existing key of the same scope.
+ *
+ * The key is only returned once; store it right away.
+ *
+ * @param instance - B2C instance
+ * @param login - User login
+ * @param scope - Access key scope
+ * @returns The new access key
+ * @throws Error if the key cannot be created
+ *
+ * @example
+ * ```typescript
+ * const {access_key} = await createAccessKey(instance, 'jdoe', 'WEBDAV_AND_STUDIO');
+ * updateDwJson({username: 'jdoe', password: access_key});
+ * ```
+ */
+export async function createAccessKey(
+  instance: B2CInstance,
+  login: string,
+  scope: AccessKeyScope,
+): Promise<AccessKeyDetails> {
+  const logger = getLogger();
+  logger.debug({login, scope}, `Creating ${scope} access key for ${login}`);
+
+  const {data, error} = await instance.ocapi.PUT('/users/{login}/access_key/{scope}', {
+    params: {path: {login, scope}},
+  });
+
+  if (error) {
+    throw new Error(`Failed to create ${scope} access key for ${login}`, {cause: error});
+  }
+  if (!data?.access_key) {
+    throw new Error(`No access key returned for ${login}`);
+  }
+
+  return data;
+}
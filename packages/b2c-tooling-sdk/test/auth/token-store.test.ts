@@ -0,0 +1,62 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import {expect} from 'chai';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {FileTokenStore, OAuthStrategy, getTokenStoreKey} from '@salesforce/b2c-tooling-sdk/auth';
+
+describe('auth/token-store', () => {
+  let tmpDir: string;
+  let store: FileTokenStore;
+
+  const key = {clientId: 'test-client', accountManagerHost: 'account.demandware.com', scopes: ['b', 'a']};
+  const token = {accessToken: 'abc', expires: new Date(Date.now() + 60_000), scopes: ['a', 'b']};
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'b2c-tokens-'));
+    store = new FileTokenStore(path.join(tmpDir, 'config', 'tokens.json'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, {recursive: true, force: true});
+  });
+
+  it('keys tokens independent of scope order', () => {
+    expect(getTokenStoreKey(key)).to.equal(getTokenStoreKey({...key, scopes: ['a', 'b']}));
+    expect(getTokenStoreKey(key)).to.not.equal(getTokenStoreKey({...key, scopes: ['a']}));
+  });
+
+  it('round-trips tokens in a file readable by the owner only', () => {
+    store.set(key, token);
+
+    expect(store.get(key)).to.deep.equal(token);
+    expect(store.get({...key, accountManagerHost: 'other.host'})).to.be.undefined;
+    if (process.platform !== 'win32') {
+      expect(fs.statSync(store.filePath).mode & 0o777).to.equal(0o600);
+    }
+  });
+
+  it('clears tokens by client ID', () => {
+    store.set(key, token);
+    store.set({...key, clientId: 'other-client'}, token);
+
+    expect(store.clear({clientId: 'test-client'})).to.equal(1);
+    expect(store.list().map((t) => t.clientId)).to.deep.equal(['other-client']);
+  });
+
+  it('is used by OAuthStrategy before requesting a new token', async () => {
+    const clientId = 'token-store-client';
+    store.set({clientId, accountManagerHost: 'account.demandware.com'}, token);
+
+    const strategy = new OAuthStrategy({clientId, clientSecret: 'secret', tokenStore: store});
+    const response = await strategy.getTokenResponse();
+    expect(response.accessToken).to.equal('abc');
+
+    strategy.invalidateToken();
+    expect(store.list()).to.be.empty;
+  });
+});
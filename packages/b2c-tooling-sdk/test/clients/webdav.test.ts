@@ -267,6 +267,68 @@ describe('clients/webdav', () => {
       });
     });
 
+    describe('getRange', () => {
+      it('requests content from the offset', async () => {
+        server.use(
+          http.get(`${BASE_URL}/*`, ({request}) => {
+            requests.push({method: request.method, url: request.url, headers: request.headers});
+            return new HttpResponse('new lines', {status: 206});
+          }),
+        );
+
+        const result = await client.getRange('Logs/jobs/test.log', 100);
+
+        expect(requests[0].headers.get('Range')).to.equal('bytes=100-');
+        expect(new TextDecoder().decode(result)).to.equal('new lines');
+      });
+
+      it('returns an empty buffer when nothing is past the offset (416)', async () => {
+        server.use(http.get(`${BASE_URL}/*`, () => new HttpResponse(null, {status: 416})));
+
+        const result = await client.getRange('Logs/jobs/test.log', 100);
+
+        expect(result.byteLength).to.equal(0);
+      });
+
+      it('skips to the offset when the server ignores the range', async () => {
+        server.use(http.get(`${BASE_URL}/*`, () => new HttpResponse('0123456789', {status: 200})));
+
+        const result = await client.getRange('Logs/jobs/test.log', 4);
+
+        expect(new TextDecoder().decode(result)).to.equal('456789');
+      });
+    });
+
+    describe('copy', () => {
+      it('copies to the destination URL without overwriting', async () => {
+        server.use(
+          http.all(`${BASE_URL}/*`, ({request}) => {
+            requests.push({method: request.method, url: request.url, headers: request.headers});
+            return new HttpResponse(null, {status: 201});
+          }),
+        );
+
+        await client.copy('Cartridges/v1', 'Cartridges/v2');
+
+        expect(requests[0].method).to.equal('COPY');
+        expect(requests[0].url).to.equal(`${BASE_URL}/Cartridges/v1`);
+        expect(requests[0].headers.get('Destination')).to.equal(`${BASE_URL}/Cartridges/v2`);
+        expect(requests[0].headers.get('Overwrite')).to.equal('F');
+      });
+
+      it('throws HTTPError when the destination exists', async () => {
+        server.use(http.all(`${BASE_URL}/*`, () => new HttpResponse(null, {status: 412})));
+
+        try {
+          await client.copy('Cartridges/v1', 'Cartridges/v2');
+          expect.fail('Should have thrown');
+        } catch (error) {
+          expect(error).to.be.instanceOf(HTTPError);
+          expect((error as HTTPError).response.status).to.equal(412);
+        }
+      });
+    });
+
     describe('delete', () => {
       it('deletes a file successfully', async () => {
         server.use(
@@ -0,0 +1,56 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {expect} from 'chai';
+import {loadDwJson, updateDwJson} from '@salesforce/b2c-tooling-sdk';
+
+describe('config/dw-json', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'b2c-dwjson-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, {recursive: true, force: true});
+  });
+
+  describe('updateDwJson', () => {
+    it('creates dw.json if none exists', () => {
+      const written = updateDwJson({username: 'jdoe', password: 'key'}, {startDir: tempDir});
+
+      expect(written).to.equal(path.join(tempDir, 'dw.json'));
+      expect(loadDwJson({path: written})).to.deep.equal({username: 'jdoe', password: 'key'});
+    });
+
+    it('updates the named instance and keeps other settings', () => {
+      const dwJsonPath = path.join(tempDir, 'dw.json');
+      fs.writeFileSync(
+        dwJsonPath,
+        JSON.stringify({
+          hostname: 'root.example.com',
+          configs: [{name: 'staging', hostname: 'staging.example.com', 'client-id': 'abc'}],
+        }),
+      );
+
+      updateDwJson({username: 'jdoe', password: 'key'}, {path: dwJsonPath, instance: 'staging'});
+
+      expect(loadDwJson({path: dwJsonPath, instance: 'staging'})).to.deep.equal({
+        name: 'staging',
+        hostname: 'staging.example.com',
+        'client-id': 'abc',
+        username: 'jdoe',
+        password: 'key',
+      });
+      expect(loadDwJson({path: dwJsonPath})?.username).to.equal(undefined);
+      expect(() => updateDwJson({username: 'x'}, {path: dwJsonPath, instance: 'missing'})).to.throw(
+        'Instance missing not found',
+      );
+    });
+  });
+});
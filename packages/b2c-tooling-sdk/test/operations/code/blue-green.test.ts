@@ -0,0 +1,69 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import {expect} from 'chai';
+import {http, HttpResponse} from 'msw';
+import {setupServer} from 'msw/node';
+import {B2CInstance} from '@salesforce/b2c-tooling-sdk/instance';
+import {generateCodeVersionId, runSmokeCheck} from '@salesforce/b2c-tooling-sdk/operations/code';
+
+const TEST_HOST = 'test.demandware.net';
+
+describe('operations/code/blue-green', () => {
+  const server = setupServer();
+  const instance = new B2CInstance({hostname: TEST_HOST}, {});
+
+  before(() => {
+    server.listen({onUnhandledRequest: 'error'});
+  });
+
+  afterEach(() => {
+    server.resetHandlers();
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  describe('generateCodeVersionId', () => {
+    it('derives the ID from the timestamp', () => {
+      expect(generateCodeVersionId(new Date('2025-03-04T05:06:07.890Z'))).to.equal('deploy-20250304-050607');
+    });
+  });
+
+  describe('runSmokeCheck', () => {
+    it('resolves paths against the instance and passes on 2xx', async () => {
+      server.use(http.get(`https://${TEST_HOST}/s/RefArch/home`, () => new HttpResponse('ok', {status: 200})));
+
+      const result = await runSmokeCheck(instance, {urls: ['/s/RefArch/home']});
+
+      expect(result.passed).to.be.true;
+      expect(result.checks).to.deep.equal([
+        {type: 'url', target: `https://${TEST_HOST}/s/RefArch/home`, passed: true, status: 200, error: undefined},
+      ]);
+    });
+
+    it('fails if any URL returns an unexpected status', async () => {
+      server.use(
+        http.get(`https://${TEST_HOST}/ok`, () => new HttpResponse(null, {status: 200})),
+        http.get(`https://${TEST_HOST}/broken`, () => new HttpResponse(null, {status: 500})),
+      );
+
+      const result = await runSmokeCheck(instance, {urls: ['/ok', '/broken']});
+
+      expect(result.passed).to.be.false;
+      expect(result.checks.map((c) => c.passed)).to.deep.equal([true, false]);
+      expect(result.checks[1].error).to.equal('Unexpected status 500');
+    });
+
+    it('accepts configured status codes', async () => {
+      server.use(http.get(`https://${TEST_HOST}/maintenance`, () => new HttpResponse(null, {status: 503})));
+
+      const result = await runSmokeCheck(instance, {urls: ['/maintenance'], expectedStatus: [503]});
+
+      expect(result.passed).to.be.true;
+    });
+  });
+});
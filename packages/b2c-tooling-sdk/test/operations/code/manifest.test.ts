@@ -0,0 +1,258 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import {expect} from 'chai';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import JSZip from 'jszip';
+import {http, HttpResponse} from 'msw';
+import {setupServer} from 'msw/node';
+import {B2CInstance} from '@salesforce/b2c-tooling-sdk/instance';
+import {
+  computeCartridgeHashes,
+  diffDeployManifest,
+  getDeployManifestPath,
+  loadDeployManifest,
+  saveDeployManifest,
+  uploadCartridgesIncremental,
+  verifyDeployManifest,
+} from '@salesforce/b2c-tooling-sdk/operations/code';
+import type {CartridgeMapping} from '@salesforce/b2c-tooling-sdk/operations/code';
+
+const TEST_HOST = 'test.demandware.net';
+const WEBDAV_PATH = '/on/demandware.servlet/webdav/Sites/';
+const CARTRIDGES_URL = `https://${TEST_HOST}${WEBDAV_PATH}Cartridges`;
+
+/**
+ * Builds a PROPFIND response for files (path → size) below `Cartridges/`.
+ */
+function propfindResponse(files: Record<string, number>, collections: string[] = []): HttpResponse<string> {
+  const responses = [
+    ...collections.map(
+      (p) => `<D:response>
+  <D:href>${WEBDAV_PATH}Cartridges/${p}/</D:href>
+  <D:propstat><D:prop><D:resourcetype><D:collection/></D:resourcetype></D:prop></D:propstat>
+</D:response>`,
+    ),
+    ...Object.entries(files).map(
+      ([p, size]) => `<D:response>
+  <D:href>${WEBDAV_PATH}Cartridges/${p}</D:href>
+  <D:propstat><D:prop>
+    <D:resourcetype/>
+    <D:getcontentlength>${size}</D:getcontentlength>
+  </D:prop></D:propstat>
+</D:response>`,
+    ),
+  ];
+  return new HttpResponse(`<?xml version="1.0" encoding="utf-8"?>
+<D:multistatus xmlns:D="DAV:">${responses.join('')}</D:multistatus>`);
+}
+
+describe('operations/code/manifest', () => {
+  const server = setupServer();
+  const instance = new B2CInstance(
+    {hostname: TEST_HOST, codeVersion: 'v1'},
+    {basic: {username: 'user', password: 'pass'}},
+  );
+  let tmpDir: string;
+  let cartridges: CartridgeMapping[];
+
+  before(() => {
+    server.listen({onUnhandledRequest: 'error'});
+  });
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'b2c-manifest-'));
+    const src = path.join(tmpDir, 'app_test');
+    fs.mkdirSync(path.join(src, 'cartridge', 'scripts'), {recursive: true});
+    fs.writeFileSync(path.join(src, '.project'), '<projectDescription/>');
+    fs.writeFileSync(path.join(src, 'cartridge', 'scripts', 'a.js'), 'module.exports = 1;');
+    cartridges = [{name: 'app_test', dest: 'app_test', src}];
+  });
+
+  afterEach(() => {
+    server.resetHandlers();
+    fs.rmSync(tmpDir, {recursive: true, force: true});
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  describe('computeCartridgeHashes', () => {
+    it('hashes files keyed by cartridge-relative path', async () => {
+      const files = await computeCartridgeHashes(cartridges);
+
+      expect(Object.keys(files).sort()).to.deep.equal(['app_test/.project', 'app_test/cartridge/scripts/a.js']);
+      expect(files['app_test/cartridge/scripts/a.js'].size).to.equal(19);
+      expect(files['app_test/cartridge/scripts/a.js'].hash).to.match(/^[\da-f]{64}$/);
+    });
+  });
+
+  describe('diffDeployManifest', () => {
+    it('detects added, changed and removed files', () => {
+      const local = {
+        'app_test/a.js': {hash: '1', size: 1},
+        'app_test/b.js': {hash: '2', size: 1},
+        'app_test/c.js': {hash: '3', size: 1},
+      };
+      const previous = {
+        'app_test/b.js': {hash: '2', size: 1},
+        'app_test/c.js': {hash: 'old', size: 1},
+        'app_test/d.js': {hash: '4', size: 1},
+        'other_cartridge/e.js': {hash: '5', size: 1},
+      };
+
+      const diff = diffDeployManifest(local, previous, cartridges);
+
+      expect(diff.added).to.deep.equal(['app_test/a.js']);
+      expect(diff.changed).to.deep.equal(['app_test/c.js']);
+      expect(diff.removed).to.deep.equal(['app_test/d.js']);
+      expect(diff.unchanged).to.equal(1);
+    });
+  });
+
+  describe('saveDeployManifest/loadDeployManifest', () => {
+    it('round-trips a manifest per instance and code version', () => {
+      const files = {'app_test/a.js': {hash: 'abc', size: 3}};
+      saveDeployManifest('test.demandware.net', 'v1', files, tmpDir);
+
+      const manifest = loadDeployManifest('test.demandware.net', 'v1', tmpDir);
+      expect(manifest?.files).to.deep.equal(files);
+      expect(loadDeployManifest('test.demandware.net', 'v2', tmpDir)).to.be.undefined;
+    });
+
+    it('ignores unreadable manifests', () => {
+      const manifestPath = getDeployManifestPath('test.demandware.net', 'v1', tmpDir);
+      fs.writeFileSync(manifestPath, 'not json');
+
+      expect(loadDeployManifest('test.demandware.net', 'v1', tmpDir)).to.be.undefined;
+    });
+  });
+
+  describe('verifyDeployManifest', () => {
+    it('keeps only manifest entries deployed with the recorded size', async () => {
+      const manifestFiles = {
+        'app_test/a.js': {hash: 'a', size: 19},
+        'app_test/b.js': {hash: 'b', size: 5},
+        'app_test/missing.js': {hash: 'm', size: 1},
+      };
+      server.use(
+        http.all(`${CARTRIDGES_URL}/v1`, ({request}) => {
+          expect(request.method).to.equal('PROPFIND');
+          expect(request.headers.get('Depth')).to.equal('infinity');
+          return propfindResponse(
+            {'v1/app_test/a.js': 19, 'v1/app_test/b.js': 6, 'v1/app_test/extra.js': 3, 'v1/other/c.js': 1},
+            ['v1/app_test'],
+          );
+        }),
+      );
+
+      const verified = await verifyDeployManifest(instance, cartridges, manifestFiles);
+
+      expect(verified).to.deep.equal({
+        'app_test/a.js': {hash: 'a', size: 19},
+        'app_test/b.js': {hash: '', size: 6},
+        'app_test/extra.js': {hash: '', size: 3},
+      });
+    });
+
+    it('returns no entries if the code version does not exist', async () => {
+      server.use(http.all(`${CARTRIDGES_URL}/v2`, () => new HttpResponse(null, {status: 404})));
+
+      const verified = await verifyDeployManifest(instance, cartridges, {'app_test/a.js': {hash: 'a', size: 19}}, 'v2');
+
+      expect(verified).to.deep.equal({});
+    });
+  });
+
+  describe('uploadCartridgesIncremental', () => {
+    it('uploads added and changed files and deletes removed files', async () => {
+      const src = cartridges[0].src;
+      fs.writeFileSync(path.join(src, 'cartridge', 'scripts', 'b.js'), 'module.exports = 2;');
+      const local = await computeCartridgeHashes(cartridges);
+      saveDeployManifest(
+        TEST_HOST,
+        'v1',
+        {
+          'app_test/.project': local['app_test/.project'],
+          'app_test/cartridge/scripts/a.js': {hash: 'old', size: 1},
+          'app_test/cartridge/scripts/removed.js': {hash: 'r', size: 1},
+          'other/x.js': {hash: 'x', size: 1},
+        },
+        tmpDir,
+      );
+      const archives: Buffer[] = [];
+      const deleted: string[] = [];
+      server.use(
+        http.put(`${CARTRIDGES_URL}/:file`, async ({request}) => {
+          archives.push(Buffer.from(await request.arrayBuffer()));
+          return new HttpResponse(null, {status: 201});
+        }),
+        http.post(`${CARTRIDGES_URL}/:file`, () => new HttpResponse(null, {status: 200})),
+        http.delete(`${CARTRIDGES_URL}/:file`, () => new HttpResponse(null, {status: 204})),
+        http.delete(`${CARTRIDGES_URL}/v1/*`, ({request}) => {
+          deleted.push(new URL(request.url).pathname.slice(WEBDAV_PATH.length));
+          return new HttpResponse(null, {status: 204});
+        }),
+      );
+
+      const changes = await uploadCartridgesIncremental(instance, cartridges, {manifestDir: tmpDir});
+
+      expect(changes).to.deep.equal({added: 1, changed: 1, removed: 1, unchanged: 1});
+      const zip = await JSZip.loadAsync(archives[0]);
+      expect(
+        Object.values(zip.files)
+          .filter((f) => !f.dir)
+          .map((f) => f.name)
+          .sort(),
+      ).to.deep.equal(['v1/app_test/cartridge/scripts/a.js', 'v1/app_test/cartridge/scripts/b.js']);
+      expect(deleted).to.deep.equal(['Cartridges/v1/app_test/cartridge/scripts/removed.js']);
+      expect(loadDeployManifest(TEST_HOST, 'v1', tmpDir)?.files).to.deep.equal({
+        ...local,
+        'other/x.js': {hash: 'x', size: 1},
+      });
+    });
+
+    it('uploads nothing if no file changed', async () => {
+      saveDeployManifest(TEST_HOST, 'v1', await computeCartridgeHashes(cartridges), tmpDir);
+      // No WebDAV handlers: any upload or delete would fail the test as an unhandled request
+
+      const changes = await uploadCartridgesIncremental(instance, cartridges, {manifestDir: tmpDir});
+
+      expect(changes).to.deep.equal({added: 0, changed: 0, removed: 0, unchanged: 2});
+    });
+
+    it('re-uploads files that differ on the instance when verifying', async () => {
+      saveDeployManifest(TEST_HOST, 'v1', await computeCartridgeHashes(cartridges), tmpDir);
+      const archives: Buffer[] = [];
+      server.use(
+        // The remote a.js has a different size, .project is missing
+        http.all(`${CARTRIDGES_URL}/v1`, () => propfindResponse({'v1/app_test/cartridge/scripts/a.js': 3})),
+        http.put(`${CARTRIDGES_URL}/:file`, async ({request}) => {
+          archives.push(Buffer.from(await request.arrayBuffer()));
+          return new HttpResponse(null, {status: 201});
+        }),
+        http.post(`${CARTRIDGES_URL}/:file`, () => new HttpResponse(null, {status: 200})),
+        http.delete(`${CARTRIDGES_URL}/:file`, () => new HttpResponse(null, {status: 204})),
+      );
+
+      const changes = await uploadCartridgesIncremental(instance, cartridges, {
+        manifestDir: tmpDir,
+        verifyRemote: true,
+      });
+
+      expect(changes).to.deep.equal({added: 1, changed: 1, removed: 0, unchanged: 0});
+      const zip = await JSZip.loadAsync(archives[0]);
+      expect(
+        Object.values(zip.files)
+          .filter((f) => !f.dir)
+          .map((f) => f.name)
+          .sort(),
+      ).to.deep.equal(['v1/app_test/.project', 'v1/app_test/cartridge/scripts/a.js']);
+    });
+  });
+});
@@ -0,0 +1,184 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {expect} from 'chai';
+import JSZip from 'jszip';
+import {http, HttpResponse} from 'msw';
+import {setupServer} from 'msw/node';
+import {createOcapiClient} from '@salesforce/b2c-tooling-sdk/clients';
+import {B2CInstance} from '@salesforce/b2c-tooling-sdk/instance';
+import {
+  watchCartridges,
+  type SiteArchiveSyncResult,
+  type WatchResult,
+} from '@salesforce/b2c-tooling-sdk/operations/code';
+import {MockAuthStrategy} from '../../helpers/mock-auth.js';
+
+const TEST_HOST = 'test.demandware.net';
+const IMPEX_URL = `https://${TEST_HOST}/on/demandware.servlet/webdav/Sites/Impex/src/instance`;
+const CARTRIDGES_URL = `https://${TEST_HOST}/on/demandware.servlet/webdav/Sites/Cartridges/v1`;
+const EXECUTIONS_URL = `https://${TEST_HOST}/s/-/dw/data/*/jobs/sfcc-site-archive-import/executions`;
+
+describe('operations/code/site-archive-sync', () => {
+  const server = setupServer();
+  const instance = new B2CInstance(
+    {hostname: TEST_HOST, codeVersion: 'v1'},
+    {basic: {username: 'user', password: 'pass'}},
+  );
+  let tmpDir: string;
+  let cartridgeDir: string;
+  let siteArchiveDir: string;
+  let result: undefined | WatchResult;
+
+  before(() => {
+    server.listen({onUnhandledRequest: 'error'});
+    // Created after listen() so the client uses the intercepted fetch
+    Object.defineProperty(instance, 'ocapi', {value: createOcapiClient(TEST_HOST, new MockAuthStrategy())});
+  });
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'b2c-site-archive-'));
+    cartridgeDir = path.join(tmpDir, 'cartridges', 'app_test');
+    fs.mkdirSync(path.join(cartridgeDir, 'cartridge'), {recursive: true});
+    fs.writeFileSync(path.join(cartridgeDir, '.project'), '');
+    fs.writeFileSync(path.join(cartridgeDir, 'cartridge', 'a.js'), 'a');
+    siteArchiveDir = path.join(tmpDir, 'site-archive');
+    fs.mkdirSync(path.join(siteArchiveDir, 'meta'), {recursive: true});
+    fs.writeFileSync(path.join(siteArchiveDir, 'meta', 'unchanged.xml'), '<unchanged/>');
+  });
+
+  afterEach(async () => {
+    await result?.stop();
+    result = undefined;
+    server.resetHandlers();
+    fs.rmSync(tmpDir, {recursive: true, force: true});
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  /**
+   * Serves the import job, failing the archive upload with the given statuses
+   * first, and records the uploaded archives.
+   */
+  function mockImport(putStatuses: number[], archives: Buffer[]): void {
+    server.use(
+      http.put(`${IMPEX_URL}/:file`, async ({request}) => {
+        archives.push(Buffer.from(await request.arrayBuffer()));
+        return new HttpResponse(null, {status: putStatuses.shift() ?? 201});
+      }),
+      http.delete(`${IMPEX_URL}/:file`, () => new HttpResponse(null, {status: 204})),
+      http.post(EXECUTIONS_URL, () => HttpResponse.json({id: 'exec-1', execution_status: 'running'})),
+      http.get(`${EXECUTIONS_URL}/exec-1`, () =>
+        HttpResponse.json({id: 'exec-1', execution_status: 'finished', exit_status: {code: 'OK'}}),
+      ),
+    );
+  }
+
+  /**
+   * Starts a watcher and writes a site archive file once it is ready. Resolves
+   * with all import results up to the first successful import.
+   */
+  async function watchUntilImported(file: string): Promise<SiteArchiveSyncResult[]> {
+    const imports: SiteArchiveSyncResult[] = [];
+    await new Promise<void>((resolve, reject) => {
+      watchCartridges(instance, path.join(tmpDir, 'cartridges'), {
+        siteArchive: {
+          directory: siteArchiveDir,
+          debounceTime: 5,
+          retryDelay: 10,
+          maxRetryDelay: 20,
+          waitOptions: {pollInterval: 0},
+        },
+        onImport: (importResult) => {
+          imports.push(importResult);
+          if (!importResult.error) resolve();
+        },
+      })
+        .then((r) => {
+          result = r;
+          r.watcher.once('ready', () => fs.writeFileSync(path.join(siteArchiveDir, file), '<changed/>'));
+        })
+        .catch(reject);
+    });
+    return imports;
+  }
+
+  it('imports an archive containing only the changed files', async () => {
+    const archives: Buffer[] = [];
+    mockImport([], archives);
+
+    const imports = await watchUntilImported(path.join('meta', 'changed.xml'));
+
+    expect(imports).to.have.length(1);
+    expect(imports[0].files).to.deep.equal(['meta/changed.xml']);
+    expect(imports[0].execution?.exit_status?.code).to.equal('OK');
+    const zip = await JSZip.loadAsync(archives[0]);
+    const files = Object.values(zip.files).filter((f) => !f.dir);
+    expect(files.map((f) => f.name.split('/').slice(1).join('/'))).to.deep.equal(['meta/changed.xml']);
+  });
+
+  it('retries a failed import with exponential backoff without further changes', async () => {
+    mockImport([500, 500, 500], []);
+
+    const imports = await watchUntilImported(path.join('meta', 'changed.xml'));
+
+    expect(imports.map((i) => i.retryDelay)).to.deep.equal([10, 20, 20, undefined]);
+    expect(imports.map((i) => i.files)).to.deep.equal(Array.from({length: 4}, () => ['meta/changed.xml']));
+    expect(result?.getPendingCount()).to.equal(0);
+  });
+
+  it('syncs cartridge changes independently of a failing import', async () => {
+    const cartridgeUploads: string[] = [];
+    const imports: SiteArchiveSyncResult[] = [];
+    let synced = 0;
+    let importFailed: () => void;
+    const firstImportFailed = new Promise<void>((resolve) => {
+      importFailed = resolve;
+    });
+    mockImport([500, 500, 500, 500], []);
+    server.use(
+      http.put(`${CARTRIDGES_URL}/:file`, async ({params}) => {
+        // Finish the cartridge sync while the import is waiting for a retry
+        await firstImportFailed;
+        cartridgeUploads.push(params.file as string);
+        return new HttpResponse(null, {status: 201});
+      }),
+      http.post(`${CARTRIDGES_URL}/:file`, () => new HttpResponse(null, {status: 200})),
+      http.delete(`${CARTRIDGES_URL}/:file`, () => new HttpResponse(null, {status: 204})),
+    );
+    const queueFile = path.join(tmpDir, 'queue.json');
+    fs.writeFileSync(queueFile, JSON.stringify({uploads: [path.join(cartridgeDir, 'cartridge', 'a.js')], deletes: []}));
+
+    await new Promise<void>((resolve, reject) => {
+      watchCartridges(instance, path.join(tmpDir, 'cartridges'), {
+        debounceTime: 5,
+        queueFile,
+        siteArchive: {directory: siteArchiveDir, debounceTime: 5, retryDelay: 10, maxRetryDelay: 20},
+        onImport: (importResult) => {
+          imports.push(importResult);
+          importFailed();
+          if (imports.length === 4) resolve();
+        },
+        onSynced: () => synced++,
+      })
+        .then((r) => {
+          result = r;
+          r.watcher.once('ready', () => fs.writeFileSync(path.join(siteArchiveDir, 'meta', 'changed.xml'), '<a/>'));
+        })
+        .catch(reject);
+    });
+
+    expect(imports.every((i) => i.error)).to.be.true;
+    expect(cartridgeUploads).to.have.length(1);
+    expect(synced).to.equal(1);
+    expect(fs.existsSync(queueFile)).to.be.false;
+    expect(result?.getPendingCount()).to.equal(1);
+  });
+});
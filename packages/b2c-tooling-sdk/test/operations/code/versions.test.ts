@@ -0,0 +1,102 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import {expect} from 'chai';
+import {http, HttpResponse} from 'msw';
+import {setupServer} from 'msw/node';
+import {createOcapiClient} from '@salesforce/b2c-tooling-sdk/clients';
+import {B2CInstance} from '@salesforce/b2c-tooling-sdk/instance';
+import {pruneCodeVersions} from '@salesforce/b2c-tooling-sdk/operations/code';
+import {MockAuthStrategy} from '../../helpers/mock-auth.js';
+
+const TEST_HOST = 'test.demandware.net';
+const CODE_VERSIONS_URL = `https://${TEST_HOST}/s/-/dw/data/*/code_versions`;
+
+const VERSIONS = [
+  {id: 'v1', active: false, last_modification_time: '2025-01-01T00:00:00Z'},
+  {id: 'v2', active: true, last_modification_time: '2025-01-02T00:00:00Z'},
+  {id: 'v3', active: false, last_modification_time: '2025-01-03T00:00:00Z'},
+  {id: 'v4', active: false, last_modification_time: '2025-01-04T00:00:00Z'},
+];
+
+describe('operations/code/versions', () => {
+  const server = setupServer();
+  const instance = new B2CInstance({hostname: TEST_HOST}, {});
+
+  before(() => {
+    server.listen({onUnhandledRequest: 'error'});
+    // Created after listen() so the client uses the intercepted fetch
+    Object.defineProperty(instance, 'ocapi', {value: createOcapiClient(TEST_HOST, new MockAuthStrategy())});
+  });
+
+  afterEach(() => {
+    server.resetHandlers();
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  function mockCodeVersions(versions: typeof VERSIONS, deleted: string[]): void {
+    server.use(
+      http.get(CODE_VERSIONS_URL, () => HttpResponse.json({count: versions.length, data: versions})),
+      http.delete(`${CODE_VERSIONS_URL}/:id`, ({params}) => {
+        deleted.push(params.id as string);
+        return new HttpResponse(null, {status: 204});
+      }),
+    );
+  }
+
+  describe('pruneCodeVersions', () => {
+    it('deletes all but the newest inactive versions, oldest first', async () => {
+      const deleted: string[] = [];
+      mockCodeVersions(VERSIONS, deleted);
+
+      const result = await pruneCodeVersions(instance, {keep: 1});
+
+      expect(result).to.deep.equal({deleted: ['v1', 'v3'], kept: ['v4'], active: 'v2'});
+      expect(deleted).to.deep.equal(['v1', 'v3']);
+    });
+
+    it('never deletes the active version', async () => {
+      const deleted: string[] = [];
+      mockCodeVersions(VERSIONS, deleted);
+
+      const result = await pruneCodeVersions(instance, {keep: 0});
+
+      expect(result.deleted).to.deep.equal(['v1', 'v3', 'v4']);
+      expect(deleted).to.not.include('v2');
+    });
+
+    it('deletes exactly the given versions, skipping one activated since they were chosen', async () => {
+      const deleted: string[] = [];
+      const reactivated = VERSIONS.map((v) => ({...v, active: v.id === 'v3'}));
+      mockCodeVersions(reactivated, deleted);
+
+      const result = await pruneCodeVersions(instance, {codeVersionIds: ['v1', 'v3', 'unknown']});
+
+      expect(result).to.deep.equal({deleted: ['v1'], kept: ['v4', 'v2'], active: 'v3'});
+      expect(deleted).to.deep.equal(['v1']);
+    });
+
+    it('does not delete anything on a dry run', async () => {
+      // No DELETE handler: a deletion would fail the test as an unhandled request
+      server.use(http.get(CODE_VERSIONS_URL, () => HttpResponse.json({count: VERSIONS.length, data: VERSIONS})));
+
+      const result = await pruneCodeVersions(instance, {keep: 0, dryRun: true});
+
+      expect(result.deleted).to.deep.equal(['v1', 'v3', 'v4']);
+    });
+
+    it('requires keep or codeVersionIds', async () => {
+      try {
+        await pruneCodeVersions(instance, {});
+        expect.fail('Should have thrown');
+      } catch (error) {
+        expect((error as Error).message).to.equal('keep or codeVersionIds is required');
+      }
+    });
+  });
+});
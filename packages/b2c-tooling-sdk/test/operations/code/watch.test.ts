@@ -0,0 +1,173 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {expect} from 'chai';
+import {http, HttpResponse} from 'msw';
+import {setupServer} from 'msw/node';
+import {B2CInstance} from '@salesforce/b2c-tooling-sdk/instance';
+import {watchCartridges, type WatchOptions, type WatchResult} from '@salesforce/b2c-tooling-sdk/operations/code';
+
+const TEST_HOST = 'test.demandware.net';
+const CARTRIDGES_URL = `https://${TEST_HOST}/on/demandware.servlet/webdav/Sites/Cartridges/v1`;
+
+describe('operations/code/watch', () => {
+  const server = setupServer();
+  const instance = new B2CInstance(
+    {hostname: TEST_HOST, codeVersion: 'v1'},
+    {basic: {username: 'user', password: 'pass'}},
+  );
+  let tmpDir: string;
+  let cartridgeDir: string;
+  let queueFile: string;
+  let result: undefined | WatchResult;
+
+  before(() => {
+    server.listen({onUnhandledRequest: 'error'});
+  });
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'b2c-watch-'));
+    cartridgeDir = path.join(tmpDir, 'cartridges', 'app_test');
+    fs.mkdirSync(path.join(cartridgeDir, 'cartridge'), {recursive: true});
+    fs.writeFileSync(path.join(cartridgeDir, '.project'), '');
+    fs.writeFileSync(path.join(cartridgeDir, 'cartridge', 'a.js'), 'a');
+    queueFile = path.join(tmpDir, 'queue', 'watch.json');
+  });
+
+  afterEach(async () => {
+    await result?.stop();
+    result = undefined;
+    server.resetHandlers();
+    fs.rmSync(tmpDir, {recursive: true, force: true});
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  /**
+   * Writes a queue file, so the watcher syncs the changes right after starting
+   * without depending on file system events.
+   */
+  function queueChanges(uploads: string[], deletes: string[] = []): void {
+    fs.mkdirSync(path.dirname(queueFile), {recursive: true});
+    fs.writeFileSync(queueFile, JSON.stringify({uploads, deletes}));
+  }
+
+  /**
+   * Starts a watcher with short delays and resolves once all changes are synced.
+   */
+  async function watchUntilSynced(options: WatchOptions = {}): Promise<void> {
+    await new Promise<void>((resolve, reject) => {
+      watchCartridges(instance, path.join(tmpDir, 'cartridges'), {
+        debounceTime: 5,
+        retryDelay: 10,
+        maxRetryDelay: 20,
+        queueFile,
+        ...options,
+        onSynced: resolve,
+      })
+        .then((r) => {
+          result = r;
+        })
+        .catch(reject);
+    });
+  }
+
+  function mockUpload(putStatuses: number[], cleanedUp: string[]): void {
+    server.use(
+      http.put(`${CARTRIDGES_URL}/:file`, () => new HttpResponse(null, {status: putStatuses.shift() ?? 201})),
+      http.post(`${CARTRIDGES_URL}/:file`, () => new HttpResponse(null, {status: 200})),
+      http.delete(`${CARTRIDGES_URL}/:file`, ({params}) => {
+        cleanedUp.push(params.file as string);
+        return new HttpResponse(null, {status: 204});
+      }),
+    );
+  }
+
+  it('syncs changes restored from the queue file and removes it once synced', async () => {
+    const cleanedUp: string[] = [];
+    const uploaded: string[][] = [];
+    mockUpload([], cleanedUp);
+    queueChanges([path.join(cartridgeDir, 'cartridge', 'a.js'), path.join(tmpDir, 'elsewhere', 'b.js')]);
+
+    await watchUntilSynced({onUpload: (files) => uploaded.push(files)});
+
+    expect(uploaded).to.deep.equal([[path.join('app_test', 'cartridge', 'a.js')]]);
+    expect(cleanedUp).to.have.length(1);
+    expect(fs.existsSync(queueFile)).to.be.false;
+  });
+
+  it('retries failed uploads with exponential backoff up to the maximum delay', async () => {
+    const retries: Array<{attempt: number; delay: number; pending: number}> = [];
+    mockUpload([500, 500, 500], []);
+    queueChanges([path.join(cartridgeDir, 'cartridge', 'a.js')]);
+
+    await watchUntilSynced({
+      onRetry: ({attempt, delay, pending}) => retries.push({attempt, delay, pending}),
+    });
+
+    expect(retries).to.deep.equal([
+      {attempt: 1, delay: 10, pending: 1},
+      {attempt: 2, delay: 20, pending: 1},
+      {attempt: 3, delay: 20, pending: 1},
+    ]);
+  });
+
+  it('keeps failed changes in the queue file until they are synced', async () => {
+    const file = path.join(cartridgeDir, 'cartridge', 'a.js');
+    const queued: unknown[] = [];
+    mockUpload([500], []);
+    queueChanges([file]);
+
+    await watchUntilSynced({
+      onRetry: () => queued.push(JSON.parse(fs.readFileSync(queueFile, 'utf8'))),
+    });
+
+    expect(queued).to.deep.equal([{uploads: [file], deletes: []}]);
+    expect(fs.existsSync(queueFile)).to.be.false;
+  });
+
+  it('requeues failed deletes and treats already deleted files as deleted', async () => {
+    const deleted: string[][] = [];
+    const deleteStatuses = [500, 404];
+    let retries = 0;
+    server.use(
+      http.delete(
+        `${CARTRIDGES_URL}/app_test/cartridge/:file`,
+        () => new HttpResponse(null, {status: deleteStatuses.shift() ?? 204}),
+      ),
+    );
+    queueChanges([], [path.join(cartridgeDir, 'cartridge', 'gone.js')]);
+
+    await watchUntilSynced({
+      onDelete: (files) => deleted.push(files),
+      onRetry: () => retries++,
+    });
+
+    expect(retries).to.equal(1);
+    expect(deleted).to.deep.equal([[path.join('app_test', 'cartridge', 'gone.js')]]);
+  });
+
+  it('keeps syncing when a callback throws', async () => {
+    const errors: string[] = [];
+    mockUpload([500], []);
+    queueChanges([path.join(cartridgeDir, 'cartridge', 'a.js')]);
+
+    await watchUntilSynced({
+      onError: (error) => errors.push(error.message),
+      onRetry: () => {
+        throw new Error('callback failed');
+      },
+    });
+
+    // The upload error, then the error thrown by the callback
+    expect(errors).to.have.length(2);
+    expect(errors[1]).to.equal('callback failed');
+  });
+});
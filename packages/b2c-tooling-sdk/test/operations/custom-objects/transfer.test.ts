@@ -0,0 +1,164 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import {expect} from 'chai';
+import {http, HttpResponse} from 'msw';
+import {setupServer} from 'msw/node';
+import {createOcapiClient} from '@salesforce/b2c-tooling-sdk/clients';
+import {B2CInstance} from '@salesforce/b2c-tooling-sdk/instance';
+import {
+  importCustomObjects,
+  parseCustomObjectQuery,
+  parseCustomObjectRecords,
+  serializeCustomObjects,
+} from '@salesforce/b2c-tooling-sdk/operations/custom-objects';
+import type {CustomObject, CustomObjectAttributeType} from '@salesforce/b2c-tooling-sdk/operations/custom-objects';
+import {MockAuthStrategy} from '../../helpers/mock-auth.js';
+
+const TEST_HOST = 'test.demandware.net';
+const OCAPI_URL = `https://${TEST_HOST}/s/-/dw/data/*`;
+
+describe('operations/custom-objects', () => {
+  describe('parseCustomObjectQuery', () => {
+    it('matches all objects without an expression', () => {
+      expect(parseCustomObjectQuery('')).to.deep.equal({match_all_query: {}});
+    });
+
+    it('combines conditions with AND', () => {
+      expect(parseCustomObjectQuery('c_enabled = true and c_region in (EU, "US")')).to.deep.equal({
+        bool_query: {
+          must: [
+            {term_query: {fields: ['c_enabled'], operator: 'is', values: [true]}},
+            {term_query: {fields: ['c_region'], operator: 'one_of', values: ['EU', 'US']}},
+          ],
+        },
+      });
+    });
+
+    it('supports null checks, text queries and quoted values', () => {
+      expect(parseCustomObjectQuery('c_note is not null')).to.deep.equal({
+        term_query: {fields: ['c_note'], operator: 'is_not_null'},
+      });
+      expect(parseCustomObjectQuery('c_name ~ "summer and winter"')).to.deep.equal({
+        text_query: {fields: ['c_name'], search_phrase: 'summer and winter'},
+      });
+      expect(parseCustomObjectQuery('c_zip = "01234"')).to.deep.equal({
+        term_query: {fields: ['c_zip'], operator: 'is', values: ['01234']},
+      });
+    });
+
+    it('rejects invalid conditions', () => {
+      expect(() => parseCustomObjectQuery('c_enabled')).to.throw('Invalid query condition');
+    });
+  });
+
+  describe('serializeCustomObjects/parseCustomObjectRecords', () => {
+    const objects: CustomObject[] = [
+      {_v: '21.10', key_value_string: 'a', c_enabled: true, c_title: {default: 'Hello, "world"'}, c_zip: '01234'},
+      {_v: '21.10', key_value_string: 'b', c_count: 5, c_note: 'line 1\nline 2', c_tags: ['x', 'y'], c_zip: 'true'},
+    ];
+    const types: Record<string, CustomObjectAttributeType> = {
+      c_count: {value_type: 'int'},
+      c_enabled: {value_type: 'boolean'},
+      c_note: {value_type: 'text'},
+      c_tags: {value_type: 'set_of_string'},
+      c_title: {value_type: 'string', localizable: true},
+      c_zip: {value_type: 'string'},
+    };
+
+    it('round-trips objects as NDJSON without metadata', () => {
+      const content = serializeCustomObjects(objects, 'ndjson');
+
+      expect(JSON.parse(content.split('\n')[0])).to.not.have.property('_v');
+      expect(parseCustomObjectRecords(content, 'ndjson')).to.deep.equal([
+        {key: 'a', attributes: {c_enabled: true, c_title: {default: 'Hello, "world"'}, c_zip: '01234'}},
+        {key: 'b', attributes: {c_count: 5, c_note: 'line 1\nline 2', c_tags: ['x', 'y'], c_zip: 'true'}},
+      ]);
+    });
+
+    it('round-trips objects as CSV using the attribute types', () => {
+      const content = serializeCustomObjects(objects, 'csv');
+
+      expect(content.split('\n')[0]).to.equal('key,c_count,c_enabled,c_note,c_tags,c_title,c_zip');
+      expect(parseCustomObjectRecords(content, 'csv', types)).to.deep.equal([
+        {key: 'a', attributes: {c_enabled: true, c_title: {default: 'Hello, "world"'}, c_zip: '01234'}},
+        {key: 'b', attributes: {c_count: 5, c_note: 'line 1\nline 2', c_tags: ['x', 'y'], c_zip: 'true'}},
+      ]);
+    });
+
+    it('keeps CSV values of attributes without a known type as strings', () => {
+      expect(
+        parseCustomObjectRecords('key,c_enabled,c_count,c_title\na,true,5,"{""default"":""x""}"\n', 'csv'),
+      ).to.deep.equal([{key: 'a', attributes: {c_enabled: 'true', c_count: '5', c_title: '{"default":"x"}'}}]);
+    });
+
+    it('rejects CSV values that do not match the attribute type', () => {
+      expect(() => parseCustomObjectRecords('key,c_count\na,5\nb,many\n', 'csv', types)).to.throw(
+        'Invalid c_count in CSV row 3: expected a number but got "many"',
+      );
+      expect(() => parseCustomObjectRecords('key,c_enabled\na,yes\n', 'csv', types)).to.throw(
+        'Invalid c_enabled in CSV row 2',
+      );
+    });
+
+    it('requires a key', () => {
+      expect(() => parseCustomObjectRecords('{"c_enabled": true}\n', 'ndjson')).to.throw('Missing key on line 1');
+      expect(() => parseCustomObjectRecords('id,c_enabled\nx,true\n', 'csv')).to.throw('"key" column');
+    });
+  });
+
+  describe('importCustomObjects', () => {
+    const server = setupServer();
+    const instance = new B2CInstance({hostname: TEST_HOST}, {});
+
+    before(() => {
+      server.listen({onUnhandledRequest: 'error'});
+      // Created after listen() so the client uses the intercepted fetch
+      Object.defineProperty(instance, 'ocapi', {value: createOcapiClient(TEST_HOST, new MockAuthStrategy())});
+    });
+
+    afterEach(() => {
+      server.resetHandlers();
+    });
+
+    after(() => {
+      server.close();
+    });
+
+    it('converts CSV values using the attribute definitions of the object type', async () => {
+      const written: unknown[] = [];
+      server.use(
+        http.get(`${OCAPI_URL}/custom_object_definitions/SiteConfig/attribute_definitions`, () =>
+          HttpResponse.json({
+            count: 3,
+            total: 3,
+            start: 0,
+            data: [
+              {id: 'key', effective_id: 'key', value_type: 'string'},
+              {id: 'enabled', effective_id: 'c_enabled', value_type: 'boolean'},
+              {id: 'limit', effective_id: 'c_limit', value_type: 'double'},
+            ],
+          }),
+        ),
+        http.put(`${OCAPI_URL}/custom_objects/SiteConfig/:key`, async ({request}) => {
+          written.push(await request.json());
+          return HttpResponse.json({});
+        }),
+      );
+
+      const result = await importCustomObjects(
+        instance,
+        'SiteConfig',
+        'key,c_enabled,c_limit,c_code\na,false,2.5,007\n',
+        {
+          format: 'csv',
+        },
+      );
+
+      expect(result).to.deep.equal({imported: ['a'], failed: []});
+      expect(written).to.deep.equal([{c_enabled: false, c_limit: 2.5, c_code: '007'}]);
+    });
+  });
+});
@@ -0,0 +1,182 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {expect} from 'chai';
+import {
+  buildSiteArchive,
+  generateSiteArchive,
+  loadSiteArchiveDefinitions,
+  parseSiteArchiveDefinition,
+  validateSiteArchiveXml,
+} from '@salesforce/b2c-tooling-sdk/operations/impex';
+import {diffSiteArchiveXml} from '@salesforce/b2c-tooling-sdk/operations/jobs';
+
+describe('operations/impex', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'b2c-impex-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, {recursive: true, force: true});
+  });
+
+  describe('parseSiteArchiveDefinition', () => {
+    it('rejects unknown sections and invalid attribute types', () => {
+      expect(() => parseSiteArchiveDefinition('{"jobs": []}')).to.throw('Unknown section(s) jobs');
+      expect(() =>
+        parseSiteArchiveDefinition('{"attributes": [{"objectType": "Product", "id": "x", "type": "varchar"}]}'),
+      ).to.throw('attributes[0]: "type" must be one of');
+      expect(() => parseSiteArchiveDefinition('{"customObjects": [{"type": "T"}]}')).to.throw(
+        'customObjects[0]: "id" is required',
+      );
+    });
+  });
+
+  describe('generateSiteArchive', () => {
+    it('generates valid files for each section', async () => {
+      const files = await generateSiteArchive({
+        attributes: [
+          {objectType: 'Product', id: 'color', type: 'string', displayName: 'Color', group: 'Storefront'},
+          {objectType: 'SitePreferences', id: 'mode', type: 'enum-of-string', values: [{value: 'a', default: true}]},
+        ],
+        customTypes: [{id: 'StoreConfig', storageScope: 'site', attributes: [{id: 'value', type: 'text'}]}],
+        preferences: [{site: 'RefArch', values: {mode: 'a'}}],
+        customObjects: [{type: 'StoreConfig', id: 'banner', site: 'RefArch', attributes: {value: 'Hello'}}],
+        services: [{id: 'payments.http', profile: 'payments'}],
+        serviceProfiles: [{id: 'payments', rateLimit: {calls: 10, millis: 1000}}],
+      });
+
+      expect([...files.keys()]).to.deep.equal([
+        'meta/system-objecttype-extensions.xml',
+        'meta/custom-objecttype-definitions.xml',
+        'sites/RefArch/preferences.xml',
+        'sites/RefArch/custom-objects/StoreConfig.xml',
+        'services.xml',
+      ]);
+      for (const xml of files.values()) {
+        expect(await validateSiteArchiveXml(xml)).to.deep.equal([]);
+      }
+
+      const expected = `<?xml version="1.0" encoding="UTF-8"?>
+<metadata xmlns="http://www.demandware.com/xml/impex/metadata/2006-10-31">
+  <type-extension type-id="Product">
+    <custom-attribute-definitions>
+      <attribute-definition attribute-id="color">
+        <display-name xml:lang="x-default">Color</display-name>
+        <type>string</type>
+        <localizable-flag>false</localizable-flag>
+        <site-specific-flag>false</site-specific-flag>
+        <mandatory-flag>false</mandatory-flag>
+        <externally-managed-flag>false</externally-managed-flag>
+        <min-length>0</min-length>
+      </attribute-definition>
+    </custom-attribute-definitions>
+    <group-definitions>
+      <attribute-group group-id="Storefront">
+        <display-name xml:lang="x-default">Storefront</display-name>
+        <attribute attribute-id="color"/>
+      </attribute-group>
+    </group-definitions>
+  </type-extension>
+</metadata>`;
+      const product = files
+        .get('meta/system-objecttype-extensions.xml')!
+        .replace(/<type-extension type-id="SitePreferences">[\s\S]*?<\/type-extension>/, '');
+      expect(await diffSiteArchiveXml(product, expected)).to.deep.equal([]);
+    });
+
+    it('rejects duplicate definitions', async () => {
+      try {
+        await generateSiteArchive({
+          services: [{id: 'a.http'}, {id: 'a.http'}],
+        });
+        expect.fail('should have thrown');
+      } catch (error) {
+        expect((error as Error).message).to.equal('Duplicate service a.http');
+      }
+    });
+  });
+
+  describe('validateSiteArchiveXml', () => {
+    it('reports unknown elements, wrong order and invalid values', async () => {
+      const problems =
+        await validateSiteArchiveXml(`<services xmlns="http://www.demandware.com/xml/impex/services/2014-09-26">
+        <service service-id="a"><enabled>yes</enabled><service-type>HTTP</service-type><url>x</url></service>
+        <service-profile/>
+      </services>`);
+
+      expect(problems).to.deep.equal([
+        'services/service[a]/enabled: <enabled> must be true or false, got "yes"',
+        'services/service[a]/service-type: <service-type> must come before <enabled>',
+        'services/service[a]: unexpected element <url> in <service>',
+        'services/service-profile: <service-profile> must come before <service>',
+        'services/service-profile: <service-profile> is missing attribute "service-profile-id"',
+      ]);
+    });
+  });
+
+  describe('buildSiteArchive', () => {
+    it('writes the files of merged definition files', async () => {
+      const sources = path.join(tempDir, 'metadata');
+      fs.mkdirSync(sources);
+      fs.writeFileSync(
+        path.join(sources, 'attributes.json'),
+        JSON.stringify({attributes: [{objectType: 'Order', id: 'note', type: 'text'}]}),
+      );
+      fs.writeFileSync(
+        path.join(sources, 'services.json'),
+        JSON.stringify({serviceCredentials: [{id: 'c', url: 'https://x'}]}),
+      );
+
+      const {definition, files} = loadSiteArchiveDefinitions([sources]);
+      expect(files).to.have.length(2);
+
+      const output = path.join(tempDir, 'site-archive');
+      const result = await buildSiteArchive(definition, output);
+
+      expect(result.files).to.deep.equal(['meta/system-objecttype-extensions.xml', 'services.xml']);
+      expect(fs.readFileSync(path.join(output, 'services.xml'), 'utf8')).to.contain('<url>https://x</url>');
+    });
+  });
+
+  describe('loadSiteArchiveDefinitions', () => {
+    it('loads .yml and .yaml files found in directories as YAML', () => {
+      const sources = path.join(tempDir, 'metadata');
+      fs.mkdirSync(path.join(sources, 'services'), {recursive: true});
+      fs.writeFileSync(
+        path.join(sources, 'attributes.yml'),
+        'attributes:\n  - objectType: Order\n    id: note\n    type: text\n',
+      );
+      fs.writeFileSync(
+        path.join(sources, 'services', 'credentials.yaml'),
+        'serviceCredentials:\n  - id: c\n    url: https://x\n',
+      );
+      fs.writeFileSync(path.join(sources, 'README.md'), '# Metadata');
+
+      const {definition, files} = loadSiteArchiveDefinitions([sources]);
+
+      expect(files).to.deep.equal([
+        path.join(sources, 'attributes.yml'),
+        path.join(sources, 'services', 'credentials.yaml'),
+      ]);
+      expect(definition).to.deep.equal({
+        attributes: [{objectType: 'Order', id: 'note', type: 'text'}],
+        serviceCredentials: [{id: 'c', url: 'https://x'}],
+      });
+    });
+
+    it('reports invalid YAML with the file name', () => {
+      const file = path.join(tempDir, 'broken.yaml');
+      fs.writeFileSync(file, 'attributes: [');
+
+      expect(() => loadSiteArchiveDefinitions([file])).to.throw(`${file}: Invalid definition YAML`);
+    });
+  });
+});
@@ -0,0 +1,142 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import {expect} from 'chai';
+import {http, HttpResponse} from 'msw';
+import {setupServer} from 'msw/node';
+import {createOcapiClient} from '@salesforce/b2c-tooling-sdk/clients';
+import {B2CInstance} from '@salesforce/b2c-tooling-sdk/instance';
+import {
+  followJobExecution,
+  JobExecutionError,
+  type JobExecution,
+  type JobFollowEvent,
+} from '@salesforce/b2c-tooling-sdk/operations/jobs';
+import {MockAuthStrategy} from '../../helpers/mock-auth.js';
+
+const TEST_HOST = 'test.demandware.net';
+const EXECUTION_URL = `https://${TEST_HOST}/s/-/dw/data/*/jobs/my-job/executions/exec-1`;
+const LOG_URL = `https://${TEST_HOST}/on/demandware.servlet/webdav/Sites/LOGS/jobs/my-job/job.log`;
+
+function execution(status: JobExecution['execution_status'], exitCode?: string): JobExecution {
+  return {
+    id: 'exec-1',
+    job_id: 'my-job',
+    execution_status: status,
+    exit_status: exitCode ? {code: exitCode} : undefined,
+    log_file_path: '/Sites/LOGS/jobs/my-job/job.log',
+    is_log_file_existing: true,
+  };
+}
+
+/**
+ * Serves a log file that grows with each poll. Honors the Range header like
+ * the WebDAV server does and records the requested ranges.
+ */
+function growingLog(snapshots: string[], ranges: string[]) {
+  let poll = 0;
+  return http.get(LOG_URL, ({request}) => {
+    const range = request.headers.get('Range') ?? '';
+    ranges.push(range);
+    const content = Buffer.from(snapshots[Math.min(poll++, snapshots.length - 1)]);
+    const offset = Number(/^bytes=(\d+)-$/.exec(range)?.[1] ?? 0);
+    if (offset >= content.byteLength) {
+      return new HttpResponse(null, {status: 416});
+    }
+    return new HttpResponse(content.subarray(offset), {status: 206});
+  });
+}
+
+async function collect(
+  events: AsyncGenerator<JobFollowEvent, JobExecution>,
+): Promise<{events: JobFollowEvent[]; error?: Error; result?: JobExecution}> {
+  const collected: JobFollowEvent[] = [];
+  try {
+    let next = await events.next();
+    while (!next.done) {
+      collected.push(next.value);
+      next = await events.next();
+    }
+    return {events: collected, result: next.value};
+  } catch (error) {
+    return {events: collected, error: error as Error};
+  }
+}
+
+function logLines(events: JobFollowEvent[]): string[] {
+  return events.flatMap((e) => (e.type === 'log' ? [e.line] : []));
+}
+
+describe('operations/jobs/run', () => {
+  const server = setupServer();
+  const instance = new B2CInstance({hostname: TEST_HOST}, {basic: {username: 'user', password: 'pass'}});
+
+  before(() => {
+    server.listen({onUnhandledRequest: 'error'});
+    // Created after listen() so the client uses the intercepted fetch
+    Object.defineProperty(instance, 'ocapi', {value: createOcapiClient(TEST_HOST, new MockAuthStrategy())});
+  });
+
+  afterEach(() => {
+    server.resetHandlers();
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  describe('followJobExecution', () => {
+    it('reads only appended log content and joins lines split across polls', async () => {
+      const statuses = [execution('running'), execution('running'), execution('finished', 'OK')];
+      const ranges: string[] = [];
+      let poll = 0;
+      server.use(
+        http.get(EXECUTION_URL, () => HttpResponse.json(statuses[poll++])),
+        growingLog(['first\nsec', 'first\nsecond\n', 'first\nsecond\nthird\n'], ranges),
+      );
+
+      const {events, error, result} = await collect(
+        followJobExecution(instance, 'my-job', 'exec-1', {pollInterval: 0}),
+      );
+
+      expect(error).to.be.undefined;
+      expect(result?.execution_status).to.equal('finished');
+      expect(ranges).to.deep.equal(['bytes=0-', 'bytes=9-', 'bytes=13-']);
+      expect(logLines(events)).to.deep.equal(['first', 'second', 'third']);
+      expect(events.filter((e) => e.type === 'status').map((e) => e.previousStatus)).to.deep.equal([
+        undefined,
+        'running',
+      ]);
+    });
+
+    it('yields the last unterminated log line before throwing on failure', async () => {
+      const statuses = [execution('running'), execution('finished', 'ERROR')];
+      let poll = 0;
+      server.use(
+        http.get(EXECUTION_URL, () => HttpResponse.json(statuses[poll++])),
+        growingLog(['starting\n', 'starting\nfailed: missing file'], []),
+      );
+
+      const {events, error} = await collect(followJobExecution(instance, 'my-job', 'exec-1', {pollInterval: 0}));
+
+      expect(error).to.be.instanceOf(JobExecutionError);
+      expect((error as JobExecutionError).execution.exit_status?.code).to.equal('ERROR');
+      expect(logLines(events)).to.deep.equal(['starting', 'failed: missing file']);
+    });
+
+    it('throws once the timeout is exceeded', async () => {
+      server.use(
+        http.get(EXECUTION_URL, () => HttpResponse.json({...execution('running'), is_log_file_existing: false})),
+      );
+
+      const {events, error} = await collect(
+        followJobExecution(instance, 'my-job', 'exec-1', {pollInterval: 5, timeout: 20}),
+      );
+
+      expect(error?.message).to.equal('Timeout waiting for job my-job execution exec-1');
+      expect(events.map((e) => e.type)).to.deep.equal(['status']);
+    });
+  });
+});
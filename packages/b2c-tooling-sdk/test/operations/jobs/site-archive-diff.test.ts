@@ -0,0 +1,175 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import {expect} from 'chai';
+import {diffSiteArchiveFiles, diffSiteArchiveXml} from '@salesforce/b2c-tooling-sdk/operations/jobs';
+
+const NS = 'http://www.demandware.com/xml/impex/metadata/2006-10-31';
+
+function metadata(body: string): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>\n<metadata xmlns="${NS}">${body}</metadata>`;
+}
+
+describe('operations/jobs/site-archive-diff', () => {
+  describe('diffSiteArchiveXml', () => {
+    it('reports added, removed and changed attribute definitions', async () => {
+      const local = metadata(`
+        <type-extension type-id="Product">
+          <custom-attribute-definitions>
+            <attribute-definition attribute-id="color">
+              <display-name xml:lang="x-default">Color</display-name>
+              <type>string</type>
+            </attribute-definition>
+            <attribute-definition attribute-id="legacy"><type>boolean</type></attribute-definition>
+          </custom-attribute-definitions>
+        </type-extension>`);
+      const remote = metadata(`
+        <type-extension type-id="Product">
+          <custom-attribute-definitions>
+            <attribute-definition attribute-id="size"><type>string</type></attribute-definition>
+            <attribute-definition attribute-id="color">
+              <display-name xml:lang="x-default">Colour</display-name>
+              <type>string</type>
+            </attribute-definition>
+          </custom-attribute-definitions>
+        </type-extension>`);
+
+      const changes = await diffSiteArchiveXml(local, remote);
+
+      expect(changes).to.deep.equal([
+        {
+          type: 'changed',
+          entity: 'type-extension Product',
+          item: 'attribute color',
+          properties: [{name: 'display-name[x-default]', local: 'Color', remote: 'Colour'}],
+        },
+        {type: 'removed', entity: 'type-extension Product', item: 'attribute legacy'},
+        {type: 'added', entity: 'type-extension Product', item: 'attribute size'},
+      ]);
+    });
+
+    it('ignores element order and whitespace', async () => {
+      const local = metadata(`
+        <type-extension type-id="Order">
+          <custom-attribute-definitions>
+            <attribute-definition attribute-id="a"><type>string</type></attribute-definition>
+            <attribute-definition attribute-id="b"><type>int</type></attribute-definition>
+          </custom-attribute-definitions>
+        </type-extension>`);
+      const remote = metadata(
+        '<type-extension type-id="Order"><custom-attribute-definitions>' +
+          '<attribute-definition attribute-id="b"><type> int </type></attribute-definition>' +
+          '<attribute-definition attribute-id="a"><type>string</type></attribute-definition>' +
+          '</custom-attribute-definitions></type-extension>',
+      );
+
+      expect(await diffSiteArchiveXml(local, remote)).to.deep.equal([]);
+    });
+
+    it('compares preferences and custom objects by key', async () => {
+      const localPrefs = `<preferences><custom-preferences><development>
+        <preference preference-id="enableFoo">true</preference>
+      </development></custom-preferences></preferences>`;
+      const remotePrefs = `<preferences><custom-preferences><development>
+        <preference preference-id="enableFoo">false</preference>
+      </development></custom-preferences></preferences>`;
+
+      expect(await diffSiteArchiveXml(localPrefs, remotePrefs)).to.deep.equal([
+        {
+          type: 'changed',
+          entity: 'custom-preferences (development)',
+          item: 'preference enableFoo',
+          properties: [{name: 'value', local: 'true', remote: 'false'}],
+        },
+      ]);
+
+      const localObjects = `<custom-objects>
+        <custom-object type-id="Config" object-id="one"><object-attribute attribute-id="v">1</object-attribute></custom-object>
+      </custom-objects>`;
+      const remoteObjects = `<custom-objects>
+        <custom-object type-id="Config" object-id="two"><object-attribute attribute-id="v">2</object-attribute></custom-object>
+      </custom-objects>`;
+
+      expect(await diffSiteArchiveXml(localObjects, remoteObjects)).to.deep.equal([
+        {type: 'removed', entity: 'custom-object Config/one'},
+        {type: 'added', entity: 'custom-object Config/two'},
+      ]);
+    });
+
+    it('keys localized preferences and custom object attributes by language', async () => {
+      const localPrefs = `<preferences><custom-preferences><development>
+        <preference preference-id="greeting" xml:lang="de">Hallo</preference>
+        <preference preference-id="greeting" xml:lang="fr">Bonjour</preference>
+      </development></custom-preferences></preferences>`;
+      const remotePrefs = `<preferences><custom-preferences><development>
+        <preference preference-id="greeting" xml:lang="fr">Bonjour</preference>
+        <preference preference-id="greeting" xml:lang="de">Guten Tag</preference>
+      </development></custom-preferences></preferences>`;
+
+      expect(await diffSiteArchiveXml(localPrefs, remotePrefs)).to.deep.equal([
+        {
+          type: 'changed',
+          entity: 'custom-preferences (development)',
+          item: 'preference greeting[de]',
+          properties: [{name: 'value', local: 'Hallo', remote: 'Guten Tag'}],
+        },
+      ]);
+
+      const localObjects = `<custom-objects><custom-object type-id="Config" object-id="one">
+        <object-attribute attribute-id="name" xml:lang="de">Eins</object-attribute>
+        <object-attribute attribute-id="name" xml:lang="en">One</object-attribute>
+      </custom-object></custom-objects>`;
+      const remoteObjects = `<custom-objects><custom-object type-id="Config" object-id="one">
+        <object-attribute attribute-id="name" xml:lang="en">One</object-attribute>
+      </custom-object></custom-objects>`;
+
+      expect(await diffSiteArchiveXml(localObjects, remoteObjects)).to.deep.equal([
+        {type: 'removed', entity: 'custom-object Config/one', item: 'attribute name[de]'},
+      ]);
+    });
+
+    it('compares attributes other than the one identifying a repeated element', async () => {
+      const local = metadata(`
+        <type-extension type-id="Product">
+          <custom-attribute-definitions>
+            <attribute-definition attribute-id="size">
+              <display-name xml:lang="x-default" translatable="true">Size</display-name>
+            </attribute-definition>
+          </custom-attribute-definitions>
+        </type-extension>`);
+      const remote = local.replace('translatable="true"', 'translatable="false"');
+
+      expect(await diffSiteArchiveXml(local, remote)).to.deep.equal([
+        {
+          type: 'changed',
+          entity: 'type-extension Product',
+          item: 'attribute size',
+          properties: [{name: 'display-name[x-default]@translatable', local: 'true', remote: 'false'}],
+        },
+      ]);
+    });
+  });
+
+  describe('diffSiteArchiveFiles', () => {
+    it('only reports local files in exported directories', async () => {
+      const local = new Map([
+        ['meta/system-objecttype-extensions.xml', Buffer.from(metadata(''))],
+        ['meta/old.xml', Buffer.from('<x/>')],
+        ['sites/RefArch/preferences.xml', Buffer.from('<preferences/>')],
+      ]);
+      const remote = new Map([
+        ['meta/system-objecttype-extensions.xml', Buffer.from(metadata(''))],
+        ['meta/custom-objecttype-definitions.xml', Buffer.from(metadata(''))],
+      ]);
+
+      const diffs = await diffSiteArchiveFiles(local, remote);
+
+      expect(diffs.map((d) => `${d.status} ${d.path}`)).to.deep.equal([
+        'added meta/custom-objecttype-definitions.xml',
+        'removed meta/old.xml',
+      ]);
+    });
+  });
+});
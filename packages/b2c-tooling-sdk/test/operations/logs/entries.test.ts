@@ -0,0 +1,69 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import {expect} from 'chai';
+import {matchesLogFilter, parseLogEntries, parseLogTime} from '@salesforce/b2c-tooling-sdk/operations/logs';
+
+const FILE = {name: 'error-blade0-1-appserver-20250101.log', prefix: 'error'};
+
+const LOG = `[2025-01-01 12:00:00.123 GMT] ERROR PipelineCallServlet|123 - Unexpected error
+java.lang.NullPointerException
+\tat com.demandware.Foo.bar(Foo.java:42)
+[2025-01-01 12:05:00.000 GMT] WARN RequestHandlerServlet|456 - Slow request
+`;
+
+describe('operations/logs/entries', () => {
+  describe('parseLogEntries', () => {
+    it('groups continuation lines with their entry', () => {
+      const entries = parseLogEntries(LOG, FILE);
+
+      expect(entries).to.have.length(2);
+      expect(entries[0].level).to.equal('ERROR');
+      expect(entries[0].timestamp?.toISOString()).to.equal('2025-01-01T12:00:00.123Z');
+      expect(entries[0].message).to.include('NullPointerException');
+      expect(entries[0].raw.split('\n')).to.have.length(3);
+      expect(entries[1]).to.include({level: 'WARN', file: FILE.name, prefix: 'error'});
+    });
+
+    it('keeps leading continuation lines as an entry without timestamp', () => {
+      const entries = parseLogEntries('\tat com.demandware.Foo.bar(Foo.java:42)\n', FILE);
+
+      expect(entries).to.have.length(1);
+      expect(entries[0].timestamp).to.be.undefined;
+      expect(entries[0].level).to.be.undefined;
+    });
+  });
+
+  describe('matchesLogFilter', () => {
+    const [error, warn] = parseLogEntries(LOG, FILE);
+
+    it('filters by level, pattern and time window', () => {
+      expect(matchesLogFilter(error, {levels: ['error']})).to.be.true;
+      expect(matchesLogFilter(warn, {levels: ['error']})).to.be.false;
+      expect(matchesLogFilter(error, {pattern: /NullPointer/})).to.be.true;
+      expect(matchesLogFilter(warn, {pattern: /NullPointer/})).to.be.false;
+      expect(matchesLogFilter(error, {since: new Date('2025-01-01T12:01:00Z')})).to.be.false;
+      expect(matchesLogFilter(warn, {since: new Date('2025-01-01T12:01:00Z')})).to.be.true;
+      expect(matchesLogFilter(warn, {until: new Date('2025-01-01T12:01:00Z')})).to.be.false;
+    });
+  });
+
+  describe('parseLogTime', () => {
+    const now = new Date('2025-01-01T12:00:00Z');
+
+    it('parses relative durations', () => {
+      expect(parseLogTime('15m', now).toISOString()).to.equal('2025-01-01T11:45:00.000Z');
+      expect(parseLogTime('1d', now).toISOString()).to.equal('2024-12-31T12:00:00.000Z');
+    });
+
+    it('parses dates', () => {
+      expect(parseLogTime('2025-01-01T08:00:00Z', now).toISOString()).to.equal('2025-01-01T08:00:00.000Z');
+    });
+
+    it('rejects invalid values', () => {
+      expect(() => parseLogTime('yesterday', now)).to.throw('Invalid time');
+    });
+  });
+});
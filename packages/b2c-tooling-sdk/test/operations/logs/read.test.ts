@@ -0,0 +1,180 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import {expect} from 'chai';
+import {http, HttpResponse} from 'msw';
+import {setupServer} from 'msw/node';
+import {B2CInstance} from '@salesforce/b2c-tooling-sdk/instance';
+import {searchLogs, tailLogs, type LogEntry} from '@salesforce/b2c-tooling-sdk/operations/logs';
+
+const TEST_HOST = 'test.demandware.net';
+const WEBDAV_PATH = '/on/demandware.servlet/webdav/Sites/';
+
+interface FakeFile {
+  content: Buffer;
+  lastModified: Date;
+}
+
+/**
+ * Serves an in-memory WebDAV tree of log files and records the requests made.
+ */
+function logServer(files: Map<string, FakeFile>, requests: string[]) {
+  return http.all(`https://${TEST_HOST}${WEBDAV_PATH}*`, ({request}) => {
+    const path = decodeURIComponent(new URL(request.url).pathname.slice(WEBDAV_PATH.length)).replace(/\/$/, '');
+
+    if (request.method === 'PROPFIND') {
+      const depth = request.headers.get('Depth');
+      requests.push(`PROPFIND ${path} ${depth}`);
+      const responses = [...files.entries()]
+        .filter(([p]) => p.startsWith(`${path}/`) && (depth === 'infinity' || !p.slice(path.length + 1).includes('/')))
+        .map(
+          ([p, file]) => `<D:response>
+  <D:href>${WEBDAV_PATH}${p}</D:href>
+  <D:propstat><D:prop>
+    <D:resourcetype/>
+    <D:getcontentlength>${file.content.byteLength}</D:getcontentlength>
+    <D:getlastmodified>${file.lastModified.toUTCString()}</D:getlastmodified>
+  </D:prop></D:propstat>
+</D:response>`,
+        );
+      return new HttpResponse(`<?xml version="1.0" encoding="utf-8"?>
+<D:multistatus xmlns:D="DAV:">${responses.join('')}</D:multistatus>`);
+    }
+
+    const range = request.headers.get('Range');
+    requests.push(range ? `GET ${path} ${range}` : `GET ${path}`);
+    const file = files.get(path);
+    if (!file) {
+      return new HttpResponse(null, {status: 404});
+    }
+    const offset = Number(/^bytes=(\d+)-$/.exec(range ?? '')?.[1] ?? 0);
+    if (offset >= file.content.byteLength) {
+      return new HttpResponse(null, {status: 416});
+    }
+    return new HttpResponse(file.content.subarray(offset), {status: range ? 206 : 200});
+  });
+}
+
+function append(file: FakeFile, content: Buffer | string): void {
+  file.content = Buffer.concat([file.content, Buffer.from(content)]);
+}
+
+async function take(entries: AsyncGenerator<LogEntry>, count: number): Promise<LogEntry[]> {
+  const result: LogEntry[] = [];
+  for await (const entry of entries) {
+    result.push(entry);
+    if (result.length === count) break;
+  }
+  return result;
+}
+
+describe('operations/logs/read', () => {
+  const server = setupServer();
+  const instance = new B2CInstance({hostname: TEST_HOST}, {basic: {username: 'user', password: 'pass'}});
+
+  before(() => {
+    server.listen({onUnhandledRequest: 'error'});
+  });
+
+  afterEach(() => {
+    server.resetHandlers();
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  describe('searchLogs', () => {
+    it('skips files not modified since the filter start and sorts entries by time', async () => {
+      const requests: string[] = [];
+      const files = new Map<string, FakeFile>([
+        [
+          'Logs/error-blade0-appserver-20250101.log',
+          {
+            content: Buffer.from('[2025-01-01 10:00:00.000 GMT] ERROR A - old\n'),
+            lastModified: new Date('2025-01-01T10:00:00Z'),
+          },
+        ],
+        [
+          'Logs/error-blade0-appserver-20250102.log',
+          {
+            content: Buffer.from('[2025-01-02 12:00:00.000 GMT] ERROR A - later\n'),
+            lastModified: new Date('2025-01-02T12:00:00Z'),
+          },
+        ],
+        [
+          'Logs/customerror-blade0-appserver-20250102.log',
+          {
+            content: Buffer.from('[2025-01-02 11:00:00.000 GMT] ERROR B - earlier\n'),
+            lastModified: new Date('2025-01-02T11:00:00Z'),
+          },
+        ],
+      ]);
+      server.use(logServer(files, requests));
+
+      const entries = await searchLogs(instance, {
+        prefixes: ['error', 'customerror'],
+        all: true,
+        filter: {since: new Date('2025-01-02T00:00:00Z')},
+      });
+
+      expect(entries.map((e) => e.message)).to.deep.equal(['B - earlier', 'A - later']);
+      expect(requests).to.not.include('GET Logs/error-blade0-appserver-20250101.log');
+    });
+  });
+
+  describe('tailLogs', () => {
+    it('decodes multi-byte characters split across reads', async () => {
+      const file: FakeFile = {
+        content: Buffer.from('[2025-01-01 10:00:00.000 GMT] ERROR A - before\n'),
+        lastModified: new Date(),
+      };
+      const files = new Map([['Logs/error-blade0-appserver-20250101.log', file]]);
+      const line = Buffer.from('[2025-01-01 10:01:00.000 GMT] ERROR A - grün\n');
+      const split = line.indexOf('ü') + 1;
+      let polls = 0;
+      server.use(
+        http.all(`https://${TEST_HOST}${WEBDAV_PATH}Logs`, ({request}) => {
+          // Write the line in two halves, splitting the 'ü', before the second and third listing
+          if (request.method === 'PROPFIND') {
+            polls++;
+            if (polls === 2) append(file, line.subarray(0, split));
+            if (polls === 3) append(file, line.subarray(split));
+          }
+        }),
+        logServer(files, []),
+      );
+
+      const entries = await take(tailLogs(instance, {prefixes: ['error'], pollInterval: 0}), 1);
+
+      expect(entries[0].message).to.equal('A - grün');
+    });
+
+    it('only re-discovers job logs at the discovery interval', async () => {
+      const requests: string[] = [];
+      const file: FakeFile = {content: Buffer.alloc(0), lastModified: new Date()};
+      const files = new Map([['Logs/jobs/my-job/Job-my-job-0101.log', file]]);
+      const lines = [
+        '[2025-01-01 10:00:00.000 GMT] INFO Job - step 1\n',
+        '[2025-01-01 10:00:01.000 GMT] INFO Job - step 2\n',
+      ];
+      server.use(
+        http.get(`https://${TEST_HOST}${WEBDAV_PATH}Logs/jobs/my-job/Job-my-job-0101.log`, () => {
+          // The job writes a line before each read
+          append(file, lines.shift() ?? '');
+        }),
+        logServer(files, requests),
+      );
+
+      const entries = await take(
+        tailLogs(instance, {prefixes: ['jobs'], pollInterval: 0, jobDiscoveryInterval: 60_000}),
+        2,
+      );
+
+      expect(entries.map((e) => e.message)).to.deep.equal(['Job - step 1', 'Job - step 2']);
+      expect(requests.filter((r) => r.startsWith('PROPFIND'))).to.deep.equal(['PROPFIND Logs/jobs infinity']);
+    });
+  });
+});
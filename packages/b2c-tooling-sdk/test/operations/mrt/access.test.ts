@@ -0,0 +1,141 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import {expect} from 'chai';
+import {http, HttpResponse} from 'msw';
+import {setupServer} from 'msw/node';
+import {DEFAULT_MRT_ORIGIN} from '@salesforce/b2c-tooling-sdk/clients';
+import {
+  createAccessControlHeader,
+  createEnv,
+  deleteAccessControlHeader,
+  listAccessControlHeaders,
+} from '@salesforce/b2c-tooling-sdk/operations/mrt';
+import {MockAuthStrategy} from '../../helpers/mock-auth.js';
+
+const PROJECT_URL = `${DEFAULT_MRT_ORIGIN}/api/projects/my-project`;
+const HEADERS_URL = `${PROJECT_URL}/target/staging/access-control-header/`;
+
+describe('operations/mrt/access', () => {
+  const server = setupServer();
+  const options = {projectSlug: 'my-project', environment: 'staging'};
+
+  before(() => {
+    server.listen({onUnhandledRequest: 'error'});
+  });
+
+  afterEach(() => {
+    server.resetHandlers();
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  describe('listAccessControlHeaders', () => {
+    it('follows pagination until there is no next page', async () => {
+      server.use(
+        http.get(HEADERS_URL, ({request}) => {
+          const offset = new URL(request.url).searchParams.get('offset');
+          return HttpResponse.json(
+            offset === '0'
+              ? {count: 2, next: `${HEADERS_URL}?offset=100`, results: [{id: 'a', value: '***'}]}
+              : {count: 2, next: null, results: [{id: 'b', value: '***'}]},
+          );
+        }),
+      );
+
+      const headers = await listAccessControlHeaders(options, new MockAuthStrategy());
+
+      expect(headers.map((h) => h.id)).to.deep.equal(['a', 'b']);
+    });
+  });
+
+  describe('createAccessControlHeader', () => {
+    it('posts the header value', async () => {
+      let receivedBody: unknown;
+      server.use(
+        http.post(HEADERS_URL, async ({request}) => {
+          receivedBody = await request.json();
+          return HttpResponse.json({id: 'new-id', value: '***'}, {status: 201});
+        }),
+      );
+
+      const header = await createAccessControlHeader(options, 's3cret', new MockAuthStrategy());
+
+      expect(receivedBody).to.deep.equal({value: 's3cret'});
+      expect(header.id).to.equal('new-id');
+    });
+  });
+
+  describe('deleteAccessControlHeader', () => {
+    it('throws on API errors', async () => {
+      server.use(http.delete(`${HEADERS_URL}:id/`, () => HttpResponse.json({detail: 'Not found'}, {status: 404})));
+
+      try {
+        await deleteAccessControlHeader(options, 'missing', new MockAuthStrategy());
+        expect.fail('Should have thrown');
+      } catch (error) {
+        expect((error as Error).message).to.include('Failed to delete access control header missing');
+      }
+    });
+  });
+
+  describe('createEnv with accessControlHeaders', () => {
+    it('adds the headers right after creating the environment', async () => {
+      const requests: string[] = [];
+      server.use(
+        http.post(`${PROJECT_URL}/target/`, () => {
+          requests.push('create target');
+          return HttpResponse.json({slug: 'staging', name: 'Staging', state: 'CREATE_IN_PROGRESS'}, {status: 201});
+        }),
+        http.post(HEADERS_URL, async ({request}) => {
+          const body = (await request.json()) as {value: string};
+          requests.push(`create header ${body.value}`);
+          return HttpResponse.json({id: body.value, value: '***'}, {status: 201});
+        }),
+      );
+
+      const env = await createEnv(
+        {projectSlug: 'my-project', slug: 'staging', name: 'Staging', accessControlHeaders: ['one', 'two']},
+        new MockAuthStrategy(),
+      );
+
+      expect(env.slug).to.equal('staging');
+      expect(requests).to.deep.equal(['create target', 'create header one', 'create header two']);
+    });
+
+    it('deletes the environment if a header cannot be added', async () => {
+      const requests: string[] = [];
+      server.use(
+        http.post(`${PROJECT_URL}/target/`, () => {
+          requests.push('create target');
+          return HttpResponse.json({slug: 'staging', name: 'Staging', state: 'CREATE_IN_PROGRESS'}, {status: 201});
+        }),
+        http.post(HEADERS_URL, () => {
+          requests.push('create header');
+          return HttpResponse.json({value: ['Invalid value']}, {status: 400});
+        }),
+        http.delete(`${PROJECT_URL}/target/staging/`, () => {
+          requests.push('delete target');
+          return new HttpResponse(null, {status: 204});
+        }),
+      );
+
+      try {
+        await createEnv(
+          {projectSlug: 'my-project', slug: 'staging', name: 'Staging', accessControlHeaders: ['bad']},
+          new MockAuthStrategy(),
+        );
+        expect.fail('Should have thrown');
+      } catch (error) {
+        expect((error as Error).message).to.include('the environment was deleted');
+        expect((error as Error).cause).to.be.an('error');
+      }
+
+      expect(requests).to.deep.equal(['create target', 'create header', 'delete target']);
+    });
+  });
+});
@@ -0,0 +1,68 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import {expect} from 'chai';
+import {http, HttpResponse} from 'msw';
+import {setupServer} from 'msw/node';
+import {DEFAULT_MRT_ORIGIN} from '@salesforce/b2c-tooling-sdk/clients';
+import {invalidateCache} from '@salesforce/b2c-tooling-sdk/operations/mrt';
+import {MockAuthStrategy} from '../../helpers/mock-auth.js';
+
+const INVALIDATION_URL = `${DEFAULT_MRT_ORIGIN}/api/projects/my-project/target/production/invalidation/`;
+
+describe('operations/mrt/cache', () => {
+  const server = setupServer();
+  const options = {projectSlug: 'my-project', environment: 'production'};
+
+  before(() => {
+    server.listen({onUnhandledRequest: 'error'});
+  });
+
+  afterEach(() => {
+    server.resetHandlers();
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  describe('invalidateCache', () => {
+    it('requests one invalidation per path', async () => {
+      const patterns: string[] = [];
+      server.use(
+        http.post(INVALIDATION_URL, async ({request}) => {
+          const body = (await request.json()) as {pattern: string};
+          patterns.push(body.pattern);
+          return HttpResponse.json(body, {status: 201});
+        }),
+      );
+
+      const paths = await invalidateCache({...options, paths: ['/*', '/category/*']}, new MockAuthStrategy());
+
+      expect(patterns).to.deep.equal(['/*', '/category/*']);
+      expect(paths).to.deep.equal(['/*', '/category/*']);
+    });
+
+    it('rejects paths not starting with a slash before making requests', async () => {
+      try {
+        await invalidateCache({...options, paths: ['/ok', 'category/*']}, new MockAuthStrategy());
+        expect.fail('Should have thrown');
+      } catch (error) {
+        expect((error as Error).message).to.include('category/*');
+      }
+    });
+
+    it('throws on API errors', async () => {
+      server.use(http.post(INVALIDATION_URL, () => HttpResponse.json({detail: 'Not found'}, {status: 404})));
+
+      try {
+        await invalidateCache({...options, paths: ['/*']}, new MockAuthStrategy());
+        expect.fail('Should have thrown');
+      } catch (error) {
+        expect((error as Error).message).to.include('Failed to invalidate /*');
+      }
+    });
+  });
+});
@@ -0,0 +1,139 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import {expect} from 'chai';
+import {http, HttpResponse} from 'msw';
+import {setupServer} from 'msw/node';
+import {DEFAULT_MRT_ORIGIN} from '@salesforce/b2c-tooling-sdk/clients';
+import {
+  deployBundle,
+  findPreviousBundle,
+  listDeployments,
+  waitForDeployment,
+  type MrtDeployment,
+} from '@salesforce/b2c-tooling-sdk/operations/mrt';
+import {MockAuthStrategy} from '../../helpers/mock-auth.js';
+
+const DEPLOY_URL = `${DEFAULT_MRT_ORIGIN}/api/projects/my-project/target/production/deploy/`;
+
+function deployment(bundleId: number, createdAt: string, status: MrtDeployment['status']): MrtDeployment {
+  return {
+    bundle: {id: bundleId, message: `Bundle ${bundleId}`},
+    created_at: createdAt,
+    status,
+    duration: '0:01:00',
+  };
+}
+
+describe('operations/mrt/deploy', () => {
+  const server = setupServer();
+  const options = {projectSlug: 'my-project', environment: 'production'};
+
+  before(() => {
+    server.listen({onUnhandledRequest: 'error'});
+  });
+
+  afterEach(() => {
+    server.resetHandlers();
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  describe('listDeployments', () => {
+    it('returns deployments newest first', async () => {
+      server.use(
+        http.get(DEPLOY_URL, () =>
+          HttpResponse.json({
+            count: 2,
+            results: [
+              deployment(41, '2025-01-01T00:00:00Z', 'Finished'),
+              deployment(42, '2025-01-02T00:00:00Z', 'Finished'),
+            ],
+          }),
+        ),
+      );
+
+      const deployments = await listDeployments(options, new MockAuthStrategy());
+
+      expect(deployments.map((d) => d.bundle.id)).to.deep.equal([42, 41]);
+    });
+  });
+
+  describe('findPreviousBundle', () => {
+    it('skips failed deployments and redeploys of the current bundle', () => {
+      const {current, previous} = findPreviousBundle([
+        deployment(43, '2025-01-04T00:00:00Z', 'Failed'),
+        deployment(42, '2025-01-03T00:00:00Z', 'Finished'),
+        deployment(42, '2025-01-02T00:00:00Z', 'Finished'),
+        deployment(41, '2025-01-01T00:00:00Z', 'Finished'),
+      ]);
+
+      expect(current?.id).to.equal(42);
+      expect(previous?.id).to.equal(41);
+    });
+
+    it('returns no previous bundle for a single deployment', () => {
+      expect(findPreviousBundle([deployment(1, '2025-01-01T00:00:00Z', 'Finished')]).previous).to.equal(undefined);
+    });
+  });
+
+  describe('deployBundle and waitForDeployment', () => {
+    it('deploys the bundle and polls until the new deployment has finished', async () => {
+      let body: unknown;
+      const statuses: MrtDeployment['status'][] = ['Queued', 'In Progress', 'Finished'];
+      server.use(
+        http.post(DEPLOY_URL, async ({request}) => {
+          body = await request.json();
+          return HttpResponse.json({bundle_id: 41}, {status: 201});
+        }),
+        http.get(DEPLOY_URL, () =>
+          HttpResponse.json({
+            count: 3,
+            results: [
+              deployment(41, '2025-01-03T00:00:00Z', statuses.shift()),
+              deployment(42, '2025-01-02T00:00:00Z', 'Finished'),
+              deployment(41, '2025-01-01T00:00:00Z', 'Finished'),
+            ],
+          }),
+        ),
+      );
+
+      const auth = new MockAuthStrategy();
+      await deployBundle({...options, bundleId: 41}, auth);
+      const seen: (string | undefined)[] = [];
+      const result = await waitForDeployment(
+        {
+          ...options,
+          bundleId: 41,
+          after: '2025-01-02T00:00:00Z',
+          pollInterval: 1,
+          onPoll: (d) => seen.push(d.status),
+        },
+        auth,
+      );
+
+      expect(body).to.deep.equal({bundle_id: 41});
+      expect(result.created_at).to.equal('2025-01-03T00:00:00Z');
+      expect(seen).to.deep.equal(['Queued', 'In Progress', 'Finished']);
+    });
+
+    it('throws if the deployment failed', async () => {
+      server.use(
+        http.get(DEPLOY_URL, () =>
+          HttpResponse.json({count: 1, results: [deployment(41, '2025-01-03T00:00:00Z', 'Failed')]}),
+        ),
+      );
+
+      try {
+        await waitForDeployment({...options, bundleId: 41, pollInterval: 1}, new MockAuthStrategy());
+        expect.fail('Expected error');
+      } catch (error) {
+        expect((error as Error).message).to.equal('Deployment of bundle 41 to production failed');
+      }
+    });
+  });
+});
@@ -0,0 +1,162 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import {expect} from 'chai';
+import {http, HttpResponse} from 'msw';
+import {setupServer} from 'msw/node';
+import {DEFAULT_MRT_ORIGIN} from '@salesforce/b2c-tooling-sdk/clients';
+import {
+  applyRedirectSync,
+  listRedirects,
+  parseRedirects,
+  planRedirectSync,
+} from '@salesforce/b2c-tooling-sdk/operations/mrt';
+import {MockAuthStrategy} from '../../helpers/mock-auth.js';
+
+const REDIRECT_URL = `${DEFAULT_MRT_ORIGIN}/api/projects/my-project/target/staging/redirect/`;
+
+describe('operations/mrt/redirects', () => {
+  const server = setupServer();
+  const options = {projectSlug: 'my-project', environment: 'staging'};
+
+  before(() => {
+    server.listen({onUnhandledRequest: 'error'});
+  });
+
+  afterEach(() => {
+    server.resetHandlers();
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  describe('listRedirects', () => {
+    it('follows pagination until there is no next page', async () => {
+      const offsets: string[] = [];
+      server.use(
+        http.get(REDIRECT_URL, ({request}) => {
+          const offset = new URL(request.url).searchParams.get('offset') ?? '0';
+          offsets.push(offset);
+          return HttpResponse.json(
+            offset === '0'
+              ? {count: 2, next: `${REDIRECT_URL}?offset=100`, results: [{from_path: '/a', to_url: '/b'}]}
+              : {count: 2, next: null, results: [{from_path: '/c', to_url: '/d'}]},
+          );
+        }),
+      );
+
+      const redirects = await listRedirects(options, new MockAuthStrategy());
+
+      expect(offsets).to.deep.equal(['0', '100']);
+      expect(redirects.map((r) => r.from_path)).to.deep.equal(['/a', '/c']);
+    });
+  });
+
+  describe('parseRedirects', () => {
+    it('parses CSV with optional columns', () => {
+      const csv = 'from_path,to_url,http_status_code,forward_wildcard\n/spring,/summer,,\n/old/*,/new/,302,true\n';
+
+      expect(parseRedirects(csv, 'csv')).to.deep.equal([
+        {from_path: '/spring', to_url: '/summer'},
+        {from_path: '/old/*', to_url: '/new/', http_status_code: 302, forward_wildcard: true},
+      ]);
+    });
+
+    it('rejects duplicate paths and invalid status codes', () => {
+      const duplicate = JSON.stringify([
+        {from_path: '/a', to_url: '/b'},
+        {from_path: '/a', to_url: '/c'},
+      ]);
+      expect(() => parseRedirects(duplicate, 'json')).to.throw('Duplicate from_path "/a"');
+      expect(() => parseRedirects('from_path,to_url,http_status_code\n/a,/b,307\n', 'csv')).to.throw(
+        'expected 301 or 302',
+      );
+    });
+  });
+
+  describe('planRedirectSync', () => {
+    const current = [
+      {from_path: '/same', to_url: '/x', http_status_code: 301 as const, forward_querystring: false},
+      {from_path: '/changed', to_url: '/old'},
+      {from_path: '/removed', to_url: '/y'},
+    ];
+    const desired = [
+      {from_path: '/same', to_url: '/x'},
+      {from_path: '/changed', to_url: '/new'},
+      {from_path: '/added', to_url: '/z'},
+    ];
+
+    it('computes adds, updates and deletes using API defaults', () => {
+      const plan = planRedirectSync(desired, current);
+
+      expect(plan.add.map((r) => r.from_path)).to.deep.equal(['/added']);
+      expect(plan.update.map((r) => r.from_path)).to.deep.equal(['/changed']);
+      expect(plan.delete.map((r) => r.from_path)).to.deep.equal(['/removed']);
+      expect(plan.unchanged).to.equal(1);
+    });
+
+    it('keeps redirects missing from the file with delete: false', () => {
+      expect(planRedirectSync(desired, current, {delete: false}).delete).to.deep.equal([]);
+    });
+  });
+
+  describe('applyRedirectSync', () => {
+    it('applies batched creates, updates and deletes', async () => {
+      const requests: string[] = [];
+      server.use(
+        http.delete(`${REDIRECT_URL}:fromPath`, ({params}) => {
+          requests.push(`DELETE ${String(params.fromPath)}`);
+          return new HttpResponse(null, {status: 204});
+        }),
+        http.patch(`${REDIRECT_URL}:fromPath`, async ({params, request}) => {
+          const body = (await request.json()) as Record<string, unknown>;
+          requests.push(`PATCH ${String(params.fromPath)} ${String(body.http_status_code)}`);
+          return HttpResponse.json(body);
+        }),
+        http.post(REDIRECT_URL, async ({request}) => {
+          const body = (await request.json()) as unknown[];
+          requests.push(`POST ${body.length}`);
+          return HttpResponse.json(body, {status: 201});
+        }),
+      );
+
+      const progress: number[] = [];
+      await applyRedirectSync(
+        {...options, batchSize: 2, onProgress: (applied) => progress.push(applied)},
+        {
+          add: [
+            {from_path: '/a1', to_url: '/'},
+            {from_path: '/a2', to_url: '/'},
+            {from_path: '/a3', to_url: '/'},
+          ],
+          update: [{from_path: '/u', to_url: '/'}],
+          delete: [{from_path: '/d', to_url: '/'}],
+          unchanged: 0,
+        },
+        new MockAuthStrategy(),
+      );
+
+      expect(requests).to.deep.equal(['POST 2', 'POST 1', 'PATCH /u 301', 'DELETE /d']);
+      expect(progress).to.deep.equal([2, 3, 4, 5]);
+    });
+
+    it('does not delete redirects if creating redirects fails', async () => {
+      // No DELETE handler: deleting would fail the test as an unhandled request
+      server.use(http.post(REDIRECT_URL, () => HttpResponse.json({detail: 'Invalid redirect'}, {status: 400})));
+
+      try {
+        await applyRedirectSync(
+          options,
+          {add: [{from_path: '/a', to_url: '/'}], update: [], delete: [{from_path: '/d', to_url: '/'}], unchanged: 0},
+          new MockAuthStrategy(),
+        );
+        expect.fail('Should have thrown');
+      } catch (error) {
+        expect((error as Error).message).to.equal('Failed to create redirects: {"detail":"Invalid redirect"}');
+      }
+    });
+  });
+});
@@ -0,0 +1,133 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import fs from 'node:fs';
+import path from 'node:path';
+import {fileURLToPath} from 'node:url';
+import {expect} from 'chai';
+import {
+  mergeResourceInfo,
+  parseResourceInfo,
+  findResourceInfo,
+  CLI_REQUIRED_RESOURCES,
+  type OcapiResourceInfo,
+} from '@salesforce/b2c-tooling-sdk/operations/ocapi-config';
+
+describe('operations/ocapi-config', () => {
+  describe('mergeResourceInfo', () => {
+    const existing: OcapiResourceInfo = {
+      api_type: 'data',
+      allowed_origins: ['https://a.example.com'],
+      resources: [
+        {resource_id: '/sites', methods: ['get'], read_attributes: '(id)'},
+        {resource_id: '/code_versions', methods: ['get', 'put'], read_attributes: '(**)', write_attributes: '(**)'},
+      ],
+    };
+
+    it('adds new resources and methods and keeps existing settings', () => {
+      const {resourceInfo, added, updated} = mergeResourceInfo(existing, {
+        api_type: 'data',
+        allowed_origins: ['https://b.example.com'],
+        resources: [
+          {resource_id: '/sites', methods: ['get', 'patch'], read_attributes: '(**)', write_attributes: '(**)'},
+          {resource_id: '/code_versions', methods: ['get'], read_attributes: '(**)'},
+          {resource_id: '/jobs/*/executions', methods: ['post']},
+        ],
+      });
+
+      expect(added).to.deep.equal(['/jobs/*/executions']);
+      expect(updated).to.deep.equal(['/sites']);
+      expect(resourceInfo.allowed_origins).to.deep.equal(['https://a.example.com', 'https://b.example.com']);
+      expect(resourceInfo.resources[0]).to.deep.equal({
+        resource_id: '/sites',
+        methods: ['get', 'patch'],
+        read_attributes: '(id)',
+        write_attributes: '(**)',
+      });
+      expect(resourceInfo.resources[1]).to.deep.equal(existing.resources[1]);
+      expect(existing.resources[0].methods).to.deep.equal(['get']);
+    });
+
+    it('is idempotent', () => {
+      const additions: OcapiResourceInfo = {api_type: 'data', resources: CLI_REQUIRED_RESOURCES};
+      const first = mergeResourceInfo(existing, additions);
+      const second = mergeResourceInfo(first.resourceInfo, additions);
+
+      expect(first.added).to.have.length(CLI_REQUIRED_RESOURCES.length - 1);
+      expect(second.added).to.deep.equal([]);
+      expect(second.updated).to.deep.equal([]);
+      expect(second.resourceInfo).to.deep.equal(first.resourceInfo);
+    });
+  });
+
+  describe('parseResourceInfo', () => {
+    it('selects the client from Business Manager settings', () => {
+      const info = parseResourceInfo(
+        {
+          _v: '23.2',
+          clients: [
+            {client_id: 'other', resources: []},
+            {client_id: 'mine', allowed_origins: [], resources: [{resource_id: '/sites', methods: ['get']}]},
+          ],
+        },
+        'data',
+        'mine',
+      );
+
+      expect(info).to.deep.equal({
+        api_type: 'data',
+        allowed_origins: [],
+        resources: [{resource_id: '/sites', methods: ['get']}],
+      });
+    });
+
+    it('rejects settings without an entry for the client or invalid resources', () => {
+      expect(() => parseResourceInfo({clients: [{client_id: 'a'}, {client_id: 'b'}]}, 'data', 'c')).to.throw(
+        'no entry for client c',
+      );
+      expect(() => parseResourceInfo({resources: [{resource_id: '/sites'}]}, 'data')).to.throw(
+        'resource_id and methods are required',
+      );
+    });
+  });
+
+  describe('findResourceInfo', () => {
+    it('finds settings by scope and API type', () => {
+      const data: OcapiResourceInfo = {api_type: 'data', resources: []};
+      const shop: OcapiResourceInfo = {api_type: 'shop', resources: []};
+      const config = {global: [{site_configs: [data]}], sites: [{site_id: 'RefArch', site_configs: [shop]}]};
+
+      expect(findResourceInfo(config, 'data')).to.equal(data);
+      expect(findResourceInfo(config, 'shop')).to.equal(undefined);
+      expect(findResourceInfo(config, 'shop', 'RefArch')).to.equal(shop);
+    });
+  });
+  describe('CLI_REQUIRED_RESOURCES', () => {
+    // Operations behind the CLI commands that ocapi-config merge --cli-resources and ods create grant access for
+    const sources = ['operations/code', 'operations/jobs', 'operations/sites'];
+    const srcDir = fileURLToPath(new URL('../../../src', import.meta.url));
+
+    function usedEndpoints(): string[] {
+      const endpoints = new Set<string>();
+      for (const dir of sources) {
+        for (const file of fs.readdirSync(path.join(srcDir, dir)).filter((f) => f.endsWith('.ts'))) {
+          const content = fs.readFileSync(path.join(srcDir, dir, file), 'utf8');
+          for (const match of content.matchAll(/^(?!\s*\*).*\bocapi\.(GET|PUT|POST|PATCH|DELETE)\('([^']+)'/gm)) {
+            endpoints.add(`${match[1].toLowerCase()} ${match[2].replaceAll(/\{[^}]+\}/g, '*')}`);
+          }
+        }
+      }
+      return [...endpoints].sort();
+    }
+
+    it('covers every Data API endpoint used by code, job and site operations', () => {
+      const granted = new Set(CLI_REQUIRED_RESOURCES.flatMap((r) => r.methods.map((m) => `${m} ${r.resource_id}`)));
+      const endpoints = usedEndpoints();
+
+      expect(endpoints).to.include.members(['put /code_versions/*', 'post /job_execution_search', 'get /sites/*']);
+      expect(endpoints.filter((e) => !granted.has(e))).to.deep.equal([]);
+    });
+  });
+});
@@ -0,0 +1,85 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import {expect} from 'chai';
+import {http, HttpResponse} from 'msw';
+import {setupServer} from 'msw/node';
+import {createOdsClient, type OdsClient} from '@salesforce/b2c-tooling-sdk/clients';
+import {createSandboxAlias, waitForSandboxAlias} from '@salesforce/b2c-tooling-sdk/operations/ods';
+import {MockAuthStrategy} from '../../helpers/mock-auth.js';
+
+const TEST_HOST = 'ods.test.com';
+const BASE_URL = `https://${TEST_HOST}/api/v1`;
+const SANDBOX_ID = 'abc12345-1234-1234-1234-abc123456789';
+const ALIAS_ID = 'def12345-1234-1234-1234-abc123456789';
+
+describe('operations/ods/aliases', () => {
+  const server = setupServer();
+  let client: OdsClient;
+
+  before(() => {
+    server.listen({onUnhandledRequest: 'error'});
+    client = createOdsClient({host: TEST_HOST}, new MockAuthStrategy());
+  });
+
+  afterEach(() => {
+    server.resetHandlers();
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  it('creates an alias with the registration options', async () => {
+    let body: unknown;
+    server.use(
+      http.post(`${BASE_URL}/sandboxes/${SANDBOX_ID}/aliases`, async ({request}) => {
+        body = await request.json();
+        return HttpResponse.json({data: {id: ALIAS_ID, name: 'dev.example.com', status: 'pending'}}, {status: 201});
+      }),
+    );
+
+    const alias = await createSandboxAlias(client, SANDBOX_ID, 'dev.example.com', {
+      unique: true,
+      requestLetsEncryptCertificate: true,
+    });
+
+    expect(body).to.deep.equal({name: 'dev.example.com', unique: true, requestLetsEncryptCertificate: true});
+    expect(alias.id).to.equal(ALIAS_ID);
+  });
+
+  it('polls until the alias is no longer pending', async () => {
+    const statuses = ['pending', 'pending', 'verified'];
+    server.use(
+      http.get(`${BASE_URL}/sandboxes/${SANDBOX_ID}/aliases/${ALIAS_ID}`, () =>
+        HttpResponse.json({data: {id: ALIAS_ID, name: 'dev.example.com', status: statuses.shift()}}),
+      ),
+    );
+
+    const seen: (string | undefined)[] = [];
+    const alias = await waitForSandboxAlias(client, SANDBOX_ID, ALIAS_ID, {
+      pollInterval: 1,
+      onProgress: (a) => seen.push(a.status),
+    });
+
+    expect(alias.status).to.equal('verified');
+    expect(seen).to.deep.equal(['pending', 'pending', 'verified']);
+  });
+
+  it('times out if the alias stays pending', async () => {
+    server.use(
+      http.get(`${BASE_URL}/sandboxes/${SANDBOX_ID}/aliases/${ALIAS_ID}`, () =>
+        HttpResponse.json({data: {id: ALIAS_ID, name: 'dev.example.com', status: 'pending'}}),
+      ),
+    );
+
+    try {
+      await waitForSandboxAlias(client, SANDBOX_ID, ALIAS_ID, {pollInterval: 20, timeout: 50});
+      expect.fail('Expected timeout');
+    } catch (error) {
+      expect((error as Error).message).to.equal('Timeout waiting for alias dev.example.com to become active');
+    }
+  });
+});
@@ -0,0 +1,123 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import {expect} from 'chai';
+import {http, HttpResponse} from 'msw';
+import {setupServer} from 'msw/node';
+import {createOdsClient, type OdsClient} from '@salesforce/b2c-tooling-sdk/clients';
+import {
+  buildWeekdaySchedule,
+  clearSandboxSchedule,
+  SandboxOperationError,
+  waitForSandboxOperation,
+} from '@salesforce/b2c-tooling-sdk/operations/ods';
+import {MockAuthStrategy} from '../../helpers/mock-auth.js';
+
+const TEST_HOST = 'ods.test.com';
+const BASE_URL = `https://${TEST_HOST}/api/v1`;
+const SANDBOX_ID = 'abc12345-1234-1234-1234-abc123456789';
+const OPERATION_ID = 'def12345-1234-1234-1234-abc123456789';
+
+describe('operations/ods/lifecycle', () => {
+  const server = setupServer();
+  let client: OdsClient;
+
+  before(() => {
+    server.listen({onUnhandledRequest: 'error'});
+    client = createOdsClient({host: TEST_HOST}, new MockAuthStrategy());
+  });
+
+  afterEach(() => {
+    server.resetHandlers();
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  describe('waitForSandboxOperation', () => {
+    it('polls until the operation has finished', async () => {
+      const states = ['pending', 'running', 'finished'];
+      server.use(
+        http.get(`${BASE_URL}/sandboxes/${SANDBOX_ID}/operations/${OPERATION_ID}`, () => {
+          const operationState = states.shift();
+          return HttpResponse.json({
+            data: {
+              id: OPERATION_ID,
+              operation: 'reset',
+              operationState,
+              status: operationState === 'finished' ? 'success' : undefined,
+            },
+          });
+        }),
+      );
+
+      const seen: string[] = [];
+      const operation = await waitForSandboxOperation(client, SANDBOX_ID, OPERATION_ID, {
+        pollInterval: 1,
+        onProgress: (op) => seen.push(op.operationState),
+      });
+
+      expect(operation.status).to.equal('success');
+      expect(seen).to.deep.equal(['pending', 'running', 'finished']);
+    });
+
+    it('throws a SandboxOperationError if the operation failed', async () => {
+      server.use(
+        http.get(`${BASE_URL}/sandboxes/${SANDBOX_ID}/operations/${OPERATION_ID}`, () =>
+          HttpResponse.json({
+            data: {
+              id: OPERATION_ID,
+              operation: 'reset',
+              operationState: 'finished',
+              status: 'failure',
+              sandboxState: 'failed',
+            },
+          }),
+        ),
+      );
+
+      try {
+        await waitForSandboxOperation(client, SANDBOX_ID, OPERATION_ID, {pollInterval: 1});
+        expect.fail('Expected error');
+      } catch (error) {
+        expect(error).to.be.instanceOf(SandboxOperationError);
+        expect((error as Error).message).to.equal('Sandbox reset failed (sandbox state: failed)');
+      }
+    });
+  });
+
+  describe('buildWeekdaySchedule', () => {
+    it('normalizes the time and offset', () => {
+      expect(buildWeekdaySchedule('08:00', ['MONDAY'], '+0130')).to.deep.equal({
+        weekdays: ['MONDAY'],
+        time: '08:00:00+01:30',
+      });
+      expect(buildWeekdaySchedule('19:30:15', ['FRIDAY']).time).to.equal('19:30:15Z');
+    });
+
+    it('rejects invalid times and offsets', () => {
+      expect(() => buildWeekdaySchedule('25:00', ['MONDAY'])).to.throw('Invalid time');
+      expect(() => buildWeekdaySchedule('08:00', ['MONDAY'], 'Europe/Berlin')).to.throw('Invalid timezone');
+    });
+  });
+
+  describe('clearSandboxSchedule', () => {
+    it('disables auto scheduling and removes the windows', async () => {
+      let body: unknown;
+      server.use(
+        http.patch(`${BASE_URL}/sandboxes/${SANDBOX_ID}`, async ({request}) => {
+          body = await request.json();
+          return HttpResponse.json({data: {id: SANDBOX_ID, autoScheduled: false}});
+        }),
+      );
+
+      const sandbox = await clearSandboxSchedule(client, SANDBOX_ID);
+
+      expect(body).to.deep.equal({autoScheduled: false, startScheduler: null, stopScheduler: null});
+      expect(sandbox.autoScheduled).to.equal(false);
+    });
+  });
+});
@@ -0,0 +1,104 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import {expect} from 'chai';
+import {http, HttpResponse} from 'msw';
+import {setupServer} from 'msw/node';
+import {createOcapiClient, createOdsClient, type OdsClient} from '@salesforce/b2c-tooling-sdk/clients';
+import {B2CInstance} from '@salesforce/b2c-tooling-sdk/instance';
+import {applySandboxOcapiSettings, listSandboxOperations} from '@salesforce/b2c-tooling-sdk/operations/ods';
+import {MockAuthStrategy} from '../../helpers/mock-auth.js';
+
+const ODS_HOST = 'ods.test.com';
+const SANDBOX_HOST = 'zzzz-001.dx.commercecloud.salesforce.com';
+const SANDBOX_ID = 'abc12345-1234-1234-1234-abc123456789';
+const OCAPI_CONFIGS_URL = `https://${SANDBOX_HOST}/s/-/dw/data/*/ocapi_configs/:clientId`;
+
+describe('operations/ods/sandbox', () => {
+  const server = setupServer();
+  let client: OdsClient;
+
+  before(() => {
+    server.listen({onUnhandledRequest: 'error'});
+    client = createOdsClient({host: ODS_HOST}, new MockAuthStrategy());
+  });
+
+  afterEach(() => {
+    server.resetHandlers();
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  describe('listSandboxOperations', () => {
+    it('follows pagination and passes the filters', async () => {
+      const queries: URLSearchParams[] = [];
+      server.use(
+        http.get(`https://${ODS_HOST}/api/v1/sandboxes/${SANDBOX_ID}/operations`, ({request}) => {
+          const query = new URL(request.url).searchParams;
+          queries.push(query);
+          const page = Number(query.get('page'));
+          const count = page === 0 ? 100 : 3;
+          return HttpResponse.json({
+            data: Array.from({length: count}, (_, i) => ({
+              id: `op-${page}-${i}`,
+              operation: 'start',
+              operationState: 'finished',
+            })),
+            metadata: {page, pageCount: 2},
+          });
+        }),
+      );
+
+      const operations = await listSandboxOperations(client, SANDBOX_ID, {status: 'failure'});
+
+      expect(operations).to.have.length(103);
+      expect(queries.map((q) => q.get('page'))).to.deep.equal(['0', '1']);
+      expect(queries[0].get('status')).to.equal('failure');
+      expect(queries[0].get('sort_order')).to.equal('desc');
+    });
+  });
+
+  describe('applySandboxOcapiSettings', () => {
+    it('merges resources into the existing client configuration', async () => {
+      const instance = new B2CInstance({hostname: SANDBOX_HOST}, {});
+      Object.defineProperty(instance, 'ocapi', {value: createOcapiClient(SANDBOX_HOST, new MockAuthStrategy())});
+      let written: unknown;
+
+      server.use(
+        http.get(OCAPI_CONFIGS_URL, () =>
+          HttpResponse.json({
+            global: [{site_configs: [{api_type: 'data', resources: [{resource_id: '/sites', methods: ['get']}]}]}],
+          }),
+        ),
+        http.put(OCAPI_CONFIGS_URL, async ({request}) => {
+          written = await request.json();
+          return HttpResponse.json({});
+        }),
+      );
+
+      const results = await applySandboxOcapiSettings(
+        instance,
+        [{client_id: 'my-client', resources: [{resource_id: '/jobs/*/executions', methods: ['post']}]}],
+        {merge: true},
+      );
+
+      expect(results).to.deep.equal([
+        {clientId: 'my-client', resources: 1, added: ['/jobs/*/executions'], updated: []},
+      ]);
+      expect(written).to.deep.equal({
+        resource_info: {
+          api_type: 'data',
+          resources: [
+            {resource_id: '/sites', methods: ['get']},
+            {resource_id: '/jobs/*/executions', methods: ['post']},
+          ],
+        },
+        sites: [],
+      });
+    });
+  });
+});
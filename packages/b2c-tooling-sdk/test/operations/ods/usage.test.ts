@@ -0,0 +1,86 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import {expect} from 'chai';
+import {
+  summarizeRealmUsage,
+  summarizeSandboxUsage,
+  formatUsageCsv,
+  getMonthRange,
+  type RealmUsage,
+} from '@salesforce/b2c-tooling-sdk/operations/ods';
+
+describe('operations/ods/usage', () => {
+  const usages: RealmUsage[] = [
+    {
+      id: 'zzzz',
+      activeSandboxes: 2,
+      createdSandboxes: 1,
+      minutesUp: 300,
+      minutesDown: 100,
+      minutesUpByProfile: [{profile: 'medium', minutes: 300}],
+      sandboxDetails: [
+        {
+          instanceId: 'zzzz_001',
+          resourceProfile: 'medium',
+          minutesUp: 100,
+          minutesDown: 50,
+          minutesUpByProfile: [{profile: 'medium', minutes: 100}],
+        },
+        {
+          instanceId: 'zzzz_002',
+          resourceProfile: 'medium',
+          minutesUp: 50,
+          minutesDown: 50,
+          minutesUpByProfile: [{profile: 'medium', minutes: 50}],
+        },
+        {
+          instanceId: 'zzzz_002',
+          resourceProfile: 'large',
+          minutesUp: 150,
+          minutesDown: 0,
+          minutesUpByProfile: [{profile: 'large', minutes: 150}],
+        },
+      ],
+    },
+    {id: 'aaaa', activeSandboxes: 1, minutesUp: 10, minutesDown: 20},
+  ];
+
+  it('aggregates usage per realm', () => {
+    const realms = summarizeRealmUsage([...usages, {id: 'zzzz', minutesUp: 60, minutesDown: 0}]);
+
+    expect(realms.map((r) => r.realm)).to.deep.equal(['aaaa', 'zzzz']);
+    expect(realms[1]).to.deep.equal({
+      realm: 'zzzz',
+      activeSandboxes: 2,
+      createdSandboxes: 1,
+      deletedSandboxes: 0,
+      minutesUp: 360,
+      minutesDown: 100,
+      minutesUpByProfile: {medium: 300},
+    });
+  });
+
+  it('aggregates usage per sandbox', () => {
+    const sandboxes = summarizeSandboxUsage(usages);
+
+    expect(sandboxes).to.deep.equal([
+      {realm: 'zzzz', sandbox: 'zzzz_002', profile: 'large', minutesUp: 200, minutesDown: 50},
+      {realm: 'zzzz', sandbox: 'zzzz_001', profile: 'medium', minutesUp: 100, minutesDown: 50},
+    ]);
+  });
+
+  it('formats summaries as CSV', () => {
+    const csv = formatUsageCsv(summarizeRealmUsage(usages), ['realm', 'minutesUp', 'minutesUpByProfile']);
+
+    expect(csv).to.equal('realm,minutesUp,minutesUpByProfile\naaaa,10,{}\nzzzz,300,"{""medium"":300}"\n');
+  });
+
+  it('returns the date range of a month', () => {
+    expect(getMonthRange('2024-02')).to.deep.equal({from: '2024-02-01', to: '2024-02-29'});
+    expect(getMonthRange('2025-12')).to.deep.equal({from: '2025-12-01', to: '2025-12-31'});
+    expect(() => getMonthRange('2025-13')).to.throw('Invalid month');
+  });
+});
@@ -0,0 +1,145 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {expect} from 'chai';
+import {B2CInstance} from '@salesforce/b2c-tooling-sdk/instance';
+import {
+  applyPipeline,
+  loadPipeline,
+  parsePipeline,
+  planPipeline,
+  readPipelineState,
+} from '@salesforce/b2c-tooling-sdk/operations/pipeline';
+
+describe('operations/pipeline', () => {
+  let tempDir: string;
+  const resolveTarget = (name: string) => ({name, instance: new B2CInstance({hostname: `${name}.test`}, {})});
+
+  function writePipeline(pipeline: unknown): string {
+    const file = path.join(tempDir, 'deploy.json');
+    fs.writeFileSync(file, JSON.stringify(pipeline));
+    return file;
+  }
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'b2c-pipeline-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, {recursive: true, force: true});
+  });
+
+  describe('parsePipeline', () => {
+    it('accepts a valid pipeline', () => {
+      const pipeline = parsePipeline(
+        JSON.stringify({targets: ['staging'], steps: [{type: 'job-run', jobId: 'Reindex', targets: ['staging']}]}),
+      );
+      expect(pipeline.steps).to.have.length(1);
+    });
+
+    it('rejects unknown step types, missing fields and unknown targets', () => {
+      expect(() => parsePipeline('{"targets":["a"],"steps":[{"type":"nope"}]}')).to.throw('"type" must be one of');
+      expect(() => parsePipeline('{"targets":["a"],"steps":[{"type":"job-run"}]}')).to.throw('"jobId" is required');
+      expect(() => parsePipeline('{"targets":["a"],"steps":[{"type":"code-activate","targets":["b"]}]}')).to.throw(
+        'unknown target(s) b',
+      );
+    });
+
+    it('rejects duplicate step IDs', () => {
+      const content = JSON.stringify({
+        targets: ['a'],
+        steps: [
+          {type: 'code-activate', id: 'activate'},
+          {type: 'code-activate', id: 'activate'},
+        ],
+      });
+      expect(() => parsePipeline(content)).to.throw('duplicate step ID');
+    });
+
+    it('parses YAML', () => {
+      const pipeline = parsePipeline(
+        'targets: [staging]\nsteps:\n  - type: job-run\n    jobId: Reindex\n    parameters:\n      SiteScope: RefArch\n',
+        'yaml',
+      );
+      expect(pipeline.steps).to.deep.equal([{type: 'job-run', jobId: 'Reindex', parameters: {SiteScope: 'RefArch'}}]);
+      expect(() => parsePipeline('targets: [staging', 'yaml')).to.throw('Invalid pipeline YAML');
+    });
+  });
+
+  describe('loadPipeline', () => {
+    it('loads .yml and .yaml files as YAML', () => {
+      for (const name of ['deploy.yml', 'deploy.yaml']) {
+        const file = path.join(tempDir, name);
+        fs.writeFileSync(file, 'targets:\n  - staging\nsteps:\n  - type: code-activate\n');
+
+        const loaded = loadPipeline(file);
+
+        expect(loaded.pipeline).to.deep.equal({targets: ['staging'], steps: [{type: 'code-activate'}]});
+        expect(loaded.directory).to.equal(tempDir);
+      }
+    });
+  });
+
+  describe('planPipeline', () => {
+    it('describes steps per target without remote calls', async () => {
+      fs.mkdirSync(path.join(tempDir, 'site-data', 'meta'), {recursive: true});
+      fs.writeFileSync(path.join(tempDir, 'site-data', 'meta', 'system-objecttype-extensions.xml'), '<metadata/>');
+      const file = writePipeline({
+        targets: ['staging', 'production'],
+        steps: [
+          {type: 'site-archive-import', path: 'site-data'},
+          {type: 'job-run', jobId: 'Reindex', parameters: {SiteScope: 'RefArch'}, targets: ['production']},
+        ],
+      });
+
+      const plan = await planPipeline(loadPipeline(file), {resolveTarget});
+
+      expect(plan.state).to.equal('new');
+      expect(plan.steps.map((s) => `${s.target}/${s.stepId}`)).to.deep.equal([
+        'staging/1-site-archive-import',
+        'production/1-site-archive-import',
+        'production/2-job-run',
+      ]);
+      expect(plan.steps[0].changes[0]).to.contain('(1 file(s))');
+      expect(plan.steps[2].changes).to.deep.equal(['Run job Reindex with SiteScope=RefArch']);
+    });
+  });
+
+  describe('applyPipeline', () => {
+    it('stops at a failing step and records it in the state file', async () => {
+      const file = writePipeline({targets: ['staging'], steps: [{type: 'site-archive-import', path: 'missing'}]});
+      const loaded = loadPipeline(file);
+
+      const result = await applyPipeline(loaded, {resolveTarget});
+
+      expect(result.succeeded).to.equal(false);
+      expect(result.steps[0].error).to.contain('Target not found');
+      const state = readPipelineState(result.statePath);
+      expect(state?.pipelineHash).to.equal(loaded.hash);
+      expect(state?.steps['staging/1-site-archive-import'].status).to.equal('failed');
+    });
+
+    it('refuses to resume a state file of a changed pipeline', async () => {
+      const file = writePipeline({targets: ['staging'], steps: [{type: 'site-archive-import', path: 'missing'}]});
+      await applyPipeline(loadPipeline(file), {resolveTarget});
+
+      writePipeline({targets: ['staging'], steps: [{type: 'site-archive-import', path: 'other'}]});
+
+      let error: Error | undefined;
+      try {
+        await applyPipeline(loadPipeline(file), {resolveTarget});
+      } catch (error_) {
+        error = error_ as Error;
+      }
+      expect(error?.message).to.contain('different version of the pipeline');
+
+      const result = await applyPipeline(loadPipeline(file), {resolveTarget, restart: true});
+      expect(result.steps[0].status).to.equal('failed');
+    });
+  });
+});
@@ -0,0 +1,177 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import {expect} from 'chai';
+import {http, HttpResponse} from 'msw';
+import {setupServer} from 'msw/node';
+import {createOcapiClient} from '@salesforce/b2c-tooling-sdk/clients';
+import {B2CInstance} from '@salesforce/b2c-tooling-sdk/instance';
+import {
+  addCartridge,
+  ensureCartridgesOnPath,
+  getCartridgePath,
+  removeCartridge,
+  setCartridgePath,
+} from '@salesforce/b2c-tooling-sdk/operations/sites';
+import {MockAuthStrategy} from '../../helpers/mock-auth.js';
+
+const TEST_HOST = 'test.demandware.net';
+const SITE_URL = `https://${TEST_HOST}/s/-/dw/data/*/sites/RefArch`;
+
+describe('operations/sites/cartridges', () => {
+  const server = setupServer();
+  const instance = new B2CInstance({hostname: TEST_HOST}, {});
+
+  before(() => {
+    server.listen({onUnhandledRequest: 'error'});
+    // Created after listen() so the client uses the intercepted fetch
+    Object.defineProperty(instance, 'ocapi', {value: createOcapiClient(TEST_HOST, new MockAuthStrategy())});
+  });
+
+  afterEach(() => {
+    server.resetHandlers();
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  describe('getCartridgePath', () => {
+    it('splits the cartridge path of the site', async () => {
+      server.use(
+        http.get(SITE_URL, () => HttpResponse.json({id: 'RefArch', cartridges: 'app_custom:app_storefront_base'})),
+      );
+
+      const result = await getCartridgePath(instance, 'RefArch');
+
+      expect(result).to.deep.equal({siteId: 'RefArch', cartridges: ['app_custom', 'app_storefront_base']});
+    });
+
+    it('throws if the site cannot be read', async () => {
+      server.use(http.get(SITE_URL, () => HttpResponse.json({fault: {type: 'SiteNotFoundException'}}, {status: 404})));
+
+      try {
+        await getCartridgePath(instance, 'RefArch');
+        expect.fail('Should have thrown');
+      } catch (error) {
+        expect((error as Error).message).to.equal('Failed to get cartridge path of site RefArch');
+      }
+    });
+  });
+
+  describe('addCartridge', () => {
+    it('posts the cartridge with its position', async () => {
+      let receivedBody: unknown;
+      server.use(
+        http.post(`${SITE_URL}/cartridges`, async ({request}) => {
+          receivedBody = await request.json();
+          return HttpResponse.json({site_id: 'RefArch', cartridges: 'app_custom:plugin_applepay:app_storefront_base'});
+        }),
+      );
+
+      const result = await addCartridge(instance, 'RefArch', 'plugin_applepay', {
+        position: 'after',
+        target: 'app_custom',
+      });
+
+      expect(receivedBody).to.deep.equal({name: 'plugin_applepay', position: 'after', target: 'app_custom'});
+      expect(result.cartridges).to.deep.equal(['app_custom', 'plugin_applepay', 'app_storefront_base']);
+    });
+
+    it('requires a target for relative positions', async () => {
+      try {
+        await addCartridge(instance, 'RefArch', 'plugin_applepay', {position: 'before'});
+        expect.fail('Should have thrown');
+      } catch (error) {
+        expect((error as Error).message).to.include("required for position 'before'");
+      }
+    });
+  });
+
+  describe('removeCartridge', () => {
+    it('deletes the cartridge from the path', async () => {
+      server.use(
+        http.delete(`${SITE_URL}/cartridges/plugin_applepay`, () =>
+          HttpResponse.json({site_id: 'RefArch', cartridges: 'app_custom:app_storefront_base'}),
+        ),
+      );
+
+      const result = await removeCartridge(instance, 'RefArch', 'plugin_applepay');
+
+      expect(result.cartridges).to.deep.equal(['app_custom', 'app_storefront_base']);
+    });
+
+    it('throws if the cartridge is not on the path', async () => {
+      server.use(
+        http.delete(`${SITE_URL}/cartridges/missing`, () =>
+          HttpResponse.json({fault: {type: 'CartridgeNotFoundException'}}, {status: 404}),
+        ),
+      );
+
+      try {
+        await removeCartridge(instance, 'RefArch', 'missing');
+        expect.fail('Should have thrown');
+      } catch (error) {
+        expect((error as Error).message).to.equal('Failed to remove cartridge missing from site RefArch');
+      }
+    });
+  });
+
+  describe('setCartridgePath', () => {
+    it('puts the joined cartridge path', async () => {
+      let receivedBody: unknown;
+      server.use(
+        http.put(`${SITE_URL}/cartridges`, async ({request}) => {
+          receivedBody = await request.json();
+          return HttpResponse.json({site_id: 'RefArch', cartridges: 'a:b'});
+        }),
+      );
+
+      const result = await setCartridgePath(instance, 'RefArch', ['a', 'b']);
+
+      expect(receivedBody).to.deep.equal({cartridges: 'a:b'});
+      expect(result).to.deep.equal({siteId: 'RefArch', cartridges: ['a', 'b']});
+    });
+  });
+
+  describe('ensureCartridgesOnPath', () => {
+    it('adds missing cartridges in order at the given position', async () => {
+      let receivedBody: unknown;
+      server.use(
+        http.get(SITE_URL, () => HttpResponse.json({id: 'RefArch', cartridges: 'app_custom:app_storefront_base'})),
+        http.put(`${SITE_URL}/cartridges`, async ({request}) => {
+          receivedBody = await request.json();
+          return HttpResponse.json({site_id: 'RefArch', cartridges: (receivedBody as {cartridges: string}).cartridges});
+        }),
+      );
+
+      const result = await ensureCartridgesOnPath(
+        instance,
+        'RefArch',
+        ['int_payment', 'app_custom', 'int_tax', 'int_payment'],
+        'last',
+      );
+
+      expect(receivedBody).to.deep.equal({cartridges: 'app_custom:app_storefront_base:int_payment:int_tax'});
+      expect(result.added).to.deep.equal(['int_payment', 'int_tax']);
+      expect(result.cartridges).to.deep.equal(['app_custom', 'app_storefront_base', 'int_payment', 'int_tax']);
+    });
+
+    it('does not update the site if all cartridges are already on the path', async () => {
+      // No PUT handler: an update request would fail the test as an unhandled request
+      server.use(
+        http.get(SITE_URL, () => HttpResponse.json({id: 'RefArch', cartridges: 'app_custom:app_storefront_base'})),
+      );
+
+      const result = await ensureCartridgesOnPath(instance, 'RefArch', ['app_storefront_base', 'app_custom']);
+
+      expect(result).to.deep.equal({
+        siteId: 'RefArch',
+        cartridges: ['app_custom', 'app_storefront_base'],
+        added: [],
+      });
+    });
+  });
+});
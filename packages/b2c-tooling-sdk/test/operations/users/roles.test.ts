@@ -0,0 +1,118 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import {expect} from 'chai';
+import {http, HttpResponse} from 'msw';
+import {setupServer} from 'msw/node';
+import {createOcapiClient} from '@salesforce/b2c-tooling-sdk/clients';
+import {B2CInstance} from '@salesforce/b2c-tooling-sdk/instance';
+import {grantRole, listRoles, revokeRole} from '@salesforce/b2c-tooling-sdk/operations/users';
+import {MockAuthStrategy} from '../../helpers/mock-auth.js';
+
+const TEST_HOST = 'test.demandware.net';
+const ROLES_URL = `https://${TEST_HOST}/s/-/dw/data/*/roles`;
+
+describe('operations/users/roles', () => {
+  const server = setupServer();
+  const instance = new B2CInstance({hostname: TEST_HOST}, {});
+
+  before(() => {
+    server.listen({onUnhandledRequest: 'error'});
+    // Created after listen() so the client uses the intercepted fetch
+    Object.defineProperty(instance, 'ocapi', {value: createOcapiClient(TEST_HOST, new MockAuthStrategy())});
+  });
+
+  afterEach(() => {
+    server.resetHandlers();
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  describe('listRoles', () => {
+    it('requests pages until all roles are read', async () => {
+      const ids = Array.from({length: 201}, (_, i) => `Role${i}`);
+      const starts: number[] = [];
+      server.use(
+        http.get(ROLES_URL, ({request}) => {
+          const url = new URL(request.url);
+          const start = Number(url.searchParams.get('start'));
+          const count = Number(url.searchParams.get('count'));
+          starts.push(start);
+          const data = ids.slice(start, start + count).map((id) => ({id}));
+          return HttpResponse.json({count: data.length, start, total: ids.length, data});
+        }),
+      );
+
+      const roles = await listRoles(instance);
+
+      expect(starts).to.deep.equal([0, 200]);
+      expect(roles.map((r) => r.id)).to.deep.equal(ids);
+    });
+  });
+
+  describe('grantRole', () => {
+    it('puts the user into the role', async () => {
+      let granted = false;
+      server.use(
+        http.put(`${ROLES_URL}/Administrator/users/jdoe`, () => {
+          granted = true;
+          return HttpResponse.json({login: 'jdoe'});
+        }),
+      );
+
+      await grantRole(instance, 'Administrator', 'jdoe');
+
+      expect(granted).to.equal(true);
+    });
+
+    it('throws if the role does not exist', async () => {
+      server.use(
+        http.put(`${ROLES_URL}/Missing/users/jdoe`, () =>
+          HttpResponse.json({fault: {type: 'RoleNotFoundException'}}, {status: 404}),
+        ),
+      );
+
+      try {
+        await grantRole(instance, 'Missing', 'jdoe');
+        expect.fail('Should have thrown');
+      } catch (error) {
+        expect((error as Error).message).to.equal('Failed to grant role Missing to jdoe');
+      }
+    });
+  });
+
+  describe('revokeRole', () => {
+    it('deletes the user from the role', async () => {
+      let revoked = false;
+      server.use(
+        http.delete(`${ROLES_URL}/Administrator/users/jdoe`, () => {
+          revoked = true;
+          return new HttpResponse(null, {status: 204});
+        }),
+      );
+
+      await revokeRole(instance, 'Administrator', 'jdoe');
+
+      expect(revoked).to.equal(true);
+    });
+
+    it('throws if the user is not assigned to the role', async () => {
+      server.use(
+        http.delete(`${ROLES_URL}/Administrator/users/jdoe`, () =>
+          HttpResponse.json({fault: {type: 'UserNotFoundException'}}, {status: 404}),
+        ),
+      );
+
+      try {
+        await revokeRole(instance, 'Administrator', 'jdoe');
+        expect.fail('Should have thrown');
+      } catch (error) {
+        expect((error as Error).message).to.equal('Failed to revoke role Administrator from jdoe');
+      }
+    });
+  });
+});
@@ -0,0 +1,141 @@
+/*
+ * Copyright (c) 2025, Salesforce, Inc.
+ * SPDX-License-Identifier: Apache-2
+ * For full license text, see the license.txt file in the repo root or http://www.apache.org/licenses/LICENSE-2.0
+ */
+import {expect} from 'chai';
+import {http, HttpResponse} from 'msw';
+import {setupServer} from 'msw/node';
+import {createOcapiClient} from '@salesforce/b2c-tooling-sdk/clients';
+import {B2CInstance} from '@salesforce/b2c-tooling-sdk/instance';
+import {createUser, listUsers, setUserDisabled} from '@salesforce/b2c-tooling-sdk/operations/users';
+import {MockAuthStrategy} from '../../helpers/mock-auth.js';
+
+const TEST_HOST = 'test.demandware.net';
+const USERS_URL = `https://${TEST_HOST}/s/-/dw/data/*/users`;
+
+describe('operations/users/users', () => {
+  const server = setupServer();
+  const instance = new B2CInstance({hostname: TEST_HOST}, {});
+
+  before(() => {
+    server.listen({onUnhandledRequest: 'error'});
+    // Created after listen() so the client uses the intercepted fetch
+    Object.defineProperty(instance, 'ocapi', {value: createOcapiClient(TEST_HOST, new MockAuthStrategy())});
+  });
+
+  afterEach(() => {
+    server.resetHandlers();
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  describe('listUsers', () => {
+    it('requests pages until all users are read', async () => {
+      const logins = Array.from({length: 250}, (_, i) => `user${i}`);
+      const starts: number[] = [];
+      server.use(
+        http.get(USERS_URL, ({request}) => {
+          const url = new URL(request.url);
+          const start = Number(url.searchParams.get('start'));
+          const count = Number(url.searchParams.get('count'));
+          starts.push(start);
+          const data = logins.slice(start, start + count).map((login) => ({login}));
+          return HttpResponse.json({count: data.length, start, total: logins.length, data});
+        }),
+      );
+
+      const users = await listUsers(instance);
+
+      expect(starts).to.deep.equal([0, 200]);
+      expect(users.map((u) => u.login)).to.deep.equal(logins);
+    });
+
+    it('stops at an empty page even if more users are reported', async () => {
+      let requests = 0;
+      server.use(
+        http.get(USERS_URL, () => {
+          requests++;
+          return HttpResponse.json({count: 0, start: 0, total: 5, data: []});
+        }),
+      );
+
+      const users = await listUsers(instance);
+
+      expect(users).to.deep.equal([]);
+      expect(requests).to.equal(1);
+    });
+  });
+
+  describe('createUser', () => {
+    it('puts the user with OCAPI property names', async () => {
+      let receivedBody: unknown;
+      server.use(
+        http.get(`${USERS_URL}/jdoe`, () => HttpResponse.json({fault: {type: 'UserNotFoundException'}}, {status: 404})),
+        http.put(`${USERS_URL}/jdoe`, async ({request}) => {
+          receivedBody = await request.json();
+          return HttpResponse.json({login: 'jdoe', email: 'jdoe@example.com', last_name: 'Doe'});
+        }),
+      );
+
+      const user = await createUser(instance, 'jdoe', {email: 'jdoe@example.com', lastName: 'Doe', firstName: 'Jane'});
+
+      expect(receivedBody).to.deep.equal({
+        login: 'jdoe',
+        email: 'jdoe@example.com',
+        last_name: 'Doe',
+        first_name: 'Jane',
+      });
+      expect(user.login).to.equal('jdoe');
+    });
+
+    it('does not overwrite an existing user', async () => {
+      // No PUT handler: overwriting the user would fail the test as an unhandled request
+      server.use(http.get(`${USERS_URL}/jdoe`, () => HttpResponse.json({login: 'jdoe'})));
+
+      try {
+        await createUser(instance, 'jdoe', {email: 'jdoe@example.com', lastName: 'Doe'});
+        expect.fail('Should have thrown');
+      } catch (error) {
+        expect((error as Error).message).to.equal('User jdoe already exists');
+      }
+    });
+  });
+
+  describe('setUserDisabled', () => {
+    it('patches only the disabled property', async () => {
+      const receivedBodies: unknown[] = [];
+      server.use(
+        http.patch(`${USERS_URL}/jdoe`, async ({request}) => {
+          const body = (await request.json()) as {disabled: boolean};
+          receivedBodies.push(body);
+          return HttpResponse.json({login: 'jdoe', disabled: body.disabled});
+        }),
+      );
+
+      const disabled = await setUserDisabled(instance, 'jdoe');
+      const enabled = await setUserDisabled(instance, 'jdoe', false);
+
+      expect(receivedBodies).to.deep.equal([{disabled: true}, {disabled: false}]);
+      expect(disabled.disabled).to.equal(true);
+      expect(enabled.disabled).to.equal(false);
+    });
+
+    it('throws if the user cannot be updated', async () => {
+      server.use(
+        http.patch(`${USERS_URL}/missing`, () =>
+          HttpResponse.json({fault: {type: 'UserNotFoundException'}}, {status: 404}),
+        ),
+      );
+
+      try {
+        await setUserDisabled(instance, 'missing');
+        expect.fail('Should have thrown');
+      } catch (error) {
+        expect((error as Error).message).to.equal('Failed to disable user missing');
+      }
+    });
+  });
+});